@@ -112,8 +112,8 @@ export const STATUS_TRANSITIONS: Record<string, string[]> = {
   in_progress: ['review', 'cancelled'],
   review: ['revision', 'completed', 'in_progress'],
   revision: ['in_progress'],
-  completed: ['delivered'],
-  delivered: [],
+  completed: ['delivered', 'revision'],
+  delivered: ['revision'],
   cancelled: [],
   refunded: [],
 };
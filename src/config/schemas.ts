@@ -109,6 +109,7 @@ export const siteConfigSchema = z.object({
     enableSamples: z.boolean(),
     enableReferralProgram: z.boolean(),
     enableSMS: z.boolean(),
+    enableWhatsApp: z.boolean(),
     maintenanceMode: z.boolean(),
   }),
 });
@@ -215,6 +216,7 @@ export const envSchema = z.object({
 
   // Security
   ENCRYPTION_KEY: z.string().length(64).regex(/^[a-f0-9]+$/i).optional(),
+  QUOTE_SIGNING_SECRET: z.string().min(32).optional(),
 
   // Redis
   UPSTASH_REDIS_URL: z.string().url().optional(),
@@ -272,6 +274,7 @@ export function validateEnv(): z.infer<typeof envSchema> {
     CAMPAY_ENV: import.meta.env.CAMPAY_ENV,
     RESEND_API_KEY: import.meta.env.RESEND_API_KEY,
     ENCRYPTION_KEY: import.meta.env.ENCRYPTION_KEY,
+    QUOTE_SIGNING_SECRET: import.meta.env.QUOTE_SIGNING_SECRET,
     UPSTASH_REDIS_URL: import.meta.env.UPSTASH_REDIS_URL,
     UPSTASH_REDIS_TOKEN: import.meta.env.UPSTASH_REDIS_TOKEN,
     PUBLIC_SITE_URL: import.meta.env.PUBLIC_SITE_URL,
@@ -293,6 +296,7 @@ export function validateProductionEnv(): string[] {
     'STRIPE_WEBHOOK_SECRET',
     'RESEND_API_KEY',
     'ENCRYPTION_KEY',
+    'QUOTE_SIGNING_SECRET',
   ] as const;
 
   for (const key of required) {
@@ -60,6 +60,7 @@ export const siteConfig = {
     enableSamples: true,
     enableReferralProgram: false, // Enable in Phase 2
     enableSMS: import.meta.env.PUBLIC_SMS_ENABLED === 'true', // Controlled by env var
+    enableWhatsApp: import.meta.env.PUBLIC_WHATSAPP_ENABLED === 'true', // Controlled by env var
     maintenanceMode: false,
   },
 } as const;
@@ -20,6 +20,12 @@ interface ImportMetaEnv {
   readonly CAMPAY_WEBHOOK_SECRET: string;
   readonly CAMPAY_ENV: 'demo' | 'prod';
 
+  // Mock payments (development/tests only)
+  readonly PAYMENT_PROVIDER?: 'live' | 'mock';
+  readonly MOCK_PAYMENT_SCENARIO?: 'success' | 'failure' | 'pending' | 'delayed';
+  readonly MOCK_PAYMENT_DELAY_MS?: string;
+  readonly MOCK_PAYMENT_WEBHOOK_SECRET?: string;
+
   // R2
   readonly R2_ACCOUNT_ID: string;
   readonly R2_ACCESS_KEY_ID: string;
@@ -32,8 +38,10 @@ interface ImportMetaEnv {
 
   // Security
   readonly ENCRYPTION_KEY: string;
+  readonly QUOTE_SIGNING_SECRET: string;
   readonly UPSTASH_REDIS_URL: string;
   readonly UPSTASH_REDIS_TOKEN: string;
+  readonly CRON_SECRET: string;
 
   // Monitoring
   readonly PUBLIC_SENTRY_DSN: string;
@@ -58,5 +66,6 @@ declare namespace App {
       permissions: string[];
     };
     csrfToken?: string;
+    locale?: import('./lib/i18n').Locale;
   }
 }
@@ -10,6 +10,10 @@ export type AuditAction =
   | 'order.status_change'
   | 'order.refund'
   | 'order.note_add'
+  | 'order.dispute_evidence'
+  | 'revision.accept'
+  | 'revision.reject'
+  | 'revision.complete'
   | 'customer.view'
   | 'customer.update'
   | 'customer.anonymize'
@@ -24,9 +28,14 @@ export type AuditAction =
   | 'occasion.delete'
   | 'sample.create'
   | 'sample.update'
-  | 'sample.delete';
+  | 'sample.delete'
+  | 'coupon.create'
+  | 'coupon.update'
+  | 'coupon.delete'
+  | 'webhook.replay'
+  | 'notification.resend';
 
-export type AuditResourceType = 'order' | 'customer' | 'analytics' | 'content' | 'settings' | 'occasion' | 'sample';
+export type AuditResourceType = 'order' | 'customer' | 'analytics' | 'content' | 'settings' | 'occasion' | 'sample' | 'coupon' | 'revision' | 'webhook_event' | 'notification';
 
 export interface AuditLogParams {
   admin_id: string;
@@ -165,6 +174,10 @@ export function formatAuditAction(action: AuditAction): string {
     'order.status_change': 'Changed order status',
     'order.refund': 'Processed refund',
     'order.note_add': 'Added note',
+    'order.dispute_evidence': 'Exported dispute evidence',
+    'revision.accept': 'Accepted revision request',
+    'revision.reject': 'Rejected revision request',
+    'revision.complete': 'Completed revision',
     'customer.view': 'Viewed customer',
     'customer.update': 'Updated customer',
     'customer.anonymize': 'Anonymized customer data',
@@ -180,6 +193,11 @@ export function formatAuditAction(action: AuditAction): string {
     'sample.create': 'Created sample',
     'sample.update': 'Updated sample',
     'sample.delete': 'Deleted sample',
+    'coupon.create': 'Created coupon',
+    'coupon.update': 'Updated coupon',
+    'coupon.delete': 'Deleted coupon',
+    'webhook.replay': 'Replayed webhook event',
+    'notification.resend': 'Resent notification',
   };
 
   return actionLabels[action] || action;
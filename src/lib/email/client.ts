@@ -5,6 +5,7 @@
 
 import { Resend } from 'resend';
 import { brandConfig, siteConfig } from '../../config';
+import { DEFAULT_LOCALE, getMessages, interpolate, type Locale } from '../i18n';
 
 // Lazy initialization
 let resendClient: Resend | null = null;
@@ -111,8 +112,12 @@ export type EmailTemplate =
   | 'status-update'
   | 'delivery'
   | 'cancellation'
+  | 'revision-received'
+  | 'revision-update'
   | 'password-reset'
-  | 'welcome';
+  | 'welcome'
+  | 'tier-change'
+  | 'dispute-alert';
 
 /**
  * Template data types
@@ -151,6 +156,22 @@ export interface CancellationData {
   reason?: string;
 }
 
+export interface RevisionReceivedData {
+  orderNumber: string;
+  customerName: string;
+  notes: string;
+  portalUrl: string;
+}
+
+export interface RevisionUpdateData {
+  orderNumber: string;
+  customerName: string;
+  update: 'accepted' | 'rejected' | 'completed';
+  roundNumber: number;
+  response?: string | null;
+  portalUrl: string;
+}
+
 export interface PasswordResetData {
   resetUrl: string;
   expiresIn: string;
@@ -161,23 +182,56 @@ export interface WelcomeData {
   verificationUrl?: string;
 }
 
+export interface TierChangeData {
+  agentName: string;
+  tierName: string;
+  previousTierName: string;
+  promoted: boolean;
+  conversions: number;
+  period: string;
+  commissionRate?: string;
+  dashboardUrl: string;
+}
+
+export interface DisputeAlertData {
+  orderNumber: string;
+  amount: string;
+  currency: string;
+  reason: string;
+  status: string;
+  outcome?: 'won' | 'lost';
+  evidenceDueBy?: string;
+  orderUrl: string;
+}
+
 export type TemplateData = {
   'order-confirmation': OrderConfirmationData;
   'status-update': StatusUpdateData;
   delivery: DeliveryData;
   cancellation: CancellationData;
+  'revision-received': RevisionReceivedData;
+  'revision-update': RevisionUpdateData;
   'password-reset': PasswordResetData;
   welcome: WelcomeData;
+  'tier-change': TierChangeData;
+  'dispute-alert': DisputeAlertData;
 };
 
 /**
  * Generate email HTML from template
+ * Customer templates are rendered in the recipient's locale; dispute-alert
+ * goes to staff and is always English.
  */
 export function renderTemplate<T extends EmailTemplate>(
   template: T,
-  data: TemplateData[T]
+  data: TemplateData[T],
+  locale: Locale = DEFAULT_LOCALE
 ): { subject: string; html: string; text: string } {
   const { colors, name: brandName } = brandConfig;
+  const messages = getMessages(locale);
+  const m = messages.email;
+  const greeting = (name: string) => interpolate(m.greeting, { name: escapeHtml(name) });
+  const copyright = `&copy; ${new Date().getFullYear()} ${escapeHtml(brandName)}. ${messages.footer.rightsReserved}`;
 
   // Base styles
   const baseStyles = `
@@ -198,37 +252,37 @@ export function renderTemplate<T extends EmailTemplate>(
       const d = data as OrderConfirmationData;
       const safePortalUrl = validateUrl(d.portalUrl, siteConfig.url);
       return {
-        subject: `Order Confirmed - ${escapeHtml(d.orderNumber)}`,
+        subject: interpolate(m.orderConfirmation.subject, { orderNumber: escapeHtml(d.orderNumber) }),
         html: `
           <!DOCTYPE html>
-          <html>
+          <html lang="${locale}">
           <head><style>${baseStyles}</style></head>
           <body>
             <div class="container">
               <div class="header"><h1>${escapeHtml(brandName)}</h1></div>
               <div class="content">
-                <h2>Thank You for Your Order!</h2>
-                <p>Hi ${escapeHtml(d.customerName)},</p>
-                <p>We've received your order and are excited to create your custom song!</p>
+                <h2>${m.orderConfirmation.heading}</h2>
+                <p>${greeting(d.customerName)}</p>
+                <p>${m.orderConfirmation.intro}</p>
                 <div class="highlight">
-                  <p><strong>Order Number:</strong> ${escapeHtml(d.orderNumber)}</p>
-                  <p><strong>Package:</strong> ${escapeHtml(d.packageName)}</p>
-                  <p><strong>Occasion:</strong> ${escapeHtml(d.occasionName)}</p>
-                  <p><strong>Amount Paid:</strong> ${escapeHtml(d.currency)} ${escapeHtml(d.amount)}</p>
-                  <p><strong>Estimated Delivery:</strong> ${escapeHtml(d.estimatedDelivery)}</p>
+                  <p><strong>${m.orderConfirmation.orderNumber}</strong> ${escapeHtml(d.orderNumber)}</p>
+                  <p><strong>${m.orderConfirmation.package}</strong> ${escapeHtml(d.packageName)}</p>
+                  <p><strong>${m.orderConfirmation.occasion}</strong> ${escapeHtml(d.occasionName)}</p>
+                  <p><strong>${m.orderConfirmation.amountPaid}</strong> ${escapeHtml(d.currency)} ${escapeHtml(d.amount)}</p>
+                  <p><strong>${m.orderConfirmation.estimatedDelivery}</strong> ${escapeHtml(d.estimatedDelivery)}</p>
                 </div>
-                <p>You can track your order progress anytime:</p>
-                <p><a href="${safePortalUrl}" class="button">View Order Status</a></p>
-                <p>We'll send you updates as we work on your song. If you have any questions, just reply to this email.</p>
+                <p>${m.orderConfirmation.track}</p>
+                <p><a href="${safePortalUrl}" class="button">${m.orderConfirmation.button}</a></p>
+                <p>${m.orderConfirmation.outro}</p>
               </div>
               <div class="footer">
-                <p>&copy; ${new Date().getFullYear()} ${escapeHtml(brandName)}. All rights reserved.</p>
+                <p>${copyright}</p>
               </div>
             </div>
           </body>
           </html>
         `,
-        text: `Thank you for your order ${d.orderNumber}!\n\nPackage: ${d.packageName}\nOccasion: ${d.occasionName}\nAmount: ${d.currency} ${d.amount}\nEstimated Delivery: ${d.estimatedDelivery}\n\nTrack your order: ${safePortalUrl}`,
+        text: `${interpolate(m.orderConfirmation.textIntro, { orderNumber: d.orderNumber })}\n\n${m.orderConfirmation.package} ${d.packageName}\n${m.orderConfirmation.occasion} ${d.occasionName}\n${m.orderConfirmation.amount} ${d.currency} ${d.amount}\n${m.orderConfirmation.estimatedDelivery} ${d.estimatedDelivery}\n\n${m.orderConfirmation.textTrack} ${safePortalUrl}`,
       };
     }
 
@@ -236,32 +290,32 @@ export function renderTemplate<T extends EmailTemplate>(
       const d = data as StatusUpdateData;
       const safePortalUrl = validateUrl(d.portalUrl, siteConfig.url);
       return {
-        subject: `Order Update - ${escapeHtml(d.orderNumber)}`,
+        subject: interpolate(m.statusUpdate.subject, { orderNumber: escapeHtml(d.orderNumber) }),
         html: `
           <!DOCTYPE html>
-          <html>
+          <html lang="${locale}">
           <head><style>${baseStyles}</style></head>
           <body>
             <div class="container">
               <div class="header"><h1>${escapeHtml(brandName)}</h1></div>
               <div class="content">
-                <h2>Order Status Update</h2>
-                <p>Hi ${escapeHtml(d.customerName)},</p>
-                <p>Your order <strong>${escapeHtml(d.orderNumber)}</strong> has been updated:</p>
+                <h2>${m.statusUpdate.heading}</h2>
+                <p>${greeting(d.customerName)}</p>
+                <p>${interpolate(m.statusUpdate.intro, { orderNumber: `<strong>${escapeHtml(d.orderNumber)}</strong>` })}</p>
                 <div class="highlight">
-                  <p><strong>New Status:</strong> ${escapeHtml(d.newStatus)}</p>
+                  <p><strong>${m.statusUpdate.newStatus}</strong> ${escapeHtml(d.newStatus)}</p>
                   <p>${escapeHtml(d.statusDescription)}</p>
                 </div>
-                <p><a href="${safePortalUrl}" class="button">View Order Details</a></p>
+                <p><a href="${safePortalUrl}" class="button">${m.statusUpdate.button}</a></p>
               </div>
               <div class="footer">
-                <p>&copy; ${new Date().getFullYear()} ${escapeHtml(brandName)}. All rights reserved.</p>
+                <p>${copyright}</p>
               </div>
             </div>
           </body>
           </html>
         `,
-        text: `Order ${d.orderNumber} Update\n\nNew Status: ${d.newStatus}\n${d.statusDescription}\n\nView details: ${safePortalUrl}`,
+        text: `${interpolate(m.statusUpdate.textTitle, { orderNumber: d.orderNumber })}\n\n${m.statusUpdate.newStatus} ${d.newStatus}\n${d.statusDescription}\n\n${m.statusUpdate.textDetails} ${safePortalUrl}`,
       };
     }
 
@@ -269,60 +323,127 @@ export function renderTemplate<T extends EmailTemplate>(
       const d = data as DeliveryData;
       const safeDownloadUrl = validateUrl(d.downloadUrl, siteConfig.url);
       return {
-        subject: `Your Song is Ready! - ${escapeHtml(d.orderNumber)}`,
+        subject: interpolate(m.delivery.subject, { orderNumber: escapeHtml(d.orderNumber) }),
         html: `
           <!DOCTYPE html>
-          <html>
+          <html lang="${locale}">
           <head><style>${baseStyles}</style></head>
           <body>
             <div class="container">
               <div class="header"><h1>${escapeHtml(brandName)}</h1></div>
               <div class="content">
-                <h2>Your Custom Song is Ready!</h2>
-                <p>Hi ${escapeHtml(d.customerName)},</p>
-                <p>Great news! Your ${escapeHtml(d.packageName)} song has been completed and is ready for download.</p>
-                <p><a href="${safeDownloadUrl}" class="button">Download Your Song</a></p>
-                <p style="font-size: 14px; color: #666;">This download link expires on ${escapeHtml(d.expiresAt)}.</p>
-                <p>We hope you love it! If you have any feedback or questions, we'd love to hear from you.</p>
+                <h2>${m.delivery.heading}</h2>
+                <p>${greeting(d.customerName)}</p>
+                <p>${interpolate(m.delivery.intro, { packageName: escapeHtml(d.packageName) })}</p>
+                <p><a href="${safeDownloadUrl}" class="button">${m.delivery.button}</a></p>
+                <p style="font-size: 14px; color: #666;">${interpolate(m.delivery.expires, { date: escapeHtml(d.expiresAt) })}</p>
+                <p>${m.delivery.outro}</p>
               </div>
               <div class="footer">
-                <p>&copy; ${new Date().getFullYear()} ${escapeHtml(brandName)}. All rights reserved.</p>
+                <p>${copyright}</p>
               </div>
             </div>
           </body>
           </html>
         `,
-        text: `Your song is ready!\n\nDownload: ${safeDownloadUrl}\nExpires: ${d.expiresAt}`,
+        text: `${m.delivery.textTitle}\n\n${m.delivery.textDownload} ${safeDownloadUrl}\n${m.delivery.textExpires} ${d.expiresAt}`,
       };
     }
 
     case 'cancellation': {
       const d = data as CancellationData;
       return {
-        subject: `Order Cancelled - ${escapeHtml(d.orderNumber)}`,
+        subject: interpolate(m.cancellation.subject, { orderNumber: escapeHtml(d.orderNumber) }),
         html: `
           <!DOCTYPE html>
-          <html>
+          <html lang="${locale}">
           <head><style>${baseStyles}</style></head>
           <body>
             <div class="container">
               <div class="header"><h1>${escapeHtml(brandName)}</h1></div>
               <div class="content">
-                <h2>Order Cancelled</h2>
-                <p>Hi ${escapeHtml(d.customerName)},</p>
-                <p>Your order <strong>${escapeHtml(d.orderNumber)}</strong> has been cancelled.</p>
-                ${d.refundAmount ? `<p>A refund of <strong>${escapeHtml(d.refundAmount)}</strong> will be processed within 5-10 business days.</p>` : ''}
-                ${d.reason ? `<p>Reason: ${escapeHtml(d.reason)}</p>` : ''}
-                <p>If you have any questions, please don't hesitate to reach out.</p>
+                <h2>${m.cancellation.heading}</h2>
+                <p>${greeting(d.customerName)}</p>
+                <p>${interpolate(m.cancellation.intro, { orderNumber: `<strong>${escapeHtml(d.orderNumber)}</strong>` })}</p>
+                ${d.refundAmount ? `<p>${interpolate(m.cancellation.refund, { amount: `<strong>${escapeHtml(d.refundAmount)}</strong>` })}</p>` : ''}
+                ${d.reason ? `<p>${interpolate(m.cancellation.reason, { reason: escapeHtml(d.reason) })}</p>` : ''}
+                <p>${m.cancellation.outro}</p>
               </div>
               <div class="footer">
-                <p>&copy; ${new Date().getFullYear()} ${escapeHtml(brandName)}. All rights reserved.</p>
+                <p>${copyright}</p>
               </div>
             </div>
           </body>
           </html>
         `,
-        text: `Order ${d.orderNumber} has been cancelled.${d.refundAmount ? ` Refund: ${d.refundAmount}` : ''}`,
+        text: `${interpolate(m.cancellation.intro, { orderNumber: d.orderNumber })}${d.refundAmount ? ` ${interpolate(m.cancellation.textRefund, { amount: d.refundAmount })}` : ''}`,
+      };
+    }
+
+    case 'revision-received': {
+      const d = data as RevisionReceivedData;
+      const safePortalUrl = validateUrl(d.portalUrl, siteConfig.url);
+      return {
+        subject: interpolate(m.revisionReceived.subject, { orderNumber: escapeHtml(d.orderNumber) }),
+        html: `
+          <!DOCTYPE html>
+          <html lang="${locale}">
+          <head><style>${baseStyles}</style></head>
+          <body>
+            <div class="container">
+              <div class="header"><h1>${escapeHtml(brandName)}</h1></div>
+              <div class="content">
+                <h2>${m.revisionReceived.heading}</h2>
+                <p>${greeting(d.customerName)}</p>
+                <p>${interpolate(m.revisionReceived.intro, { orderNumber: `<strong>${escapeHtml(d.orderNumber)}</strong>` })}</p>
+                <p><strong>${m.revisionReceived.feedback}</strong></p>
+                <div class="highlight">
+                  <p>${escapeHtml(d.notes).replace(/\n/g, '<br>')}</p>
+                </div>
+                <p>${m.revisionReceived.review}</p>
+                <p><a href="${safePortalUrl}" class="button">${m.revisionReceived.button}</a></p>
+              </div>
+              <div class="footer">
+                <p>${copyright}</p>
+              </div>
+            </div>
+          </body>
+          </html>
+        `,
+        text: `${interpolate(m.revisionReceived.subject, { orderNumber: d.orderNumber })}\n\n${interpolate(m.greeting, { name: d.customerName })}\n\n${interpolate(m.revisionReceived.intro, { orderNumber: d.orderNumber })}\n\n${m.revisionReceived.feedback}\n${d.notes}\n\n${m.revisionReceived.review}\n\n${m.revisionReceived.textTrack} ${safePortalUrl}`,
+      };
+    }
+
+    case 'revision-update': {
+      const d = data as RevisionUpdateData;
+      const safePortalUrl = validateUrl(d.portalUrl, siteConfig.url);
+      const copy = m.revisionUpdate[d.update];
+      const message = interpolate(copy.message, { round: d.roundNumber });
+      return {
+        subject: interpolate(copy.subject, { orderNumber: escapeHtml(d.orderNumber) }),
+        html: `
+          <!DOCTYPE html>
+          <html lang="${locale}">
+          <head><style>${baseStyles}</style></head>
+          <body>
+            <div class="container">
+              <div class="header"><h1>${escapeHtml(brandName)}</h1></div>
+              <div class="content">
+                <h2>${copy.heading}</h2>
+                <p>${greeting(d.customerName)}</p>
+                <p>${message}</p>
+                ${d.response ? `<div class="highlight"><p>${escapeHtml(d.response).replace(/\n/g, '<br>')}</p></div>` : ''}
+                <p>${m.revisionUpdate.follow}</p>
+                <p><a href="${safePortalUrl}" class="button">${m.revisionUpdate.button}</a></p>
+              </div>
+              <div class="footer">
+                <p>${copyright}</p>
+              </div>
+            </div>
+          </body>
+          </html>
+        `,
+        text: `${interpolate(copy.subject, { orderNumber: d.orderNumber })}\n\n${interpolate(m.greeting, { name: d.customerName })}\n\n${message}\n\n${d.response ? `${d.response}\n\n` : ''}${m.revisionUpdate.textTrack} ${safePortalUrl}`,
       };
     }
 
@@ -330,29 +451,29 @@ export function renderTemplate<T extends EmailTemplate>(
       const d = data as PasswordResetData;
       const safeResetUrl = validateUrl(d.resetUrl, siteConfig.url);
       return {
-        subject: 'Reset Your Password',
+        subject: m.passwordReset.subject,
         html: `
           <!DOCTYPE html>
-          <html>
+          <html lang="${locale}">
           <head><style>${baseStyles}</style></head>
           <body>
             <div class="container">
               <div class="header"><h1>${escapeHtml(brandName)}</h1></div>
               <div class="content">
-                <h2>Reset Your Password</h2>
-                <p>You requested to reset your password. Click the button below to create a new password:</p>
-                <p><a href="${safeResetUrl}" class="button">Reset Password</a></p>
-                <p style="font-size: 14px; color: #666;">This link expires in ${escapeHtml(d.expiresIn)}.</p>
-                <p>If you didn't request this, you can safely ignore this email.</p>
+                <h2>${m.passwordReset.subject}</h2>
+                <p>${m.passwordReset.intro}</p>
+                <p><a href="${safeResetUrl}" class="button">${m.passwordReset.button}</a></p>
+                <p style="font-size: 14px; color: #666;">${interpolate(m.passwordReset.expires, { expiresIn: escapeHtml(d.expiresIn) })}</p>
+                <p>${m.passwordReset.outro}</p>
               </div>
               <div class="footer">
-                <p>&copy; ${new Date().getFullYear()} ${escapeHtml(brandName)}. All rights reserved.</p>
+                <p>${copyright}</p>
               </div>
             </div>
           </body>
           </html>
         `,
-        text: `Reset your password: ${safeResetUrl}\nExpires in ${d.expiresIn}`,
+        text: `${m.passwordReset.textReset} ${safeResetUrl}\n${interpolate(m.passwordReset.textExpires, { expiresIn: d.expiresIn })}`,
       };
     }
 
@@ -360,28 +481,122 @@ export function renderTemplate<T extends EmailTemplate>(
       const d = data as WelcomeData;
       const safeVerificationUrl = d.verificationUrl ? validateUrl(d.verificationUrl, siteConfig.url) : null;
       return {
-        subject: `Welcome to ${escapeHtml(brandName)}!`,
+        subject: interpolate(m.welcome.subject, { brand: escapeHtml(brandName) }),
+        html: `
+          <!DOCTYPE html>
+          <html lang="${locale}">
+          <head><style>${baseStyles}</style></head>
+          <body>
+            <div class="container">
+              <div class="header"><h1>${escapeHtml(brandName)}</h1></div>
+              <div class="content">
+                <h2>${interpolate(m.welcome.heading, { name: escapeHtml(d.customerName) })}</h2>
+                <p>${interpolate(m.welcome.intro, { brand: escapeHtml(brandName) })}</p>
+                ${safeVerificationUrl ? `<p><a href="${safeVerificationUrl}" class="button">${m.welcome.button}</a></p>` : ''}
+                <p>${m.welcome.outro}</p>
+              </div>
+              <div class="footer">
+                <p>${copyright}</p>
+              </div>
+            </div>
+          </body>
+          </html>
+        `,
+        text: `${interpolate(m.welcome.textTitle, { brand: brandName, name: d.customerName })}${safeVerificationUrl ? `\n\n${m.welcome.textVerify} ${safeVerificationUrl}` : ''}`,
+      };
+    }
+
+    case 'tier-change': {
+      const d = data as TierChangeData;
+      const safeDashboardUrl = validateUrl(d.dashboardUrl, siteConfig.url);
+      const headline = interpolate(d.promoted ? m.tierChange.headlinePromoted : m.tierChange.headlineChanged, {
+        tier: d.tierName,
+      });
+      const rateLine = (rate: string) =>
+        d.commissionRate ? interpolate(m.tierChange.rate, { rate }) : m.tierChange.standardRate;
+      const conversionsLine = (values: Record<string, string | number>) =>
+        interpolate(d.conversions === 1 ? m.tierChange.conversionsOne : m.tierChange.conversionsMany, values);
+      return {
+        subject: interpolate(d.promoted ? m.tierChange.subjectPromoted : m.tierChange.subjectChanged, {
+          tier: escapeHtml(d.tierName),
+        }),
+        html: `
+          <!DOCTYPE html>
+          <html lang="${locale}">
+          <head><style>${baseStyles}</style></head>
+          <body>
+            <div class="container">
+              <div class="header"><h1>${escapeHtml(brandName)}</h1></div>
+              <div class="content">
+                <h2>${escapeHtml(headline)}</h2>
+                <p>${greeting(d.agentName)}</p>
+                <p>${conversionsLine({
+                  count: `<strong>${d.conversions}</strong>`,
+                  period: escapeHtml(d.period),
+                  previous: escapeHtml(d.previousTierName),
+                  tier: `<strong>${escapeHtml(d.tierName)}</strong>`,
+                })}</p>
+                <div class="highlight">
+                  <p>${rateLine(`<strong>${escapeHtml(d.commissionRate ?? '')}</strong>`)}</p>
+                </div>
+                <p>${d.promoted ? m.tierChange.promotedOutro : m.tierChange.demotedOutro}</p>
+                <p><a href="${safeDashboardUrl}" class="button">${m.tierChange.button}</a></p>
+              </div>
+              <div class="footer">
+                <p>${copyright}</p>
+              </div>
+            </div>
+          </body>
+          </html>
+        `,
+        text: `${interpolate(m.greeting, { name: d.agentName })}\n\n${conversionsLine({
+          count: d.conversions,
+          period: d.period,
+          previous: d.previousTierName,
+          tier: d.tierName,
+        })}\n${rateLine(d.commissionRate ?? '')}\n\n${m.tierChange.textDashboard} ${safeDashboardUrl}`,
+      };
+    }
+
+    case 'dispute-alert': {
+      const d = data as DisputeAlertData;
+      const safeOrderUrl = validateUrl(d.orderUrl, siteConfig.url);
+      const headline = d.outcome
+        ? `Dispute ${d.outcome} - ${d.orderNumber}`
+        : `Payment dispute opened - ${d.orderNumber}`;
+      const summary = d.outcome === 'won'
+        ? 'The dispute was closed in our favour. Delivery and downloads are unfrozen and the held commissions have been released.'
+        : d.outcome === 'lost'
+          ? 'The dispute was lost and the funds have been withdrawn. The disputed share of the commissions has been clawed back.'
+          : 'Delivery and downloads are frozen and the order\'s commissions are on hold until the dispute is closed.';
+      return {
+        subject: headline,
         html: `
           <!DOCTYPE html>
-          <html>
+          <html lang="${locale}">
           <head><style>${baseStyles}</style></head>
           <body>
             <div class="container">
               <div class="header"><h1>${escapeHtml(brandName)}</h1></div>
               <div class="content">
-                <h2>Welcome, ${escapeHtml(d.customerName)}!</h2>
-                <p>Thank you for joining ${escapeHtml(brandName)}. We're excited to help you create personalized songs for life's special moments.</p>
-                ${safeVerificationUrl ? `<p><a href="${safeVerificationUrl}" class="button">Verify Your Email</a></p>` : ''}
-                <p>Ready to get started? Browse our packages and find the perfect option for your occasion.</p>
+                <h2>${escapeHtml(headline)}</h2>
+                <div class="highlight">
+                  <p><strong>Amount:</strong> ${escapeHtml(d.amount)} ${escapeHtml(d.currency)}</p>
+                  <p><strong>Reason:</strong> ${escapeHtml(d.reason)}</p>
+                  <p><strong>Status:</strong> ${escapeHtml(d.status)}</p>
+                  ${d.evidenceDueBy && !d.outcome ? `<p><strong>Evidence due by:</strong> ${escapeHtml(d.evidenceDueBy)}</p>` : ''}
+                </div>
+                <p>${summary}</p>
+                <p><a href="${safeOrderUrl}" class="button">View Order</a></p>
               </div>
               <div class="footer">
-                <p>&copy; ${new Date().getFullYear()} ${escapeHtml(brandName)}. All rights reserved.</p>
+                <p>${copyright}</p>
               </div>
             </div>
           </body>
           </html>
         `,
-        text: `Welcome to ${brandName}, ${d.customerName}!${safeVerificationUrl ? `\n\nVerify your email: ${safeVerificationUrl}` : ''}`,
+        text: `${headline}\n\nAmount: ${d.amount} ${d.currency}\nReason: ${d.reason}\nStatus: ${d.status}${d.evidenceDueBy && !d.outcome ? `\nEvidence due by: ${d.evidenceDueBy}` : ''}\n\n${summary}\n\nOrder: ${safeOrderUrl}`,
       };
     }
 
@@ -396,8 +611,9 @@ export function renderTemplate<T extends EmailTemplate>(
 export async function sendTemplatedEmail<T extends EmailTemplate>(
   to: string,
   template: T,
-  data: TemplateData[T]
+  data: TemplateData[T],
+  locale: Locale = DEFAULT_LOCALE
 ): Promise<SendEmailResult> {
-  const { subject, html, text } = renderTemplate(template, data);
+  const { subject, html, text } = renderTemplate(template, data, locale);
   return sendEmail({ to, subject, html, text });
 }
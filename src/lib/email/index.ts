@@ -14,6 +14,8 @@ export {
   type StatusUpdateData,
   type DeliveryData,
   type CancellationData,
+  type RevisionReceivedData,
+  type RevisionUpdateData,
   type PasswordResetData,
   type WelcomeData,
 } from './client';
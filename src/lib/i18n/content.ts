@@ -0,0 +1,36 @@
+/**
+ * Localized Database Content
+ * Config tables (packages, occasions, samples, testimonials) keep their
+ * English text in the regular columns and other locales in a
+ * translations JSONB column:
+ *
+ *   { "fr": { "name": "Mariage", "tagline": "..." } }
+ *
+ * Fields missing from a translation fall back to the English column.
+ */
+
+import type { Json } from '../../types/database.types';
+import { DEFAULT_LOCALE, type Locale } from './index';
+
+export type Translations = Partial<Record<Locale, Record<string, string>>>;
+
+/**
+ * Overlay a row's translated fields for a locale
+ */
+export function localizeContent<T extends { translations: Json }>(row: T, locale: Locale): T {
+  if (locale === DEFAULT_LOCALE) return row;
+
+  const translation = (row.translations as Translations | null)?.[locale];
+  if (!translation) return row;
+
+  const localized = { ...row } as Record<string, unknown>;
+  for (const [field, value] of Object.entries(translation)) {
+    // Only replace text columns, and never with an empty string
+    const current = localized[field];
+    if (typeof value === 'string' && value.trim() && (typeof current === 'string' || current === null)) {
+      localized[field] = value;
+    }
+  }
+
+  return localized as T;
+}
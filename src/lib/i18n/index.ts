@@ -0,0 +1,154 @@
+/**
+ * Internationalization
+ * Supported locales, locale detection and localized routes
+ *
+ * English pages are served at their plain path and French pages under
+ * /fr (see i18n in astro.config.mjs). Only LOCALIZED_ROUTES and the pages
+ * in LOCALIZED_SECTIONS have a French page; every other route has a single
+ * URL and is rendered in English.
+ */
+
+export const LOCALES = ['en', 'fr'] as const;
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const LOCALE_COOKIE_NAME = 'evt_locale';
+
+// Names shown in the language switcher, in their own language
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  fr: 'Français',
+};
+
+// Open Graph locale and Intl tag per locale
+export const OG_LOCALES: Record<Locale, string> = {
+  en: 'en_US',
+  fr: 'fr_FR',
+};
+
+const INTL_LOCALES: Record<Locale, string> = {
+  en: 'en-US',
+  fr: 'fr-FR',
+};
+
+/**
+ * Routes that have a page per locale
+ */
+export const LOCALIZED_ROUTES = ['/', '/about', '/services', '/samples', '/contact'];
+
+/**
+ * Sections where every page has a page per locale
+ */
+export const LOCALIZED_SECTIONS = ['/auth', '/order', '/dashboard'];
+
+/**
+ * Check if a value is a supported locale
+ */
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as readonly string[]).includes(value);
+}
+
+/**
+ * Normalize a language tag or stored preference ('fr-CM', 'FR', null)
+ * Unsupported values fall back to the default locale.
+ */
+export function toLocale(value: string | null | undefined): Locale {
+  const language = value?.trim().toLowerCase().split(/[-_]/)[0];
+  return isLocale(language) ? language : DEFAULT_LOCALE;
+}
+
+/**
+ * Pick the best supported locale from an Accept-Language header
+ */
+export function negotiateLocale(acceptLanguage: string | null): Locale | null {
+  if (!acceptLanguage) return null;
+
+  const ranked = acceptLanguage
+    .split(',')
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(';');
+      const q = params.find((p) => p.trim().startsWith('q='));
+      return { tag: tag.trim(), q: q ? parseFloat(q.trim().slice(2)) || 0 : 1 };
+    })
+    .filter(({ tag, q }) => tag && q > 0)
+    .sort((a, b) => b.q - a.q);
+
+  for (const { tag } of ranked) {
+    const language = tag.toLowerCase().split('-')[0];
+    if (isLocale(language)) {
+      return language;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get the locale a path belongs to (/fr/about -> fr)
+ */
+export function getLocaleFromPath(pathname: string): Locale {
+  const segment = pathname.split('/')[1];
+  return isLocale(segment) && segment !== DEFAULT_LOCALE ? segment : DEFAULT_LOCALE;
+}
+
+/**
+ * Remove the locale prefix from a path (/fr/about -> /about)
+ */
+export function stripLocaleFromPath(pathname: string): string {
+  const locale = getLocaleFromPath(pathname);
+  if (locale === DEFAULT_LOCALE) return pathname;
+
+  const stripped = pathname.slice(locale.length + 1);
+  return stripped === '' ? '/' : stripped;
+}
+
+/**
+ * Check if a route (without locale prefix) has a page per locale
+ */
+export function isLocalizedRoute(pathname: string): boolean {
+  const path = pathname.length > 1 ? pathname.replace(/\/$/, '') : pathname;
+  return (
+    LOCALIZED_ROUTES.includes(path) ||
+    LOCALIZED_SECTIONS.some((section) => path === section || path.startsWith(`${section}/`))
+  );
+}
+
+/**
+ * Build the URL of a route in a locale
+ * Keeps query string and hash; routes without a French page are returned unchanged.
+ */
+export function localizePath(path: string, locale: Locale): string {
+  const match = path.match(/^([^?#]*)(.*)$/);
+  const pathname = stripLocaleFromPath(match?.[1] || '/');
+  const suffix = match?.[2] ?? '';
+
+  if (locale === DEFAULT_LOCALE || !isLocalizedRoute(pathname)) {
+    return pathname + suffix;
+  }
+
+  return (pathname === '/' ? `/${locale}` : `/${locale}${pathname}`) + suffix;
+}
+
+/**
+ * Format a date for a locale
+ */
+export function formatDate(
+  date: string | Date,
+  locale: Locale,
+  options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'long', day: 'numeric' }
+): string {
+  return new Date(date).toLocaleDateString(INTL_LOCALES[locale], options);
+}
+
+/**
+ * Replace {placeholders} in a message
+ */
+export function interpolate(message: string, values: Record<string, string | number>): string {
+  return message.replace(/\{(\w+)\}/g, (placeholder, key) =>
+    key in values ? String(values[key]) : placeholder
+  );
+}
+
+export { getMessages, type Messages } from './messages';
+export { localizeContent, type Translations } from './content';
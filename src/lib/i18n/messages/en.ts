@@ -0,0 +1,1069 @@
+/**
+ * English Messages
+ * Source catalog; every other locale must provide the same keys
+ */
+
+import { siteConfig } from '../../../config/site.config';
+
+export const en = {
+  meta: {
+    defaultTitle: siteConfig.seo.defaultTitle as string,
+    defaultDescription: siteConfig.seo.defaultDescription as string,
+  },
+
+  common: {
+    orderNow: 'Order Now',
+    orderYourSong: 'Order Your Song',
+    startYourOrder: 'Start Your Order',
+    viewPackages: 'View Packages',
+    contactUs: 'Contact Us',
+    getInTouch: 'Get in Touch',
+    readyToGetStarted: 'Ready to Get Started?',
+    mostPopular: 'Most Popular',
+    login: 'Login',
+    signUp: 'Sign Up',
+    menu: 'Menu',
+    openMenu: 'Open menu',
+    closeMenu: 'Close menu',
+    language: 'Language',
+    days: '{count} days',
+    daysRange: '{min}-{max} days',
+    other: 'Other',
+  },
+
+  nav: {
+    services: 'Services',
+    samples: 'Samples',
+    about: 'About',
+    contact: 'Contact',
+  },
+
+  footer: {
+    blurb: "Creating personalized songs for life's special moments.",
+    quickLinks: 'Quick Links',
+    occasions: 'Occasions',
+    legal: 'Legal',
+    weddingSongs: 'Wedding Songs',
+    birthdaySongs: 'Birthday Songs',
+    anniversarySongs: 'Anniversary Songs',
+    graduationSongs: 'Graduation Songs',
+    privacyPolicy: 'Privacy Policy',
+    terms: 'Terms of Service',
+    refundPolicy: 'Refund Policy',
+    rightsReserved: 'All rights reserved.',
+  },
+
+  home: {
+    heroTitle: 'Your Event.',
+    heroHighlight: 'Your Tune.',
+    heroText:
+      'Professional custom songs crafted for your special moments. Weddings, birthdays, anniversaries, and more — we turn your stories into melodies.',
+    explorePackages: 'Explore Packages',
+    listenToSamples: 'Listen to Samples',
+    howItWorksTitle: 'How It Works',
+    howItWorksText: "Creating your custom song is simple. Here's the journey from story to song.",
+    steps: [
+      { title: 'Choose', description: 'Select your package and occasion' },
+      { title: 'Share', description: 'Tell us your story and memories' },
+      { title: 'Create', description: 'We craft your personalized song' },
+      { title: 'Receive', description: 'Get your song delivered digitally' },
+    ],
+    packagesTitle: 'Choose Your Package',
+    packagesText: 'From quick turnarounds to premium productions, we have options for every celebration.',
+    delivery: '{days} delivery',
+    revisionOne: '1 revision',
+    revisionMany: '{count} revisions',
+    discoveryCall: 'Discovery call',
+    instrumentalTrack: 'Instrumental track',
+    fullRights: 'Full ownership rights',
+    selectPackage: 'Select Package',
+    xafPricing: 'Cameroon pricing available in XAF.',
+    viewAllPricing: 'View all pricing',
+    occasionsTitle: 'Every Occasion Deserves a Song',
+    occasionsText: "Whether it's a milestone celebration or an everyday moment made special.",
+    testimonialsTitle: 'What Our Customers Say',
+    testimonialsText: 'Real stories from real people who turned their moments into melodies.',
+    faqTitle: 'Frequently Asked Questions',
+    faqText: 'Everything you need to know about our custom song service.',
+    moreQuestions: 'Have more questions?',
+    ctaTitle: 'Ready to Create Something Special?',
+    ctaText: 'Start your journey today. Your story deserves to be told in song.',
+    ctaButton: 'Get Started Now',
+  },
+
+  about: {
+    title: 'About Us | Eventune Studios',
+    description:
+      "Learn about Eventune Studios, our mission to create personalized songs for life's special moments, and the team behind your custom music.",
+    heroTitle: 'Turning Stories Into',
+    heroHighlight: 'Melodies',
+    heroText:
+      "At Eventune Studios, we believe every celebration deserves a soundtrack. We're here to transform your most precious moments into songs you'll treasure forever.",
+    stats: [
+      { number: '500+', label: 'Songs Created' },
+      { number: '15+', label: 'Countries Served' },
+      { number: '98%', label: 'Customer Satisfaction' },
+      { number: '4', label: 'Years of Experience' },
+    ],
+    storyTitle: 'Our Story',
+    story: [
+      'Eventune Studios was born from a simple belief: music has the power to capture emotions that words alone cannot express. We started with a dream to help people celebrate their most important moments with songs that are uniquely theirs.',
+      "What began as a passion project has grown into a trusted service for customers around the world. From intimate birthday surprises to grand wedding celebrations, we've had the privilege of being part of countless special moments.",
+      'Our team includes talented songwriters, skilled producers, and amazing vocalists who share our commitment to creating music that moves hearts. Every song we create is crafted with care, attention to detail, and a deep respect for the stories entrusted to us.',
+    ],
+    tagline: 'Your Event. Your Tune.',
+    valuesTitle: 'Our Values',
+    valuesText: 'These principles guide everything we do at Eventune Studios.',
+    values: [
+      {
+        icon: '💝',
+        title: 'Personal Connection',
+        description: 'Every song we create is deeply personal. We take the time to understand your story before we put pen to paper.',
+      },
+      {
+        icon: '🎵',
+        title: 'Musical Excellence',
+        description: 'Our network of professional songwriters, producers, and vocalists ensures every song meets the highest standards.',
+      },
+      {
+        icon: '🤝',
+        title: 'Customer First',
+        description: 'Your satisfaction is our priority. We work with you through revisions until the song perfectly captures your vision.',
+      },
+      {
+        icon: '🌍',
+        title: 'Global Reach',
+        description: 'From Douala to New York, we serve customers worldwide, bringing personalized music to celebrations everywhere.',
+      },
+    ],
+    processTitle: 'How We Work',
+    processText: "From your first idea to the final song, here's what you can expect.",
+    processSteps: [
+      {
+        title: 'Share Your Story',
+        description: "Fill out our questionnaire with details about your celebration, the person you're honoring, and the memories you want to capture.",
+      },
+      {
+        title: 'Consultation',
+        description: 'For Classic packages and above, we schedule a discovery call to dive deeper into your story and discuss musical preferences.',
+      },
+      {
+        title: 'Creation',
+        description: 'Our songwriters craft original lyrics, and our producers create a beautiful arrangement tailored to your style.',
+      },
+      {
+        title: 'Review & Refine',
+        description: 'You receive your song and can request revisions to ensure it perfectly captures your vision.',
+      },
+      {
+        title: 'Delivery',
+        description: 'Your final song is delivered in high-quality audio formats, ready to make your celebration unforgettable.',
+      },
+    ],
+    missionTitle: 'Our Mission',
+    mission:
+      "To create personalized music that captures the essence of life's most meaningful moments, making every celebration more memorable, more emotional, and uniquely yours.",
+    missionSignature: 'The Eventune Studios Team',
+    ctaTitle: "Let's Create Something Beautiful",
+    ctaText:
+      "Ready to turn your story into a song? We'd love to hear about your celebration and help you create a moment that will be remembered forever.",
+  },
+
+  services: {
+    title: 'Services & Pricing | Eventune Studios',
+    description:
+      'Choose the perfect song tier and add-ons for your custom song. From quick tunes to epic productions with full rights ownership.',
+    heroTitle: 'Services & Pricing',
+    heroText:
+      'Build your perfect custom song package with flexible pricing. Start with a song tier, then add videos, licenses, and more.',
+    tiersTitle: 'Song Tiers',
+    tiersText: 'Choose your base song tier, then customize with add-ons below.',
+    songLength: 'Song Length:',
+    delivery: 'Delivery:',
+    revisions: 'Revisions:',
+    discoveryCallIncluded: 'Discovery call included',
+    instrumentalIncluded: 'Instrumental track included',
+    choosePackage: 'Choose {name}',
+    videoTitle: 'Video Add-ons',
+    videoText: 'Bring your song to life with a professional video.',
+    lyricVideo: 'Lyric',
+    musicVideo: 'Music',
+    additionalDays: '+{count} days',
+    addonsTitle: 'Customize Your Order',
+    addonsText: 'Add extra features to make your song perfect.',
+    bundlesTitle: 'Multi-Song Bundles',
+    bundlesText: 'Save big when ordering multiple songs at once.',
+    off: 'OFF',
+    songs: 'Songs',
+    ctaText: 'Choose your song tier and customize with add-ons during checkout.',
+  },
+
+  samples: {
+    title: 'Song Samples | Eventune Studios',
+    description:
+      'Listen to samples of our custom songs. Hear examples of wedding songs, birthday songs, anniversary songs, and more.',
+    heroTitle: 'Listen to Our Work',
+    heroText: "Every song tells a unique story. Listen to samples of the custom songs we've created for our customers.",
+    allSamples: 'All Samples',
+    video: 'VIDEO',
+    play: 'Play',
+    empty: 'No samples found for this occasion.',
+    ctaTitle: 'Ready for Your Own Custom Song?',
+    ctaText: 'Let us create something special for your celebration. Every song we make is unique to your story.',
+  },
+
+  contact: {
+    title: 'Contact Us | Eventune Studios',
+    description:
+      "Get in touch with Eventune Studios. We're here to answer your questions and help you create the perfect custom song for your celebration.",
+    heroText: "Have questions about our services? Want to discuss a custom project? We'd love to hear from you.",
+    methods: {
+      email: { title: 'Email Us', description: 'Send us a message anytime' },
+      whatsapp: { title: 'WhatsApp', description: 'Chat with us directly' },
+      social: { title: 'Social Media', description: 'Follow us for updates' },
+    },
+    formTitle: 'Send Us a Message',
+    firstName: 'First Name',
+    lastName: 'Last Name',
+    email: 'Email Address',
+    phone: 'Phone Number (Optional)',
+    occasion: 'Occasion Type',
+    selectOccasion: 'Select an occasion',
+    occasions: {
+      wedding: 'Wedding',
+      birthday: 'Birthday',
+      anniversary: 'Anniversary',
+      graduation: 'Graduation',
+      other: 'Other',
+    },
+    message: 'Your Message',
+    messagePlaceholder: 'Tell us about your celebration and how we can help...',
+    consent:
+      'I agree to receive communications from Eventune Studios. We respect your privacy and will never share your information.',
+    send: 'Send Message',
+    sending: 'Sending...',
+    success: "Thank you for your message! We'll get back to you within 24 hours.",
+    error: 'Something went wrong. Please try again or contact us directly.',
+    faqTitle: 'Common Questions',
+    faqs: [
+      {
+        question: 'How quickly will you respond?',
+        answer: 'We typically respond to all inquiries within 24 hours, often much sooner. For urgent matters, WhatsApp is the fastest way to reach us.',
+      },
+      {
+        question: 'What information should I include?',
+        answer: 'Please include your name, the type of occasion, your timeline, and any specific questions you have. The more details, the better we can help!',
+      },
+      {
+        question: 'Can I request a custom package?',
+        answer: "Absolutely! If our standard packages don't quite fit your needs, reach out and we'll work together to create a custom solution.",
+      },
+    ],
+    promiseTitle: 'Quick Response Promise',
+    promiseText:
+      "We understand time is often of the essence for celebrations. That's why we commit to responding to all inquiries within 24 hours, usually much sooner.",
+    hoursTitle: 'Business Hours',
+    weekdays: 'Monday - Friday',
+    saturday: 'Saturday',
+    sunday: 'Sunday',
+    closed: 'Closed',
+    hoursNote: 'We monitor messages outside business hours for urgent requests.',
+    ctaText:
+      'Skip the questions and jump straight to ordering your custom song. Our questionnaire will gather all the details we need.',
+    ctaButton: 'Order Your Song Now',
+  },
+
+  auth: {
+    emailLabel: 'Email Address',
+    emailPlaceholder: 'you@example.com',
+    passwordLabel: 'Password',
+    confirmPasswordLabel: 'Confirm Password',
+    backToLogin: 'Back to Login',
+    checkEmailTitle: 'Check Your Email',
+    unexpectedError: 'An unexpected error occurred. Please try again.',
+    passwordsDoNotMatch: 'Passwords do not match.',
+    weakPassword: 'Please choose a stronger password. Include uppercase, lowercase, numbers, and special characters.',
+    sending: 'Sending...',
+    strength: {
+      weak: 'Weak',
+      fair: 'Fair',
+      good: 'Good',
+      strong: 'Strong',
+    },
+    login: {
+      title: 'Login | Eventune Studios',
+      description: 'Sign in to your Eventune Studios account',
+      heading: 'Welcome Back',
+      subheading: 'Sign in to your account to continue',
+      forgotPassword: 'Forgot password?',
+      passwordPlaceholder: 'Enter your password',
+      // {seconds} is replaced with the countdown element
+      rateLimited: 'Too many login attempts. Please try again in {seconds} seconds.',
+      submit: 'Sign In',
+      submitting: 'Signing in...',
+      or: 'or',
+      google: 'Continue with Google (Coming Soon)',
+      noAccount: "Don't have an account?",
+      signUp: 'Sign up',
+      invalidCredentials: 'Invalid email or password. Please try again.',
+      emailNotConfirmed: 'Please verify your email address before signing in. Check your inbox for the confirmation link.',
+      sessionFailed: 'Failed to establish session. Please try again.',
+    },
+    signup: {
+      title: 'Sign Up | Eventune Studios',
+      description: 'Create your Eventune Studios account',
+      heading: 'Create Your Account',
+      subheading: 'Join us and start creating personalized songs',
+      // {email} is replaced with the address element
+      sentText: "We've sent a confirmation link to {email}. Please click the link to verify your account.",
+      noEmail: "Didn't receive the email? Check your spam folder or",
+      resend: 'resend confirmation',
+      resendSent: 'Confirmation email sent! Please check your inbox.',
+      resendFailed: 'Failed to resend confirmation email. Please try again.',
+      firstName: 'First Name',
+      firstNamePlaceholder: 'John',
+      lastName: 'Last Name',
+      lastNamePlaceholder: 'Doe',
+      passwordPlaceholder: 'Create a password (min. 8 characters)',
+      confirmPasswordPlaceholder: 'Confirm your password',
+      agreeTo: 'I agree to the',
+      terms: 'Terms of Service',
+      and: 'and',
+      privacy: 'Privacy Policy',
+      rateLimited: 'Too many signup attempts. Please try again later.',
+      submit: 'Create Account',
+      submitting: 'Creating account...',
+      alreadyRegistered: 'An account with this email already exists. Please sign in or use a different email.',
+      haveAccount: 'Already have an account?',
+      signIn: 'Sign in',
+    },
+    forgotPassword: {
+      title: 'Forgot Password | Eventune Studios',
+      description: 'Reset your Eventune Studios password',
+      heading: 'Forgot Your Password?',
+      subheading: "No worries! Enter your email and we'll send you a reset link.",
+      // {email} is replaced with the address element
+      sentText: "If an account exists for {email}, you'll receive a password reset link shortly.",
+      noEmail: "Didn't receive the email? Check your spam folder or wait a few minutes and try again.",
+      submit: 'Send Reset Link',
+    },
+    resetPassword: {
+      title: 'Reset Password | Eventune Studios',
+      description: 'Set your new password',
+      heading: 'Set New Password',
+      subheading: 'Create a strong password for your account',
+      invalidTitle: 'Invalid or Expired Link',
+      invalidText: 'This password reset link is invalid or has expired. Please request a new one.',
+      requestNewLink: 'Request New Link',
+      successTitle: 'Password Updated',
+      successText: 'Your password has been successfully updated. You can now sign in with your new password.',
+      signIn: 'Sign In',
+      verifying: 'Verifying your reset link...',
+      newPasswordLabel: 'New Password',
+      newPasswordPlaceholder: 'Enter new password (min. 8 characters)',
+      confirmPasswordLabel: 'Confirm New Password',
+      confirmPasswordPlaceholder: 'Confirm new password',
+      submit: 'Update Password',
+      submitting: 'Updating...',
+    },
+    callback: {
+      title: 'Verifying... | Eventune Studios',
+      verifyingTitle: 'Verifying Your Account',
+      verifyingText: 'Please wait while we confirm your details...',
+      successTitle: 'Email Verified!',
+      successText: 'Your account has been verified. Redirecting you now...',
+      errorTitle: 'Verification Failed',
+      errorText: 'Something went wrong. Please try again.',
+      goToLogin: 'Go to Login',
+      signUpAgain: 'Sign Up Again',
+      authFailed: 'Authentication failed. Please try again.',
+      linkExpired: 'Failed to verify your account. The link may have expired.',
+      noAuthData: 'No authentication data found. Please try signing in again.',
+    },
+    loggingOut: 'Logging out...',
+  },
+
+  order: {
+    steps: {
+      choosePackage: 'Choose Package',
+      tellStory: 'Tell Your Story',
+      checkout: 'Checkout',
+    },
+    occasion: {
+      title: 'Order a {occasion} Song | Eventune Studios',
+      description: 'Create a custom {occasion} song. {tagline}',
+      heading: '{occasion} Song',
+      tagline: 'Create a personalized {occasion} song that tells your unique story.',
+      choosePackage: 'Choose Your Package',
+      choosePackageText: 'Select the package that best fits your needs and timeline.',
+      fullOwnership: 'Full ownership',
+      continue: 'Continue to Questionnaire',
+      compare: 'View detailed package comparison',
+      otherOccasions: 'Looking for a different occasion?',
+    },
+    questionnaire: {
+      title: 'Tell Your Story | Eventune Studios',
+      description: 'Share the details of your story so we can create the perfect personalized song.',
+      heading: 'Tell Us Your Story',
+      subheading: 'The more details you share, the more personal and meaningful your song will be.',
+      selectedPackage: 'Selected Package',
+      occasion: 'Occasion',
+      change: 'Change',
+      groups: {
+        recipient: 'About the Recipient',
+        relationship: 'Your Relationship',
+        memories: 'Your Story',
+        song_preferences: 'Music Preferences',
+        additional: 'Additional Information',
+      } as Record<string, string>,
+      tipsTitle: 'Tips for a great story:',
+      tips: [
+        'How did you meet or when did your relationship begin?',
+        'What are your favorite memories together?',
+        'What makes this person special to you?',
+        'Any nicknames, inside jokes, or special phrases?',
+        'What do you want them to feel when they hear this song?',
+      ],
+      selectOption: 'Select an option',
+      paymentCurrency: 'Payment Currency',
+      usdName: 'US Dollar',
+      usdMethod: 'Credit/Debit Card',
+      xafName: 'CFA Franc',
+      xafMethod: 'Mobile Money',
+      promoCode: 'Promo code',
+      optional: '(optional)',
+      promoPlaceholder: 'Enter a promo code',
+      back: 'Back',
+      saveSong: 'Save Song Details',
+      continue: 'Continue to Checkout',
+      requiredFields: 'Please fill in all required fields.',
+      processing: 'Processing...',
+      saveFailed: 'Failed to save song details. Please try again.',
+      priceFailed: 'Failed to price your order. Please try again.',
+      createFailed: 'Failed to create order. Please try again.',
+      unexpectedError: 'An unexpected error occurred. Please try again.',
+      // Built-in fields, used until the questionnaire is configured in the database
+      fields: {
+        recipientName: {
+          label: 'Who is this song for?',
+          placeholder: 'e.g., Sarah, Mom, John & Mary',
+          help: 'The person or people this song celebrates',
+        },
+        relationship: {
+          label: 'Your relationship to them',
+          placeholder: 'Select relationship',
+          options: {
+            spouse: 'Spouse / Partner',
+            parent: 'Parent',
+            child: 'Child',
+            sibling: 'Sibling',
+            friend: 'Friend',
+            grandparent: 'Grandparent',
+            other_family: 'Other Family Member',
+            colleague: 'Colleague',
+            other: 'Other',
+          },
+        },
+        occasionDate: {
+          label: 'When is the occasion?',
+          help: 'This helps us prioritize delivery',
+        },
+        story: {
+          label: 'Tell us about your story',
+          placeholder:
+            'Share the memories, moments, and feelings you want captured in the song. Include specific details, inside jokes, meaningful places, or special phrases that matter to you both...',
+          help: 'This is the heart of your song. The more detail, the better!',
+        },
+        genre: {
+          label: 'Preferred genre/style',
+          placeholder: 'Let our artists decide',
+          options: {
+            pop: 'Pop',
+            rnb: 'R&B / Soul',
+            acoustic: 'Acoustic',
+            country: 'Country',
+            gospel: 'Gospel',
+            jazz: 'Jazz',
+            afrobeats: 'Afrobeats',
+            classical: 'Classical',
+          },
+        },
+        moods: {
+          label: 'Mood/Feeling',
+          help: 'Select all that apply',
+          options: {
+            romantic: 'Romantic',
+            upbeat: 'Upbeat',
+            emotional: 'Emotional',
+            celebratory: 'Celebratory',
+            nostalgic: 'Nostalgic',
+            inspirational: 'Inspirational',
+          },
+        },
+        specialRequests: {
+          label: 'Any specific requests?',
+          placeholder: 'Reference songs you like, specific lyrics to include, or anything else we should know...',
+        },
+      },
+    },
+    checkout: {
+      title: 'Checkout | Eventune Studios',
+      description: 'Complete your order for a custom song.',
+      loading: 'Loading order details...',
+      notFoundTitle: 'Order Not Found',
+      notFoundText: "We couldn't find this order. It may have expired or already been completed.",
+      startNew: 'Start New Order',
+      heading: 'Complete Your Order',
+      subheading: 'Review your order and select a payment method.',
+      summary: 'Order Summary',
+      package: 'Package',
+      occasion: 'Occasion',
+      recipient: 'Recipient',
+      total: 'Total',
+      paymentMethod: 'Payment Method',
+      stripeText: 'Secure payment powered by Stripe. We accept all major credit and debit cards.',
+      payCard: 'Pay with Card',
+      mobileText: 'Pay with MTN Mobile Money or Orange Money.',
+      mtnText: 'Pay with your MTN MoMo account',
+      orangeText: 'Pay with your Orange Money account',
+      phoneLabel: 'Phone Number',
+      phoneHint: 'Enter your mobile money number without country code',
+      payMobile: 'Pay with Mobile Money',
+      processingTitle: 'Processing Payment',
+      processingText: 'Please wait while we process your payment...',
+      secure: 'Secure checkout. Your payment information is encrypted.',
+      unknown: 'Unknown',
+      noOrderId: 'No order ID provided.',
+      accessDenied: 'Order not found or access denied.',
+      unavailable: 'This order is no longer available for payment.',
+      loadFailed: 'Failed to load order details.',
+      redirecting: 'Redirecting...',
+      initiateFailed: 'Failed to initiate payment.',
+      initiateFailedRetry: 'Failed to initiate payment. Please try again.',
+      invalidPhone: 'Please enter a valid phone number.',
+      initiatingMobile: 'Initiating mobile money payment...',
+      confirmOnPhone: 'Please confirm the payment on your phone. This may take a moment...',
+      paymentFailed: 'Payment failed. Please try again.',
+      timeout: 'Payment timeout. Please check your phone or try again.',
+    },
+    success: {
+      title: 'Order Confirmed - Eventune Studios',
+      description: 'Your custom song order has been confirmed',
+      thanks: 'Thank You for Your Order!',
+      received: 'Order Received!',
+      paidText: "Your payment has been confirmed. We're excited to create your personalized song!",
+      pendingText: "We're processing your payment. You'll receive a confirmation email shortly.",
+      summary: 'Order Summary',
+      orderNumber: 'Order Number',
+      package: 'Package',
+      occasion: 'Occasion',
+      amount: 'Amount',
+      paymentStatus: 'Payment Status',
+      paid: 'Paid',
+      processing: 'Processing',
+      estimatedDelivery: 'Estimated Delivery',
+      nextTitle: 'What Happens Next?',
+      confirmationTitle: 'Confirmation Email',
+      confirmationText: "You'll receive an email with your order details at {email}",
+      creationTitle: 'Song Creation',
+      creationText: 'Our artists will begin crafting your personalized song based on your story',
+      callTitle: 'Discovery Call',
+      callText: "We'll reach out to schedule your discovery call to discuss your vision",
+      deliveryTitle: 'Delivery',
+      deliveryText: 'Your completed song will be delivered to your portal and email',
+      track: 'Track Your Order',
+      home: 'Return Home',
+      questions: 'Questions? Contact us at',
+    },
+  },
+
+  // Customer dashboard
+  dashboard: {
+    layout: {
+      welcomeBack: 'Welcome back,',
+      toggleMenu: 'Toggle menu',
+      nav: {
+        dashboard: 'Dashboard',
+        orders: 'My Orders',
+        profile: 'Profile',
+        referrals: 'Referrals',
+      },
+      adminPortal: 'Admin Portal',
+      signOut: 'Sign Out',
+    },
+    statuses: {
+      pending: 'Pending',
+      payment_pending: 'Payment Pending',
+      paid: 'Paid',
+      in_progress: 'In Progress',
+      composing: 'Composing',
+      recording: 'Recording',
+      mixing: 'Mixing',
+      review: 'In Review',
+      revision: 'Revision',
+      completed: 'Completed',
+      delivered: 'Delivered',
+      cancelled: 'Cancelled',
+      refunded: 'Refunded',
+    } as Record<string, string>,
+    loadOrdersError: 'Unable to load orders. Please refresh the page.',
+    genericError: 'Something went wrong. Please try again.',
+    customSong: 'Custom Song',
+    standardPackage: 'Standard',
+    packageName: '{package} Package',
+    bundleSong: 'Song {position}',
+    addSongDetails: 'Add song details',
+    home: {
+      title: 'Dashboard',
+      greetings: {
+        morning: 'Good morning',
+        afternoon: 'Good afternoon',
+        evening: 'Good evening',
+      },
+      welcomeBack: 'Welcome back,',
+      journeyBegins: 'Your musical journey begins here.',
+      inProductionOne: '{count} song in production',
+      inProductionMany: '{count} songs in production',
+      caughtUp: 'All caught up. Ready for something new?',
+      newSong: 'New Song',
+      totalOrders: 'Total Orders',
+      pending: 'Pending',
+      inStudio: 'In Studio',
+      delivered: 'Delivered',
+      recentOrders: 'Recent Orders',
+      viewAll: 'View all',
+      emptyTitle: 'Your Studio Awaits',
+      emptyText: 'Commission your first personalized song and turn your story into music.',
+      exploreServices: 'Explore Services',
+    },
+    orders: {
+      title: 'My Orders',
+      totalOne: '{count} order total',
+      totalMany: '{count} orders total',
+      allStatuses: 'All Statuses',
+      emptyTitle: 'No orders yet',
+      emptyText: 'Your order history will appear here once you create your first personalized song.',
+      startFirst: 'Start Your First Order',
+      order: 'Order',
+      details: 'Details',
+      status: 'Status',
+      amount: 'Amount',
+      date: 'Date',
+      bundle: '{count}-Song Bundle',
+      view: 'View',
+      viewDetails: 'View Details',
+    },
+    orderDetail: {
+      title: 'Order {number}',
+      loadError: 'Unable to load order details.',
+      backToOrders: 'Back to Orders',
+      createdOn: 'Created on {date}',
+      downloadSong: 'Download Your Song',
+      occasion: 'Occasion',
+      package: 'Package',
+      amount: 'Amount',
+      paymentStatus: 'Payment Status',
+      paid: 'Paid',
+      pending: 'Pending',
+      expectedDelivery: 'Expected Delivery',
+      songTitle: 'Song Title',
+      bundle: 'Bundle',
+      bundleSongOf: 'Song {position} of {number}',
+      bundleSongs: 'Songs in this Bundle',
+      timeline: 'Order Timeline',
+      timelineEmpty: 'Status updates will appear here as your order progresses.',
+      previewTitle: 'Your Preview',
+      version: 'Version {version}',
+      previewReview: 'Have a listen. This preview is watermarked; your final files are delivered once you approve it.',
+      previewRevising: "We're working on your changes. You can still listen to the last preview.",
+      approvePreview: 'Approve Preview',
+      requestChanges: 'Request Changes',
+      filesTitle: 'Your Files',
+      fileTypes: {
+        mp3: 'Song (MP3)',
+        wav_master: 'WAV Master',
+        instrumental: 'Instrumental',
+        lyric_sheet: 'Lyric Sheet (PDF)',
+        video: 'Video',
+        preview: 'Preview',
+      } as Record<string, string>,
+      latest: 'Latest',
+      revisionRound: 'Revision round {round}',
+      download: 'Download',
+      revisionsTitle: 'Revisions',
+      revisionsRemaining: '{remaining} of {total} remaining',
+      revisionsIncludedOne: 'Your package includes {count} revision. None used yet.',
+      revisionsIncludedMany: 'Your package includes {count} revisions. None used yet.',
+      revisionStatuses: {
+        pending: 'Awaiting Review',
+        accepted: 'In Progress',
+        rejected: 'Not Accepted',
+        completed: 'Delivered',
+      } as Record<string, string>,
+      round: 'Round {round}',
+      extra: '(extra)',
+      studioResponse: 'Studio: {response}',
+      deliveredVersion: 'Delivered version: {filename}',
+      requestedOn: 'Requested {date}',
+      deliveredOn: 'Delivered {date}',
+      requestRevision: 'Request Revision',
+      requestRevisionText: "Not quite right? Let us know what adjustments you'd like and we'll make it perfect.",
+      revisionsLeftOne: 'You have {count} revision left.',
+      revisionsLeftMany: 'You have {count} revisions left.',
+      revisionNotesLabel: 'What would you like changed?',
+      revisionNotesPlaceholder: "Describe the changes you'd like...",
+      paymentSummary: 'Payment Summary',
+      total: 'Total',
+      completePayment: 'Complete Payment',
+      quickActions: 'Quick Actions',
+      contactSupport: 'Contact Support',
+      orderAnother: 'Order Another Song',
+      helpTitle: 'Need Help?',
+      helpText: 'Our team is here to help with any questions about your order.',
+      previewUnavailable: 'Preview unavailable',
+      previewLoadFailed: 'Failed to load preview. Please try again.',
+      approveConfirm: "Approve this preview? We'll then prepare your final files.",
+      previewApproved: 'Preview approved!',
+      approveFailed: 'Failed to approve preview',
+      downloadFailed: 'Download failed',
+      submitting: 'Submitting...',
+      revisionSubmitted: 'Revision request submitted successfully!',
+      revisionFailed: 'Failed to submit revision request',
+      unexpectedError: 'An unexpected error occurred. Please try again.',
+    },
+    profile: {
+      title: 'Profile Settings',
+      infoTitle: 'Profile Information',
+      infoText: 'Update your personal details',
+      fullName: 'Full Name',
+      fullNamePlaceholder: 'Enter your full name',
+      email: 'Email Address',
+      emailPlaceholder: 'Enter your email',
+      emailHint: 'Contact support to change your email',
+      phone: 'Phone Number',
+      phonePlaceholder: 'Phone number',
+      language: 'Preferred Language',
+      saveChanges: 'Save Changes',
+      passwordTitle: 'Change Password',
+      passwordText: 'Update your password to keep your account secure',
+      currentPassword: 'Current Password',
+      currentPasswordPlaceholder: 'Enter current password',
+      newPassword: 'New Password',
+      newPasswordPlaceholder: 'Enter new password',
+      confirmPassword: 'Confirm New Password',
+      confirmPasswordPlaceholder: 'Confirm new password',
+      updatePassword: 'Update Password',
+      notificationsTitle: 'Notifications',
+      notificationsText: 'Choose how you want to receive updates',
+      emailNotifications: 'Email Notifications',
+      emailNotificationsText: 'Receive order updates via email. Receipts and refund notices are always emailed.',
+      smsNotifications: 'SMS Notifications',
+      smsNotificationsText: 'Receive urgent updates via text message',
+      whatsappNotifications: 'WhatsApp Notifications',
+      whatsappNotificationsText: 'Receive order confirmations, updates and delivery links on WhatsApp',
+      marketingEmails: 'Marketing Emails',
+      marketingEmailsText: 'Receive special offers and promotions',
+      savePreferences: 'Save Preferences',
+      dangerTitle: 'Danger Zone',
+      dangerText: 'Irreversible actions',
+      dangerDescription:
+        'Once you delete your account, there is no going back. All your data, including order history and saved preferences, will be permanently removed.',
+      deleteAccount: 'Delete Account',
+      deleteTitle: 'Delete Account?',
+      deleteText: 'This action cannot be undone. All your data will be permanently deleted.',
+      deleteConfirmBefore: 'Type',
+      deleteConfirmAfter: 'to confirm',
+      cancel: 'Cancel',
+      deleteForever: 'Delete Forever',
+      unexpectedError: 'An unexpected error occurred',
+      profileUpdated: 'Profile updated successfully!',
+      profileFailed: 'Failed to update profile',
+      passwordMismatch: 'Passwords do not match',
+      updating: 'Updating...',
+      passwordUpdated: 'Password updated successfully!',
+      passwordFailed: 'Failed to update password',
+      saving: 'Saving...',
+      preferencesSaved: 'Preferences saved!',
+      preferencesFailed: 'Failed to update preferences',
+      deleteUnavailable: 'Account deletion is being implemented. Contact support for help.',
+    },
+    referrals: {
+      title: 'Referrals',
+      joinTitle: 'Join Our Affiliate Program',
+      joinText:
+        'Earn commissions by sharing Eventune Studios with your network. Get your unique referral link and start earning today.',
+      joinNow: 'Join Now',
+      learnMore: 'Learn more about the program',
+      tabs: {
+        overview: 'Overview',
+        referrals: 'Referrals',
+        links: 'Links',
+        commissions: 'Commissions',
+        payouts: 'Payouts',
+        settings: 'Settings',
+      },
+      totalEarnings: 'Total Earnings ({currency})',
+      currentBalance: 'Current Balance ({currency})',
+      totalReferrals: 'Total Referrals',
+      conversionRate: 'Conversion Rate',
+      last30Days: 'Last 30 Days',
+      uniqueVisitors: 'Unique visitors to your links',
+      campaign: 'Campaign',
+      clicks: 'Clicks',
+      signups: 'Signups',
+      firstOrders: 'First Orders',
+      conversion: 'Conversion',
+      revenue: 'Revenue',
+      campaignHelp: 'Tag your shares with {param} (e.g. {example}) to compare campaigns.',
+      yourLink: 'Your Referral Link',
+      copy: 'Copy',
+      copied: 'Copied!',
+      linkHelp: "Share this link with potential customers. You'll earn commissions on their purchases.",
+      qrCode: 'QR Code',
+      downloadQr: 'Download QR Code',
+      requestPayout: 'Request Payout',
+      shareLink: 'Share Link',
+      referredCustomers: 'Referred Customers',
+      total: '{count} total',
+      noReferrals: 'No referrals yet. Share your link to get started!',
+      customer: 'Customer',
+      date: 'Date',
+      status: 'Status',
+      orders: 'Orders',
+      notAvailable: 'N/A',
+      converted: 'Converted',
+      pending: 'Pending',
+      trackingLinks: 'Tracking Links',
+      activeLinks: '{count} active',
+      linkName: 'Link Name',
+      linkNamePlaceholder: 'e.g., instagram-bio',
+      linkNameHelp: 'Lowercase letters, numbers and hyphens. Only you see this name.',
+      occasion: 'Occasion',
+      homePage: 'Home page',
+      package: 'Package',
+      anyPackage: 'Any package',
+      createLink: 'Create Link',
+      noLinks: 'No tracking links yet. Create one for each place you share, to see which works best.',
+      name: 'Name',
+      shortLink: 'Short Link',
+      landsOn: 'Lands On',
+      copyLink: 'Copy link',
+      remove: 'Remove',
+      commissionHistory: 'Commission History',
+      allStatuses: 'All Statuses',
+      allCurrencies: 'All Currencies',
+      commissionStatuses: {
+        pending: 'Pending',
+        approved: 'Approved',
+        paid: 'Paid',
+        rejected: 'Rejected',
+      } as Record<string, string>,
+      noCommissions: 'No commissions yet. Commissions will appear here once your referrals make purchases.',
+      orderNumber: 'Order #',
+      amount: 'Amount',
+      currency: 'Currency',
+      rate: 'Rate',
+      level: 'Level',
+      levelNumber: 'Level {level}',
+      payoutManagement: 'Payout Management',
+      availableBalance: 'Available Balance ({currency})',
+      minimumPayout: 'Minimum payout: ${usd} USD / {xaf} XAF',
+      payoutHistory: 'Payout History',
+      noPayouts: 'No payout requests yet.',
+      payoutStatuses: {
+        requested: 'Requested',
+        processing: 'Processing',
+        paid: 'Paid',
+        rejected: 'Rejected',
+      } as Record<string, string>,
+      requested: 'Requested',
+      processed: 'Processed',
+      payoutSettings: 'Payout Settings',
+      payoutMethod: 'Payout Method',
+      selectMethod: 'Select method...',
+      mobileMoney: 'Mobile Money',
+      bankTransfer: 'Bank Transfer',
+      phoneNumber: 'Phone Number',
+      operator: 'Operator',
+      selectOperator: 'Select operator...',
+      bankName: 'Bank Name',
+      bankNamePlaceholder: 'e.g., Afriland First Bank',
+      accountNumber: 'Account Number',
+      accountName: 'Account Name',
+      accountNamePlaceholder: 'Full name as on account',
+      paypalEmail: 'PayPal Email',
+      saveSettings: 'Save Settings',
+      selectCurrency: 'Select currency...',
+      currencyAvailable: '{currency} ({amount} available)',
+      cancel: 'Cancel',
+      submitRequest: 'Submit Request',
+      shareTitle: 'Join Eventune Studios',
+      shareText: 'Check out Eventune Studios for personalized custom songs!',
+      linkCopied: 'Link copied to clipboard!',
+      unknownError: 'Unknown error',
+      createLinkError: 'Error creating link',
+      removeLinkConfirm: 'Remove this link? It will stop working, but its history is kept.',
+      removeLinkError: 'Error removing link',
+      settingsSaved: 'Settings saved successfully!',
+      saveSettingsError: 'Error saving settings',
+      payoutRangeUSD: 'Minimum: $10 USD, Maximum: ${max} USD',
+      payoutRangeXAF: 'Minimum: 5,000 XAF, Maximum: {max} XAF',
+      payoutRequested: 'Payout request submitted successfully!',
+      payoutError: 'Error requesting payout',
+      joining: 'Joining...',
+      joinError: 'Error joining program',
+    },
+  },
+
+  // Order status wording used in customer notifications
+  orderStatus: {
+    valuedCustomer: 'Valued Customer',
+    defaultDescription: 'Your order status has been updated.',
+    previewReady: 'Your preview is ready. Listen to it on your order page, then approve it or request changes.',
+    labels: {
+      paid: 'Payment Confirmed',
+      in_progress: 'In Progress',
+      composing: 'Composing',
+      recording: 'Recording',
+      mixing: 'Mixing & Mastering',
+      review: 'Ready for Review',
+      completed: 'Completed',
+      delivered: 'Delivered',
+    } as Record<string, string>,
+    descriptions: {
+      paid: 'Payment confirmed! Your order is now in our queue and we will begin working on it shortly.',
+      in_progress: 'We have started working on your custom song. Our team is reviewing your questionnaire and preparing to create something special for you.',
+      composing: 'Our songwriter is now composing the melody and lyrics for your song based on your preferences.',
+      recording: 'Your song is being recorded by our talented musicians. The magic is happening!',
+      mixing: 'We are now mixing and mastering your song to ensure it sounds perfect.',
+      review: 'Your song is ready for your review. Please check your dashboard to listen and provide feedback.',
+      completed: 'Your song is complete and ready for download. Thank you for choosing Eventune Studios!',
+      delivered: 'Your song has been delivered! You can now download it from your dashboard.',
+    } as Record<string, string>,
+  },
+
+  // Customer email copy (values are escaped before interpolation)
+  email: {
+    greeting: 'Hi {name},',
+    orderConfirmation: {
+      subject: 'Order Confirmed - {orderNumber}',
+      heading: 'Thank You for Your Order!',
+      intro: "We've received your order and are excited to create your custom song!",
+      orderNumber: 'Order Number:',
+      package: 'Package:',
+      occasion: 'Occasion:',
+      amountPaid: 'Amount Paid:',
+      amount: 'Amount:',
+      estimatedDelivery: 'Estimated Delivery:',
+      track: 'You can track your order progress anytime:',
+      button: 'View Order Status',
+      outro: "We'll send you updates as we work on your song. If you have any questions, just reply to this email.",
+      textIntro: 'Thank you for your order {orderNumber}!',
+      textTrack: 'Track your order:',
+    },
+    statusUpdate: {
+      subject: 'Order Update - {orderNumber}',
+      heading: 'Order Status Update',
+      intro: 'Your order {orderNumber} has been updated:',
+      newStatus: 'New Status:',
+      button: 'View Order Details',
+      textTitle: 'Order {orderNumber} Update',
+      textDetails: 'View details:',
+    },
+    delivery: {
+      subject: 'Your Song is Ready! - {orderNumber}',
+      heading: 'Your Custom Song is Ready!',
+      intro: 'Great news! Your {packageName} song has been completed and is ready for download.',
+      button: 'Download Your Song',
+      expires: 'This download link expires on {date}.',
+      outro: "We hope you love it! If you have any feedback or questions, we'd love to hear from you.",
+      textTitle: 'Your song is ready!',
+      textDownload: 'Download:',
+      textExpires: 'Expires:',
+    },
+    cancellation: {
+      subject: 'Order Cancelled - {orderNumber}',
+      heading: 'Order Cancelled',
+      intro: 'Your order {orderNumber} has been cancelled.',
+      refund: 'A refund of {amount} will be processed within 5-10 business days.',
+      reason: 'Reason: {reason}',
+      outro: "If you have any questions, please don't hesitate to reach out.",
+      textRefund: 'Refund: {amount}',
+    },
+    revisionReceived: {
+      subject: 'Revision Request Received - {orderNumber}',
+      heading: 'Revision Request Received',
+      intro: "We've received your revision request for order {orderNumber}.",
+      feedback: 'Your feedback:',
+      review: 'Our team will review your request and get back to you within 24-48 hours.',
+      button: 'Track Your Order',
+      textTrack: 'Track your order:',
+    },
+    revisionUpdate: {
+      accepted: {
+        subject: 'Revision Accepted - {orderNumber}',
+        heading: 'Revision Accepted',
+        message: "We've accepted revision round {round} and our team is working on your changes.",
+      },
+      rejected: {
+        subject: 'Revision Request Update - {orderNumber}',
+        heading: 'Revision Request Update',
+        message: "We weren't able to take on revision round {round} as requested. It has not been counted against your revisions.",
+      },
+      completed: {
+        subject: 'Revision Delivered - {orderNumber}',
+        heading: 'Revision Delivered',
+        message: 'Revision round {round} is complete and your updated song is ready in your dashboard.',
+      },
+      follow: 'You can follow your revision in your dashboard.',
+      button: 'View Your Order',
+      textTrack: 'Track your order:',
+    },
+    passwordReset: {
+      subject: 'Reset Your Password',
+      intro: 'You requested to reset your password. Click the button below to create a new password:',
+      button: 'Reset Password',
+      expires: 'This link expires in {expiresIn}.',
+      outro: "If you didn't request this, you can safely ignore this email.",
+      textReset: 'Reset your password:',
+      textExpires: 'Expires in {expiresIn}',
+    },
+    welcome: {
+      subject: 'Welcome to {brand}!',
+      heading: 'Welcome, {name}!',
+      intro: "Thank you for joining {brand}. We're excited to help you create personalized songs for life's special moments.",
+      button: 'Verify Your Email',
+      outro: 'Ready to get started? Browse our packages and find the perfect option for your occasion.',
+      textTitle: 'Welcome to {brand}, {name}!',
+      textVerify: 'Verify your email:',
+    },
+    tierChange: {
+      subjectPromoted: "You've been promoted to {tier}",
+      subjectChanged: 'Your affiliate tier has changed to {tier}',
+      headlinePromoted: "You've reached {tier}!",
+      headlineChanged: 'Your affiliate tier is now {tier}',
+      conversionsOne: 'You converted {count} order in {period}, so your tier has moved from {previous} to {tier}.',
+      conversionsMany: 'You converted {count} orders in {period}, so your tier has moved from {previous} to {tier}.',
+      rate: 'Your commission on direct sales is now {rate}.',
+      standardRate: 'Your commission on direct sales is now the standard program rate.',
+      promotedOutro: 'Thank you for spreading the word - keep it up!',
+      demotedOutro: 'Tiers are reviewed every month, so strong sales this month will move you back up.',
+      button: 'View Your Dashboard',
+      textDashboard: 'Dashboard:',
+    },
+  },
+
+  // Customer SMS and WhatsApp fallback copy
+  sms: {
+    orderConfirmation:
+      'Hi {name}! Your order {orderNumber} ({packageName}) has been confirmed. Estimated delivery: {estimatedDelivery}. Track at eventunestudios.com/dashboard - {brand}',
+    statusUpdate: '{brand}: Your order {orderNumber} is now {status}. Check your dashboard for details.',
+    deliveryReady: '{brand}: Great news {name}! Your song {orderNumber} is ready for download: {url}',
+    revisionRequested:
+      "{brand}: We've received your revision request for {orderNumber}. Our team will review it within 24-48 hours.",
+    paymentReminder:
+      'Hi {name}, friendly reminder: Order {orderNumber} ({amount}) is awaiting payment. Complete at eventunestudios.com/dashboard - {brand}',
+  },
+};
+
+export type Messages = typeof en;
@@ -0,0 +1,1065 @@
+/**
+ * French Messages
+ */
+
+import type { Messages } from './en';
+
+export const fr: Messages = {
+  meta: {
+    defaultTitle: 'Eventune Studios | Chansons personnalisées pour vos moments spéciaux',
+    defaultDescription:
+      'Des chansons personnalisées professionnelles pour mariages, anniversaires et toutes vos célébrations. Votre événement mérite sa propre mélodie.',
+  },
+
+  common: {
+    orderNow: 'Commander',
+    orderYourSong: 'Commander votre chanson',
+    startYourOrder: 'Commencer ma commande',
+    viewPackages: 'Voir les formules',
+    contactUs: 'Nous contacter',
+    getInTouch: 'Contactez-nous',
+    readyToGetStarted: 'Prêt à commencer ?',
+    mostPopular: 'Le plus populaire',
+    login: 'Connexion',
+    signUp: 'Inscription',
+    menu: 'Menu',
+    openMenu: 'Ouvrir le menu',
+    closeMenu: 'Fermer le menu',
+    language: 'Langue',
+    days: '{count} jours',
+    daysRange: '{min} à {max} jours',
+    other: 'Autre',
+  },
+
+  nav: {
+    services: 'Services',
+    samples: 'Extraits',
+    about: 'À propos',
+    contact: 'Contact',
+  },
+
+  footer: {
+    blurb: 'Des chansons personnalisées pour les moments spéciaux de la vie.',
+    quickLinks: 'Liens rapides',
+    occasions: 'Occasions',
+    legal: 'Mentions légales',
+    weddingSongs: 'Chansons de mariage',
+    birthdaySongs: "Chansons d'anniversaire",
+    anniversarySongs: 'Chansons de noces',
+    graduationSongs: 'Chansons de remise de diplôme',
+    privacyPolicy: 'Politique de confidentialité',
+    terms: "Conditions d'utilisation",
+    refundPolicy: 'Politique de remboursement',
+    rightsReserved: 'Tous droits réservés.',
+  },
+
+  home: {
+    heroTitle: 'Votre événement.',
+    heroHighlight: 'Votre mélodie.',
+    heroText:
+      'Des chansons personnalisées créées par des professionnels pour vos moments spéciaux. Mariages, anniversaires, noces et plus encore — nous transformons vos histoires en mélodies.',
+    explorePackages: 'Découvrir les formules',
+    listenToSamples: 'Écouter des extraits',
+    howItWorksTitle: 'Comment ça marche',
+    howItWorksText: "Créer votre chanson personnalisée est simple. Voici le chemin de votre histoire jusqu'à la chanson.",
+    steps: [
+      { title: 'Choisissez', description: 'Sélectionnez votre formule et votre occasion' },
+      { title: 'Partagez', description: 'Racontez-nous votre histoire et vos souvenirs' },
+      { title: 'Nous créons', description: 'Nous composons votre chanson personnalisée' },
+      { title: 'Recevez', description: 'Recevez votre chanson en version numérique' },
+    ],
+    packagesTitle: 'Choisissez votre formule',
+    packagesText: 'Des livraisons express aux productions haut de gamme, nous avons une option pour chaque célébration.',
+    delivery: 'Livraison en {days}',
+    revisionOne: '1 révision',
+    revisionMany: '{count} révisions',
+    discoveryCall: 'Appel découverte',
+    instrumentalTrack: 'Version instrumentale',
+    fullRights: 'Droits de propriété complets',
+    selectPackage: 'Choisir cette formule',
+    xafPricing: 'Tarifs Cameroun disponibles en XAF.',
+    viewAllPricing: 'Voir tous les tarifs',
+    occasionsTitle: 'Chaque occasion mérite sa chanson',
+    occasionsText: "Qu'il s'agisse d'une grande étape de la vie ou d'un moment du quotidien rendu spécial.",
+    testimonialsTitle: 'Ce que disent nos clients',
+    testimonialsText: 'De vraies histoires de personnes qui ont transformé leurs moments en mélodies.',
+    faqTitle: 'Questions fréquentes',
+    faqText: 'Tout ce que vous devez savoir sur notre service de chansons personnalisées.',
+    moreQuestions: "D'autres questions ?",
+    ctaTitle: 'Prêt à créer quelque chose de spécial ?',
+    ctaText: "Commencez dès aujourd'hui. Votre histoire mérite d'être chantée.",
+    ctaButton: 'Commencer maintenant',
+  },
+
+  about: {
+    title: 'À propos | Eventune Studios',
+    description:
+      "Découvrez Eventune Studios, notre mission de créer des chansons personnalisées pour les moments spéciaux de la vie, et l'équipe derrière votre musique.",
+    heroTitle: 'Transformer les histoires en',
+    heroHighlight: 'mélodies',
+    heroText:
+      'Chez Eventune Studios, nous pensons que chaque célébration mérite sa bande originale. Nous transformons vos moments les plus précieux en chansons que vous chérirez pour toujours.',
+    stats: [
+      { number: '500+', label: 'Chansons créées' },
+      { number: '15+', label: 'Pays servis' },
+      { number: '98 %', label: 'Clients satisfaits' },
+      { number: '4', label: "Années d'expérience" },
+    ],
+    storyTitle: 'Notre histoire',
+    story: [
+      "Eventune Studios est né d'une conviction simple : la musique peut exprimer des émotions que les mots seuls ne peuvent traduire. Nous avons commencé avec le rêve d'aider chacun à célébrer ses moments les plus importants avec des chansons qui lui appartiennent.",
+      "Ce qui était au départ un projet passion est devenu un service de confiance pour des clients du monde entier. Des surprises d'anniversaire intimes aux grands mariages, nous avons eu le privilège de faire partie d'innombrables moments spéciaux.",
+      "Notre équipe réunit des auteurs talentueux, des producteurs expérimentés et des chanteurs exceptionnels qui partagent notre engagement : créer une musique qui touche les cœurs. Chaque chanson est réalisée avec soin, avec le souci du détail et un profond respect pour les histoires qui nous sont confiées.",
+    ],
+    tagline: 'Votre événement. Votre mélodie.',
+    valuesTitle: 'Nos valeurs',
+    valuesText: 'Ces principes guident tout ce que nous faisons chez Eventune Studios.',
+    values: [
+      {
+        icon: '💝',
+        title: 'Un lien personnel',
+        description: "Chaque chanson que nous créons est profondément personnelle. Nous prenons le temps de comprendre votre histoire avant d'écrire la moindre ligne.",
+      },
+      {
+        icon: '🎵',
+        title: 'Excellence musicale',
+        description: "Notre réseau d'auteurs, de producteurs et de chanteurs professionnels garantit que chaque chanson répond aux plus hautes exigences.",
+      },
+      {
+        icon: '🤝',
+        title: 'Le client avant tout',
+        description: "Votre satisfaction est notre priorité. Nous travaillons avec vous, révision après révision, jusqu'à ce que la chanson corresponde parfaitement à votre vision.",
+      },
+      {
+        icon: '🌍',
+        title: 'Présence mondiale',
+        description: 'De Douala à New York, nous servons des clients du monde entier et apportons la musique personnalisée à toutes les célébrations.',
+      },
+    ],
+    processTitle: 'Notre méthode',
+    processText: "De votre première idée à la chanson finale, voici à quoi vous attendre.",
+    processSteps: [
+      {
+        title: 'Racontez votre histoire',
+        description: 'Remplissez notre questionnaire avec les détails de votre célébration, de la personne que vous honorez et des souvenirs que vous voulez immortaliser.',
+      },
+      {
+        title: 'Consultation',
+        description: 'À partir de la formule Classic, nous organisons un appel découverte pour approfondir votre histoire et discuter de vos préférences musicales.',
+      },
+      {
+        title: 'Création',
+        description: 'Nos auteurs écrivent des paroles originales et nos producteurs créent un arrangement adapté à votre style.',
+      },
+      {
+        title: 'Écoute et ajustements',
+        description: "Vous recevez votre chanson et pouvez demander des révisions pour qu'elle corresponde parfaitement à votre vision.",
+      },
+      {
+        title: 'Livraison',
+        description: 'Votre chanson finale est livrée en haute qualité audio, prête à rendre votre célébration inoubliable.',
+      },
+    ],
+    missionTitle: 'Notre mission',
+    mission:
+      "Créer une musique personnalisée qui capture l'essence des moments les plus importants de la vie, pour rendre chaque célébration plus mémorable, plus émouvante et unique.",
+    missionSignature: "L'équipe Eventune Studios",
+    ctaTitle: 'Créons quelque chose de beau',
+    ctaText:
+      "Prêt à transformer votre histoire en chanson ? Parlez-nous de votre célébration et créons ensemble un moment dont on se souviendra pour toujours.",
+  },
+
+  services: {
+    title: 'Services et tarifs | Eventune Studios',
+    description:
+      'Choisissez la formule et les options idéales pour votre chanson personnalisée. Des courtes mélodies aux productions complètes avec droits de propriété.',
+    heroTitle: 'Services et tarifs',
+    heroText:
+      'Composez la formule idéale pour votre chanson avec des tarifs flexibles. Choisissez une formule, puis ajoutez vidéos, licences et plus encore.',
+    tiersTitle: 'Formules',
+    tiersText: 'Choisissez votre formule de base, puis personnalisez-la avec les options ci-dessous.',
+    songLength: 'Durée :',
+    delivery: 'Livraison :',
+    revisions: 'Révisions :',
+    discoveryCallIncluded: 'Appel découverte inclus',
+    instrumentalIncluded: 'Version instrumentale incluse',
+    choosePackage: 'Choisir {name}',
+    videoTitle: 'Options vidéo',
+    videoText: 'Donnez vie à votre chanson avec une vidéo professionnelle.',
+    lyricVideo: 'Paroles',
+    musicVideo: 'Clip',
+    additionalDays: '+{count} jours',
+    addonsTitle: 'Personnalisez votre commande',
+    addonsText: 'Ajoutez des options pour une chanson parfaite.',
+    bundlesTitle: 'Packs multi-chansons',
+    bundlesText: 'Économisez en commandant plusieurs chansons à la fois.',
+    off: 'DE RÉDUCTION',
+    songs: 'chansons',
+    ctaText: 'Choisissez votre formule et ajoutez vos options lors du paiement.',
+  },
+
+  samples: {
+    title: 'Extraits de chansons | Eventune Studios',
+    description:
+      "Écoutez des extraits de nos chansons personnalisées : mariages, anniversaires, noces et bien plus.",
+    heroTitle: 'Écoutez nos créations',
+    heroText: 'Chaque chanson raconte une histoire unique. Écoutez des extraits des chansons que nous avons créées pour nos clients.',
+    allSamples: 'Tous les extraits',
+    video: 'VIDÉO',
+    play: 'Lire',
+    empty: 'Aucun extrait pour cette occasion.',
+    ctaTitle: 'Prêt pour votre propre chanson ?',
+    ctaText: 'Laissez-nous créer quelque chose de spécial pour votre célébration. Chaque chanson est unique, comme votre histoire.',
+  },
+
+  contact: {
+    title: 'Contact | Eventune Studios',
+    description:
+      'Contactez Eventune Studios. Nous répondons à vos questions et vous aidons à créer la chanson idéale pour votre célébration.',
+    heroText: 'Des questions sur nos services ? Un projet sur mesure ? Nous serions ravis de vous lire.',
+    methods: {
+      email: { title: 'Par e-mail', description: 'Écrivez-nous à tout moment' },
+      whatsapp: { title: 'WhatsApp', description: 'Discutez directement avec nous' },
+      social: { title: 'Réseaux sociaux', description: 'Suivez notre actualité' },
+    },
+    formTitle: 'Envoyez-nous un message',
+    firstName: 'Prénom',
+    lastName: 'Nom',
+    email: 'Adresse e-mail',
+    phone: 'Téléphone (facultatif)',
+    occasion: "Type d'occasion",
+    selectOccasion: 'Choisissez une occasion',
+    occasions: {
+      wedding: 'Mariage',
+      birthday: 'Anniversaire',
+      anniversary: 'Anniversaire de mariage',
+      graduation: 'Remise de diplôme',
+      other: 'Autre',
+    },
+    message: 'Votre message',
+    messagePlaceholder: 'Parlez-nous de votre célébration et de la façon dont nous pouvons vous aider...',
+    consent:
+      "J'accepte de recevoir des communications d'Eventune Studios. Nous respectons votre vie privée et ne partagerons jamais vos informations.",
+    send: 'Envoyer le message',
+    sending: 'Envoi...',
+    success: 'Merci pour votre message ! Nous vous répondrons sous 24 heures.',
+    error: 'Une erreur est survenue. Veuillez réessayer ou nous contacter directement.',
+    faqTitle: 'Questions courantes',
+    faqs: [
+      {
+        question: 'Sous quel délai répondez-vous ?',
+        answer: "Nous répondons généralement à toutes les demandes sous 24 heures, souvent bien plus vite. Pour les urgences, WhatsApp est le moyen le plus rapide de nous joindre.",
+      },
+      {
+        question: 'Quelles informations dois-je fournir ?',
+        answer: "Indiquez votre nom, le type d'occasion, vos délais et vos questions éventuelles. Plus vous donnez de détails, mieux nous pouvons vous aider !",
+      },
+      {
+        question: 'Puis-je demander une formule sur mesure ?',
+        answer: 'Bien sûr ! Si nos formules standard ne correspondent pas tout à fait à vos besoins, contactez-nous et nous créerons ensemble une solution sur mesure.',
+      },
+    ],
+    promiseTitle: 'Réponse rapide garantie',
+    promiseText:
+      "Nous savons que le temps compte souvent lorsqu'on prépare une célébration. C'est pourquoi nous nous engageons à répondre à toutes les demandes sous 24 heures, généralement bien plus vite.",
+    hoursTitle: "Heures d'ouverture",
+    weekdays: 'Lundi - Vendredi',
+    saturday: 'Samedi',
+    sunday: 'Dimanche',
+    closed: 'Fermé',
+    hoursNote: "Nous surveillons les messages en dehors des heures d'ouverture pour les demandes urgentes.",
+    ctaText:
+      'Passez directement à la commande de votre chanson. Notre questionnaire recueillera tous les détails dont nous avons besoin.',
+    ctaButton: 'Commander ma chanson',
+  },
+
+  auth: {
+    emailLabel: 'Adresse e-mail',
+    emailPlaceholder: 'vous@exemple.com',
+    passwordLabel: 'Mot de passe',
+    confirmPasswordLabel: 'Confirmer le mot de passe',
+    backToLogin: 'Retour à la connexion',
+    checkEmailTitle: 'Vérifiez votre boîte mail',
+    unexpectedError: 'Une erreur inattendue est survenue. Veuillez réessayer.',
+    passwordsDoNotMatch: 'Les mots de passe ne correspondent pas.',
+    weakPassword:
+      'Veuillez choisir un mot de passe plus fort, avec des majuscules, des minuscules, des chiffres et des caractères spéciaux.',
+    sending: 'Envoi en cours...',
+    strength: {
+      weak: 'Faible',
+      fair: 'Moyen',
+      good: 'Bon',
+      strong: 'Fort',
+    },
+    login: {
+      title: 'Connexion | Eventune Studios',
+      description: 'Connectez-vous à votre compte Eventune Studios',
+      heading: 'Bon retour parmi nous',
+      subheading: 'Connectez-vous à votre compte pour continuer',
+      forgotPassword: 'Mot de passe oublié ?',
+      passwordPlaceholder: 'Saisissez votre mot de passe',
+      rateLimited: 'Trop de tentatives de connexion. Veuillez réessayer dans {seconds} secondes.',
+      submit: 'Se connecter',
+      submitting: 'Connexion...',
+      or: 'ou',
+      google: 'Continuer avec Google (bientôt disponible)',
+      noAccount: "Vous n'avez pas de compte ?",
+      signUp: "S'inscrire",
+      invalidCredentials: 'E-mail ou mot de passe incorrect. Veuillez réessayer.',
+      emailNotConfirmed:
+        'Veuillez confirmer votre adresse e-mail avant de vous connecter. Le lien de confirmation se trouve dans votre boîte de réception.',
+      sessionFailed: "Impossible d'ouvrir la session. Veuillez réessayer.",
+    },
+    signup: {
+      title: 'Inscription | Eventune Studios',
+      description: 'Créez votre compte Eventune Studios',
+      heading: 'Créez votre compte',
+      subheading: 'Rejoignez-nous et commencez à créer des chansons personnalisées',
+      sentText: 'Nous avons envoyé un lien de confirmation à {email}. Cliquez sur ce lien pour confirmer votre compte.',
+      noEmail: "Vous n'avez pas reçu l'e-mail ? Vérifiez vos spams ou",
+      resend: 'renvoyez la confirmation',
+      resendSent: 'E-mail de confirmation envoyé ! Vérifiez votre boîte de réception.',
+      resendFailed: "Impossible de renvoyer l'e-mail de confirmation. Veuillez réessayer.",
+      firstName: 'Prénom',
+      firstNamePlaceholder: 'Jean',
+      lastName: 'Nom',
+      lastNamePlaceholder: 'Dupont',
+      passwordPlaceholder: 'Créez un mot de passe (8 caractères min.)',
+      confirmPasswordPlaceholder: 'Confirmez votre mot de passe',
+      agreeTo: "J'accepte les",
+      terms: "Conditions d'utilisation",
+      and: 'et la',
+      privacy: 'Politique de confidentialité',
+      rateLimited: "Trop de tentatives d'inscription. Veuillez réessayer plus tard.",
+      submit: 'Créer mon compte',
+      submitting: 'Création du compte...',
+      alreadyRegistered: 'Un compte existe déjà avec cet e-mail. Connectez-vous ou utilisez une autre adresse.',
+      haveAccount: 'Vous avez déjà un compte ?',
+      signIn: 'Se connecter',
+    },
+    forgotPassword: {
+      title: 'Mot de passe oublié | Eventune Studios',
+      description: 'Réinitialisez votre mot de passe Eventune Studios',
+      heading: 'Mot de passe oublié ?',
+      subheading: 'Pas de souci ! Saisissez votre e-mail et nous vous enverrons un lien de réinitialisation.',
+      sentText: 'Si un compte existe pour {email}, vous recevrez sous peu un lien de réinitialisation.',
+      noEmail: "Vous n'avez pas reçu l'e-mail ? Vérifiez vos spams ou patientez quelques minutes avant de réessayer.",
+      submit: 'Envoyer le lien',
+    },
+    resetPassword: {
+      title: 'Réinitialiser le mot de passe | Eventune Studios',
+      description: 'Choisissez votre nouveau mot de passe',
+      heading: 'Nouveau mot de passe',
+      subheading: 'Choisissez un mot de passe fort pour votre compte',
+      invalidTitle: 'Lien invalide ou expiré',
+      invalidText: "Ce lien de réinitialisation est invalide ou a expiré. Veuillez en demander un nouveau.",
+      requestNewLink: 'Demander un nouveau lien',
+      successTitle: 'Mot de passe mis à jour',
+      successText: 'Votre mot de passe a bien été modifié. Vous pouvez maintenant vous connecter avec votre nouveau mot de passe.',
+      signIn: 'Se connecter',
+      verifying: 'Vérification de votre lien...',
+      newPasswordLabel: 'Nouveau mot de passe',
+      newPasswordPlaceholder: 'Nouveau mot de passe (8 caractères min.)',
+      confirmPasswordLabel: 'Confirmer le nouveau mot de passe',
+      confirmPasswordPlaceholder: 'Confirmez le nouveau mot de passe',
+      submit: 'Mettre à jour le mot de passe',
+      submitting: 'Mise à jour...',
+    },
+    callback: {
+      title: 'Vérification... | Eventune Studios',
+      verifyingTitle: 'Vérification de votre compte',
+      verifyingText: 'Veuillez patienter pendant que nous confirmons vos informations...',
+      successTitle: 'E-mail confirmé !',
+      successText: 'Votre compte a été confirmé. Redirection en cours...',
+      errorTitle: 'Échec de la vérification',
+      errorText: "Une erreur s'est produite. Veuillez réessayer.",
+      goToLogin: 'Aller à la connexion',
+      signUpAgain: "S'inscrire à nouveau",
+      authFailed: "L'authentification a échoué. Veuillez réessayer.",
+      linkExpired: "Impossible de confirmer votre compte. Le lien a peut-être expiré.",
+      noAuthData: "Aucune donnée d'authentification trouvée. Veuillez vous reconnecter.",
+    },
+    loggingOut: 'Déconnexion...',
+  },
+
+  order: {
+    steps: {
+      choosePackage: 'Choix de la formule',
+      tellStory: 'Votre histoire',
+      checkout: 'Paiement',
+    },
+    occasion: {
+      title: 'Commander une chanson ({occasion}) | Eventune Studios',
+      description: 'Créez une chanson personnalisée ({occasion}). {tagline}',
+      heading: 'Chanson : {occasion}',
+      tagline: 'Créez une chanson personnalisée qui raconte votre histoire unique.',
+      choosePackage: 'Choisissez votre formule',
+      choosePackageText: 'Sélectionnez la formule la mieux adaptée à vos besoins et à vos délais.',
+      fullOwnership: 'Propriété complète',
+      continue: 'Continuer vers le questionnaire',
+      compare: 'Voir la comparaison détaillée des formules',
+      otherOccasions: 'Vous cherchez une autre occasion ?',
+    },
+    questionnaire: {
+      title: 'Votre histoire | Eventune Studios',
+      description: 'Partagez les détails de votre histoire pour que nous créions la chanson personnalisée idéale.',
+      heading: 'Racontez-nous votre histoire',
+      subheading: 'Plus vous partagez de détails, plus votre chanson sera personnelle et touchante.',
+      selectedPackage: 'Formule choisie',
+      occasion: 'Occasion',
+      change: 'Modifier',
+      groups: {
+        recipient: 'À propos du destinataire',
+        relationship: 'Votre relation',
+        memories: 'Votre histoire',
+        song_preferences: 'Préférences musicales',
+        additional: 'Informations complémentaires',
+      },
+      tipsTitle: 'Conseils pour une belle histoire :',
+      tips: [
+        'Comment vous êtes-vous rencontrés, ou quand votre relation a-t-elle commencé ?',
+        'Quels sont vos plus beaux souvenirs ensemble ?',
+        "Qu'est-ce qui rend cette personne si spéciale à vos yeux ?",
+        'Des surnoms, des blagues entre vous ou des phrases qui comptent ?',
+        'Que voulez-vous lui faire ressentir en écoutant cette chanson ?',
+      ],
+      selectOption: 'Choisissez une option',
+      paymentCurrency: 'Devise de paiement',
+      usdName: 'Dollar américain',
+      usdMethod: 'Carte bancaire',
+      xafName: 'Franc CFA',
+      xafMethod: 'Mobile Money',
+      promoCode: 'Code promo',
+      optional: '(facultatif)',
+      promoPlaceholder: 'Saisissez un code promo',
+      back: 'Retour',
+      saveSong: 'Enregistrer les détails',
+      continue: 'Continuer vers le paiement',
+      requiredFields: 'Veuillez remplir tous les champs obligatoires.',
+      processing: 'Traitement en cours...',
+      saveFailed: "Impossible d'enregistrer les détails de la chanson. Veuillez réessayer.",
+      priceFailed: 'Impossible de calculer le prix de votre commande. Veuillez réessayer.',
+      createFailed: 'Impossible de créer la commande. Veuillez réessayer.',
+      unexpectedError: 'Une erreur inattendue est survenue. Veuillez réessayer.',
+      fields: {
+        recipientName: {
+          label: 'Pour qui est cette chanson ?',
+          placeholder: 'ex. : Sarah, Maman, Jean & Marie',
+          help: 'La ou les personnes célébrées par cette chanson',
+        },
+        relationship: {
+          label: 'Votre lien avec cette personne',
+          placeholder: 'Choisissez un lien',
+          options: {
+            spouse: 'Conjoint / Partenaire',
+            parent: 'Parent',
+            child: 'Enfant',
+            sibling: 'Frère / Sœur',
+            friend: 'Ami(e)',
+            grandparent: 'Grand-parent',
+            other_family: 'Autre membre de la famille',
+            colleague: 'Collègue',
+            other: 'Autre',
+          },
+        },
+        occasionDate: {
+          label: "Quand a lieu l'événement ?",
+          help: 'Cela nous aide à prioriser la livraison',
+        },
+        story: {
+          label: 'Racontez-nous votre histoire',
+          placeholder:
+            'Partagez les souvenirs, les moments et les émotions à capturer dans la chanson. Ajoutez des détails précis, des blagues entre vous, des lieux marquants ou des phrases qui comptent pour vous deux...',
+          help: "C'est le cœur de votre chanson. Plus il y a de détails, mieux c'est !",
+        },
+        genre: {
+          label: 'Genre / style préféré',
+          placeholder: 'Laissez nos artistes choisir',
+          options: {
+            pop: 'Pop',
+            rnb: 'R&B / Soul',
+            acoustic: 'Acoustique',
+            country: 'Country',
+            gospel: 'Gospel',
+            jazz: 'Jazz',
+            afrobeats: 'Afrobeats',
+            classical: 'Classique',
+          },
+        },
+        moods: {
+          label: 'Ambiance / émotion',
+          help: "Sélectionnez tout ce qui s'applique",
+          options: {
+            romantic: 'Romantique',
+            upbeat: 'Entraînante',
+            emotional: 'Émouvante',
+            celebratory: 'Festive',
+            nostalgic: 'Nostalgique',
+            inspirational: 'Inspirante',
+          },
+        },
+        specialRequests: {
+          label: 'Des demandes particulières ?',
+          placeholder: 'Des chansons de référence, des paroles à inclure ou tout autre détail utile...',
+        },
+      },
+    },
+    checkout: {
+      title: 'Paiement | Eventune Studios',
+      description: 'Finalisez votre commande de chanson personnalisée.',
+      loading: 'Chargement de la commande...',
+      notFoundTitle: 'Commande introuvable',
+      notFoundText: 'Nous ne trouvons pas cette commande. Elle a peut-être expiré ou a déjà été finalisée.',
+      startNew: 'Nouvelle commande',
+      heading: 'Finalisez votre commande',
+      subheading: 'Vérifiez votre commande et choisissez un moyen de paiement.',
+      summary: 'Récapitulatif',
+      package: 'Formule',
+      occasion: 'Occasion',
+      recipient: 'Destinataire',
+      total: 'Total',
+      paymentMethod: 'Moyen de paiement',
+      stripeText: 'Paiement sécurisé par Stripe. Nous acceptons toutes les principales cartes de crédit et de débit.',
+      payCard: 'Payer par carte',
+      mobileText: 'Payez avec MTN Mobile Money ou Orange Money.',
+      mtnText: 'Payez avec votre compte MTN MoMo',
+      orangeText: 'Payez avec votre compte Orange Money',
+      phoneLabel: 'Numéro de téléphone',
+      phoneHint: 'Saisissez votre numéro Mobile Money sans indicatif pays',
+      payMobile: 'Payer par Mobile Money',
+      processingTitle: 'Paiement en cours',
+      processingText: 'Veuillez patienter pendant le traitement de votre paiement...',
+      secure: 'Paiement sécurisé. Vos informations de paiement sont chiffrées.',
+      unknown: 'Inconnu',
+      noOrderId: 'Aucun identifiant de commande fourni.',
+      accessDenied: 'Commande introuvable ou accès refusé.',
+      unavailable: "Cette commande n'est plus disponible au paiement.",
+      loadFailed: 'Impossible de charger la commande.',
+      redirecting: 'Redirection...',
+      initiateFailed: "Impossible d'initier le paiement.",
+      initiateFailedRetry: "Impossible d'initier le paiement. Veuillez réessayer.",
+      invalidPhone: 'Veuillez saisir un numéro de téléphone valide.',
+      initiatingMobile: 'Lancement du paiement Mobile Money...',
+      confirmOnPhone: 'Veuillez confirmer le paiement sur votre téléphone. Cela peut prendre un instant...',
+      paymentFailed: 'Le paiement a échoué. Veuillez réessayer.',
+      timeout: 'Délai de paiement dépassé. Vérifiez votre téléphone ou réessayez.',
+    },
+    success: {
+      title: 'Commande confirmée - Eventune Studios',
+      description: 'Votre commande de chanson personnalisée est confirmée',
+      thanks: 'Merci pour votre commande !',
+      received: 'Commande reçue !',
+      paidText: 'Votre paiement est confirmé. Nous avons hâte de créer votre chanson personnalisée !',
+      pendingText: 'Nous traitons votre paiement. Vous recevrez un e-mail de confirmation sous peu.',
+      summary: 'Récapitulatif',
+      orderNumber: 'Numéro de commande',
+      package: 'Formule',
+      occasion: 'Occasion',
+      amount: 'Montant',
+      paymentStatus: 'Statut du paiement',
+      paid: 'Payé',
+      processing: 'En cours',
+      estimatedDelivery: 'Livraison estimée',
+      nextTitle: 'Et maintenant ?',
+      confirmationTitle: 'E-mail de confirmation',
+      confirmationText: 'Vous recevrez un e-mail avec les détails de votre commande à {email}',
+      creationTitle: 'Création de la chanson',
+      creationText: 'Nos artistes vont commencer à composer votre chanson personnalisée à partir de votre histoire',
+      callTitle: 'Appel découverte',
+      callText: 'Nous vous contacterons pour planifier votre appel découverte et parler de vos envies',
+      deliveryTitle: 'Livraison',
+      deliveryText: 'Votre chanson terminée sera livrée sur votre espace client et par e-mail',
+      track: 'Suivre ma commande',
+      home: "Retour à l'accueil",
+      questions: 'Des questions ? Écrivez-nous à',
+    },
+  },
+
+  dashboard: {
+    layout: {
+      welcomeBack: 'Bon retour,',
+      toggleMenu: 'Afficher le menu',
+      nav: {
+        dashboard: 'Tableau de bord',
+        orders: 'Mes commandes',
+        profile: 'Profil',
+        referrals: 'Parrainage',
+      },
+      adminPortal: 'Portail admin',
+      signOut: 'Se déconnecter',
+    },
+    statuses: {
+      pending: 'En attente',
+      payment_pending: 'Paiement en attente',
+      paid: 'Payée',
+      in_progress: 'En cours',
+      composing: 'Composition',
+      recording: 'Enregistrement',
+      mixing: 'Mixage',
+      review: 'En relecture',
+      revision: 'Révision',
+      completed: 'Terminée',
+      delivered: 'Livrée',
+      cancelled: 'Annulée',
+      refunded: 'Remboursée',
+    },
+    loadOrdersError: 'Impossible de charger les commandes. Veuillez actualiser la page.',
+    genericError: "Une erreur s'est produite. Veuillez réessayer.",
+    customSong: 'Chanson personnalisée',
+    standardPackage: 'Standard',
+    packageName: 'Formule {package}',
+    bundleSong: 'Chanson {position}',
+    addSongDetails: 'Ajouter les détails de la chanson',
+    home: {
+      title: 'Tableau de bord',
+      greetings: {
+        morning: 'Bonjour',
+        afternoon: 'Bon après-midi',
+        evening: 'Bonsoir',
+      },
+      welcomeBack: 'Bon retour,',
+      journeyBegins: 'Votre aventure musicale commence ici.',
+      inProductionOne: '{count} chanson en production',
+      inProductionMany: '{count} chansons en production',
+      caughtUp: 'Tout est à jour. Prêt pour un nouveau projet ?',
+      newSong: 'Nouvelle chanson',
+      totalOrders: 'Commandes',
+      pending: 'En attente',
+      inStudio: 'En studio',
+      delivered: 'Livrées',
+      recentOrders: 'Commandes récentes',
+      viewAll: 'Tout voir',
+      emptyTitle: 'Votre studio vous attend',
+      emptyText: 'Commandez votre première chanson personnalisée et transformez votre histoire en musique.',
+      exploreServices: 'Découvrir nos services',
+    },
+    orders: {
+      title: 'Mes commandes',
+      totalOne: '{count} commande au total',
+      totalMany: '{count} commandes au total',
+      allStatuses: 'Tous les statuts',
+      emptyTitle: 'Aucune commande pour le moment',
+      emptyText: 'Votre historique de commandes apparaîtra ici dès que vous aurez créé votre première chanson personnalisée.',
+      startFirst: 'Passer ma première commande',
+      order: 'Commande',
+      details: 'Détails',
+      status: 'Statut',
+      amount: 'Montant',
+      date: 'Date',
+      bundle: 'Pack de {count} chansons',
+      view: 'Voir',
+      viewDetails: 'Voir les détails',
+    },
+    orderDetail: {
+      title: 'Commande {number}',
+      loadError: 'Impossible de charger les détails de la commande.',
+      backToOrders: 'Retour aux commandes',
+      createdOn: 'Créée le {date}',
+      downloadSong: 'Télécharger votre chanson',
+      occasion: 'Occasion',
+      package: 'Formule',
+      amount: 'Montant',
+      paymentStatus: 'Statut du paiement',
+      paid: 'Payé',
+      pending: 'En attente',
+      expectedDelivery: 'Livraison prévue',
+      songTitle: 'Titre de la chanson',
+      bundle: 'Pack',
+      bundleSongOf: 'Chanson {position} de {number}',
+      bundleSongs: 'Chansons de ce pack',
+      timeline: 'Suivi de la commande',
+      timelineEmpty: "Les mises à jour de statut apparaîtront ici au fil de l'avancement de votre commande.",
+      previewTitle: 'Votre aperçu',
+      version: 'Version {version}',
+      previewReview:
+        'Écoutez-le. Cet aperçu est filigrané ; vos fichiers définitifs vous sont livrés dès que vous le validez.',
+      previewRevising: 'Nous travaillons sur vos modifications. Vous pouvez toujours écouter le dernier aperçu.',
+      approvePreview: "Valider l'aperçu",
+      requestChanges: 'Demander des modifications',
+      filesTitle: 'Vos fichiers',
+      fileTypes: {
+        mp3: 'Chanson (MP3)',
+        wav_master: 'Master WAV',
+        instrumental: 'Instrumental',
+        lyric_sheet: 'Paroles (PDF)',
+        video: 'Vidéo',
+        preview: 'Aperçu',
+      },
+      latest: 'Dernière',
+      revisionRound: 'Révision n°{round}',
+      download: 'Télécharger',
+      revisionsTitle: 'Révisions',
+      revisionsRemaining: '{remaining} sur {total} restantes',
+      revisionsIncludedOne: "Votre formule comprend {count} révision. Aucune n'a encore été utilisée.",
+      revisionsIncludedMany: "Votre formule comprend {count} révisions. Aucune n'a encore été utilisée.",
+      revisionStatuses: {
+        pending: "En attente d'examen",
+        accepted: 'En cours',
+        rejected: 'Non acceptée',
+        completed: 'Livrée',
+      },
+      round: 'Révision {round}',
+      extra: '(supplémentaire)',
+      studioResponse: 'Studio : {response}',
+      deliveredVersion: 'Version livrée : {filename}',
+      requestedOn: 'Demandée le {date}',
+      deliveredOn: 'Livrée le {date}',
+      requestRevision: 'Demander une révision',
+      requestRevisionText:
+        "Ce n'est pas tout à fait ça ? Dites-nous quels ajustements vous souhaitez et nous la rendrons parfaite.",
+      revisionsLeftOne: 'Il vous reste {count} révision.',
+      revisionsLeftMany: 'Il vous reste {count} révisions.',
+      revisionNotesLabel: 'Que souhaitez-vous modifier ?',
+      revisionNotesPlaceholder: 'Décrivez les modifications souhaitées...',
+      paymentSummary: 'Récapitulatif du paiement',
+      total: 'Total',
+      completePayment: 'Finaliser le paiement',
+      quickActions: 'Actions rapides',
+      contactSupport: 'Contacter le support',
+      orderAnother: 'Commander une autre chanson',
+      helpTitle: "Besoin d'aide ?",
+      helpText: 'Notre équipe est là pour répondre à toutes vos questions sur votre commande.',
+      previewUnavailable: 'Aperçu indisponible',
+      previewLoadFailed: "Impossible de charger l'aperçu. Veuillez réessayer.",
+      approveConfirm: 'Valider cet aperçu ? Nous préparerons ensuite vos fichiers définitifs.',
+      previewApproved: 'Aperçu validé !',
+      approveFailed: "Impossible de valider l'aperçu",
+      downloadFailed: 'Échec du téléchargement',
+      submitting: 'Envoi...',
+      revisionSubmitted: 'Demande de révision envoyée !',
+      revisionFailed: "Impossible d'envoyer la demande de révision",
+      unexpectedError: 'Une erreur inattendue est survenue. Veuillez réessayer.',
+    },
+    profile: {
+      title: 'Paramètres du profil',
+      infoTitle: 'Informations du profil',
+      infoText: 'Mettez à jour vos informations personnelles',
+      fullName: 'Nom complet',
+      fullNamePlaceholder: 'Saisissez votre nom complet',
+      email: 'Adresse e-mail',
+      emailPlaceholder: 'Saisissez votre e-mail',
+      emailHint: 'Contactez le support pour modifier votre e-mail',
+      phone: 'Numéro de téléphone',
+      phonePlaceholder: 'Numéro de téléphone',
+      language: 'Langue préférée',
+      saveChanges: 'Enregistrer',
+      passwordTitle: 'Changer le mot de passe',
+      passwordText: 'Mettez à jour votre mot de passe pour sécuriser votre compte',
+      currentPassword: 'Mot de passe actuel',
+      currentPasswordPlaceholder: 'Saisissez votre mot de passe actuel',
+      newPassword: 'Nouveau mot de passe',
+      newPasswordPlaceholder: 'Saisissez le nouveau mot de passe',
+      confirmPassword: 'Confirmer le nouveau mot de passe',
+      confirmPasswordPlaceholder: 'Confirmez le nouveau mot de passe',
+      updatePassword: 'Mettre à jour le mot de passe',
+      notificationsTitle: 'Notifications',
+      notificationsText: 'Choisissez comment recevoir les mises à jour',
+      emailNotifications: 'Notifications par e-mail',
+      emailNotificationsText:
+        'Recevez les mises à jour de commande par e-mail. Les reçus et avis de remboursement sont toujours envoyés par e-mail.',
+      smsNotifications: 'Notifications par SMS',
+      smsNotificationsText: 'Recevez les mises à jour urgentes par SMS',
+      whatsappNotifications: 'Notifications WhatsApp',
+      whatsappNotificationsText: 'Recevez confirmations, mises à jour et liens de livraison sur WhatsApp',
+      marketingEmails: 'E-mails promotionnels',
+      marketingEmailsText: 'Recevez nos offres spéciales et promotions',
+      savePreferences: 'Enregistrer les préférences',
+      dangerTitle: 'Zone de danger',
+      dangerText: 'Actions irréversibles',
+      dangerDescription:
+        "Une fois votre compte supprimé, il n'y a pas de retour en arrière. Toutes vos données, y compris l'historique des commandes et vos préférences, seront définitivement supprimées.",
+      deleteAccount: 'Supprimer le compte',
+      deleteTitle: 'Supprimer le compte ?',
+      deleteText: 'Cette action est irréversible. Toutes vos données seront définitivement supprimées.',
+      deleteConfirmBefore: 'Tapez',
+      deleteConfirmAfter: 'pour confirmer',
+      cancel: 'Annuler',
+      deleteForever: 'Supprimer définitivement',
+      unexpectedError: 'Une erreur inattendue est survenue',
+      profileUpdated: 'Profil mis à jour !',
+      profileFailed: 'Impossible de mettre à jour le profil',
+      passwordMismatch: 'Les mots de passe ne correspondent pas',
+      updating: 'Mise à jour...',
+      passwordUpdated: 'Mot de passe mis à jour !',
+      passwordFailed: 'Impossible de mettre à jour le mot de passe',
+      saving: 'Enregistrement...',
+      preferencesSaved: 'Préférences enregistrées !',
+      preferencesFailed: 'Impossible de mettre à jour les préférences',
+      deleteUnavailable: "La suppression de compte n'est pas encore disponible. Contactez le support pour obtenir de l'aide.",
+    },
+    referrals: {
+      title: 'Parrainage',
+      joinTitle: "Rejoignez notre programme d'affiliation",
+      joinText:
+        "Gagnez des commissions en faisant connaître Eventune Studios autour de vous. Obtenez votre lien de parrainage unique et commencez à gagner dès aujourd'hui.",
+      joinNow: 'Rejoindre',
+      learnMore: 'En savoir plus sur le programme',
+      tabs: {
+        overview: 'Aperçu',
+        referrals: 'Filleuls',
+        links: 'Liens',
+        commissions: 'Commissions',
+        payouts: 'Paiements',
+        settings: 'Paramètres',
+      },
+      totalEarnings: 'Gains totaux ({currency})',
+      currentBalance: 'Solde actuel ({currency})',
+      totalReferrals: 'Filleuls',
+      conversionRate: 'Taux de conversion',
+      last30Days: '30 derniers jours',
+      uniqueVisitors: 'Visiteurs uniques de vos liens',
+      campaign: 'Campagne',
+      clicks: 'Clics',
+      signups: 'Inscriptions',
+      firstOrders: 'Premières commandes',
+      conversion: 'Conversion',
+      revenue: "Chiffre d'affaires",
+      campaignHelp: 'Ajoutez {param} à vos partages (ex. {example}) pour comparer vos campagnes.',
+      yourLink: 'Votre lien de parrainage',
+      copy: 'Copier',
+      copied: 'Copié !',
+      linkHelp: 'Partagez ce lien avec vos clients potentiels. Vous toucherez une commission sur leurs achats.',
+      qrCode: 'QR code',
+      downloadQr: 'Télécharger le QR code',
+      requestPayout: 'Demander un paiement',
+      shareLink: 'Partager le lien',
+      referredCustomers: 'Clients parrainés',
+      total: '{count} au total',
+      noReferrals: 'Aucun filleul pour le moment. Partagez votre lien pour commencer !',
+      customer: 'Client',
+      date: 'Date',
+      status: 'Statut',
+      orders: 'Commandes',
+      notAvailable: 'N/D',
+      converted: 'Converti',
+      pending: 'En attente',
+      trackingLinks: 'Liens de suivi',
+      activeLinks: '{count} actifs',
+      linkName: 'Nom du lien',
+      linkNamePlaceholder: 'ex. instagram-bio',
+      linkNameHelp: 'Lettres minuscules, chiffres et tirets. Vous seul voyez ce nom.',
+      occasion: 'Occasion',
+      homePage: "Page d'accueil",
+      package: 'Formule',
+      anyPackage: 'Toutes les formules',
+      createLink: 'Créer le lien',
+      noLinks: 'Aucun lien de suivi pour le moment. Créez-en un pour chaque endroit où vous partagez, pour voir lequel fonctionne le mieux.',
+      name: 'Nom',
+      shortLink: 'Lien court',
+      landsOn: 'Destination',
+      copyLink: 'Copier le lien',
+      remove: 'Supprimer',
+      commissionHistory: 'Historique des commissions',
+      allStatuses: 'Tous les statuts',
+      allCurrencies: 'Toutes les devises',
+      commissionStatuses: {
+        pending: 'En attente',
+        approved: 'Approuvée',
+        paid: 'Payée',
+        rejected: 'Rejetée',
+      },
+      noCommissions: 'Aucune commission pour le moment. Elles apparaîtront ici dès que vos filleuls effectueront des achats.',
+      orderNumber: 'Commande n°',
+      amount: 'Montant',
+      currency: 'Devise',
+      rate: 'Taux',
+      level: 'Niveau',
+      levelNumber: 'Niveau {level}',
+      payoutManagement: 'Gestion des paiements',
+      availableBalance: 'Solde disponible ({currency})',
+      minimumPayout: 'Paiement minimum : ${usd} USD / {xaf} XAF',
+      payoutHistory: 'Historique des paiements',
+      noPayouts: 'Aucune demande de paiement pour le moment.',
+      payoutStatuses: {
+        requested: 'Demandé',
+        processing: 'En traitement',
+        paid: 'Payé',
+        rejected: 'Rejeté',
+      },
+      requested: 'Demandé le',
+      processed: 'Traité le',
+      payoutSettings: 'Paramètres de paiement',
+      payoutMethod: 'Mode de paiement',
+      selectMethod: 'Choisir un mode...',
+      mobileMoney: 'Mobile Money',
+      bankTransfer: 'Virement bancaire',
+      phoneNumber: 'Numéro de téléphone',
+      operator: 'Opérateur',
+      selectOperator: 'Choisir un opérateur...',
+      bankName: 'Nom de la banque',
+      bankNamePlaceholder: 'ex. Afriland First Bank',
+      accountNumber: 'Numéro de compte',
+      accountName: 'Titulaire du compte',
+      accountNamePlaceholder: 'Nom complet tel que sur le compte',
+      paypalEmail: 'E-mail PayPal',
+      saveSettings: 'Enregistrer les paramètres',
+      selectCurrency: 'Choisir une devise...',
+      currencyAvailable: '{currency} ({amount} disponibles)',
+      cancel: 'Annuler',
+      submitRequest: 'Envoyer la demande',
+      shareTitle: 'Découvrez Eventune Studios',
+      shareText: 'Découvrez Eventune Studios pour des chansons personnalisées !',
+      linkCopied: 'Lien copié dans le presse-papiers !',
+      unknownError: 'Erreur inconnue',
+      createLinkError: 'Erreur lors de la création du lien',
+      removeLinkConfirm: 'Supprimer ce lien ? Il cessera de fonctionner, mais son historique est conservé.',
+      removeLinkError: 'Erreur lors de la suppression du lien',
+      settingsSaved: 'Paramètres enregistrés !',
+      saveSettingsError: "Erreur lors de l'enregistrement des paramètres",
+      payoutRangeUSD: 'Minimum : 10 $ USD, maximum : {max} $ USD',
+      payoutRangeXAF: 'Minimum : 5 000 XAF, maximum : {max} XAF',
+      payoutRequested: 'Demande de paiement envoyée !',
+      payoutError: 'Erreur lors de la demande de paiement',
+      joining: 'Inscription...',
+      joinError: "Erreur lors de l'inscription au programme",
+    },
+  },
+
+  orderStatus: {
+    valuedCustomer: 'Cher client',
+    defaultDescription: 'Le statut de votre commande a été mis à jour.',
+    previewReady:
+      'Votre aperçu est prêt. Écoutez-le sur la page de votre commande, puis validez-le ou demandez des modifications.',
+    labels: {
+      paid: 'Paiement confirmé',
+      in_progress: 'En cours',
+      composing: 'Composition',
+      recording: 'Enregistrement',
+      mixing: 'Mixage et mastering',
+      review: 'Prête pour votre écoute',
+      completed: 'Terminée',
+      delivered: 'Livrée',
+    },
+    descriptions: {
+      paid: 'Paiement confirmé ! Votre commande est dans notre file et nous commencerons à y travailler très bientôt.',
+      in_progress: 'Nous avons commencé à travailler sur votre chanson. Notre équipe étudie votre questionnaire pour créer quelque chose de spécial pour vous.',
+      composing: 'Notre auteur compose la mélodie et les paroles de votre chanson selon vos préférences.',
+      recording: "Votre chanson est en cours d'enregistrement par nos musiciens. La magie opère !",
+      mixing: 'Nous mixons et masterisons votre chanson pour un son parfait.',
+      review: "Votre chanson est prête pour votre écoute. Rendez-vous sur votre tableau de bord pour l'écouter et nous faire vos retours.",
+      completed: "Votre chanson est terminée et prête à être téléchargée. Merci d'avoir choisi Eventune Studios !",
+      delivered: 'Votre chanson a été livrée ! Vous pouvez la télécharger depuis votre tableau de bord.',
+    },
+  },
+
+  email: {
+    greeting: 'Bonjour {name},',
+    orderConfirmation: {
+      subject: 'Commande confirmée - {orderNumber}',
+      heading: 'Merci pour votre commande !',
+      intro: 'Nous avons bien reçu votre commande et avons hâte de créer votre chanson personnalisée !',
+      orderNumber: 'Numéro de commande :',
+      package: 'Formule :',
+      occasion: 'Occasion :',
+      amountPaid: 'Montant payé :',
+      amount: 'Montant :',
+      estimatedDelivery: 'Livraison estimée :',
+      track: "Vous pouvez suivre l'avancement de votre commande à tout moment :",
+      button: 'Voir ma commande',
+      outro: "Nous vous tiendrons informé(e) pendant la création de votre chanson. Pour toute question, répondez simplement à cet e-mail.",
+      textIntro: 'Merci pour votre commande {orderNumber} !',
+      textTrack: 'Suivre votre commande :',
+    },
+    statusUpdate: {
+      subject: 'Mise à jour de la commande - {orderNumber}',
+      heading: 'Mise à jour de votre commande',
+      intro: 'Votre commande {orderNumber} a été mise à jour :',
+      newStatus: 'Nouveau statut :',
+      button: 'Voir les détails',
+      textTitle: 'Mise à jour de la commande {orderNumber}',
+      textDetails: 'Voir les détails :',
+    },
+    delivery: {
+      subject: 'Votre chanson est prête ! - {orderNumber}',
+      heading: 'Votre chanson personnalisée est prête !',
+      intro: 'Bonne nouvelle ! Votre chanson {packageName} est terminée et prête à être téléchargée.',
+      button: 'Télécharger ma chanson',
+      expires: 'Ce lien de téléchargement expire le {date}.',
+      outro: "Nous espérons qu'elle vous plaira ! Vos commentaires et questions sont toujours les bienvenus.",
+      textTitle: 'Votre chanson est prête !',
+      textDownload: 'Téléchargement :',
+      textExpires: 'Expire le :',
+    },
+    cancellation: {
+      subject: 'Commande annulée - {orderNumber}',
+      heading: 'Commande annulée',
+      intro: 'Votre commande {orderNumber} a été annulée.',
+      refund: 'Un remboursement de {amount} sera effectué sous 5 à 10 jours ouvrés.',
+      reason: 'Motif : {reason}',
+      outro: "Pour toute question, n'hésitez pas à nous contacter.",
+      textRefund: 'Remboursement : {amount}',
+    },
+    revisionReceived: {
+      subject: 'Demande de révision reçue - {orderNumber}',
+      heading: 'Demande de révision reçue',
+      intro: 'Nous avons bien reçu votre demande de révision pour la commande {orderNumber}.',
+      feedback: 'Vos remarques :',
+      review: "Notre équipe va examiner votre demande et reviendra vers vous sous 24 à 48 heures.",
+      button: 'Suivre ma commande',
+      textTrack: 'Suivez votre commande :',
+    },
+    revisionUpdate: {
+      accepted: {
+        subject: 'Révision acceptée - {orderNumber}',
+        heading: 'Révision acceptée',
+        message: 'Nous avons accepté la révision n° {round} et notre équipe travaille sur vos modifications.',
+      },
+      rejected: {
+        subject: 'Mise à jour de votre demande de révision - {orderNumber}',
+        heading: 'Mise à jour de votre demande de révision',
+        message: "Nous ne pouvons pas réaliser la révision n° {round} telle que demandée. Elle n'a pas été décomptée de vos révisions.",
+      },
+      completed: {
+        subject: 'Révision livrée - {orderNumber}',
+        heading: 'Révision livrée',
+        message: 'La révision n° {round} est terminée et votre chanson mise à jour vous attend dans votre tableau de bord.',
+      },
+      follow: 'Vous pouvez suivre votre révision dans votre tableau de bord.',
+      button: 'Voir ma commande',
+      textTrack: 'Suivez votre commande :',
+    },
+    passwordReset: {
+      subject: 'Réinitialisez votre mot de passe',
+      intro: 'Vous avez demandé à réinitialiser votre mot de passe. Cliquez sur le bouton ci-dessous pour en créer un nouveau :',
+      button: 'Réinitialiser le mot de passe',
+      expires: 'Ce lien expire dans {expiresIn}.',
+      outro: "Si vous n'êtes pas à l'origine de cette demande, vous pouvez ignorer cet e-mail.",
+      textReset: 'Réinitialisez votre mot de passe :',
+      textExpires: 'Expire dans {expiresIn}',
+    },
+    welcome: {
+      subject: 'Bienvenue chez {brand} !',
+      heading: 'Bienvenue, {name} !',
+      intro: 'Merci de nous avoir rejoints chez {brand}. Nous avons hâte de vous aider à créer des chansons personnalisées pour les moments importants de la vie.',
+      button: 'Vérifier mon e-mail',
+      outro: "Prêt(e) à commencer ? Découvrez nos formules et trouvez l'option idéale pour votre occasion.",
+      textTitle: 'Bienvenue chez {brand}, {name} !',
+      textVerify: 'Vérifiez votre e-mail :',
+    },
+    tierChange: {
+      subjectPromoted: 'Vous êtes passé(e) au niveau {tier}',
+      subjectChanged: 'Votre niveau affilié est désormais {tier}',
+      headlinePromoted: 'Vous avez atteint le niveau {tier} !',
+      headlineChanged: 'Votre niveau affilié est désormais {tier}',
+      conversionsOne: 'Vous avez converti {count} commande en {period} : votre niveau passe de {previous} à {tier}.',
+      conversionsMany: 'Vous avez converti {count} commandes en {period} : votre niveau passe de {previous} à {tier}.',
+      rate: 'Votre commission sur les ventes directes est désormais de {rate}.',
+      standardRate: 'Votre commission sur les ventes directes est désormais le taux standard du programme.',
+      promotedOutro: 'Merci de parler de nous autour de vous, continuez ainsi !',
+      demotedOutro: 'Les niveaux sont revus chaque mois : de bonnes ventes ce mois-ci vous feront remonter.',
+      button: 'Voir mon tableau de bord',
+      textDashboard: 'Tableau de bord :',
+    },
+  },
+
+  sms: {
+    orderConfirmation:
+      'Bonjour {name} ! Votre commande {orderNumber} ({packageName}) est confirmée. Livraison estimée : {estimatedDelivery}. Suivi sur eventunestudios.com/dashboard - {brand}',
+    statusUpdate: '{brand} : Votre commande {orderNumber} est maintenant : {status}. Consultez votre tableau de bord pour plus de détails.',
+    deliveryReady: '{brand} : Bonne nouvelle {name} ! Votre chanson {orderNumber} est prête à être téléchargée : {url}',
+    revisionRequested:
+      "{brand} : Nous avons bien reçu votre demande de révision pour {orderNumber}. Notre équipe l'examinera sous 24 à 48 heures.",
+    paymentReminder:
+      'Bonjour {name}, petit rappel : la commande {orderNumber} ({amount}) est en attente de paiement. Finalisez-la sur eventunestudios.com/dashboard - {brand}',
+  },
+};
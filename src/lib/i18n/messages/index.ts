@@ -0,0 +1,18 @@
+/**
+ * Message Catalogs
+ */
+
+import type { Locale } from '../index';
+import { en, type Messages } from './en';
+import { fr } from './fr';
+
+const catalogs: Record<Locale, Messages> = { en, fr };
+
+/**
+ * Get the UI messages for a locale
+ */
+export function getMessages(locale: Locale): Messages {
+  return catalogs[locale] ?? en;
+}
+
+export type { Messages };
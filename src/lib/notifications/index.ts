@@ -1,11 +1,13 @@
 /**
  * Notification Service
  * Centralized service for sending email and SMS notifications
+ *
+ * Messages are written to the notification queue and delivered by the
+ * process-notifications worker, which retries provider failures.
+ * Recipient preferences are applied by ./preferences on the way in.
  */
 
-import { sendEmail, sendTemplatedEmail, type SendEmailOptions } from '../email/client';
-import { sendSMS, sendTemplatedSMS, type SendSMSOptions } from '../sms/client';
-import { siteConfig } from '@/config';
+import { enqueueEmail, enqueueSMS, type EnqueueMeta } from '../../services/notification-queue.service';
 
 /**
  * Send notification via email and optionally SMS
@@ -19,7 +21,7 @@ export interface NotificationOptions {
     text?: string;
     tags?: { name: string; value: string }[];
   };
-  // SMS is optional and only sent if enabled and phone provided
+  // SMS is optional and only sent if enabled, opted in and phone provided
   sms?: {
     to: string; // E.164 format phone number
     body: string;
@@ -27,7 +29,8 @@ export interface NotificationOptions {
 }
 
 /**
- * Result of sending notifications
+ * Result of queueing notifications
+ * success means the message was queued, not yet delivered.
  */
 export interface NotificationResult {
   email: {
@@ -41,39 +44,23 @@ export interface NotificationResult {
 }
 
 /**
- * Send multi-channel notification (email + optional SMS)
+ * Queue multi-channel notification (email + optional SMS)
  */
 export async function sendNotification(
-  options: NotificationOptions
+  options: NotificationOptions,
+  meta: EnqueueMeta = {}
 ): Promise<NotificationResult> {
   const result: NotificationResult = {
-    email: { success: false },
+    email: await enqueueEmail(options.email, meta),
   };
 
-  // Always send email
-  try {
-    const emailResult = await sendEmail(options.email);
-    result.email = emailResult;
-  } catch (error) {
-    console.error('[NOTIFICATION] Email failed:', error);
-    result.email = {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
-  }
-
-  // Send SMS if enabled and phone provided
-  if (options.sms && siteConfig.features.enableSMS) {
-    try {
-      const smsResult = await sendSMS(options.sms);
-      result.sms = smsResult;
-    } catch (error) {
-      console.error('[NOTIFICATION] SMS failed:', error);
-      result.sms = {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-      };
-    }
+  // Queue SMS if phone provided (preferences decide whether it is sent)
+  if (options.sms) {
+    result.sms = await enqueueSMS(options.sms, {
+      type: options.email.tags?.find((tag) => tag.name === 'type')?.value,
+      recipientEmail: options.email.to,
+      ...meta,
+    });
   }
 
   return result;
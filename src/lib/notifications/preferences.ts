@@ -0,0 +1,153 @@
+/**
+ * Notification Preferences
+ * Decides whether a notification may be sent to a recipient on a channel
+ *
+ * Every queued notification is resolved here before it is written:
+ * - required: receipts and refund notices. Always emailed; SMS/WhatsApp still need opt-in
+ * - transactional: order progress. Follows the recipient's channel preference
+ * - marketing: also needs marketing_consent
+ * - internal: alerts to the studio/admins, never filtered
+ */
+
+import { getServerClient } from '../supabase/server';
+import { siteConfig } from '@/config';
+
+export type NotificationCategory = 'required' | 'transactional' | 'marketing' | 'internal';
+
+export type SuppressionReason =
+  | 'channel_disabled'
+  | 'channel_opt_out'
+  | 'no_marketing_consent'
+  | 'account_deleted';
+
+export interface NotificationPreferences {
+  email: boolean;
+  sms: boolean;
+  whatsapp: boolean;
+}
+
+export interface PreferenceRecipient {
+  recipientId?: string | null;
+  email?: string | null;
+}
+
+export type PreferenceDecision =
+  | { allowed: true; recipientId: string | null }
+  | { allowed: false; recipientId: string | null; reason: SuppressionReason };
+
+// Matches the profiles.notification_preferences column default
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  email: true,
+  sms: false,
+  whatsapp: false,
+};
+
+// Channels switched off site-wide are never sent
+const CHANNEL_ENABLED: Record<keyof NotificationPreferences, boolean> = {
+  email: true,
+  sms: siteConfig.features.enableSMS,
+  whatsapp: siteConfig.features.enableWhatsApp,
+};
+
+/**
+ * Category of each notification type (the email 'type' tag)
+ * Unlisted types are treated as transactional.
+ */
+const NOTIFICATION_CATEGORIES: Record<string, NotificationCategory> = {
+  'order-confirmation': 'required',
+  refund: 'required',
+  'status-update': 'transactional',
+  delivery: 'transactional',
+  'delivery-ready': 'transactional',
+  'preview-ready': 'transactional',
+  'revision-confirmation': 'transactional',
+  'revision-update': 'transactional',
+  'tier-change': 'transactional',
+  'preview-approved': 'internal',
+  'revision-admin': 'internal',
+  'refund-failed': 'internal',
+  'payment-reconciliation': 'internal',
+  'contact-form': 'internal',
+  'dispute-alert': 'internal',
+};
+
+export function getNotificationCategory(notificationType: string): NotificationCategory {
+  return NOTIFICATION_CATEGORIES[notificationType] ?? 'transactional';
+}
+
+/**
+ * Resolve whether a notification may be sent
+ * The recipient is looked up by ID, or by email for senders that only
+ * have an address; addresses without an account get the defaults.
+ */
+export async function resolveNotificationPreference(
+  channel: keyof NotificationPreferences,
+  category: NotificationCategory,
+  recipient: PreferenceRecipient
+): Promise<PreferenceDecision> {
+  if (!CHANNEL_ENABLED[channel]) {
+    return { allowed: false, recipientId: recipient.recipientId ?? null, reason: 'channel_disabled' };
+  }
+
+  if (category === 'internal') {
+    return { allowed: true, recipientId: recipient.recipientId ?? null };
+  }
+
+  const profile = await getRecipientProfile(recipient);
+  const recipientId = profile?.id ?? recipient.recipientId ?? null;
+
+  if (profile?.anonymized_at) {
+    return { allowed: false, recipientId, reason: 'account_deleted' };
+  }
+
+  const preferences = {
+    ...DEFAULT_NOTIFICATION_PREFERENCES,
+    ...(profile?.notification_preferences ?? {}),
+  };
+
+  // Receipts go out by email regardless of preferences
+  if (category === 'required' && channel === 'email') {
+    return { allowed: true, recipientId };
+  }
+
+  if (!preferences[channel]) {
+    return { allowed: false, recipientId, reason: 'channel_opt_out' };
+  }
+
+  if (category === 'marketing' && !profile?.marketing_consent) {
+    return { allowed: false, recipientId, reason: 'no_marketing_consent' };
+  }
+
+  return { allowed: true, recipientId };
+}
+
+type RecipientProfile = {
+  id: string;
+  notification_preferences: Partial<NotificationPreferences> | null;
+  marketing_consent: boolean;
+  anonymized_at: string | null;
+};
+
+async function getRecipientProfile(recipient: PreferenceRecipient): Promise<RecipientProfile | null> {
+  if (!recipient.recipientId && !recipient.email) {
+    return null;
+  }
+
+  const supabase = getServerClient();
+  let query = supabase
+    .from('profiles')
+    .select('id, notification_preferences, marketing_consent, anonymized_at');
+
+  query = recipient.recipientId
+    ? query.eq('id', recipient.recipientId)
+    : query.eq('email', recipient.email!.toLowerCase());
+
+  const { data, error } = await query.limit(1).maybeSingle();
+
+  if (error) {
+    console.error('[NOTIFICATION] Failed to load recipient preferences:', error.message);
+    return null;
+  }
+
+  return data as RecipientProfile | null;
+}
@@ -11,12 +11,15 @@ import type {
   PaymentVerifyResult,
   RefundParams,
   RefundResult,
+  DisbursementParams,
+  DisbursementResult,
   WebhookPayload,
   WebhookVerifyResult,
   SupportedCurrency,
   PaymentMethodType,
   PaymentStatus,
   HealthCheckResult,
+  ProviderTransaction,
 } from './types';
 import { normalizePhoneNumber } from '../utils/phone';
 
@@ -43,6 +46,21 @@ interface CamPayStatusResponse {
   endpoint?: string;
 }
 
+interface CamPayWithdrawResponse {
+  reference: string;
+  status?: string;
+}
+
+interface CamPayHistoryItem {
+  reference?: string;
+  reference_uuid?: string;
+  external_reference?: string;
+  status: string;
+  amount: number | string;
+  datetime?: string;
+  created_at?: string;
+}
+
 interface CamPayWebhookData {
   reference: string;
   external_reference?: string; // Order ID we passed when initiating payment
@@ -55,6 +73,15 @@ interface CamPayWebhookData {
   signature: string;
 }
 
+/**
+ * CamPay answered with an HTTP error status
+ */
+class CamPayApiError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
 export class CamPayProvider implements PaymentProvider {
   readonly name = 'CamPay';
   readonly providerId = 'campay';
@@ -147,7 +174,7 @@ export class CamPayProvider implements PaymentProvider {
 
     if (!response.ok) {
       const error = await response.text();
-      throw new Error(`CamPay API error: ${response.status} - ${error}`);
+      throw new CamPayApiError(`CamPay API error: ${response.status} - ${error}`, response.status);
     }
 
     return response.json() as Promise<T>;
@@ -238,16 +265,98 @@ export class CamPayProvider implements PaymentProvider {
     }
   }
 
-  async refund(_params: RefundParams): Promise<RefundResult> {
-    // CamPay doesn't support automatic refunds via API
-    // Refunds must be done manually
+  /**
+   * Refund by sending the amount back to the payer's mobile money number
+   * Settles asynchronously: the result is 'pending' until CamPay calls back.
+   */
+  async refund(params: RefundParams): Promise<RefundResult> {
+    if (!params.recipientPhone) {
+      return {
+        success: false,
+        error: 'No mobile money number on file for this payment',
+        status: 'failed',
+      };
+    }
+
+    const result = await this.disburse({
+      amount: params.amount,
+      currency: params.currency,
+      phone: params.recipientPhone,
+      description: `Refund - ${params.reason}`.substring(0, 100),
+      externalReference: params.externalReference ?? params.idempotencyKey,
+    });
+
     return {
-      success: false,
-      error: 'CamPay refunds must be processed manually. Please contact support.',
-      status: 'pending',
+      success: result.success,
+      refundId: result.reference,
+      amount: params.amount,
+      status: result.status,
+      error: result.error,
     };
   }
 
+  /**
+   * Send XAF to an MTN/Orange number via the withdraw API
+   */
+  async disburse(params: DisbursementParams): Promise<DisbursementResult> {
+    let sent = false;
+    try {
+      if (params.currency !== 'XAF') {
+        return { success: false, status: 'failed', error: 'CamPay only disburses XAF' };
+      }
+
+      const phoneResult = normalizePhoneNumber(params.phone, 'CM');
+      if (!phoneResult.valid || !phoneResult.phone) {
+        return { success: false, status: 'failed', error: phoneResult.error ?? 'Invalid phone number' };
+      }
+
+      // CamPay expects number without + prefix
+      const phone = phoneResult.phone.e164.replace('+', '');
+
+      // Authenticate first so a token failure is known not to have sent anything
+      await this.getAccessToken();
+      sent = true;
+
+      const response = await this.apiRequest<CamPayWithdrawResponse>('/withdraw/', 'POST', {
+        amount: Math.round(params.amount).toString(),
+        currency: 'XAF',
+        to: phone,
+        description: params.description,
+        external_reference: params.externalReference,
+      });
+
+      let status: DisbursementResult['status'];
+      switch (response.status?.toUpperCase()) {
+        case 'SUCCESSFUL':
+          status = 'completed';
+          break;
+        case 'FAILED':
+          status = 'failed';
+          break;
+        default:
+          status = 'pending';
+      }
+
+      return {
+        success: status !== 'failed',
+        reference: response.reference,
+        status,
+        error: status === 'failed' ? 'CamPay rejected the withdrawal' : undefined,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      // Only a 4xx answer proves CamPay refused the withdrawal; after a
+      // timeout or server error it may still have been accepted
+      const rejected = error instanceof CamPayApiError && error.status < 500;
+      return {
+        success: false,
+        status: 'failed',
+        uncertain: sent && !rejected,
+        error: `CamPay error: ${message}`,
+      };
+    }
+  }
+
   async verifyWebhook(payload: WebhookPayload): Promise<WebhookVerifyResult> {
     try {
       const data = JSON.parse(payload.rawBody) as CamPayWebhookData;
@@ -291,6 +400,35 @@ export class CamPayProvider implements PaymentProvider {
     }
   }
 
+  /**
+   * The callback carries its own signature; the transaction status is also
+   * confirmed with the CamPay API so a stale outcome is not replayed
+   */
+  async reverifyWebhook(rawBody: string): Promise<WebhookVerifyResult> {
+    const verification = await this.verifyWebhook({ rawBody, signature: '', headers: {} });
+    if (!verification.valid) {
+      return verification;
+    }
+
+    const data = verification.data as unknown as CamPayWebhookData;
+    try {
+      const response = await this.apiRequest<CamPayStatusResponse>(`/transaction/${data.reference}/`, 'GET');
+      if (response.status !== data.status) {
+        return {
+          valid: false,
+          error: `Transaction is ${response.status} at CamPay, callback says ${data.status}`,
+        };
+      }
+    } catch (error) {
+      return {
+        valid: false,
+        error: error instanceof Error ? error.message : 'Transaction could not be verified',
+      };
+    }
+
+    return verification;
+  }
+
   /**
    * Generate HMAC signature for webhook verification
    */
@@ -315,6 +453,53 @@ export class CamPayProvider implements PaymentProvider {
     return hashArray.map((b) => b.toString(16).padStart(2, '0')).join('');
   }
 
+  async listTransactions(from: Date, to: Date): Promise<ProviderTransaction[]> {
+    // History is queried by whole days; trim to the exact window below
+    const lastDay = new Date(to.getTime() - 1);
+    const response = await this.apiRequest<CamPayHistoryItem[] | { data: CamPayHistoryItem[] }>(
+      '/history/',
+      'POST',
+      {
+        start_date: from.toISOString().slice(0, 10),
+        end_date: lastDay.toISOString().slice(0, 10),
+      }
+    );
+
+    const items = Array.isArray(response) ? response : response.data ?? [];
+
+    return items
+      .map((item): ProviderTransaction | null => {
+        const reference = item.reference ?? item.reference_uuid;
+        const createdAt = new Date(item.datetime ?? item.created_at ?? '');
+        if (!reference || Number.isNaN(createdAt.getTime())) {
+          return null;
+        }
+
+        let status: PaymentStatus;
+        switch (item.status?.toUpperCase()) {
+          case 'SUCCESSFUL':
+            status = 'completed';
+            break;
+          case 'FAILED':
+            status = 'failed';
+            break;
+          default:
+            status = 'pending';
+        }
+
+        return {
+          provider: this.providerId,
+          reference,
+          orderId: item.external_reference,
+          status,
+          amount: Number(item.amount),
+          currency: 'XAF',
+          createdAt,
+        };
+      })
+      .filter((t): t is ProviderTransaction => t !== null && t.createdAt >= from && t.createdAt < to);
+  }
+
   async healthCheck(): Promise<HealthCheckResult> {
     const startTime = Date.now();
     const checkedAt = new Date();
@@ -13,12 +13,15 @@ export type {
   PaymentVerifyResult,
   RefundParams,
   RefundResult,
+  DisbursementParams,
+  DisbursementResult,
   WebhookPayload,
   WebhookVerifyResult,
   PaymentProvider,
   ProviderConfig,
   HealthCheckResult,
   PaymentSystemHealth,
+  ProviderTransaction,
 } from './types';
 
 // Provider Factory
@@ -35,8 +38,11 @@ export {
   checkProviderHealth,
   checkAllProvidersHealth,
   isCurrencyAvailable,
+  isMockPaymentsEnabled,
 } from './provider-factory';
 
 // Individual Providers (for direct access if needed)
 export { StripeProvider } from './stripe-provider';
 export { CamPayProvider } from './campay-provider';
+export { MockPaymentProvider, buildMockWebhook, fireMockWebhook, MOCK_SCENARIOS } from './mock-provider';
+export type { MockScenario, MockWebhookProvider, MockWebhookEvent } from './mock-provider';
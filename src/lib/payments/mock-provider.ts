@@ -0,0 +1,573 @@
+/**
+ * Mock Payment Provider
+ * Offline stand-in for Stripe and CamPay in development and tests
+ *
+ * Enabled with PAYMENT_PROVIDER=mock (never in production). Sessions live in
+ * memory; the outcome of each payment is picked from the scenario:
+ * - metadata.mockScenario ('success' | 'failure' | 'pending' | 'delayed')
+ * - customer email tag: name+fail@, name+pending@, name+delay@
+ * - mobile money phone last digit: 1 = failure, 2 = pending, 3 = delayed
+ * - otherwise MOCK_PAYMENT_SCENARIO, defaulting to success
+ *
+ * Webhooks are signed with MOCK_PAYMENT_WEBHOOK_SECRET in the same shape as
+ * the real providers and POSTed to /api/webhooks/stripe or /api/webhooks/campay.
+ */
+
+import type {
+  PaymentProvider,
+  PaymentInitParams,
+  PaymentInitResult,
+  PaymentVerifyParams,
+  PaymentVerifyResult,
+  RefundParams,
+  RefundResult,
+  DisbursementParams,
+  DisbursementResult,
+  WebhookPayload,
+  WebhookVerifyResult,
+  SupportedCurrency,
+  PaymentMethodType,
+  PaymentStatus,
+  HealthCheckResult,
+  ProviderTransaction,
+} from './types';
+import { hmacSign, hmacVerify } from '../security/encryption';
+
+export type MockScenario = 'success' | 'failure' | 'pending' | 'delayed';
+export type MockWebhookProvider = 'stripe' | 'campay';
+export type MockWebhookEvent = 'success' | 'failure' | 'refund';
+
+export const MOCK_SCENARIOS: MockScenario[] = ['success', 'failure', 'pending', 'delayed'];
+
+// How long the simulated customer takes to approve the payment
+const APPROVAL_DELAY_MS = 2000;
+const DEFAULT_DELAYED_MS = 30000;
+
+// Stripe rejects signatures older than this
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+interface MockSession {
+  sessionId: string;
+  orderId: string;
+  amount: number;
+  currency: SupportedCurrency;
+  methodType: PaymentMethodType;
+  scenario: MockScenario;
+  createdAt: number;
+  settlesAt: number;
+}
+
+// Stripe-format events issued by buildMockWebhook, standing in for Stripe's event API
+const issuedStripeEvents = new Map<string, string>();
+
+interface MockWebhookParams {
+  orderId: string;
+  reference: string;
+  amount: number;
+  currency: SupportedCurrency;
+  operator?: string;
+}
+
+function isMockScenario(value: string | undefined): value is MockScenario {
+  return !!value && (MOCK_SCENARIOS as string[]).includes(value);
+}
+
+function getWebhookSecret(): string {
+  return import.meta.env.MOCK_PAYMENT_WEBHOOK_SECRET || 'whsec_mock_local';
+}
+
+function getDelayedMs(): number {
+  const delay = Number(import.meta.env.MOCK_PAYMENT_DELAY_MS);
+  return Number.isFinite(delay) && delay >= 0 ? delay : DEFAULT_DELAYED_MS;
+}
+
+// ============================================
+// WEBHOOKS
+// ============================================
+
+/**
+ * Build a signed webhook request body and headers in the provider's format
+ */
+export async function buildMockWebhook(
+  provider: MockWebhookProvider,
+  event: MockWebhookEvent,
+  params: MockWebhookParams
+): Promise<{ body: string; headers: Record<string, string> }> {
+  const secret = getWebhookSecret();
+
+  if (provider === 'campay') {
+    const status = event === 'failure' ? 'FAILED' : 'SUCCESSFUL';
+    const data = {
+      reference: params.reference,
+      external_reference: params.orderId,
+      status,
+      amount: params.amount,
+      currency: 'XAF',
+      code: event === 'failure' ? 'ER101' : '00',
+      operator: params.operator || 'MTN',
+      operator_reference: `MOCK${Date.now()}`,
+      signature: await hmacSign(`${params.reference}${params.amount}${status}`, secret),
+    };
+
+    return {
+      body: JSON.stringify(data),
+      headers: { 'Content-Type': 'application/json' },
+    };
+  }
+
+  let type: string;
+  let object: Record<string, unknown>;
+  switch (event) {
+    case 'success':
+      type = 'checkout.session.completed';
+      object = {
+        id: params.reference,
+        object: 'checkout.session',
+        payment_status: 'paid',
+        amount_total: Math.round(params.amount * 100),
+        currency: params.currency.toLowerCase(),
+        client_reference_id: params.orderId,
+        metadata: { orderId: params.orderId },
+      };
+      break;
+    case 'failure':
+      type = 'payment_intent.payment_failed';
+      object = {
+        id: `pi_mock_${crypto.randomUUID()}`,
+        object: 'payment_intent',
+        status: 'requires_payment_method',
+        metadata: { orderId: params.orderId },
+      };
+      break;
+    case 'refund':
+      type = 'charge.refunded';
+      object = {
+        id: `ch_mock_${crypto.randomUUID()}`,
+        object: 'charge',
+        refunded: true,
+        amount_refunded: Math.round(params.amount * 100),
+        metadata: { orderId: params.orderId },
+      };
+      break;
+  }
+
+  const eventId = `evt_mock_${crypto.randomUUID()}`;
+  const body = JSON.stringify({
+    id: eventId,
+    object: 'event',
+    type,
+    created: Math.floor(Date.now() / 1000),
+    data: { object },
+  });
+  issuedStripeEvents.set(eventId, body);
+
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = await hmacSign(`${timestamp}.${body}`, secret);
+
+  return {
+    body,
+    headers: {
+      'Content-Type': 'application/json',
+      'stripe-signature': `t=${timestamp},v1=${signature}`,
+    },
+  };
+}
+
+/**
+ * POST a signed mock webhook to this site's webhook endpoint
+ */
+export async function fireMockWebhook(
+  baseUrl: string,
+  provider: MockWebhookProvider,
+  event: MockWebhookEvent,
+  params: MockWebhookParams
+): Promise<{ success: boolean; status?: number; error?: string }> {
+  try {
+    const { body, headers } = await buildMockWebhook(provider, event, params);
+    const response = await fetch(new URL(`/api/webhooks/${provider}`, baseUrl), {
+      method: 'POST',
+      headers,
+      body,
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      console.error(`[MOCK_PAYMENTS] Webhook ${provider}/${event} rejected: ${response.status} ${text}`);
+      return { success: false, status: response.status, error: text };
+    }
+
+    console.log(`[MOCK_PAYMENTS] Fired ${provider}/${event} webhook for order ${params.orderId}`);
+    return { success: true, status: response.status };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[MOCK_PAYMENTS] Failed to fire ${provider}/${event} webhook:`, message);
+    return { success: false, error: message };
+  }
+}
+
+// ============================================
+// PROVIDER
+// ============================================
+
+export class MockPaymentProvider implements PaymentProvider {
+  readonly name = 'Mock Payments';
+  readonly providerId = 'mock';
+  readonly supportedCurrencies: SupportedCurrency[] = ['USD', 'XAF'];
+  readonly supportedCountries: string[] = []; // All countries
+  readonly supportedMethods: PaymentMethodType[] = ['card', 'mtn_momo', 'orange_money'];
+
+  private sessions = new Map<string, MockSession>();
+
+  constructor() {
+    if (import.meta.env.PROD || process.env.NODE_ENV === 'production') {
+      throw new Error('The mock payment provider cannot be used in production');
+    }
+  }
+
+  supports(currency: SupportedCurrency, method?: PaymentMethodType): boolean {
+    const currencySupported = this.supportedCurrencies.includes(currency);
+    if (!method) return currencySupported;
+    return currencySupported && this.supportedMethods.includes(method);
+  }
+
+  /**
+   * Pick the outcome for a new payment
+   */
+  private resolveScenario(params: PaymentInitParams): MockScenario {
+    const fromMetadata = params.metadata?.mockScenario;
+    if (isMockScenario(fromMetadata)) {
+      return fromMetadata;
+    }
+
+    const tag = params.customerEmail.match(/\+(fail|pending|delay)[^@]*@/i)?.[1]?.toLowerCase();
+    if (tag === 'fail') return 'failure';
+    if (tag === 'pending') return 'pending';
+    if (tag === 'delay') return 'delayed';
+
+    if (params.methodType !== 'card' && params.customerPhone) {
+      const lastDigit = params.customerPhone.replace(/\D/g, '').slice(-1);
+      if (lastDigit === '1') return 'failure';
+      if (lastDigit === '2') return 'pending';
+      if (lastDigit === '3') return 'delayed';
+    }
+
+    const fallback = import.meta.env.MOCK_PAYMENT_SCENARIO;
+    return isMockScenario(fallback) ? fallback : 'success';
+  }
+
+  private getStatus(session: MockSession): PaymentStatus {
+    switch (session.scenario) {
+      case 'failure':
+        return 'failed';
+      case 'pending':
+        return 'pending';
+      default:
+        return Date.now() >= session.settlesAt ? 'completed' : 'pending';
+    }
+  }
+
+  async initiatePayment(params: PaymentInitParams): Promise<PaymentInitResult> {
+    const isCard = params.methodType === 'card';
+
+    if (!isCard && !params.customerPhone) {
+      return {
+        success: false,
+        sessionId: '',
+        expiresAt: new Date(),
+        error: 'Phone number is required for mobile money payments',
+      };
+    }
+
+    const scenario = this.resolveScenario(params);
+    const sessionId = isCard ? `cs_mock_${crypto.randomUUID()}` : `mock-${crypto.randomUUID()}`;
+    const delay = scenario === 'delayed' ? getDelayedMs() : APPROVAL_DELAY_MS;
+
+    const session: MockSession = {
+      sessionId,
+      orderId: params.orderId,
+      amount: params.amount,
+      currency: params.currency,
+      methodType: params.methodType,
+      scenario,
+      createdAt: Date.now(),
+      settlesAt: Date.now() + delay,
+    };
+    this.sessions.set(sessionId, session);
+
+    console.log(`[MOCK_PAYMENTS] ${sessionId} for order ${params.orderNumber}: ${scenario}`);
+
+    // Pending-forever sessions never call back
+    if (scenario !== 'pending') {
+      const baseUrl = new URL(params.successUrl).origin;
+      setTimeout(() => {
+        void fireMockWebhook(baseUrl, isCard ? 'stripe' : 'campay', scenario === 'failure' ? 'failure' : 'success', {
+          orderId: session.orderId,
+          reference: session.sessionId,
+          amount: session.amount,
+          currency: session.currency,
+          operator: session.methodType === 'orange_money' ? 'ORANGE' : 'MTN',
+        });
+      }, delay);
+    }
+
+    return {
+      success: true,
+      sessionId,
+      checkoutUrl: isCard ? (scenario === 'failure' ? params.cancelUrl : params.successUrl) : undefined,
+      ussdCode: isCard ? undefined : '*126#',
+      expiresAt: new Date(Date.now() + 15 * 60 * 1000), // 15 minutes
+    };
+  }
+
+  async verifyPayment(params: PaymentVerifyParams): Promise<PaymentVerifyResult> {
+    const session = this.sessions.get(params.sessionId);
+    if (!session || session.orderId !== params.orderId) {
+      // Sessions don't survive a restart - leave the order as it is
+      return {
+        status: 'pending',
+        rawResponse: { mock: true, error: 'Unknown mock session' },
+      };
+    }
+
+    const status = this.getStatus(session);
+    return {
+      status,
+      transactionId: status === 'completed' ? `mock_txn_${session.sessionId}` : undefined,
+      paidAmount: status === 'completed' ? session.amount : undefined,
+      currency: session.currency,
+      paidAt: status === 'completed' ? new Date(session.settlesAt) : undefined,
+      rawResponse: { mock: true, scenario: session.scenario, status },
+    };
+  }
+
+  async refund(params: RefundParams): Promise<RefundResult> {
+    // XAF refunds behave like CamPay: a disbursement that settles via callback
+    if (params.currency === 'XAF') {
+      if (!params.recipientPhone) {
+        return {
+          success: false,
+          error: 'No mobile money number on file for this payment',
+          status: 'failed',
+        };
+      }
+
+      const result = await this.disburse({
+        amount: params.amount,
+        currency: params.currency,
+        phone: params.recipientPhone,
+        description: `Refund - ${params.reason}`.substring(0, 100),
+        externalReference: params.externalReference ?? params.idempotencyKey,
+      });
+
+      return {
+        success: result.success,
+        refundId: result.reference,
+        amount: params.amount,
+        status: result.status,
+        error: result.error,
+      };
+    }
+
+    return {
+      success: true,
+      refundId: `re_mock_${params.idempotencyKey}`,
+      amount: params.amount,
+      status: 'completed',
+    };
+  }
+
+  /**
+   * Accept the disbursement and call back like CamPay's withdraw API
+   * A phone number ending in 1 fails.
+   */
+  async disburse(params: DisbursementParams): Promise<DisbursementResult> {
+    const reference = `mock-wd-${crypto.randomUUID()}`;
+    const fails = params.phone.replace(/\D/g, '').slice(-1) === '1';
+    const baseUrl = import.meta.env.PUBLIC_SITE_URL || 'http://localhost:4321';
+
+    console.log(`[MOCK_PAYMENTS] Disbursement ${reference} to ${params.phone}: ${fails ? 'failure' : 'success'}`);
+
+    setTimeout(() => {
+      void fireMockWebhook(baseUrl, 'campay', fails ? 'failure' : 'success', {
+        orderId: params.externalReference,
+        reference,
+        amount: params.amount,
+        currency: params.currency,
+      });
+    }, APPROVAL_DELAY_MS);
+
+    return { success: true, reference, status: 'pending' };
+  }
+
+  async verifyWebhook(payload: WebhookPayload): Promise<WebhookVerifyResult> {
+    try {
+      const stripeSignature = payload.headers['stripe-signature'];
+      return stripeSignature
+        ? await this.verifyStripeWebhook(payload.rawBody, stripeSignature)
+        : await this.verifyCamPayWebhook(payload.rawBody);
+    } catch (error) {
+      return {
+        valid: false,
+        error: error instanceof Error ? error.message : 'Invalid webhook payload',
+      };
+    }
+  }
+
+  /**
+   * Stripe format: stripe-signature "t=<unix>,v1=<hmac of `${t}.${body}`>"
+   */
+  private async verifyStripeWebhook(rawBody: string, header: string): Promise<WebhookVerifyResult> {
+    const parts = Object.fromEntries(
+      header.split(',').map((part) => part.split('=', 2) as [string, string])
+    );
+    const timestamp = Number(parts.t);
+
+    if (!parts.v1 || !Number.isFinite(timestamp)) {
+      return { valid: false, error: 'Malformed signature header' };
+    }
+
+    if (Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+      return { valid: false, error: 'Signature timestamp outside tolerance' };
+    }
+
+    if (!(await hmacVerify(`${timestamp}.${rawBody}`, parts.v1, getWebhookSecret()))) {
+      return { valid: false, error: 'Invalid webhook signature' };
+    }
+
+    return this.parseStripeEvent(rawBody);
+  }
+
+  private parseStripeEvent(rawBody: string): WebhookVerifyResult {
+    const event = JSON.parse(rawBody) as { type: string; data: { object: Record<string, unknown> } };
+    const object = event.data.object;
+    const metadata = (object.metadata ?? {}) as Record<string, string>;
+
+    let paymentStatus: PaymentStatus | undefined;
+    let amount: number | undefined;
+    let currency: SupportedCurrency | undefined;
+
+    switch (event.type) {
+      case 'checkout.session.completed':
+        paymentStatus = object.payment_status === 'paid' ? 'completed' : 'pending';
+        amount = typeof object.amount_total === 'number' ? object.amount_total / 100 : undefined;
+        currency = (object.currency as string | undefined)?.toUpperCase() as SupportedCurrency;
+        break;
+      case 'payment_intent.payment_failed':
+        paymentStatus = 'failed';
+        break;
+      case 'charge.refunded':
+        paymentStatus = object.refunded ? 'refunded' : 'partially_refunded';
+        break;
+      case 'charge.dispute.created':
+      case 'charge.dispute.updated':
+      case 'charge.dispute.closed':
+        amount = typeof object.amount === 'number' ? object.amount / 100 : undefined;
+        currency = (object.currency as string | undefined)?.toUpperCase() as SupportedCurrency;
+        break;
+    }
+
+    return {
+      valid: true,
+      eventType: event.type,
+      orderId: metadata.orderId ?? (object.client_reference_id as string | undefined),
+      paymentStatus,
+      amount,
+      currency,
+      data: object,
+    };
+  }
+
+  /**
+   * Stripe events are looked up among the ones this process issued (like
+   * Stripe's event API); CamPay bodies carry their own signature
+   */
+  async reverifyWebhook(rawBody: string): Promise<WebhookVerifyResult> {
+    try {
+      const event = JSON.parse(rawBody) as { id?: string; object?: string };
+      if (event.object !== 'event') {
+        return await this.verifyCamPayWebhook(rawBody);
+      }
+
+      if (!event.id || issuedStripeEvents.get(event.id) !== rawBody) {
+        return { valid: false, error: 'Event was not issued by the mock provider' };
+      }
+
+      return this.parseStripeEvent(rawBody);
+    } catch (error) {
+      return {
+        valid: false,
+        error: error instanceof Error ? error.message : 'Invalid webhook payload',
+      };
+    }
+  }
+
+  /**
+   * CamPay format: body.signature = hmac of `${reference}${amount}${status}`
+   */
+  private async verifyCamPayWebhook(rawBody: string): Promise<WebhookVerifyResult> {
+    const data = JSON.parse(rawBody) as {
+      reference: string;
+      external_reference?: string;
+      status: string;
+      amount: number;
+      signature: string;
+    };
+
+    if (
+      typeof data.signature !== 'string' ||
+      !(await hmacVerify(`${data.reference}${data.amount}${data.status}`, data.signature, getWebhookSecret()))
+    ) {
+      return { valid: false, error: 'Invalid webhook signature' };
+    }
+
+    let paymentStatus: PaymentStatus;
+    switch (data.status) {
+      case 'SUCCESSFUL':
+        paymentStatus = 'completed';
+        break;
+      case 'FAILED':
+        paymentStatus = 'failed';
+        break;
+      default:
+        paymentStatus = 'pending';
+    }
+
+    return {
+      valid: true,
+      eventType: `payment.${data.status.toLowerCase()}`,
+      orderId: data.external_reference,
+      paymentStatus,
+      amount: data.amount,
+      currency: 'XAF',
+      data: data as unknown as Record<string, unknown>,
+    };
+  }
+
+  async listTransactions(from: Date, to: Date): Promise<ProviderTransaction[]> {
+    return [...this.sessions.values()]
+      .filter((session) => session.createdAt >= from.getTime() && session.createdAt < to.getTime())
+      .map((session) => ({
+        // Report under the provider being emulated, like the rest of the pipeline
+        provider: session.methodType === 'card' ? 'stripe' : 'campay',
+        reference: session.sessionId,
+        orderId: session.orderId,
+        status: this.getStatus(session),
+        amount: session.amount,
+        currency: session.currency,
+        createdAt: new Date(session.createdAt),
+      }));
+  }
+
+  async healthCheck(): Promise<HealthCheckResult> {
+    return {
+      providerId: this.providerId,
+      healthy: true,
+      responseTimeMs: 0,
+      checkedAt: new Date(),
+      details: {
+        environment: 'mock',
+        activeSessions: this.sessions.size,
+      },
+    };
+  }
+}
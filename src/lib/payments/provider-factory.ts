@@ -1,6 +1,9 @@
 /**
  * Payment Provider Factory
  * Selects the appropriate payment provider based on currency/method
+ *
+ * With PAYMENT_PROVIDER=mock (outside production) every lookup resolves to
+ * the offline MockPaymentProvider instead of the live APIs.
  */
 
 import type {
@@ -12,10 +15,32 @@ import type {
 } from './types';
 import { StripeProvider } from './stripe-provider';
 import { CamPayProvider } from './campay-provider';
+import { MockPaymentProvider } from './mock-provider';
 
 // Singleton instances
 let stripeProvider: StripeProvider | null = null;
 let camPayProvider: CamPayProvider | null = null;
+let mockProvider: MockPaymentProvider | null = null;
+
+/**
+ * Whether payments are routed to the mock provider
+ */
+export function isMockPaymentsEnabled(): boolean {
+  if (import.meta.env.PROD || process.env.NODE_ENV === 'production') {
+    return false;
+  }
+  return (import.meta.env.PAYMENT_PROVIDER ?? process.env.PAYMENT_PROVIDER) === 'mock';
+}
+
+/**
+ * Get the mock provider instance
+ */
+function getMockProvider(): MockPaymentProvider {
+  if (!mockProvider) {
+    mockProvider = new MockPaymentProvider();
+  }
+  return mockProvider;
+}
 
 /**
  * Get the Stripe provider instance
@@ -41,6 +66,9 @@ function getCamPayProvider(): CamPayProvider {
  * Get all available payment providers
  */
 export function getAllProviders(): PaymentProvider[] {
+  if (isMockPaymentsEnabled()) {
+    return [getMockProvider()];
+  }
   return [getStripeProvider(), getCamPayProvider()];
 }
 
@@ -48,6 +76,10 @@ export function getAllProviders(): PaymentProvider[] {
  * Get payment provider by ID
  */
 export function getProviderById(providerId: string): PaymentProvider | null {
+  if (isMockPaymentsEnabled() && ['stripe', 'campay', 'mock'].includes(providerId)) {
+    return getMockProvider();
+  }
+
   switch (providerId) {
     case 'stripe':
       return getStripeProvider();
@@ -64,6 +96,10 @@ export function getProviderById(providerId: string): PaymentProvider | null {
 export function getProviderForCurrency(
   currency: SupportedCurrency
 ): PaymentProvider {
+  if (isMockPaymentsEnabled() && getMockProvider().supports(currency)) {
+    return getMockProvider();
+  }
+
   switch (currency) {
     case 'USD':
       return getStripeProvider();
@@ -80,6 +116,10 @@ export function getProviderForCurrency(
 export function getProviderForMethod(
   method: PaymentMethodType
 ): PaymentProvider {
+  if (isMockPaymentsEnabled() && getMockProvider().supportedMethods.includes(method)) {
+    return getMockProvider();
+  }
+
   switch (method) {
     case 'card':
       return getStripeProvider();
@@ -18,6 +18,7 @@ import type {
   PaymentMethodType,
   PaymentStatus,
   HealthCheckResult,
+  ProviderTransaction,
 } from './types';
 
 export class StripeProvider implements PaymentProvider {
@@ -172,51 +173,131 @@ export class StripeProvider implements PaymentProvider {
         this.webhookSecret
       );
 
-      let paymentStatus: PaymentStatus | undefined;
-      let orderId: string | undefined;
-      let amount: number | undefined;
-      let currency: SupportedCurrency | undefined;
-
-      switch (event.type) {
-        case 'checkout.session.completed': {
-          const session = event.data.object as Stripe.Checkout.Session;
-          paymentStatus = session.payment_status === 'paid' ? 'completed' : 'pending';
-          orderId = session.metadata?.orderId ?? session.client_reference_id ?? undefined;
-          amount = session.amount_total ? session.amount_total / 100 : undefined;
-          currency = session.currency?.toUpperCase() as SupportedCurrency;
-          break;
-        }
-        case 'payment_intent.payment_failed': {
-          const intent = event.data.object as Stripe.PaymentIntent;
-          paymentStatus = 'failed';
-          orderId = intent.metadata?.orderId;
-          break;
-        }
-        case 'charge.refunded': {
-          const charge = event.data.object as Stripe.Charge;
-          paymentStatus = charge.refunded ? 'refunded' : 'partially_refunded';
-          orderId = charge.metadata?.orderId;
-          break;
-        }
-      }
-
+      return await this.parseEvent(event);
+    } catch (error) {
       return {
-        valid: true,
-        eventType: event.type,
-        orderId,
-        paymentStatus,
-        amount,
-        currency,
-        data: event.data.object as Record<string, unknown>,
+        valid: false,
+        error: error instanceof Error ? error.message : 'Invalid webhook',
       };
+    }
+  }
+
+  /**
+   * The signature header expires after a few minutes, so a stored event is
+   * fetched again from the Stripe API by its ID instead
+   */
+  async reverifyWebhook(rawBody: string): Promise<WebhookVerifyResult> {
+    try {
+      const { id } = JSON.parse(rawBody) as { id?: string };
+      if (!id) {
+        return { valid: false, error: 'Stored event has no ID' };
+      }
+
+      const event = await this.stripe.events.retrieve(id);
+      return await this.parseEvent(event);
     } catch (error) {
       return {
         valid: false,
-        error: error instanceof Error ? error.message : 'Invalid webhook',
+        error: error instanceof Error ? error.message : 'Event could not be verified',
       };
     }
   }
 
+  /**
+   * Map a Stripe event onto the provider-neutral result
+   */
+  private async parseEvent(event: Stripe.Event): Promise<WebhookVerifyResult> {
+    let paymentStatus: PaymentStatus | undefined;
+    let orderId: string | undefined;
+    let amount: number | undefined;
+    let currency: SupportedCurrency | undefined;
+
+    switch (event.type) {
+      case 'checkout.session.completed': {
+        const session = event.data.object as Stripe.Checkout.Session;
+        paymentStatus = session.payment_status === 'paid' ? 'completed' : 'pending';
+        orderId = session.metadata?.orderId ?? session.client_reference_id ?? undefined;
+        amount = session.amount_total ? session.amount_total / 100 : undefined;
+        currency = session.currency?.toUpperCase() as SupportedCurrency;
+        break;
+      }
+      case 'payment_intent.payment_failed': {
+        const intent = event.data.object as Stripe.PaymentIntent;
+        paymentStatus = 'failed';
+        orderId = intent.metadata?.orderId;
+        break;
+      }
+      case 'charge.refunded': {
+        const charge = event.data.object as Stripe.Charge;
+        paymentStatus = charge.refunded ? 'refunded' : 'partially_refunded';
+        orderId = charge.metadata?.orderId;
+        break;
+      }
+      case 'charge.dispute.created':
+      case 'charge.dispute.updated':
+      case 'charge.dispute.closed': {
+        const dispute = event.data.object as Stripe.Dispute;
+        orderId = await this.getDisputedOrderId(dispute);
+        amount = dispute.amount / 100;
+        currency = dispute.currency.toUpperCase() as SupportedCurrency;
+        break;
+      }
+    }
+
+    return {
+      valid: true,
+      eventType: event.type,
+      orderId,
+      paymentStatus,
+      amount,
+      currency,
+      data: event.data.object as Record<string, unknown>,
+    };
+  }
+
+  /**
+   * Disputes only reference the payment intent; the order ID lives on
+   * the checkout session that created it
+   */
+  private async getDisputedOrderId(dispute: Stripe.Dispute): Promise<string | undefined> {
+    const paymentIntent =
+      typeof dispute.payment_intent === 'string' ? dispute.payment_intent : dispute.payment_intent?.id;
+    if (!paymentIntent) {
+      return undefined;
+    }
+
+    const sessions = await this.stripe.checkout.sessions.list({ payment_intent: paymentIntent, limit: 1 });
+    const session = sessions.data[0];
+    return session?.metadata?.orderId ?? session?.client_reference_id ?? undefined;
+  }
+
+  async listTransactions(from: Date, to: Date): Promise<ProviderTransaction[]> {
+    const sessions = await this.stripe.checkout.sessions
+      .list({
+        created: {
+          gte: Math.floor(from.getTime() / 1000),
+          lt: Math.floor(to.getTime() / 1000),
+        },
+        limit: 100,
+      })
+      .autoPagingToArray({ limit: 10000 });
+
+    return sessions.map((session) => ({
+      provider: this.providerId,
+      reference: session.id,
+      orderId: session.metadata?.orderId ?? session.client_reference_id ?? undefined,
+      status:
+        session.payment_status === 'paid'
+          ? 'completed'
+          : session.status === 'expired'
+            ? 'failed'
+            : 'pending',
+      amount: (session.amount_total ?? 0) / 100,
+      currency: (session.currency?.toUpperCase() ?? 'USD') as SupportedCurrency,
+      createdAt: new Date(session.created * 1000),
+    }));
+  }
+
   async healthCheck(): Promise<HealthCheckResult> {
     const startTime = Date.now();
     const checkedAt = new Date();
@@ -116,6 +116,10 @@ export interface RefundParams {
   reason: string;
   /** Idempotency key */
   idempotencyKey: string;
+  /** Mobile money number to pay the refund to (CamPay) */
+  recipientPhone?: string;
+  /** Our refund ID, echoed back in provider callbacks */
+  externalReference?: string;
 }
 
 /**
@@ -134,6 +138,39 @@ export interface RefundResult {
   error?: string;
 }
 
+/**
+ * Parameters for sending money out to a mobile money number
+ */
+export interface DisbursementParams {
+  /** Amount to send */
+  amount: number;
+  /** Currency */
+  currency: SupportedCurrency;
+  /** Recipient phone number */
+  phone: string;
+  /** Shown on the recipient's statement */
+  description: string;
+  /** Our reference, echoed back in the provider callback */
+  externalReference: string;
+}
+
+/**
+ * Result of a disbursement request
+ * Disbursements settle asynchronously - 'pending' until the provider calls back.
+ */
+export interface DisbursementResult {
+  /** Whether the provider accepted the request */
+  success: boolean;
+  /** Provider-specific disbursement reference */
+  reference?: string;
+  /** Status of the disbursement */
+  status?: 'pending' | 'completed' | 'failed';
+  /** The request may have reached the provider (timeout, server error): the outcome is unknown */
+  uncertain?: boolean;
+  /** Error message if failed */
+  error?: string;
+}
+
 /**
  * Webhook payload structure
  */
@@ -168,6 +205,26 @@ export interface WebhookVerifyResult {
   error?: string;
 }
 
+/**
+ * Transaction as reported by the provider (for reconciliation)
+ */
+export interface ProviderTransaction {
+  /** Provider the transaction belongs to ('stripe' | 'campay') */
+  provider: string;
+  /** Provider reference - matches payment_events.provider_reference */
+  reference: string;
+  /** Order ID if the provider echoes it back */
+  orderId?: string;
+  /** Normalized status */
+  status: PaymentStatus;
+  /** Amount in major units */
+  amount: number;
+  /** Currency */
+  currency: SupportedCurrency;
+  /** When the provider created the transaction */
+  createdAt: Date;
+}
+
 /**
  * Payment Provider Interface
  * All payment providers must implement this interface
@@ -218,6 +275,22 @@ export interface PaymentProvider {
    * Returns status of API connectivity and basic operations
    */
   healthCheck(): Promise<HealthCheckResult>;
+
+  /**
+   * List transactions created in [from, to) for reconciliation
+   */
+  listTransactions?(from: Date, to: Date): Promise<ProviderTransaction[]>;
+
+  /**
+   * Send money to a mobile money number (refunds, affiliate payouts)
+   */
+  disburse?(params: DisbursementParams): Promise<DisbursementResult>;
+
+  /**
+   * Re-verify a stored webhook body with the provider (admin replay)
+   * Delivery headers are not stored, so this cannot rely on them.
+   */
+  reverifyWebhook?(rawBody: string): Promise<WebhookVerifyResult>;
 }
 
 /**
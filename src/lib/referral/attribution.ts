@@ -10,6 +10,7 @@ const UTM_STORAGE_KEY = 'evt_utm_backup';
 
 interface ReferralData {
   code: string;
+  link?: string; // Tracking link slug
   timestamp: number;
 }
 
@@ -37,12 +38,13 @@ function getCookie(name: string): string | null {
  * Store referral code in localStorage as backup
  * Called automatically by middleware, but can be called manually if needed
  */
-export function storeReferralBackup(code: string): void {
+export function storeReferralBackup(code: string, link?: string): void {
   if (typeof localStorage === 'undefined') return;
 
   try {
     const data: ReferralData = {
       code,
+      ...(link && { link }),
       timestamp: Date.now(),
     };
     localStorage.setItem(REFERRAL_STORAGE_KEY, JSON.stringify(data));
@@ -75,6 +77,20 @@ export function storeUTMBackup(utmData: Omit<UTMData, 'timestamp'>): void {
  * Prioritizes cookie over localStorage
  */
 export function getReferralCode(): string | null {
+  return getReferralData()?.code || null;
+}
+
+/**
+ * Get the tracking link slug the referral came through, if any
+ */
+export function getReferralLink(): string | null {
+  return getReferralData()?.link || null;
+}
+
+/**
+ * Get stored referral data from cookie or localStorage
+ */
+function getReferralData(): ReferralData | null {
   const THIRTY_DAYS_MS = 30 * 24 * 60 * 60 * 1000;
 
   // Try cookie first
@@ -85,7 +101,7 @@ export function getReferralCode(): string | null {
       const age = Date.now() - data.timestamp;
 
       if (age <= THIRTY_DAYS_MS && data.code) {
-        return data.code;
+        return data;
       }
     }
   } catch (error) {
@@ -101,7 +117,7 @@ export function getReferralCode(): string | null {
         const age = Date.now() - data.timestamp;
 
         if (age <= THIRTY_DAYS_MS && data.code) {
-          return data.code;
+          return data;
         } else {
           // Clean up expired data
           localStorage.removeItem(REFERRAL_STORAGE_KEY);
@@ -165,6 +181,8 @@ export function getUTMData(): Partial<UTMData> | null {
  */
 export async function applyReferralOnSignup(): Promise<boolean> {
   const referralCode = getReferralCode();
+  const referralLink = getReferralLink();
+  const utm = getUTMData();
 
   if (!referralCode) {
     console.log('[Referral Attribution] No referral code to apply');
@@ -181,6 +199,15 @@ export async function applyReferralOnSignup(): Promise<boolean> {
       },
       body: JSON.stringify({
         referral_code: referralCode,
+        ...(referralLink && { link: referralLink }),
+        ...(utm && {
+          utm: {
+            source: utm.source,
+            medium: utm.medium,
+            campaign: utm.campaign,
+            landing_page: utm.landing_page,
+          },
+        }),
       }),
     });
 
@@ -239,7 +266,7 @@ export function initReferralTracking(): void {
     if (refCookie) {
       const data: ReferralData = JSON.parse(refCookie);
       if (data.code) {
-        storeReferralBackup(data.code);
+        storeReferralBackup(data.code, data.link);
       }
     }
 
@@ -7,6 +7,7 @@ export {
   storeReferralBackup,
   storeUTMBackup,
   getReferralCode,
+  getReferralLink,
   getUTMData,
   applyReferralOnSignup,
   clearReferralData,
@@ -0,0 +1,39 @@
+/**
+ * Scheduled Job Authentication
+ * Cron endpoints under /api/cron are called by the scheduler with
+ * "Authorization: Bearer <CRON_SECRET>"
+ */
+
+/**
+ * Verify a scheduler request against CRON_SECRET
+ * Always false when the secret isn't configured.
+ */
+export function verifyCronRequest(request: Request): boolean {
+  const secret = import.meta.env.CRON_SECRET;
+  if (!secret) {
+    return false;
+  }
+
+  const header = request.headers.get('authorization') || '';
+  const expected = `Bearer ${secret}`;
+
+  // Constant-time comparison to prevent timing attacks
+  if (header.length !== expected.length) {
+    return false;
+  }
+  let result = 0;
+  for (let i = 0; i < header.length; i++) {
+    result |= header.charCodeAt(i) ^ expected.charCodeAt(i);
+  }
+  return result === 0;
+}
+
+/**
+ * Standard 401 for unauthenticated scheduler calls
+ */
+export function cronUnauthorized(): Response {
+  return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+    status: 401,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
@@ -30,10 +30,11 @@ export {
   verifyWebhook,
   verifyStripeWebhook,
   verifyCamPayWebhook,
-  isWebhookDuplicate,
-  markWebhookProcessed,
   createIdempotencyKey,
   validatePaymentAmount,
   type WebhookProvider,
   type WebhookVerificationResult,
 } from './webhook-verifier';
+
+// Scheduled Jobs
+export { verifyCronRequest, cronUnauthorized } from './cron';
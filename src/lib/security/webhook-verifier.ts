@@ -146,42 +146,9 @@ export async function verifyWebhook(
   }
 }
 
-/**
- * Check for duplicate webhook (idempotency)
- * Uses a simple in-memory cache - in production, use Redis
- */
-const processedWebhooks = new Map<string, number>();
-const IDEMPOTENCY_TTL = 24 * 60 * 60 * 1000; // 24 hours
-
-export function isWebhookDuplicate(idempotencyKey: string): boolean {
-  const timestamp = processedWebhooks.get(idempotencyKey);
-  if (!timestamp) return false;
-
-  // Check if still within TTL
-  if (Date.now() - timestamp > IDEMPOTENCY_TTL) {
-    processedWebhooks.delete(idempotencyKey);
-    return false;
-  }
-
-  return true;
-}
-
-export function markWebhookProcessed(idempotencyKey: string): void {
-  // Cleanup old entries periodically
-  if (processedWebhooks.size > 1000) {
-    const now = Date.now();
-    for (const [key, timestamp] of processedWebhooks) {
-      if (now - timestamp > IDEMPOTENCY_TTL) {
-        processedWebhooks.delete(key);
-      }
-    }
-  }
-
-  processedWebhooks.set(idempotencyKey, Date.now());
-}
-
 /**
  * Create idempotency key from webhook data
+ * Deduplication itself is persisted in webhook_events (see webhook-event.service)
  */
 export function createIdempotencyKey(
   provider: WebhookProvider,
@@ -4,6 +4,7 @@
  */
 
 import type { Twilio } from 'twilio';
+import { DEFAULT_LOCALE, getMessages, interpolate, type Locale } from '../i18n';
 
 // Lazy initialization
 let twilioClient: Twilio | null = null;
@@ -174,38 +175,56 @@ export type TemplateSMSData = {
 };
 
 /**
- * Generate SMS body from template
+ * Generate SMS body from template in the recipient's locale
  */
 export function renderSMSTemplate<T extends SMSTemplate>(
   template: T,
-  data: TemplateSMSData[T]
+  data: TemplateSMSData[T],
+  locale: Locale = DEFAULT_LOCALE
 ): string {
   const brandName = 'Eventune Studios';
+  const m = getMessages(locale).sms;
 
   switch (template) {
     case 'order-confirmation': {
       const d = data as OrderConfirmationSMSData;
-      return `Hi ${d.customerName}! Your order ${d.orderNumber} (${d.packageName}) has been confirmed. Estimated delivery: ${d.estimatedDelivery}. Track at eventunestudios.com/dashboard - ${brandName}`;
+      return interpolate(m.orderConfirmation, {
+        brand: brandName,
+        name: d.customerName,
+        orderNumber: d.orderNumber,
+        packageName: d.packageName,
+        estimatedDelivery: d.estimatedDelivery,
+      });
     }
 
     case 'status-update': {
       const d = data as StatusUpdateSMSData;
-      return `${brandName}: Your order ${d.orderNumber} is now ${d.newStatus}. Check your dashboard for details.`;
+      return interpolate(m.statusUpdate, { brand: brandName, orderNumber: d.orderNumber, status: d.newStatus });
     }
 
     case 'delivery-ready': {
       const d = data as DeliveryReadySMSData;
-      return `${brandName}: Great news ${d.customerName}! Your song ${d.orderNumber} is ready for download: ${d.downloadUrl}`;
+      return interpolate(m.deliveryReady, {
+        brand: brandName,
+        name: d.customerName,
+        orderNumber: d.orderNumber,
+        url: d.downloadUrl,
+      });
     }
 
     case 'revision-requested': {
       const d = data as RevisionRequestedSMSData;
-      return `${brandName}: We've received your revision request for ${d.orderNumber}. Our team will review it within 24-48 hours.`;
+      return interpolate(m.revisionRequested, { brand: brandName, orderNumber: d.orderNumber });
     }
 
     case 'payment-reminder': {
       const d = data as PaymentReminderSMSData;
-      return `Hi ${d.customerName}, friendly reminder: Order ${d.orderNumber} (${d.amount}) is awaiting payment. Complete at eventunestudios.com/dashboard - ${brandName}`;
+      return interpolate(m.paymentReminder, {
+        brand: brandName,
+        name: d.customerName,
+        orderNumber: d.orderNumber,
+        amount: d.amount,
+      });
     }
 
     default:
@@ -219,8 +238,9 @@ export function renderSMSTemplate<T extends SMSTemplate>(
 export async function sendTemplatedSMS<T extends SMSTemplate>(
   to: string,
   template: T,
-  data: TemplateSMSData[T]
+  data: TemplateSMSData[T],
+  locale: Locale = DEFAULT_LOCALE
 ): Promise<SendSMSResult> {
-  const body = renderSMSTemplate(template, data);
+  const body = renderSMSTemplate(template, data, locale);
   return sendSMS({ to, body });
 }
@@ -5,11 +5,21 @@
 export {
   uploadFile,
   getSignedDownloadUrl,
+  getSignedStreamUrl,
   getSignedUploadUrl,
+  getSignedUploadPartUrl,
+  createMultipartUpload,
+  completeMultipartUpload,
+  abortMultipartUpload,
+  getFileInfo,
+  getMultipartPartSize,
+  MAX_DIRECT_UPLOAD_SIZE,
   deleteFile,
   fileExists,
   validateAudioFile,
+  validateDeliverableFile,
   generateDeliverableKey,
   type UploadResult,
   type SignedUrlResult,
+  type DeliverableFileType,
 } from './r2-client';
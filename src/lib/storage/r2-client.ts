@@ -11,6 +11,10 @@ import {
   GetObjectCommand,
   DeleteObjectCommand,
   HeadObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
 } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 
@@ -23,10 +27,36 @@ const R2_ACCESS_KEY_ID = import.meta.env.R2_ACCESS_KEY_ID;
 const R2_SECRET_ACCESS_KEY = import.meta.env.R2_SECRET_ACCESS_KEY;
 
 // File configuration
-const MAX_FILE_SIZE = 100 * 1024 * 1024; // 100 MB
+const MB = 1024 * 1024;
+const MAX_FILE_SIZE = 100 * MB; // 100 MB - uploads streamed through the API route
 const ALLOWED_AUDIO_TYPES = ['audio/mpeg', 'audio/wav', 'audio/flac', 'audio/aac', 'audio/mp4'];
 const ALLOWED_EXTENSIONS = ['.mp3', '.wav', '.flac', '.aac', '.m4a'];
 
+/**
+ * Deliverable file types and what each accepts
+ */
+export type DeliverableFileType = 'mp3' | 'wav_master' | 'instrumental' | 'lyric_sheet' | 'video' | 'preview';
+
+const DELIVERABLE_FILE_RULES: Record<
+  DeliverableFileType,
+  { extensions: string[]; mimeTypes: string[]; maxSize: number }
+> = {
+  mp3: { extensions: ['.mp3'], mimeTypes: ['audio/mpeg'], maxSize: 100 * MB },
+  wav_master: { extensions: ['.wav'], mimeTypes: ['audio/wav', 'audio/x-wav', 'audio/wave'], maxSize: 1024 * MB },
+  instrumental: { extensions: ALLOWED_EXTENSIONS, mimeTypes: [...ALLOWED_AUDIO_TYPES, 'audio/x-wav'], maxSize: 1024 * MB },
+  lyric_sheet: { extensions: ['.pdf'], mimeTypes: ['application/pdf'], maxSize: 20 * MB },
+  video: { extensions: ['.mp4', '.mov', '.webm'], mimeTypes: ['video/mp4', 'video/quicktime', 'video/webm'], maxSize: 5 * 1024 * MB },
+  // Streamed in the browser, so only formats players handle natively
+  preview: { extensions: ['.mp3', '.m4a', '.mp4', '.webm'], mimeTypes: ['audio/mpeg', 'audio/mp4', 'video/mp4', 'video/webm'], maxSize: 500 * MB },
+};
+
+// Direct uploads go through the API route; larger files use multipart
+export const MAX_DIRECT_UPLOAD_SIZE = MAX_FILE_SIZE;
+
+// Multipart: R2 needs parts of at least 5 MB (except the last) and at most 10,000 parts
+const MULTIPART_PART_SIZE = 10 * MB;
+const MAX_MULTIPART_PARTS = 10000;
+
 /**
  * Get R2 client (lazy init)
  */
@@ -105,6 +135,89 @@ export function validateAudioFile(
   return { valid: true };
 }
 
+/**
+ * Validate a deliverable against the rules for its file type
+ */
+export function validateDeliverableFile(
+  fileType: DeliverableFileType,
+  filename: string,
+  mimeType?: string,
+  size?: number
+): { valid: boolean; error?: string } {
+  const rules = DELIVERABLE_FILE_RULES[fileType];
+  if (!rules) {
+    return { valid: false, error: 'Invalid deliverable type' };
+  }
+
+  const ext = filename.toLowerCase().slice(filename.lastIndexOf('.'));
+  if (!rules.extensions.includes(ext)) {
+    return {
+      valid: false,
+      error: `Invalid file type. Allowed: ${rules.extensions.join(', ')}`,
+    };
+  }
+
+  if (mimeType && !rules.mimeTypes.includes(mimeType)) {
+    return {
+      valid: false,
+      error: 'Invalid file format',
+    };
+  }
+
+  if (size && size > rules.maxSize) {
+    return {
+      valid: false,
+      error: `File too large. Maximum size: ${rules.maxSize / MB} MB`,
+    };
+  }
+
+  return { valid: true };
+}
+
+// How many leading bytes the container signatures below need
+export const FILE_SIGNATURE_BYTES = 16;
+
+const ascii = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...bytes.subarray(start, end));
+
+// ISO base media (MP4, M4A, MOV): a size-prefixed box, usually 'ftyp' first;
+// older QuickTime files may open with another top-level atom
+const isIsoMedia = (head: Uint8Array) =>
+  ['ftyp', 'moov', 'mdat', 'wide', 'free', 'skip'].includes(ascii(head, 4, 8));
+
+// MPEG audio frame sync (11 set bits); ADTS AAC shares the first 12
+const isMpegFrame = (head: Uint8Array) => head[0] === 0xff && (head[1] & 0xe0) === 0xe0;
+
+const FILE_SIGNATURES: Record<string, (head: Uint8Array) => boolean> = {
+  'audio/mpeg': (head) => ascii(head, 0, 3) === 'ID3' || isMpegFrame(head),
+  'audio/wav': (head) => ascii(head, 0, 4) === 'RIFF' && ascii(head, 8, 12) === 'WAVE',
+  'audio/flac': (head) => ascii(head, 0, 4) === 'fLaC',
+  'audio/aac': (head) => ascii(head, 0, 3) === 'ID3' || (head[0] === 0xff && (head[1] & 0xf6) === 0xf0),
+  'audio/mp4': isIsoMedia,
+  'video/mp4': isIsoMedia,
+  'video/quicktime': isIsoMedia,
+  'video/webm': (head) => head[0] === 0x1a && head[1] === 0x45 && head[2] === 0xdf && head[3] === 0xa3,
+  'application/pdf': (head) => ascii(head, 0, 5) === '%PDF-',
+};
+FILE_SIGNATURES['audio/x-wav'] = FILE_SIGNATURES['audio/wav'];
+FILE_SIGNATURES['audio/wave'] = FILE_SIGNATURES['audio/wav'];
+
+/**
+ * Check a file's leading bytes against the container its MIME type declares
+ */
+export function matchesFileSignature(mimeType: string, head: Uint8Array): boolean {
+  const matches = FILE_SIGNATURES[mimeType];
+  return !!matches && head.length >= FILE_SIGNATURE_BYTES && matches(head);
+}
+
+/**
+ * Part size for a multipart upload, rounded up to whole MB
+ */
+export function getMultipartPartSize(size: number): number {
+  const minimum = Math.ceil(size / MAX_MULTIPART_PARTS / MB) * MB;
+  return Math.max(MULTIPART_PART_SIZE, minimum);
+}
+
 /**
  * Generate storage key for order deliverables
  * Format: orders/{order_id}/deliverables/{filename}
@@ -213,6 +326,43 @@ export async function getSignedDownloadUrl(
   }
 }
 
+/**
+ * Generate a short-lived signed URL for streaming a file inline.
+ * Players fetch it with Range requests, which presigned GETs support.
+ */
+export async function getSignedStreamUrl(
+  key: string,
+  expiresInSeconds: number = 300,
+  contentType?: string
+): Promise<SignedUrlResult> {
+  try {
+    const client = getClient();
+
+    const command = new GetObjectCommand({
+      Bucket: BUCKET_NAME,
+      Key: key,
+      ResponseContentDisposition: 'inline',
+      ResponseContentType: contentType,
+      ResponseCacheControl: 'private, no-store',
+    });
+
+    const url = await getSignedUrl(client, command, { expiresIn: expiresInSeconds });
+    const expiresAt = new Date(Date.now() + expiresInSeconds * 1000);
+
+    return {
+      success: true,
+      url,
+      expiresAt,
+    };
+  } catch (error) {
+    console.error('[R2] Stream URL error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to generate stream URL',
+    };
+  }
+}
+
 /**
  * Generate a signed URL for uploading a file
  */
@@ -247,6 +397,202 @@ export async function getSignedUploadUrl(
   }
 }
 
+/**
+ * Start a multipart upload
+ * Parts carry SHA-256 checksums, so R2 reports a composite checksum on completion.
+ */
+export async function createMultipartUpload(
+  key: string,
+  contentType: string,
+  metadata?: Record<string, string>
+): Promise<{ success: boolean; uploadId?: string; error?: string }> {
+  try {
+    const client = getClient();
+
+    const command = new CreateMultipartUploadCommand({
+      Bucket: BUCKET_NAME,
+      Key: key,
+      ContentType: contentType,
+      Metadata: metadata,
+      ChecksumAlgorithm: 'SHA256',
+    });
+
+    const result = await client.send(command);
+    if (!result.UploadId) {
+      return { success: false, error: 'Failed to start upload' };
+    }
+
+    return { success: true, uploadId: result.UploadId };
+  } catch (error) {
+    console.error('[R2] Multipart create error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to start upload',
+    };
+  }
+}
+
+/**
+ * Generate a signed URL for uploading one part of a multipart upload
+ * The part's base64 SHA-256 is signed in: the client must send it as the
+ * x-amz-checksum-sha256 header and R2 rejects a body that doesn't match.
+ */
+export async function getSignedUploadPartUrl(
+  key: string,
+  uploadId: string,
+  partNumber: number,
+  checksumSha256: string,
+  expiresInSeconds: number = 3600
+): Promise<SignedUrlResult> {
+  try {
+    const client = getClient();
+
+    const command = new UploadPartCommand({
+      Bucket: BUCKET_NAME,
+      Key: key,
+      UploadId: uploadId,
+      PartNumber: partNumber,
+      ChecksumSHA256: checksumSha256,
+    });
+
+    const url = await getSignedUrl(client, command, {
+      expiresIn: expiresInSeconds,
+      unhoistableHeaders: new Set(['x-amz-checksum-sha256']),
+    });
+    const expiresAt = new Date(Date.now() + expiresInSeconds * 1000);
+
+    return {
+      success: true,
+      url,
+      expiresAt,
+    };
+  } catch (error) {
+    console.error('[R2] Part URL error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to generate part upload URL',
+    };
+  }
+}
+
+/**
+ * Assemble uploaded parts into the final object
+ * R2 checks each part against its checksum and returns the composite
+ * checksum: hex SHA-256 of the concatenated SHA-256 digests of each part.
+ */
+export async function completeMultipartUpload(
+  key: string,
+  uploadId: string,
+  parts: { partNumber: number; etag: string; checksumSha256: string }[]
+): Promise<{ success: boolean; checksumSha256?: string; error?: string }> {
+  try {
+    const client = getClient();
+
+    const command = new CompleteMultipartUploadCommand({
+      Bucket: BUCKET_NAME,
+      Key: key,
+      UploadId: uploadId,
+      MultipartUpload: {
+        Parts: [...parts]
+          .sort((a, b) => a.partNumber - b.partNumber)
+          .map((part) => ({
+            PartNumber: part.partNumber,
+            ETag: part.etag,
+            ChecksumSHA256: part.checksumSha256,
+          })),
+      },
+    });
+
+    const result = await client.send(command);
+
+    // Composite checksums are reported as "<base64>-<part count>"
+    const composite = result.ChecksumSHA256?.split('-')[0];
+    return {
+      success: true,
+      checksumSha256: composite ? Buffer.from(composite, 'base64').toString('hex') : undefined,
+    };
+  } catch (error) {
+    console.error('[R2] Multipart complete error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to complete upload',
+    };
+  }
+}
+
+/**
+ * Abort a multipart upload and discard its parts
+ */
+export async function abortMultipartUpload(
+  key: string,
+  uploadId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const client = getClient();
+
+    const command = new AbortMultipartUploadCommand({
+      Bucket: BUCKET_NAME,
+      Key: key,
+      UploadId: uploadId,
+    });
+
+    await client.send(command);
+    return { success: true };
+  } catch (error) {
+    console.error('[R2] Multipart abort error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to abort upload',
+    };
+  }
+}
+
+/**
+ * Get stored size and content type of a file
+ */
+export async function getFileInfo(
+  key: string
+): Promise<{ size: number; contentType: string | null } | null> {
+  try {
+    const client = getClient();
+
+    const result = await client.send(
+      new HeadObjectCommand({
+        Bucket: BUCKET_NAME,
+        Key: key,
+      })
+    );
+
+    return {
+      size: result.ContentLength ?? 0,
+      contentType: result.ContentType ?? null,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the first bytes of a file with a range request
+ */
+export async function getFileHead(key: string, bytes: number): Promise<Uint8Array | null> {
+  try {
+    const client = getClient();
+
+    const result = await client.send(
+      new GetObjectCommand({
+        Bucket: BUCKET_NAME,
+        Key: key,
+        Range: `bytes=0-${bytes - 1}`,
+      })
+    );
+
+    return result.Body ? await result.Body.transformToByteArray() : null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Delete a file from R2
  */
@@ -0,0 +1,253 @@
+/**
+ * WhatsApp Service using Twilio
+ * Handles transactional WhatsApp notifications
+ *
+ * Business-initiated messages must use templates approved by Meta. Each
+ * template is a Twilio Content template whose SID is configured per
+ * environment; without one the rendered text is sent as a session message.
+ */
+
+import type { Twilio } from 'twilio';
+import {
+  renderSMSTemplate,
+  type TemplateSMSData,
+  type OrderConfirmationSMSData,
+  type StatusUpdateSMSData,
+  type DeliveryReadySMSData,
+} from '../sms/client';
+import { DEFAULT_LOCALE, type Locale } from '../i18n';
+
+// Lazy initialization
+let twilioClient: Twilio | null = null;
+
+/**
+ * Get Twilio client (lazy init)
+ */
+function getClient(): Twilio | null {
+  // Check if WhatsApp is enabled
+  const whatsappEnabled = import.meta.env.PUBLIC_WHATSAPP_ENABLED === 'true';
+  if (!whatsappEnabled) {
+    console.log('[WHATSAPP] WhatsApp notifications disabled in config');
+    return null;
+  }
+
+  if (!twilioClient) {
+    const accountSid = import.meta.env.TWILIO_ACCOUNT_SID;
+    const authToken = import.meta.env.TWILIO_AUTH_TOKEN;
+
+    if (!accountSid || !authToken) {
+      console.warn('[WHATSAPP] Twilio credentials not configured. WhatsApp notifications disabled.');
+      return null;
+    }
+
+    try {
+      // Dynamic import to avoid errors when package isn't installed
+      const twilio = require('twilio');
+      twilioClient = twilio(accountSid, authToken);
+    } catch (error) {
+      console.error('[WHATSAPP] Failed to initialize Twilio client:', error);
+      return null;
+    }
+  }
+
+  return twilioClient;
+}
+
+/**
+ * WhatsApp send options
+ * Pass contentSid (+ contentVariables) for a template, or body for free text.
+ */
+export interface SendWhatsAppOptions {
+  to: string;
+  body?: string;
+  contentSid?: string;
+  contentVariables?: Record<string, string>;
+}
+
+/**
+ * WhatsApp send result
+ */
+export interface SendWhatsAppResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+}
+
+/**
+ * Validate phone number format (basic validation)
+ */
+function isValidPhoneNumber(phone: string): boolean {
+  // Basic E.164 format validation: +[country code][number]
+  const e164Regex = /^\+[1-9]\d{1,14}$/;
+  return e164Regex.test(phone);
+}
+
+/**
+ * Send a WhatsApp message
+ */
+export async function sendWhatsApp(options: SendWhatsAppOptions): Promise<SendWhatsAppResult> {
+  const client = getClient();
+
+  // If WhatsApp is disabled or client failed to initialize, return early
+  if (!client) {
+    return {
+      success: false,
+      error: 'WhatsApp service not configured',
+    };
+  }
+
+  // Validate phone number
+  if (!isValidPhoneNumber(options.to)) {
+    return {
+      success: false,
+      error: 'Invalid phone number format. Must be in E.164 format (e.g., +237XXXXXXXXX)',
+    };
+  }
+
+  const fromNumber = import.meta.env.TWILIO_WHATSAPP_FROM;
+  if (!fromNumber) {
+    return {
+      success: false,
+      error: 'Twilio WhatsApp sender not configured',
+    };
+  }
+
+  if (!options.contentSid && !options.body) {
+    return {
+      success: false,
+      error: 'WhatsApp message needs a template or a body',
+    };
+  }
+
+  try {
+    const message = await client.messages.create({
+      from: `whatsapp:${fromNumber}`,
+      to: `whatsapp:${options.to}`,
+      ...(options.contentSid
+        ? {
+            contentSid: options.contentSid,
+            contentVariables: JSON.stringify(options.contentVariables ?? {}),
+          }
+        : { body: options.body }),
+    });
+
+    return {
+      success: true,
+      messageId: message.sid,
+    };
+  } catch (error: any) {
+    console.error('[WHATSAPP] Failed to send WhatsApp message:', error);
+    return {
+      success: false,
+      error: error?.message || 'Failed to send WhatsApp message',
+    };
+  }
+}
+
+/**
+ * WhatsApp template types
+ */
+export type WhatsAppTemplate =
+  | 'order-confirmation'
+  | 'status-update'
+  | 'delivery-ready';
+
+/**
+ * Template data types (shared with the SMS fallback)
+ */
+export type TemplateWhatsAppData = {
+  'order-confirmation': OrderConfirmationSMSData;
+  'status-update': StatusUpdateSMSData;
+  'delivery-ready': DeliveryReadySMSData;
+};
+
+export interface RenderedWhatsAppTemplate {
+  contentSid?: string;
+  contentVariables: Record<string, string>;
+  // Plain-text version, used without a Content SID and for the SMS fallback
+  body: string;
+}
+
+/**
+ * Twilio Content SIDs of the approved templates
+ * French templates fall back to the English one when not configured.
+ */
+function getContentSid(template: WhatsAppTemplate, locale: Locale): string | undefined {
+  const sids: Record<WhatsAppTemplate, string | undefined> = {
+    'order-confirmation': import.meta.env.TWILIO_WHATSAPP_CONTENT_ORDER_CONFIRMATION,
+    'status-update': import.meta.env.TWILIO_WHATSAPP_CONTENT_STATUS_UPDATE,
+    'delivery-ready': import.meta.env.TWILIO_WHATSAPP_CONTENT_DELIVERY_READY,
+  };
+  const frenchSids: Record<WhatsAppTemplate, string | undefined> = {
+    'order-confirmation': import.meta.env.TWILIO_WHATSAPP_CONTENT_ORDER_CONFIRMATION_FR,
+    'status-update': import.meta.env.TWILIO_WHATSAPP_CONTENT_STATUS_UPDATE_FR,
+    'delivery-ready': import.meta.env.TWILIO_WHATSAPP_CONTENT_DELIVERY_READY_FR,
+  };
+  return (locale === 'fr' && frenchSids[template]) || sids[template] || undefined;
+}
+
+/**
+ * Map template data to the template's numbered variables
+ */
+export function renderWhatsAppTemplate<T extends WhatsAppTemplate>(
+  template: T,
+  data: TemplateWhatsAppData[T],
+  locale: Locale = DEFAULT_LOCALE
+): RenderedWhatsAppTemplate {
+  let contentVariables: Record<string, string>;
+
+  switch (template) {
+    case 'order-confirmation': {
+      const d = data as OrderConfirmationSMSData;
+      contentVariables = {
+        '1': d.customerName,
+        '2': d.orderNumber,
+        '3': d.packageName,
+        '4': d.estimatedDelivery,
+      };
+      break;
+    }
+
+    case 'status-update': {
+      const d = data as StatusUpdateSMSData;
+      contentVariables = {
+        '1': d.customerName,
+        '2': d.orderNumber,
+        '3': d.newStatus,
+      };
+      break;
+    }
+
+    case 'delivery-ready': {
+      const d = data as DeliveryReadySMSData;
+      contentVariables = {
+        '1': d.customerName,
+        '2': d.orderNumber,
+        '3': d.downloadUrl,
+      };
+      break;
+    }
+
+    default:
+      throw new Error(`Unknown WhatsApp template: ${template}`);
+  }
+
+  return {
+    contentSid: getContentSid(template, locale),
+    contentVariables,
+    body: renderSMSTemplate(template, data as TemplateSMSData[T], locale),
+  };
+}
+
+/**
+ * Send a templated WhatsApp message
+ */
+export async function sendTemplatedWhatsApp<T extends WhatsAppTemplate>(
+  to: string,
+  template: T,
+  data: TemplateWhatsAppData[T],
+  locale: Locale = DEFAULT_LOCALE
+): Promise<SendWhatsAppResult> {
+  const { contentSid, contentVariables, body } = renderWhatsAppTemplate(template, data, locale);
+  return sendWhatsApp({ to, contentSid, contentVariables, body });
+}
@@ -0,0 +1,14 @@
+/**
+ * WhatsApp Module Exports
+ */
+
+export {
+  sendWhatsApp,
+  sendTemplatedWhatsApp,
+  renderWhatsAppTemplate,
+  type SendWhatsAppOptions,
+  type SendWhatsAppResult,
+  type WhatsAppTemplate,
+  type TemplateWhatsAppData,
+  type RenderedWhatsAppTemplate,
+} from './client';
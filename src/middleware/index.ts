@@ -1,12 +1,14 @@
 /**
  * Astro Middleware
- * Handles authentication, security headers, rate limiting, and CSRF tokens
+ * Handles authentication, security headers, rate limiting, CSRF tokens and locale
  */
 
 import { defineMiddleware, sequence } from 'astro:middleware';
 import { createServerClientWithToken } from '@/lib/supabase/server';
 import { setCSRFToken, generateCSRFToken } from '@/lib/auth/session';
+import { getLocaleFromPath, localizePath, stripLocaleFromPath } from '@/lib/i18n';
 import { referralMiddleware } from './referral';
+import { localeMiddleware } from './locale';
 
 // Routes that require authentication
 const protectedRoutes = [
@@ -32,6 +34,9 @@ const adminRoutes = [
 const authMiddleware = defineMiddleware(async ({ request, cookies, redirect, locals }, next) => {
   const url = new URL(request.url);
   const pathname = url.pathname;
+  // Route checks ignore the /fr prefix; redirects stay in the page's language
+  const route = stripLocaleFromPath(pathname);
+  const locale = getLocaleFromPath(pathname);
 
   // Get access token from cookie
   const accessToken = cookies.get('sb-access-token')?.value;
@@ -103,25 +108,25 @@ const authMiddleware = defineMiddleware(async ({ request, cookies, redirect, loc
   }
 
   // Check protected routes
-  const isProtectedRoute = protectedRoutes.some((route) => pathname.startsWith(route));
+  const isProtectedRoute = protectedRoutes.some((r) => route.startsWith(r));
   if (isProtectedRoute && !user) {
     const redirectTo = encodeURIComponent(pathname);
-    return redirect(`/auth/login?redirectTo=${redirectTo}`);
+    return redirect(`${localizePath('/auth/login', locale)}?redirectTo=${redirectTo}`);
   }
 
   // Check admin routes
-  const isAdminRoute = adminRoutes.some((route) => pathname.startsWith(route));
+  const isAdminRoute = adminRoutes.some((r) => route.startsWith(r));
   if (isAdminRoute) {
     const adminRole = (user as any)?.profile?.admin_role;
     if (!adminRole) {
-      return redirect('/dashboard');
+      return redirect(localizePath('/dashboard', locale));
     }
   }
 
   // Redirect authenticated users away from auth pages
-  const isAuthRoute = authRoutes.some((route) => pathname === route);
+  const isAuthRoute = authRoutes.some((r) => route === r);
   if (isAuthRoute && user) {
-    return redirect('/dashboard');
+    return redirect(localizePath('/dashboard', locale));
   }
 
   return next();
@@ -150,5 +155,6 @@ const securityHeadersMiddleware = defineMiddleware(async (context, next) => {
 });
 
 // Combine middlewares
-// Order matters: referral tracking should happen early, before auth checks
-export const onRequest = sequence(referralMiddleware, securityHeadersMiddleware, authMiddleware);
+// Order matters: referral tracking should happen early, before auth checks;
+// locale runs after auth so it can read the profile's preferred language
+export const onRequest = sequence(referralMiddleware, securityHeadersMiddleware, authMiddleware, localeMiddleware);
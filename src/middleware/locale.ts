@@ -0,0 +1,120 @@
+/**
+ * Locale Middleware
+ * Detects the visitor's language, remembers it and routes to the matching page
+ *
+ * Priority: /fr URL prefix > ?lang= switch > locale cookie >
+ * profile preferred_language > Accept-Language > English
+ */
+
+import type { AstroCookies, MiddlewareHandler } from 'astro';
+import { getServerClient } from '../lib/supabase/server';
+import {
+  DEFAULT_LOCALE,
+  LOCALE_COOKIE_NAME,
+  getLocaleFromPath,
+  isLocale,
+  isLocalizedRoute,
+  localizePath,
+  negotiateLocale,
+  stripLocaleFromPath,
+  type Locale,
+} from '../lib/i18n';
+
+const COOKIE_MAX_AGE = 365 * 24 * 60 * 60; // 1 year in seconds
+
+/**
+ * Remember the visitor's locale
+ */
+export function setLocaleCookie(cookies: AstroCookies, locale: Locale): void {
+  cookies.set(LOCALE_COOKIE_NAME, locale, {
+    maxAge: COOKIE_MAX_AGE,
+    path: '/',
+    sameSite: 'lax',
+    secure: import.meta.env.PROD,
+    httpOnly: true,
+  });
+}
+
+/**
+ * Get the locale saved in the cookie, if any
+ */
+export function getLocaleFromCookie(cookies: AstroCookies): Locale | null {
+  const value = cookies.get(LOCALE_COOKIE_NAME)?.value;
+  return isLocale(value) ? value : null;
+}
+
+/**
+ * Save an explicit language choice on the signed-in user's profile
+ */
+async function persistProfileLocale(userId: string, locale: Locale): Promise<void> {
+  const supabase = getServerClient();
+  const { error } = await supabase
+    .from('profiles')
+    .update({ preferred_language: locale, updated_at: new Date().toISOString() })
+    .eq('id', userId);
+
+  if (error) {
+    console.error('[Locale Middleware] Failed to save preferred language:', error.message);
+  }
+}
+
+/**
+ * Locale Middleware
+ * Runs after auth so the signed-in profile is available
+ */
+export const localeMiddleware: MiddlewareHandler = async (
+  { request, cookies, locals, redirect, originPathname },
+  next
+) => {
+  const url = new URL(request.url);
+  const profile = locals.session?.profile ?? null;
+
+  // Skip API routes and static assets
+  if (
+    url.pathname.startsWith('/api/') ||
+    url.pathname.startsWith('/_') ||
+    url.pathname.match(/\.(js|css|png|jpg|jpeg|gif|svg|ico|woff|woff2|ttf|mp3|xml|txt)$/)
+  ) {
+    locals.locale = getLocaleFromCookie(cookies) ?? DEFAULT_LOCALE;
+    return next();
+  }
+
+  // Language switcher: /about?lang=fr -> remember, then land on the localized page
+  const langParam = url.searchParams.get('lang');
+  if (isLocale(langParam) && request.method === 'GET') {
+    setLocaleCookie(cookies, langParam);
+    if (profile && profile.preferred_language !== langParam) {
+      await persistProfileLocale(profile.id, langParam);
+    }
+
+    url.searchParams.delete('lang');
+    return redirect(localizePath(url.pathname, langParam) + url.search, 302);
+  }
+
+  // A /fr page is always French, and becomes the visitor's choice.
+  // Wrappers under src/pages/fr rewrite to the English route, so read the
+  // locale from the URL the visitor asked for.
+  const pathLocale = getLocaleFromPath(originPathname);
+  if (pathLocale !== DEFAULT_LOCALE) {
+    if (getLocaleFromCookie(cookies) !== pathLocale) {
+      setLocaleCookie(cookies, pathLocale);
+    }
+    locals.locale = pathLocale;
+    return next();
+  }
+
+  const preferred =
+    getLocaleFromCookie(cookies) ??
+    (isLocale(profile?.preferred_language) ? profile.preferred_language : null) ??
+    negotiateLocale(request.headers.get('accept-language')) ??
+    DEFAULT_LOCALE;
+
+  // Send visitors who prefer another language to that version of the page
+  if (preferred !== DEFAULT_LOCALE && request.method === 'GET' && isLocalizedRoute(url.pathname)) {
+    return redirect(localizePath(stripLocaleFromPath(url.pathname), preferred) + url.search, 302);
+  }
+
+  // Plain paths render the English page
+  locals.locale = DEFAULT_LOCALE;
+  return next();
+};
@@ -5,13 +5,19 @@
 
 import type { AstroCookies } from 'astro';
 import type { MiddlewareHandler } from 'astro';
+import { resolveLink } from '../services/referral-link.service';
+import { recordReferralClick, getDeviceClass, getReferrerHost } from '../services/referral-analytics.service';
 
 const REFERRAL_COOKIE_NAME = 'evt_ref';
 const UTM_COOKIE_NAME = 'evt_utm';
+const VISITOR_COOKIE_NAME = 'evt_vid';
 const COOKIE_MAX_AGE = 30 * 24 * 60 * 60; // 30 days in seconds
+const VISITOR_COOKIE_MAX_AGE = 365 * 24 * 60 * 60; // 1 year in seconds
+const SHORT_LINK_PATTERN = /^\/r\/([a-zA-Z0-9]{4,16})\/?$/;
 
 interface ReferralData {
   code: string;
+  link?: string; // Tracking link slug, when the visit came through one
   timestamp: number;
 }
 
@@ -28,9 +34,10 @@ interface UTMData {
 /**
  * Set referral cookie with proper configuration
  */
-function setReferralCookie(cookies: AstroCookies, code: string, isProd: boolean): void {
+function setReferralCookie(cookies: AstroCookies, code: string, isProd: boolean, link?: string): void {
   const data: ReferralData = {
     code,
+    ...(link && { link }),
     timestamp: Date.now(),
   };
 
@@ -65,6 +72,62 @@ function setUTMCookie(
   });
 }
 
+/**
+ * Get the anonymous visitor id, issuing one if needed
+ * Only used to count each visitor's clicks once.
+ */
+function getOrSetVisitorId(cookies: AstroCookies, isProd: boolean): string {
+  const existing = cookies.get(VISITOR_COOKIE_NAME)?.value;
+  if (existing && /^[a-f0-9-]{36}$/.test(existing)) {
+    return existing;
+  }
+
+  const visitorId = crypto.randomUUID();
+  cookies.set(VISITOR_COOKIE_NAME, visitorId, {
+    maxAge: VISITOR_COOKIE_MAX_AGE,
+    path: '/',
+    sameSite: 'lax',
+    secure: isProd,
+    httpOnly: true,
+  });
+  return visitorId;
+}
+
+/**
+ * Record the click for a visit carrying a referral code
+ * Bots and link-preview fetchers are not counted.
+ */
+async function trackReferralClick(
+  request: Request,
+  cookies: AstroCookies,
+  isProd: boolean,
+  referralCode: string,
+  landingPage: string,
+  linkId?: string
+): Promise<void> {
+  const deviceClass = getDeviceClass(request.headers.get('user-agent'));
+  if (!deviceClass) {
+    return;
+  }
+
+  const url = new URL(request.url);
+  await recordReferralClick({
+    referralCode,
+    visitorId: getOrSetVisitorId(cookies, isProd),
+    linkId,
+    landingPage,
+    referrerHost: getReferrerHost(request.headers.get('referer'), url.host),
+    utm: {
+      source: url.searchParams.get('utm_source'),
+      medium: url.searchParams.get('utm_medium'),
+      campaign: url.searchParams.get('utm_campaign'),
+      content: url.searchParams.get('utm_content'),
+      term: url.searchParams.get('utm_term'),
+    },
+    deviceClass,
+  });
+}
+
 /**
  * Extract referral code from request (URL param or cookie)
  */
@@ -150,10 +213,24 @@ function isValidReferralCode(code: string): boolean {
  * Referral Middleware
  * Detects and stores referral codes and UTM parameters
  */
-export const referralMiddleware: MiddlewareHandler = async ({ request, cookies }, next) => {
+export const referralMiddleware: MiddlewareHandler = async ({ request, cookies, redirect }, next) => {
   const url = new URL(request.url);
   const isProd = import.meta.env.PROD;
 
+  // Tracking short links: /r/<slug> -> log the click, attribute, land
+  const shortLink = url.pathname.match(SHORT_LINK_PATTERN);
+  if (shortLink) {
+    const link = await resolveLink(shortLink[1]);
+    if (!link) {
+      return redirect('/', 302);
+    }
+
+    setReferralCookie(cookies, link.referral_code, isProd, link.slug);
+    await trackReferralClick(request, cookies, isProd, link.referral_code, link.destination, link.id);
+    console.log(`[Referral Middleware] Short link ${link.slug} -> ${link.destination}`);
+    return redirect(link.destination, 302);
+  }
+
   // Skip API routes and static assets
   if (
     url.pathname.startsWith('/api/') ||
@@ -169,6 +246,7 @@ export const referralMiddleware: MiddlewareHandler = async ({ request, cookies }
     // Store in cookie (overwrite existing)
     setReferralCookie(cookies, refParam, isProd);
     console.log(`[Referral Middleware] Stored referral code: ${refParam}`);
+    await trackReferralClick(request, cookies, isProd, refParam, url.pathname);
   }
 
   // Check for UTM parameters
@@ -0,0 +1,146 @@
+/**
+ * API: Create Coupon
+ * POST /api/admin/content/coupons/create
+ *
+ * Security: Admin auth, content:update permission, rate limiting, audit logging
+ */
+
+import type { APIRoute } from 'astro';
+import { getAdminSession, hasPermission } from '../../../../../lib/auth/admin-session';
+import { validateCSRFToken } from '../../../../../lib/auth/session';
+import { createCoupon } from '../../../../../services/admin.service';
+import { logAdminAction } from '../../../../../lib/audit/logger';
+import { checkRateLimit } from '../../../../../lib/security/validation';
+import { ADMIN_CONFIG } from '../../../../../config/admin.constants';
+
+/**
+ * Accept slug lists as arrays or comma-separated strings
+ */
+function parseSlugList(value: unknown): string[] | null {
+  const list = Array.isArray(value)
+    ? value
+    : typeof value === 'string'
+      ? value.split(',')
+      : [];
+  const slugs = list.map((s) => String(s).trim()).filter(Boolean);
+  return slugs.length > 0 ? slugs : null;
+}
+
+export const POST: APIRoute = async ({ request, cookies, clientAddress }) => {
+  // Rate limiting
+  const rateLimit = checkRateLimit(
+    clientAddress,
+    'admin-content-create',
+    ADMIN_CONFIG.RATE_LIMITS.STATUS_UPDATE.requests,
+    ADMIN_CONFIG.RATE_LIMITS.STATUS_UPDATE.window
+  );
+
+  if (!rateLimit.allowed) {
+    return new Response(
+      JSON.stringify({ error: 'Too many requests. Please wait.' }),
+      {
+        status: 429,
+        headers: {
+          'Content-Type': 'application/json',
+          'Retry-After': String(Math.ceil(rateLimit.resetIn / 1000)),
+        },
+      }
+    );
+  }
+
+  // Admin authentication
+  const adminSession = await getAdminSession(cookies);
+  if (!adminSession.success) {
+    return new Response(
+      JSON.stringify({ error: 'Authentication required' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Permission check
+  if (!hasPermission(adminSession.data.permissions, 'content:update')) {
+    return new Response(
+      JSON.stringify({ error: 'Content update permission required' }),
+      { status: 403, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const { csrf_token, ...couponData } = body;
+
+    // CSRF validation
+    if (!validateCSRFToken(cookies, csrf_token || null)) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid security token. Please refresh and try again.' }),
+        { status: 403, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Validate required fields
+    if (!couponData.code || !couponData.discount_type) {
+      return new Response(
+        JSON.stringify({ error: 'Code and discount type are required' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!['percentage', 'fixed'].includes(couponData.discount_type)) {
+      return new Response(
+        JSON.stringify({ error: 'Discount type must be percentage or fixed' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Create coupon
+    const result = await createCoupon({
+      code: String(couponData.code),
+      description: couponData.description || null,
+      discount_type: couponData.discount_type,
+      percentage: couponData.percentage ? parseFloat(couponData.percentage) : null,
+      amount_usd: couponData.amount_usd ? parseFloat(couponData.amount_usd) : null,
+      amount_xaf: couponData.amount_xaf ? parseFloat(couponData.amount_xaf) : null,
+      starts_at: couponData.starts_at || null,
+      ends_at: couponData.ends_at || null,
+      max_redemptions: parseInt(couponData.max_redemptions) || null,
+      max_redemptions_per_customer: couponData.max_redemptions_per_customer === null
+        ? null
+        : parseInt(couponData.max_redemptions_per_customer) || 1,
+      package_slugs: parseSlugList(couponData.package_slugs),
+      occasion_slugs: parseSlugList(couponData.occasion_slugs),
+      first_order_only: couponData.first_order_only === true,
+      is_active: couponData.is_active !== false,
+    });
+
+    if (!result.success) {
+      return new Response(
+        JSON.stringify({ error: result.error || 'Failed to create coupon' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Audit log
+    await logAdminAction({
+      admin_id: adminSession.data.user.id,
+      admin_email: adminSession.data.user.email,
+      admin_role: adminSession.data.adminRole,
+      action: 'coupon.create',
+      resource_type: 'coupon',
+      resource_id: result.id!,
+      metadata: { code: couponData.code, discount_type: couponData.discount_type },
+      ip_address: clientAddress,
+      user_agent: request.headers.get('user-agent') || undefined,
+    });
+
+    return new Response(
+      JSON.stringify({ success: true, id: result.id }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('[ADMIN] Coupon create error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -0,0 +1,109 @@
+/**
+ * API: Delete Coupon
+ * POST /api/admin/content/coupons/delete
+ *
+ * Security: Admin auth, content:delete permission, rate limiting, audit logging
+ */
+
+import type { APIRoute } from 'astro';
+import { getAdminSession, hasPermission } from '../../../../../lib/auth/admin-session';
+import { validateCSRFToken } from '../../../../../lib/auth/session';
+import { deleteCoupon } from '../../../../../services/admin.service';
+import { logAdminAction } from '../../../../../lib/audit/logger';
+import { checkRateLimit, isValidUUID } from '../../../../../lib/security/validation';
+import { ADMIN_CONFIG } from '../../../../../config/admin.constants';
+
+export const POST: APIRoute = async ({ request, cookies, clientAddress }) => {
+  // Rate limiting
+  const rateLimit = checkRateLimit(
+    clientAddress,
+    'admin-content-delete',
+    ADMIN_CONFIG.RATE_LIMITS.STATUS_UPDATE.requests,
+    ADMIN_CONFIG.RATE_LIMITS.STATUS_UPDATE.window
+  );
+
+  if (!rateLimit.allowed) {
+    return new Response(
+      JSON.stringify({ error: 'Too many requests. Please wait.' }),
+      {
+        status: 429,
+        headers: {
+          'Content-Type': 'application/json',
+          'Retry-After': String(Math.ceil(rateLimit.resetIn / 1000)),
+        },
+      }
+    );
+  }
+
+  // Admin authentication
+  const adminSession = await getAdminSession(cookies);
+  if (!adminSession.success) {
+    return new Response(
+      JSON.stringify({ error: 'Authentication required' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Permission check
+  if (!hasPermission(adminSession.data.permissions, 'content:delete')) {
+    return new Response(
+      JSON.stringify({ error: 'Content delete permission required' }),
+      { status: 403, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const { id, csrf_token } = body;
+
+    // CSRF validation
+    if (!validateCSRFToken(cookies, csrf_token || null)) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid security token. Please refresh and try again.' }),
+        { status: 403, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Validate ID
+    if (!id || !isValidUUID(id)) {
+      return new Response(
+        JSON.stringify({ error: 'Valid coupon ID is required' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Delete coupon
+    const result = await deleteCoupon(id);
+
+    if (!result.success) {
+      return new Response(
+        JSON.stringify({ error: result.error || 'Failed to delete coupon' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Audit log
+    await logAdminAction({
+      admin_id: adminSession.data.user.id,
+      admin_email: adminSession.data.user.email,
+      admin_role: adminSession.data.adminRole,
+      action: 'coupon.delete',
+      resource_type: 'coupon',
+      resource_id: id,
+      metadata: {},
+      ip_address: clientAddress,
+      user_agent: request.headers.get('user-agent') || undefined,
+    });
+
+    return new Response(
+      JSON.stringify({ success: true }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('[ADMIN] Coupon delete error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -0,0 +1,148 @@
+/**
+ * API: Update Coupon
+ * POST /api/admin/content/coupons/update
+ *
+ * Security: Admin auth, content:update permission, rate limiting, audit logging
+ */
+
+import type { APIRoute } from 'astro';
+import { getAdminSession, hasPermission } from '../../../../../lib/auth/admin-session';
+import { validateCSRFToken } from '../../../../../lib/auth/session';
+import { updateCoupon } from '../../../../../services/admin.service';
+import { logAdminAction } from '../../../../../lib/audit/logger';
+import { checkRateLimit, isValidUUID } from '../../../../../lib/security/validation';
+import { ADMIN_CONFIG } from '../../../../../config/admin.constants';
+
+/**
+ * Accept slug lists as arrays or comma-separated strings
+ */
+function parseSlugList(value: unknown): string[] | null {
+  const list = Array.isArray(value)
+    ? value
+    : typeof value === 'string'
+      ? value.split(',')
+      : [];
+  const slugs = list.map((s) => String(s).trim()).filter(Boolean);
+  return slugs.length > 0 ? slugs : null;
+}
+
+export const POST: APIRoute = async ({ request, cookies, clientAddress }) => {
+  // Rate limiting
+  const rateLimit = checkRateLimit(
+    clientAddress,
+    'admin-content-update',
+    ADMIN_CONFIG.RATE_LIMITS.STATUS_UPDATE.requests,
+    ADMIN_CONFIG.RATE_LIMITS.STATUS_UPDATE.window
+  );
+
+  if (!rateLimit.allowed) {
+    return new Response(
+      JSON.stringify({ error: 'Too many requests. Please wait.' }),
+      {
+        status: 429,
+        headers: {
+          'Content-Type': 'application/json',
+          'Retry-After': String(Math.ceil(rateLimit.resetIn / 1000)),
+        },
+      }
+    );
+  }
+
+  // Admin authentication
+  const adminSession = await getAdminSession(cookies);
+  if (!adminSession.success) {
+    return new Response(
+      JSON.stringify({ error: 'Authentication required' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Permission check
+  if (!hasPermission(adminSession.data.permissions, 'content:update')) {
+    return new Response(
+      JSON.stringify({ error: 'Content update permission required' }),
+      { status: 403, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const { id, csrf_token, ...couponData } = body;
+
+    // CSRF validation
+    if (!validateCSRFToken(cookies, csrf_token || null)) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid security token. Please refresh and try again.' }),
+        { status: 403, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Validate ID
+    if (!id || !isValidUUID(id)) {
+      return new Response(
+        JSON.stringify({ error: 'Valid coupon ID is required' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (couponData.discount_type && !['percentage', 'fixed'].includes(couponData.discount_type)) {
+      return new Response(
+        JSON.stringify({ error: 'Discount type must be percentage or fixed' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Update coupon
+    const updateData: any = {};
+
+    if (couponData.code) updateData.code = String(couponData.code);
+    if (couponData.description !== undefined) updateData.description = couponData.description || null;
+    if (couponData.discount_type) updateData.discount_type = couponData.discount_type;
+    if (couponData.percentage !== undefined) updateData.percentage = couponData.percentage ? parseFloat(couponData.percentage) : null;
+    if (couponData.amount_usd !== undefined) updateData.amount_usd = couponData.amount_usd ? parseFloat(couponData.amount_usd) : null;
+    if (couponData.amount_xaf !== undefined) updateData.amount_xaf = couponData.amount_xaf ? parseFloat(couponData.amount_xaf) : null;
+    if (couponData.starts_at !== undefined) updateData.starts_at = couponData.starts_at || null;
+    if (couponData.ends_at !== undefined) updateData.ends_at = couponData.ends_at || null;
+    if (couponData.max_redemptions !== undefined) updateData.max_redemptions = parseInt(couponData.max_redemptions) || null;
+    if (couponData.max_redemptions_per_customer !== undefined) {
+      updateData.max_redemptions_per_customer = parseInt(couponData.max_redemptions_per_customer) || null;
+    }
+    if (couponData.package_slugs !== undefined) updateData.package_slugs = parseSlugList(couponData.package_slugs);
+    if (couponData.occasion_slugs !== undefined) updateData.occasion_slugs = parseSlugList(couponData.occasion_slugs);
+    if (couponData.first_order_only !== undefined) updateData.first_order_only = couponData.first_order_only === true;
+    if (couponData.is_active !== undefined) updateData.is_active = couponData.is_active === true;
+
+    const result = await updateCoupon(id, updateData);
+
+    if (!result.success) {
+      return new Response(
+        JSON.stringify({ error: result.error || 'Failed to update coupon' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Audit log
+    await logAdminAction({
+      admin_id: adminSession.data.user.id,
+      admin_email: adminSession.data.user.email,
+      admin_role: adminSession.data.adminRole,
+      action: 'coupon.update',
+      resource_type: 'coupon',
+      resource_id: id,
+      metadata: updateData,
+      ip_address: clientAddress,
+      user_agent: request.headers.get('user-agent') || undefined,
+    });
+
+    return new Response(
+      JSON.stringify({ success: true }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('[ADMIN] Coupon update error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
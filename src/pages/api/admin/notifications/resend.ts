@@ -0,0 +1,108 @@
+/**
+ * API: Resend Failed Notification
+ * POST /api/admin/notifications/resend
+ *
+ * Sends a failed or dead-lettered email/SMS again from the queue.
+ * Security: CSRF validation, admin auth, settings:update permission, rate limiting
+ */
+
+import type { APIRoute } from 'astro';
+import { getAdminSession, hasPermission } from '../../../../lib/auth/admin-session';
+import { validateCSRFToken } from '../../../../lib/auth/session';
+import { logAdminAction } from '../../../../lib/audit/logger';
+import { checkRateLimit } from '../../../../lib/security/validation';
+import { ADMIN_CONFIG } from '../../../../config/admin.constants';
+import { resendNotification } from '../../../../services/notification-queue.service';
+
+export const POST: APIRoute = async ({ request, cookies, clientAddress }) => {
+  // Rate limiting
+  const rateLimit = checkRateLimit(
+    clientAddress,
+    'admin-notification-resend',
+    10,
+    ADMIN_CONFIG.RATE_LIMITS.STATUS_UPDATE.window
+  );
+
+  if (!rateLimit.allowed) {
+    return new Response(
+      JSON.stringify({ error: 'Too many requests. Please wait.' }),
+      {
+        status: 429,
+        headers: {
+          'Content-Type': 'application/json',
+          'Retry-After': String(Math.ceil(rateLimit.resetIn / 1000)),
+        },
+      }
+    );
+  }
+
+  // Admin authentication
+  const adminSession = await getAdminSession(cookies);
+  if (!adminSession.success) {
+    return new Response(
+      JSON.stringify({ error: 'Authentication required' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Permission check
+  if (!hasPermission(adminSession.data.permissions, 'settings:update')) {
+    return new Response(
+      JSON.stringify({ error: 'Settings update permission required' }),
+      { status: 403, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Parse form data
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch {
+    return new Response(
+      JSON.stringify({ error: 'Invalid request body' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // CSRF validation
+  const csrfToken = formData.get('csrf_token')?.toString();
+  if (!validateCSRFToken(cookies, csrfToken || null)) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid security token. Please refresh and try again.' }),
+      { status: 403, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const notificationId = formData.get('notification_id')?.toString() || '';
+  const result = await resendNotification(notificationId);
+
+  await logAdminAction({
+    admin_id: adminSession.data.user.id,
+    admin_email: adminSession.data.user.email,
+    admin_role: adminSession.data.adminRole,
+    action: 'notification.resend',
+    resource_type: 'notification',
+    resource_id: notificationId,
+    metadata: {
+      status: result.success ? 'success' : 'failed',
+      error: result.error,
+      channel: result.notification?.channel,
+      notification_type: result.notification?.notification_type,
+      order_id: result.notification?.order_id,
+    },
+    ip_address: clientAddress,
+    user_agent: request.headers.get('user-agent') || undefined,
+  });
+
+  if (!result.success) {
+    return new Response(
+      JSON.stringify({ error: result.error, notification: result.notification }),
+      { status: result.notification ? 422 : 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  return new Response(
+    JSON.stringify({ success: true, notification: result.notification }),
+    { status: 200, headers: { 'Content-Type': 'application/json' } }
+  );
+};
@@ -0,0 +1,98 @@
+/**
+ * API: Export Dispute Evidence
+ * GET /api/admin/orders/dispute-evidence?order_id={id}
+ *
+ * Downloads a JSON evidence bundle for a disputed order: questionnaire
+ * summary, status history, delivery timestamps and the download log.
+ * Security: Admin auth, orders:export permission, rate limiting, audit logging
+ */
+
+import type { APIRoute } from 'astro';
+import { getAdminSession, hasPermission } from '../../../../lib/auth/admin-session';
+import { logAdminAction } from '../../../../lib/audit/logger';
+import { checkRateLimit, isValidUUID } from '../../../../lib/security/validation';
+import { ADMIN_CONFIG } from '../../../../config/admin.constants';
+import { getDisputeEvidence } from '../../../../services/dispute.service';
+
+export const GET: APIRoute = async ({ request, cookies, clientAddress }) => {
+  // Rate limiting (strict for exports)
+  const rateLimit = checkRateLimit(
+    clientAddress,
+    'admin-export',
+    ADMIN_CONFIG.RATE_LIMITS.EXPORT.requests,
+    ADMIN_CONFIG.RATE_LIMITS.EXPORT.window
+  );
+
+  if (!rateLimit.allowed) {
+    return new Response(
+      JSON.stringify({ error: 'Export limit reached. Please wait before trying again.' }),
+      {
+        status: 429,
+        headers: {
+          'Content-Type': 'application/json',
+          'Retry-After': String(Math.ceil(rateLimit.resetIn / 1000)),
+        },
+      }
+    );
+  }
+
+  // Admin authentication
+  const adminSession = await getAdminSession(cookies);
+  if (!adminSession.success) {
+    return new Response(
+      JSON.stringify({ error: 'Authentication required' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Permission check (super_admin only)
+  if (!hasPermission(adminSession.data.permissions, 'orders:export')) {
+    return new Response(
+      JSON.stringify({ error: 'Export permission required' }),
+      { status: 403, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const orderId = new URL(request.url).searchParams.get('order_id') || '';
+  if (!isValidUUID(orderId)) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid order ID' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const evidence = await getDisputeEvidence(orderId);
+  if (!evidence) {
+    return new Response(
+      JSON.stringify({ error: 'Order not found' }),
+      { status: 404, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Audit log (the bundle contains customer data)
+  await logAdminAction({
+    admin_id: adminSession.data.user.id,
+    admin_email: adminSession.data.user.email,
+    admin_role: adminSession.data.adminRole,
+    action: 'order.dispute_evidence',
+    resource_type: 'order',
+    resource_id: orderId,
+    metadata: {
+      order_number: evidence.order.order_number,
+      disputes: evidence.disputes.map((d) => d.provider_dispute_id),
+    },
+    ip_address: clientAddress,
+    user_agent: request.headers.get('user-agent') || undefined,
+  });
+
+  const filename = `dispute-evidence-${evidence.order.order_number}.json`;
+
+  return new Response(JSON.stringify(evidence, null, 2), {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/json; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-cache, no-store, must-revalidate',
+    },
+  });
+};
@@ -3,17 +3,32 @@
  * POST /api/admin/orders/refund
  *
  * Security: Super admin only, CSRF validation, rate limiting, audit logging
+ *
+ * Bundle songs are refunded individually against the bundle's payment;
+ * refunding a whole bundle cascades to its songs.
+ *
+ * CamPay refunds are sent to the payer's mobile money number and settle
+ * asynchronously: the response is 202 and the order is marked refunded
+ * when CamPay's callback confirms the transfer.
  */
 
 import type { APIRoute } from 'astro';
 import { getAdminSession } from '../../../../lib/auth/admin-session';
 import { validateCSRFToken } from '../../../../lib/auth/session';
-import { StripeProvider } from '../../../../lib/payments/stripe-provider';
+import { getProviderById } from '../../../../lib/payments/provider-factory';
+import type { SupportedCurrency } from '../../../../lib/payments/types';
 import { getServerClient } from '../../../../lib/supabase/server';
 import { logAdminAction } from '../../../../lib/audit/logger';
 import { checkRateLimit, isValidUUID } from '../../../../lib/security/validation';
-import { sendEmail, renderTemplate } from '../../../../lib/email/client';
 import { ADMIN_CONFIG } from '../../../../config/admin.constants';
+import {
+  openRefund,
+  markRefundSubmitted,
+  failRefund,
+  completeRefund,
+} from '../../../../services/refund.service';
+
+type PaymentStatus = 'pending' | 'paid' | 'failed' | 'refunded' | 'partially_refunded';
 
 export const POST: APIRoute = async ({ request, cookies, clientAddress }) => {
   // Rate limiting (strict for refunds)
@@ -87,7 +102,7 @@ export const POST: APIRoute = async ({ request, cookies, clientAddress }) => {
     // Fetch the order
     const { data: orderData, error: fetchError } = await supabase
       .from('orders')
-      .select('*, profiles(full_name, email)')
+      .select('*')
       .eq('id', order_id)
       .single();
 
@@ -102,18 +117,51 @@ export const POST: APIRoute = async ({ request, cookies, clientAddress }) => {
     const order = orderData as {
       id: string;
       order_number: string;
-      payment_status: 'pending' | 'paid' | 'failed' | 'refunded' | 'partially_refunded';
+      order_type: 'single' | 'bundle' | 'bundle_item';
+      parent_order_id: string | null;
+      payment_status: PaymentStatus;
       status: string;
       amount_paid: number;
-      currency: 'USD' | 'XAF';
+      refund_amount: number | null;
+      currency: SupportedCurrency;
       payment_provider: 'stripe' | 'campay';
       payment_reference: string;
-      profiles: { full_name: string | null; email: string } | null;
+      customer_phone: string | null;
     };
 
-    // Validate order can be refunded (only 'paid' orders can be refunded)
-    // This also covers 'refunded' orders since they won't have status 'paid'
-    if (order.payment_status !== 'paid') {
+    // Bundle songs are paid through their parent, so refund against its payment
+    let payment: {
+      payment_status: PaymentStatus;
+      currency: SupportedCurrency;
+      payment_provider: 'stripe' | 'campay';
+      payment_reference: string;
+      customer_phone: string | null;
+    } = order;
+
+    if (order.order_type === 'bundle_item') {
+      const { data: parentData } = await supabase
+        .from('orders')
+        .select('payment_status, currency, payment_provider, payment_reference, customer_phone')
+        .eq('id', order.parent_order_id!)
+        .single();
+
+      if (!parentData) {
+        return new Response(
+          JSON.stringify({ error: 'Bundle order not found' }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      payment = parentData as typeof payment;
+    }
+
+    // Validate order can be refunded (only 'paid' orders can be refunded;
+    // bundle songs may also be topped up after an earlier partial refund)
+    const refundableStatuses: PaymentStatus[] = order.order_type === 'bundle_item'
+      ? ['paid', 'partially_refunded']
+      : ['paid'];
+
+    if (!refundableStatuses.includes(order.payment_status) || !refundableStatuses.includes(payment.payment_status)) {
       const message = order.payment_status === 'refunded'
         ? 'Order has already been refunded'
         : 'Only paid orders can be refunded';
@@ -124,42 +172,66 @@ export const POST: APIRoute = async ({ request, cookies, clientAddress }) => {
     }
 
     // Determine refund amount
+    const alreadyRefunded = Number(order.refund_amount ?? 0);
+    const refundable = order.amount_paid - alreadyRefunded;
     const refundAmount = amount && typeof amount === 'number' && amount > 0
-      ? Math.min(amount, order.amount_paid)
-      : order.amount_paid;
-
-    const isFullRefund = refundAmount >= order.amount_paid;
-
-    // Process refund based on payment provider
-    let refundResult: { success: boolean; refundId?: string; error?: string };
-
-    if (order.payment_provider === 'stripe') {
-      // Process Stripe refund
-      // Use deterministic idempotency key based on order_id and amount
-      // This ensures retry safety while allowing multiple partial refunds
-      const idempotencyKey = `refund-${order_id}-${refundAmount}`;
-      const stripeProvider = new StripeProvider();
-      refundResult = await stripeProvider.refund({
-        paymentReference: order.payment_reference,
-        amount: refundAmount,
-        currency: order.currency,
-        reason: reason.substring(0, 500),
-        idempotencyKey,
-      });
-    } else if (order.payment_provider === 'campay') {
-      // CamPay requires manual refund
-      refundResult = {
-        success: false,
-        error: 'CamPay refunds must be processed manually via the CamPay dashboard. Please note the order details and process the refund there.',
-      };
-    } else {
-      refundResult = {
-        success: false,
-        error: `Unknown payment provider: ${order.payment_provider}`,
-      };
+      ? Math.min(amount, refundable)
+      : refundable;
+
+    const isFullRefund = refundAmount >= refundable;
+
+    // A partial refund of a bundle can't say which song it's for
+    if (order.order_type === 'bundle' && !isFullRefund) {
+      return new Response(
+        JSON.stringify({ error: 'Refund individual bundle songs for a partial bundle refund' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Resolves to the mock provider when PAYMENT_PROVIDER=mock
+    const provider = getProviderById(payment.payment_provider);
+    if (!provider) {
+      return new Response(
+        JSON.stringify({ error: `Unknown payment provider: ${payment.payment_provider}` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Record the refund first; also blocks a second refund while one is in flight
+    const opened = await openRefund({
+      orderId: order_id,
+      provider: payment.payment_provider,
+      paymentReference: payment.payment_reference,
+      amount: refundAmount,
+      currency: payment.currency,
+      reason,
+      recipientPhone: payment.customer_phone,
+      requestedBy: adminSession.data.user.id,
+    });
+
+    if (!opened.success) {
+      return new Response(
+        JSON.stringify({ error: opened.error }),
+        { status: opened.inProgress ? 409 : 500, headers: { 'Content-Type': 'application/json' } }
+      );
     }
 
+    // Use deterministic idempotency key based on order_id, prior refunds and amount
+    // This ensures retry safety while allowing multiple partial refunds
+    const idempotencyKey = `refund-${order_id}-${alreadyRefunded}-${refundAmount}`;
+    const refundResult = await provider.refund({
+      paymentReference: payment.payment_reference,
+      amount: refundAmount,
+      currency: payment.currency,
+      reason: reason.substring(0, 500),
+      idempotencyKey,
+      recipientPhone: payment.customer_phone ?? undefined,
+      externalReference: opened.refund.id,
+    });
+
     if (!refundResult.success) {
+      await failRefund(opened.refund.id, refundResult.error, refundResult.refundId);
+
       // Log failed attempt
       await logAdminAction({
         admin_id: adminSession.data.user.id,
@@ -172,70 +244,57 @@ export const POST: APIRoute = async ({ request, cookies, clientAddress }) => {
           status: 'failed',
           error: refundResult.error,
           amount: refundAmount,
-          provider: order.payment_provider,
+          provider: payment.payment_provider,
         },
         ip_address: clientAddress,
         user_agent: request.headers.get('user-agent') || undefined,
       });
 
       return new Response(
-        JSON.stringify({
-          error: refundResult.error,
-          manual_required: order.payment_provider === 'campay',
-        }),
+        JSON.stringify({ error: refundResult.error }),
         { status: 400, headers: { 'Content-Type': 'application/json' } }
       );
     }
 
-    // Update order status
-    const newPaymentStatus = isFullRefund ? 'refunded' : 'partially_refunded';
-    const newStatus = isFullRefund ? 'cancelled' : order.status;
+    // Mobile money disbursements settle when CamPay calls back
+    if (payment.payment_provider === 'campay' && refundResult.status !== 'completed') {
+      await markRefundSubmitted(opened.refund.id, refundResult.refundId);
 
-    await supabase
-      .from('orders')
-      .update({
-        payment_status: newPaymentStatus,
-        status: newStatus,
-        refund_amount: refundAmount,
-        refund_reason: reason,
-        refund_reference: refundResult.refundId,
-        refunded_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', order_id);
-
-    // Record status history
-    await supabase.from('order_status_history').insert({
-      order_id: order_id,
-      old_status: order.payment_status,
-      new_status: newPaymentStatus,
-      changed_by: adminSession.data.user.id,
-      notes: `Refund processed: ${order.currency} ${refundAmount} - ${reason}`,
-      created_at: new Date().toISOString(),
-    });
-
-    // Send cancellation email
-    const profile = order.profiles as { full_name: string | null; email: string } | null;
-    if (profile?.email) {
-      const template = renderTemplate('cancellation', {
-        orderNumber: order.order_number,
-        customerName: profile.full_name || 'Valued Customer',
-        refundAmount: `${order.currency} ${refundAmount}`,
-        reason: reason,
+      await logAdminAction({
+        admin_id: adminSession.data.user.id,
+        admin_email: adminSession.data.user.email,
+        admin_role: adminSession.data.adminRole,
+        action: 'order.refund',
+        resource_type: 'order',
+        resource_id: order_id,
+        metadata: {
+          status: 'pending',
+          refund_id: refundResult.refundId,
+          amount: refundAmount,
+          provider: payment.payment_provider,
+          order_type: order.order_type,
+          reason: reason.substring(0, 200),
+        },
+        ip_address: clientAddress,
+        user_agent: request.headers.get('user-agent') || undefined,
       });
 
-      await sendEmail({
-        to: profile.email,
-        subject: template.subject,
-        html: template.html,
-        text: template.text,
-        tags: [
-          { name: 'type', value: 'refund' },
-          { name: 'order', value: order.order_number },
-        ],
-      });
+      return new Response(
+        JSON.stringify({
+          success: true,
+          pending: true,
+          refund_id: refundResult.refundId,
+          amount: refundAmount,
+          full_refund: isFullRefund,
+          message: `Refund of ${order.currency} ${refundAmount} sent to CamPay. The order will be marked refunded once the transfer is confirmed.`,
+        }),
+        { status: 202, headers: { 'Content-Type': 'application/json' } }
+      );
     }
 
+    // Update order, history, bundle songs and notify the customer
+    await completeRefund(opened.refund.id, refundResult.refundId);
+
     // Audit log success
     await logAdminAction({
       admin_id: adminSession.data.user.id,
@@ -249,7 +308,8 @@ export const POST: APIRoute = async ({ request, cookies, clientAddress }) => {
         refund_id: refundResult.refundId,
         amount: refundAmount,
         full_refund: isFullRefund,
-        provider: order.payment_provider,
+        provider: payment.payment_provider,
+        order_type: order.order_type,
         reason: reason.substring(0, 200),
       },
       ip_address: clientAddress,
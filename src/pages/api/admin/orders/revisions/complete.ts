@@ -0,0 +1,120 @@
+/**
+ * API: Complete Revision
+ * POST /api/admin/orders/revisions/complete
+ *
+ * Links the round to the deliverable uploaded for it.
+ *
+ * Security: CSRF validation, admin auth, rate limiting, audit logging
+ */
+
+import type { APIRoute } from 'astro';
+import { getAdminSession, hasPermission } from '../../../../../lib/auth/admin-session';
+import { validateCSRFToken } from '../../../../../lib/auth/session';
+import { logAdminAction } from '../../../../../lib/audit/logger';
+import { checkRateLimit, isValidUUID } from '../../../../../lib/security/validation';
+import { ADMIN_CONFIG } from '../../../../../config/admin.constants';
+import { completeRevision, sendRevisionUpdateEmail } from '../../../../../services/revision.service';
+
+export const POST: APIRoute = async ({ request, cookies, clientAddress }) => {
+  // Rate limiting
+  const rateLimit = checkRateLimit(
+    clientAddress,
+    'admin-revision',
+    ADMIN_CONFIG.RATE_LIMITS.STATUS_UPDATE.requests,
+    ADMIN_CONFIG.RATE_LIMITS.STATUS_UPDATE.window
+  );
+
+  if (!rateLimit.allowed) {
+    return new Response(
+      JSON.stringify({ error: 'Too many requests. Please wait before trying again.' }),
+      {
+        status: 429,
+        headers: {
+          'Content-Type': 'application/json',
+          'Retry-After': String(Math.ceil(rateLimit.resetIn / 1000)),
+        },
+      }
+    );
+  }
+
+  // Admin authentication
+  const adminSession = await getAdminSession(cookies);
+  if (!adminSession.success) {
+    return new Response(
+      JSON.stringify({ error: 'Authentication required' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Permission check
+  if (!hasPermission(adminSession.data.permissions, 'orders:update')) {
+    return new Response(
+      JSON.stringify({ error: 'Insufficient permissions' }),
+      { status: 403, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Parse form data
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch {
+    return new Response(
+      JSON.stringify({ error: 'Invalid request body' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // CSRF validation
+  const csrfToken = formData.get('csrf_token')?.toString();
+  if (!validateCSRFToken(cookies, csrfToken || null)) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid security token. Please refresh and try again.' }),
+      { status: 403, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Validate inputs
+  const revisionId = formData.get('revision_id')?.toString();
+
+  if (!revisionId || !isValidUUID(revisionId)) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid revision ID' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const result = await completeRevision(revisionId, adminSession.data.user.id);
+
+  if (!result.success || !result.revision) {
+    return new Response(
+      JSON.stringify({ error: result.error }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  await sendRevisionUpdateEmail(result.revision, 'completed');
+
+  // Audit log
+  await logAdminAction({
+    admin_id: adminSession.data.user.id,
+    admin_email: adminSession.data.user.email,
+    admin_role: adminSession.data.adminRole,
+    action: 'revision.complete',
+    resource_type: 'revision',
+    resource_id: revisionId,
+    metadata: {
+      order_id: result.revision.order_id,
+      round_number: result.revision.round_number,
+      deliverable_id: result.revision.deliverable_id,
+      deliverable_key: result.revision.deliverable_key,
+    },
+    ip_address: clientAddress,
+    user_agent: request.headers.get('user-agent') || undefined,
+  });
+
+  return new Response(
+    JSON.stringify({ success: true, message: 'Revision completed' }),
+    { status: 200, headers: { 'Content-Type': 'application/json' } }
+  );
+};
@@ -13,8 +13,14 @@ import { logAdminAction } from '../../../../lib/audit/logger';
 import { checkRateLimit, isValidUUID } from '../../../../lib/security/validation';
 import { ADMIN_CONFIG, VALID_ORDER_STATUSES } from '../../../../config/admin.constants';
 import { getServerClient } from '../../../../lib/supabase/server';
-import { sendEmail, renderTemplate } from '../../../../lib/email/client';
+import { renderTemplate } from '../../../../lib/email/client';
+import { enqueueEmail, enqueueTemplatedWhatsApp } from '../../../../services/notification-queue.service';
+import { hasOpenDispute } from '../../../../services/dispute.service';
 import { siteConfig } from '../../../../config';
+import { getMessages, toLocale } from '../../../../lib/i18n';
+
+// Statuses that release the files to the customer
+const DELIVERY_STATUSES = ['delivered', 'completed'];
 
 export const POST: APIRoute = async ({ request, cookies, clientAddress }) => {
   // Rate limiting
@@ -94,6 +100,29 @@ export const POST: APIRoute = async ({ request, cookies, clientAddress }) => {
     );
   }
 
+  // Delivery is frozen while the payment is disputed
+  if (DELIVERY_STATUSES.includes(newStatus)) {
+    const { data: order } = await getServerClient()
+      .from('orders')
+      .select('payment_status, parent_order_id')
+      .eq('id', orderId)
+      .single();
+
+    if (!order) {
+      return new Response(
+        JSON.stringify({ error: 'Order not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (order.payment_status === 'disputed' || (await hasOpenDispute(orderId, order.parent_order_id))) {
+      return new Response(
+        JSON.stringify({ error: 'This order has an open payment dispute - it cannot be delivered until the dispute closes' }),
+        { status: 409, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+  }
+
   // Update status
   const result = await updateOrderStatus(
     orderId,
@@ -109,39 +138,69 @@ export const POST: APIRoute = async ({ request, cookies, clientAddress }) => {
     );
   }
 
-  // Send email notification for significant status changes (automatic)
+  // Send email (and WhatsApp, if opted in) for significant status changes (automatic)
   const notifyStatuses = ['paid', 'in_progress', 'composing', 'recording', 'mixing', 'review', 'completed', 'delivered'];
   if (notifyStatuses.includes(newStatus)) {
     try {
       const supabase = getServerClient();
       const { data: order } = await supabase
         .from('orders')
-        .select('order_number, profiles(full_name, email)')
+        .select('order_number, profiles(full_name, email, phone, preferred_language)')
         .eq('id', orderId)
         .single();
 
       if (order) {
-        const profile = order.profiles as { full_name: string | null; email: string } | null;
+        const profile = order.profiles as {
+          full_name: string | null;
+          email: string;
+          phone: string | null;
+          preferred_language: string | null;
+        } | null;
         if (profile?.email) {
-          const template = renderTemplate('status-update', {
-            orderNumber: order.order_number,
-            customerName: profile.full_name || 'Valued Customer',
-            newStatus: formatStatus(newStatus),
-            statusDescription: getStatusDescription(newStatus),
-            portalUrl: `${siteConfig.url}/dashboard/orders/${orderId}`,
-          });
-
-          await sendEmail({
-            to: profile.email,
-            subject: template.subject,
-            html: template.html,
-            text: template.text,
-            tags: [
-              { name: 'type', value: 'status-update' },
-              { name: 'order', value: order.order_number },
-              { name: 'status', value: newStatus },
-            ],
-          });
+          const locale = toLocale(profile.preferred_language);
+          const { orderStatus } = getMessages(locale);
+          const customerName = profile.full_name || orderStatus.valuedCustomer;
+          const statusLabel = orderStatus.labels[newStatus] || newStatus;
+
+          const template = renderTemplate(
+            'status-update',
+            {
+              orderNumber: order.order_number,
+              customerName,
+              newStatus: statusLabel,
+              statusDescription: orderStatus.descriptions[newStatus] || orderStatus.defaultDescription,
+              portalUrl: `${siteConfig.url}/dashboard/orders/${orderId}`,
+            },
+            locale
+          );
+
+          await enqueueEmail(
+            {
+              to: profile.email,
+              subject: template.subject,
+              html: template.html,
+              text: template.text,
+              tags: [
+                { name: 'type', value: 'status-update' },
+                { name: 'order', value: order.order_number },
+                { name: 'status', value: newStatus },
+              ],
+            },
+            { orderId }
+          );
+
+          if (profile.phone) {
+            await enqueueTemplatedWhatsApp(
+              profile.phone,
+              'status-update',
+              {
+                customerName,
+                orderNumber: order.order_number,
+                newStatus: statusLabel,
+              },
+              { orderId, recipientEmail: profile.email, locale }
+            );
+          }
         }
       }
     } catch (emailError) {
@@ -168,32 +227,3 @@ export const POST: APIRoute = async ({ request, cookies, clientAddress }) => {
     { status: 200, headers: { 'Content-Type': 'application/json' } }
   );
 };
-
-// Helper functions for email
-function formatStatus(status: string): string {
-  const labels: Record<string, string> = {
-    paid: 'Payment Confirmed',
-    in_progress: 'In Progress',
-    composing: 'Composing',
-    recording: 'Recording',
-    mixing: 'Mixing & Mastering',
-    review: 'Ready for Review',
-    completed: 'Completed',
-    delivered: 'Delivered',
-  };
-  return labels[status] || status;
-}
-
-function getStatusDescription(status: string): string {
-  const descriptions: Record<string, string> = {
-    paid: 'Payment confirmed! Your order is now in our queue and we will begin working on it shortly.',
-    in_progress: 'We have started working on your custom song. Our team is reviewing your questionnaire and preparing to create something special for you.',
-    composing: 'Our songwriter is now composing the melody and lyrics for your song based on your preferences.',
-    recording: 'Your song is being recorded by our talented musicians. The magic is happening!',
-    mixing: 'We are now mixing and mastering your song to ensure it sounds perfect.',
-    review: 'Your song is ready for your review. Please check your dashboard to listen and provide feedback.',
-    completed: 'Your song is complete and ready for download. Thank you for choosing Eventune Studios!',
-    delivered: 'Your song has been delivered! You can now download it from your dashboard.',
-  };
-  return descriptions[status] || 'Your order status has been updated.';
-}
@@ -2,7 +2,8 @@
  * API: Upload Order Deliverable
  * POST /api/admin/orders/upload-deliverable
  *
- * Uploads the finished song for an order.
+ * Uploads a deliverable file for an order. Each upload is stored as the
+ * next version of its file type; earlier versions are kept.
  * Security: Admin auth, content:update permission, file validation
  */
 
@@ -14,11 +15,18 @@ import { checkRateLimit, isValidUUID } from '../../../../lib/security/validation
 import {
   uploadFile,
   generateDeliverableKey,
-  validateAudioFile,
+  validateDeliverableFile,
+  MAX_DIRECT_UPLOAD_SIZE,
 } from '../../../../lib/storage/r2-client';
-import { sendEmail, renderTemplate } from '../../../../lib/email/client';
-import { siteConfig } from '../../../../config';
 import { ADMIN_CONFIG } from '../../../../config/admin.constants';
+import {
+  recordDeliverable,
+  markOrderDelivered,
+  markOrderInReview,
+  canDeliverFileType,
+  isDeliverableFileType,
+} from '../../../../services/deliverable.service';
+import { hasOpenDispute } from '../../../../services/dispute.service';
 
 export const POST: APIRoute = async ({ request, cookies, clientAddress }) => {
   // Rate limiting
@@ -64,6 +72,8 @@ export const POST: APIRoute = async ({ request, cookies, clientAddress }) => {
     const formData = await request.formData();
     const orderId = formData.get('order_id')?.toString();
     const file = formData.get('file') as File | null;
+    const fileType = formData.get('file_type')?.toString() || 'mp3';
+    const label = formData.get('label')?.toString().slice(0, 100) || null;
     const notifyCustomer = formData.get('notify_customer') === 'true';
 
     // Validate order ID
@@ -74,6 +84,13 @@ export const POST: APIRoute = async ({ request, cookies, clientAddress }) => {
       );
     }
 
+    if (!isDeliverableFileType(fileType)) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid deliverable type' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
     // Validate file
     if (!file || !(file instanceof File)) {
       return new Response(
@@ -83,7 +100,7 @@ export const POST: APIRoute = async ({ request, cookies, clientAddress }) => {
     }
 
     // Validate file type and size
-    const validation = validateAudioFile(file.name, file.type, file.size);
+    const validation = validateDeliverableFile(fileType, file.name, file.type, file.size);
     if (!validation.valid) {
       return new Response(
         JSON.stringify({ error: validation.error }),
@@ -91,12 +108,20 @@ export const POST: APIRoute = async ({ request, cookies, clientAddress }) => {
       );
     }
 
+    // Large files go straight to R2 through the multipart upload flow
+    if (file.size > MAX_DIRECT_UPLOAD_SIZE) {
+      return new Response(
+        JSON.stringify({ error: 'File too large for direct upload. Use the chunked upload instead.' }),
+        { status: 413, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
     const supabase = getServerClient();
 
     // Fetch order
     const { data: order, error: fetchError } = await supabase
       .from('orders')
-      .select('*, profiles(full_name, email)')
+      .select('*, profiles(full_name, email, phone, preferred_language)')
       .eq('id', orderId)
       .single();
 
@@ -107,6 +132,20 @@ export const POST: APIRoute = async ({ request, cookies, clientAddress }) => {
       );
     }
 
+    if (!(await canDeliverFileType(order, fileType))) {
+      return new Response(
+        JSON.stringify({ error: 'Videos can only be delivered for orders with a video product' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (await hasOpenDispute(order.id, order.parent_order_id)) {
+      return new Response(
+        JSON.stringify({ error: 'Delivery is frozen while a payment dispute on this order is open' }),
+        { status: 409, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
     // Generate storage key
     const storageKey = generateDeliverableKey(orderId, file.name);
 
@@ -119,6 +158,7 @@ export const POST: APIRoute = async ({ request, cookies, clientAddress }) => {
       orderId,
       orderNumber: order.order_number,
       uploadedBy: adminSession.data.user.id,
+      fileType,
     });
 
     if (!uploadResult.success) {
@@ -128,66 +168,32 @@ export const POST: APIRoute = async ({ request, cookies, clientAddress }) => {
       );
     }
 
-    // Update order with deliverable info
-    const { error: updateError } = await supabase
-      .from('orders')
-      .update({
-        deliverable_key: storageKey,
-        deliverable_filename: file.name,
-        deliverable_size: file.size,
-        deliverable_uploaded_at: new Date().toISOString(),
-        deliverable_uploaded_by: adminSession.data.user.id,
-        status: 'delivered',
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', orderId);
-
-    if (updateError) {
-      console.error('[ADMIN] Update error:', updateError);
+    // Record as the next version of this file type
+    const recorded = await recordDeliverable({
+      orderId,
+      fileType,
+      label,
+      storageKey,
+      filename: file.name,
+      contentType: file.type,
+      sizeBytes: file.size,
+      uploadedBy: adminSession.data.user.id,
+    });
+
+    if (!recorded.success || !recorded.deliverable) {
+      return new Response(
+        JSON.stringify({ error: recorded.error || 'Failed to record deliverable' }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
     }
 
-    // Record status history
-    await supabase.from('order_status_history').insert({
-      order_id: orderId,
-      old_status: order.status,
-      new_status: 'delivered',
-      changed_by: adminSession.data.user.id,
-      notes: `Deliverable uploaded: ${file.name}`,
-      created_at: new Date().toISOString(),
-    });
+    const deliverable = recorded.deliverable;
 
-    // Notify customer if requested
-    if (notifyCustomer) {
-      const profile = order.profiles as { full_name: string | null; email: string } | null;
-      if (profile?.email) {
-        // Calculate expiry (7 days)
-        const expiresAt = new Date();
-        expiresAt.setDate(expiresAt.getDate() + 7);
-
-        const template = renderTemplate('delivery', {
-          orderNumber: order.order_number,
-          customerName: profile.full_name || 'Valued Customer',
-          packageName: formatPackageName(order.package_slug),
-          downloadUrl: `${siteConfig.url}/dashboard/orders/${orderId}?download=true`,
-          expiresAt: expiresAt.toLocaleDateString('en-US', {
-            weekday: 'long',
-            year: 'numeric',
-            month: 'long',
-            day: 'numeric',
-          }),
-        });
-
-        await sendEmail({
-          to: profile.email,
-          subject: template.subject,
-          html: template.html,
-          text: template.text,
-          tags: [
-            { name: 'type', value: 'delivery' },
-            { name: 'order', value: order.order_number },
-          ],
-        });
-      }
+    // Previews put the order in customer review; anything else delivers it
+    if (fileType === 'preview') {
+      await markOrderInReview(order, deliverable, adminSession.data.user.id, notifyCustomer);
+    } else {
+      await markOrderDelivered(order, deliverable, adminSession.data.user.id, notifyCustomer);
     }
 
     // Audit log
@@ -200,6 +206,9 @@ export const POST: APIRoute = async ({ request, cookies, clientAddress }) => {
       resource_id: orderId,
       metadata: {
         action: 'deliverable_uploaded',
+        deliverable_id: deliverable.id,
+        file_type: fileType,
+        version: deliverable.version,
         filename: file.name,
         size: file.size,
         notified_customer: notifyCustomer,
@@ -213,6 +222,10 @@ export const POST: APIRoute = async ({ request, cookies, clientAddress }) => {
         success: true,
         message: 'Deliverable uploaded successfully',
         key: storageKey,
+        deliverable_id: deliverable.id,
+        file_type: fileType,
+        label: deliverable.label,
+        version: deliverable.version,
         filename: file.name,
         size: file.size,
         notified: notifyCustomer,
@@ -228,12 +241,3 @@ export const POST: APIRoute = async ({ request, cookies, clientAddress }) => {
   }
 };
 
-function formatPackageName(slug: string): string {
-  const names: Record<string, string> = {
-    express: 'Express Package',
-    classic: 'Classic Package',
-    signature: 'Signature Package',
-    legacy: 'Legacy Package',
-  };
-  return names[slug] || slug;
-}
@@ -0,0 +1,88 @@
+/**
+ * API: Abort Chunked Deliverable Upload
+ * POST /api/admin/orders/uploads/abort
+ *
+ * Aborts an unfinished multipart upload and discards its parts.
+ * Security: CSRF validation, admin auth, content:update permission, rate limiting
+ */
+
+import type { APIRoute } from 'astro';
+import { getAdminSession, hasPermission } from '../../../../../lib/auth/admin-session';
+import { validateCSRFToken } from '../../../../../lib/auth/session';
+import { checkRateLimit } from '../../../../../lib/security/validation';
+import { ADMIN_CONFIG } from '../../../../../config/admin.constants';
+import { abortDeliverableUpload } from '../../../../../services/deliverable-upload.service';
+
+export const POST: APIRoute = async ({ request, cookies, clientAddress }) => {
+  // Rate limiting
+  const rateLimit = checkRateLimit(
+    clientAddress,
+    'admin-upload',
+    10,
+    ADMIN_CONFIG.RATE_LIMITS.STATUS_UPDATE.window
+  );
+
+  if (!rateLimit.allowed) {
+    return new Response(
+      JSON.stringify({ error: 'Too many uploads. Please wait.' }),
+      {
+        status: 429,
+        headers: {
+          'Content-Type': 'application/json',
+          'Retry-After': String(Math.ceil(rateLimit.resetIn / 1000)),
+        },
+      }
+    );
+  }
+
+  // Admin authentication
+  const adminSession = await getAdminSession(cookies);
+  if (!adminSession.success) {
+    return new Response(
+      JSON.stringify({ error: 'Authentication required' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Permission check
+  if (!hasPermission(adminSession.data.permissions, 'content:update')) {
+    return new Response(
+      JSON.stringify({ error: 'Content update permission required' }),
+      { status: 403, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Parse form data
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch {
+    return new Response(
+      JSON.stringify({ error: 'Invalid request body' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // CSRF validation
+  const csrfToken = formData.get('csrf_token')?.toString();
+  if (!validateCSRFToken(cookies, csrfToken || null)) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid security token. Please refresh and try again.' }),
+      { status: 403, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const result = await abortDeliverableUpload(formData.get('upload_id')?.toString() || '');
+
+  if (!result.success) {
+    return new Response(
+      JSON.stringify({ error: result.error }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  return new Response(
+    JSON.stringify({ success: true, message: 'Upload aborted' }),
+    { status: 200, headers: { 'Content-Type': 'application/json' } }
+  );
+};
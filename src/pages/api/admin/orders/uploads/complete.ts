@@ -0,0 +1,161 @@
+/**
+ * API: Complete Chunked Deliverable Upload
+ * POST /api/admin/orders/uploads/complete
+ *
+ * Assembles the uploaded parts, verifies size and MIME type against the
+ * values declared at initiation and the part-wise SHA-256 checksum sent
+ * by the client, then records the file as
+ * the next deliverable version and marks the order delivered.
+ * Security: CSRF validation, admin auth, content:update permission, rate limiting
+ */
+
+import type { APIRoute } from 'astro';
+import { getAdminSession, hasPermission } from '../../../../../lib/auth/admin-session';
+import { validateCSRFToken } from '../../../../../lib/auth/session';
+import { getServerClient } from '../../../../../lib/supabase/server';
+import { logAdminAction } from '../../../../../lib/audit/logger';
+import { checkRateLimit } from '../../../../../lib/security/validation';
+import { ADMIN_CONFIG } from '../../../../../config/admin.constants';
+import { completeDeliverableUpload } from '../../../../../services/deliverable-upload.service';
+import { markOrderDelivered, markOrderInReview } from '../../../../../services/deliverable.service';
+
+export const POST: APIRoute = async ({ request, cookies, clientAddress }) => {
+  // Rate limiting
+  const rateLimit = checkRateLimit(
+    clientAddress,
+    'admin-upload',
+    10,
+    ADMIN_CONFIG.RATE_LIMITS.STATUS_UPDATE.window
+  );
+
+  if (!rateLimit.allowed) {
+    return new Response(
+      JSON.stringify({ error: 'Too many uploads. Please wait.' }),
+      {
+        status: 429,
+        headers: {
+          'Content-Type': 'application/json',
+          'Retry-After': String(Math.ceil(rateLimit.resetIn / 1000)),
+        },
+      }
+    );
+  }
+
+  // Admin authentication
+  const adminSession = await getAdminSession(cookies);
+  if (!adminSession.success) {
+    return new Response(
+      JSON.stringify({ error: 'Authentication required' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Permission check
+  if (!hasPermission(adminSession.data.permissions, 'content:update')) {
+    return new Response(
+      JSON.stringify({ error: 'Content update permission required' }),
+      { status: 403, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Parse form data
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch {
+    return new Response(
+      JSON.stringify({ error: 'Invalid request body' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // CSRF validation
+  const csrfToken = formData.get('csrf_token')?.toString();
+  if (!validateCSRFToken(cookies, csrfToken || null)) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid security token. Please refresh and try again.' }),
+      { status: 403, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Parts: [{ part_number, etag, checksum_sha256 }]
+  let parts: { part_number: number; etag: string; checksum_sha256: string }[];
+  try {
+    parts = JSON.parse(formData.get('parts')?.toString() || '[]');
+    if (!Array.isArray(parts)) {
+      throw new Error('parts must be an array');
+    }
+  } catch {
+    return new Response(
+      JSON.stringify({ error: 'Invalid parts list' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const uploadId = formData.get('upload_id')?.toString() || '';
+  const checksum = formData.get('checksum_sha256')?.toString() || '';
+  const notifyCustomer = formData.get('notify_customer') === 'true';
+
+  const result = await completeDeliverableUpload(uploadId, parts, checksum, adminSession.data.user.id);
+
+  if (!result.success) {
+    return new Response(
+      JSON.stringify({ error: result.error }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const { upload, deliverable } = result.data;
+
+  const supabase = getServerClient();
+  const { data: order } = await supabase
+    .from('orders')
+    .select('*, profiles(full_name, email, phone, preferred_language)')
+    .eq('id', upload.order_id)
+    .single();
+
+  // Previews put the order in customer review; anything else delivers it
+  if (order && deliverable.file_type === 'preview') {
+    await markOrderInReview(order, deliverable, adminSession.data.user.id, notifyCustomer);
+  } else if (order) {
+    await markOrderDelivered(order, deliverable, adminSession.data.user.id, notifyCustomer);
+  }
+
+  // Audit log
+  await logAdminAction({
+    admin_id: adminSession.data.user.id,
+    admin_email: adminSession.data.user.email,
+    admin_role: adminSession.data.adminRole,
+    action: 'content.update',
+    resource_type: 'order',
+    resource_id: upload.order_id,
+    metadata: {
+      action: 'deliverable_uploaded',
+      upload: 'multipart',
+      upload_id: upload.id,
+      deliverable_id: deliverable.id,
+      file_type: deliverable.file_type,
+      version: deliverable.version,
+      filename: deliverable.filename,
+      size: deliverable.size_bytes,
+      notified_customer: notifyCustomer,
+    },
+    ip_address: clientAddress,
+    user_agent: request.headers.get('user-agent') || undefined,
+  });
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      message: 'Deliverable uploaded successfully',
+      deliverable_id: deliverable.id,
+      file_type: deliverable.file_type,
+      label: deliverable.label,
+      version: deliverable.version,
+      filename: deliverable.filename,
+      size: deliverable.size_bytes,
+      notified: notifyCustomer,
+    }),
+    { status: 200, headers: { 'Content-Type': 'application/json' } }
+  );
+};
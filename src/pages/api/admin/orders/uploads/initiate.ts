@@ -0,0 +1,102 @@
+/**
+ * API: Initiate Chunked Deliverable Upload
+ * POST /api/admin/orders/uploads/initiate
+ *
+ * Starts a multipart upload straight to R2. The declared size and MIME
+ * type are verified against the stored object when the upload is completed.
+ * Security: CSRF validation, admin auth, content:update permission, rate limiting
+ */
+
+import type { APIRoute } from 'astro';
+import { getAdminSession, hasPermission } from '../../../../../lib/auth/admin-session';
+import { validateCSRFToken } from '../../../../../lib/auth/session';
+import { checkRateLimit } from '../../../../../lib/security/validation';
+import { ADMIN_CONFIG } from '../../../../../config/admin.constants';
+import { initiateDeliverableUpload } from '../../../../../services/deliverable-upload.service';
+
+export const POST: APIRoute = async ({ request, cookies, clientAddress }) => {
+  // Rate limiting
+  const rateLimit = checkRateLimit(
+    clientAddress,
+    'admin-upload',
+    10,
+    ADMIN_CONFIG.RATE_LIMITS.STATUS_UPDATE.window
+  );
+
+  if (!rateLimit.allowed) {
+    return new Response(
+      JSON.stringify({ error: 'Too many uploads. Please wait.' }),
+      {
+        status: 429,
+        headers: {
+          'Content-Type': 'application/json',
+          'Retry-After': String(Math.ceil(rateLimit.resetIn / 1000)),
+        },
+      }
+    );
+  }
+
+  // Admin authentication
+  const adminSession = await getAdminSession(cookies);
+  if (!adminSession.success) {
+    return new Response(
+      JSON.stringify({ error: 'Authentication required' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Permission check
+  if (!hasPermission(adminSession.data.permissions, 'content:update')) {
+    return new Response(
+      JSON.stringify({ error: 'Content update permission required' }),
+      { status: 403, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Parse form data
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch {
+    return new Response(
+      JSON.stringify({ error: 'Invalid request body' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // CSRF validation
+  const csrfToken = formData.get('csrf_token')?.toString();
+  if (!validateCSRFToken(cookies, csrfToken || null)) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid security token. Please refresh and try again.' }),
+      { status: 403, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const result = await initiateDeliverableUpload({
+    orderId: formData.get('order_id')?.toString() || '',
+    fileType: formData.get('file_type')?.toString() || '',
+    label: formData.get('label')?.toString().slice(0, 100) || null,
+    filename: formData.get('filename')?.toString().slice(0, 255) || '',
+    contentType: formData.get('content_type')?.toString() || '',
+    size: Number(formData.get('size')),
+    adminId: adminSession.data.user.id,
+  });
+
+  if (!result.success) {
+    return new Response(
+      JSON.stringify({ error: result.error }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      upload_id: result.data.id,
+      part_size: result.data.part_size,
+      part_count: result.data.part_count,
+    }),
+    { status: 200, headers: { 'Content-Type': 'application/json' } }
+  );
+};
@@ -1,7 +1,12 @@
 /**
- * API: Process/Reject Payout Request
+ * API: Process/Execute/Reject Payout Request
  * PATCH /api/admin/referrals/payouts/[id]
  *
+ * Actions:
+ * - process: mark paid with an external transaction reference
+ * - execute: send an XAF mobile money payout via CamPay (settles asynchronously)
+ * - reject: reject with a reason
+ *
  * Security: Admin auth, referrals:manage permission, rate limiting, audit logging
  */
 
@@ -9,6 +14,7 @@ import type { APIRoute } from 'astro';
 import { getAdminSession, hasPermission } from '../../../../../lib/auth/admin-session';
 import { validateCSRFToken } from '../../../../../lib/auth/session';
 import { processPayoutRequest, rejectPayoutRequest } from '../../../../../services/admin-referral.service';
+import { executePayoutRequest } from '../../../../../services/payout.service';
 import { logAdminAction } from '../../../../../lib/audit/logger';
 import { checkRateLimit } from '../../../../../lib/security/validation';
 
@@ -63,8 +69,8 @@ export const PATCH: APIRoute = async ({ params, request, cookies, clientAddress
       );
     }
 
-    if (!action || !['process', 'reject'].includes(action)) {
-      return new Response(JSON.stringify({ error: 'Valid action (process or reject) required' }), {
+    if (!action || !['process', 'execute', 'reject'].includes(action)) {
+      return new Response(JSON.stringify({ error: 'Valid action (process, execute or reject) required' }), {
         status: 400,
         headers: { 'Content-Type': 'application/json' },
       });
@@ -79,6 +85,8 @@ export const PATCH: APIRoute = async ({ params, request, cookies, clientAddress
         });
       }
       result = await processPayoutRequest(id, adminSession.data.user.id, transaction_reference);
+    } else if (action === 'execute') {
+      result = await executePayoutRequest(id, adminSession.data.user.id);
     } else {
       if (!reason) {
         return new Response(JSON.stringify({ error: 'Rejection reason required' }), {
@@ -106,13 +114,17 @@ export const PATCH: APIRoute = async ({ params, request, cookies, clientAddress
       resource_id: id,
       metadata: action === 'process'
         ? { transaction_reference }
-        : { reason },
+        : action === 'execute' && 'pending' in result
+          ? { disbursement_reference: result.reference, pending: result.pending }
+          : { reason },
       ip_address: clientAddress,
       user_agent: request.headers.get('user-agent') || undefined,
     });
 
-    return new Response(JSON.stringify({ success: true }), {
-      status: 200,
+    // Mobile money transfers are confirmed by CamPay's callback
+    const pending = 'pending' in result && result.pending;
+    return new Response(JSON.stringify({ success: true, pending }), {
+      status: pending ? 202 : 200,
       headers: { 'Content-Type': 'application/json' },
     });
   } catch (error) {
@@ -0,0 +1,108 @@
+/**
+ * API: Replay Failed Webhook Event
+ * POST /api/admin/webhooks/replay
+ *
+ * Re-runs a failed payment webhook from its stored, already-verified payload.
+ * Security: CSRF validation, admin auth, settings:update permission, rate limiting
+ */
+
+import type { APIRoute } from 'astro';
+import { getAdminSession, hasPermission } from '../../../../lib/auth/admin-session';
+import { validateCSRFToken } from '../../../../lib/auth/session';
+import { logAdminAction } from '../../../../lib/audit/logger';
+import { checkRateLimit } from '../../../../lib/security/validation';
+import { ADMIN_CONFIG } from '../../../../config/admin.constants';
+import { replayWebhookEvent } from '../../../../services/webhook-event.service';
+
+export const POST: APIRoute = async ({ request, cookies, clientAddress }) => {
+  // Rate limiting
+  const rateLimit = checkRateLimit(
+    clientAddress,
+    'admin-webhook-replay',
+    10,
+    ADMIN_CONFIG.RATE_LIMITS.STATUS_UPDATE.window
+  );
+
+  if (!rateLimit.allowed) {
+    return new Response(
+      JSON.stringify({ error: 'Too many requests. Please wait.' }),
+      {
+        status: 429,
+        headers: {
+          'Content-Type': 'application/json',
+          'Retry-After': String(Math.ceil(rateLimit.resetIn / 1000)),
+        },
+      }
+    );
+  }
+
+  // Admin authentication
+  const adminSession = await getAdminSession(cookies);
+  if (!adminSession.success) {
+    return new Response(
+      JSON.stringify({ error: 'Authentication required' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Permission check
+  if (!hasPermission(adminSession.data.permissions, 'settings:update')) {
+    return new Response(
+      JSON.stringify({ error: 'Settings update permission required' }),
+      { status: 403, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // Parse form data
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch {
+    return new Response(
+      JSON.stringify({ error: 'Invalid request body' }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  // CSRF validation
+  const csrfToken = formData.get('csrf_token')?.toString();
+  if (!validateCSRFToken(cookies, csrfToken || null)) {
+    return new Response(
+      JSON.stringify({ error: 'Invalid security token. Please refresh and try again.' }),
+      { status: 403, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const eventId = formData.get('event_id')?.toString() || '';
+  const result = await replayWebhookEvent(eventId);
+
+  await logAdminAction({
+    admin_id: adminSession.data.user.id,
+    admin_email: adminSession.data.user.email,
+    admin_role: adminSession.data.adminRole,
+    action: 'webhook.replay',
+    resource_type: 'webhook_event',
+    resource_id: eventId,
+    metadata: {
+      status: result.success ? 'success' : 'failed',
+      error: result.error,
+      provider: result.event?.provider,
+      event_type: result.event?.event_type,
+      order_id: result.event?.order_id,
+    },
+    ip_address: clientAddress,
+    user_agent: request.headers.get('user-agent') || undefined,
+  });
+
+  if (!result.success) {
+    return new Response(
+      JSON.stringify({ error: result.error, event: result.event }),
+      { status: result.event ? 422 : 400, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  return new Response(
+    JSON.stringify({ success: true, event: result.event }),
+    { status: 200, headers: { 'Content-Type': 'application/json' } }
+  );
+};
@@ -107,9 +107,9 @@ export const POST: APIRoute = async ({ request }) => {
 
     // Send email notification to admin
     try {
-      const { sendEmail } = await import('@/lib/email/client');
+      const { enqueueEmail } = await import('@/services/notification-queue.service');
 
-      await sendEmail({
+      await enqueueEmail({
         to: siteConfig.contact.general,
         subject: `New Contact Form Submission from ${sanitizedData.firstName} ${sanitizedData.lastName}`,
         html: `
@@ -0,0 +1,34 @@
+/**
+ * Commission Auto-Approval
+ * POST /api/cron/approve-commissions
+ *
+ * Approves pending affiliate commissions whose order was delivered more
+ * than the program's hold period ago. Run hourly.
+ *
+ * Auth: Authorization: Bearer <CRON_SECRET>
+ */
+
+import type { APIRoute } from 'astro';
+import { verifyCronRequest, cronUnauthorized } from '../../../lib/security/cron';
+import { autoApproveCommissions } from '../../../services/commission-approval.service';
+
+export const POST: APIRoute = async ({ request }) => {
+  if (!verifyCronRequest(request)) {
+    return cronUnauthorized();
+  }
+
+  try {
+    const result = await autoApproveCommissions();
+
+    return new Response(JSON.stringify({ success: true, ...result }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('[CRON] Commission auto-approval failed:', error);
+    return new Response(JSON.stringify({ error: 'Commission auto-approval failed' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
@@ -0,0 +1,34 @@
+/**
+ * Affiliate Tier Evaluation
+ * POST /api/cron/evaluate-tiers
+ *
+ * Promotes/demotes agents between program tiers on last month's
+ * conversions and emails those who moved. Run on the 1st of each month.
+ *
+ * Auth: Authorization: Bearer <CRON_SECRET>
+ */
+
+import type { APIRoute } from 'astro';
+import { verifyCronRequest, cronUnauthorized } from '../../../lib/security/cron';
+import { evaluateAgentTiers } from '../../../services/referral-tier.service';
+
+export const POST: APIRoute = async ({ request }) => {
+  if (!verifyCronRequest(request)) {
+    return cronUnauthorized();
+  }
+
+  try {
+    const result = await evaluateAgentTiers();
+
+    return new Response(JSON.stringify({ success: true, ...result }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('[CRON] Tier evaluation failed:', error);
+    return new Response(JSON.stringify({ error: 'Tier evaluation failed' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
@@ -0,0 +1,35 @@
+/**
+ * Notification Queue Worker
+ * POST /api/cron/process-notifications
+ *
+ * Delivers queued emails and SMS, retrying provider failures with
+ * exponential backoff and dead-lettering after max attempts. Run every
+ * minute.
+ *
+ * Auth: Authorization: Bearer <CRON_SECRET>
+ */
+
+import type { APIRoute } from 'astro';
+import { verifyCronRequest, cronUnauthorized } from '../../../lib/security/cron';
+import { processNotificationQueue } from '../../../services/notification-queue.service';
+
+export const POST: APIRoute = async ({ request }) => {
+  if (!verifyCronRequest(request)) {
+    return cronUnauthorized();
+  }
+
+  try {
+    const result = await processNotificationQueue();
+
+    return new Response(JSON.stringify({ success: true, ...result }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('[CRON] Notification queue processing failed:', error);
+    return new Response(JSON.stringify({ error: 'Notification queue processing failed' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
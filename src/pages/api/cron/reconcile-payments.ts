@@ -0,0 +1,37 @@
+/**
+ * Payment Session Sweep
+ * POST /api/cron/reconcile-payments
+ *
+ * Re-verifies open payment sessions with their provider, applies missed
+ * outcomes and expires abandoned checkouts. Also settles affiliate payout
+ * transfers whose CamPay callback never arrived. Run every 15 minutes.
+ *
+ * Auth: Authorization: Bearer <CRON_SECRET>
+ */
+
+import type { APIRoute } from 'astro';
+import { verifyCronRequest, cronUnauthorized } from '../../../lib/security/cron';
+import { reconcileOpenSessions } from '../../../services/reconciliation.service';
+import { reconcilePendingPayouts } from '../../../services/payout.service';
+
+export const POST: APIRoute = async ({ request }) => {
+  if (!verifyCronRequest(request)) {
+    return cronUnauthorized();
+  }
+
+  try {
+    const result = await reconcileOpenSessions();
+    const payouts = await reconcilePendingPayouts();
+
+    return new Response(JSON.stringify({ success: true, ...result, payouts }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('[CRON] Payment sweep failed:', error);
+    return new Response(JSON.stringify({ error: 'Payment sweep failed' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
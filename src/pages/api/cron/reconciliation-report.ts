@@ -0,0 +1,61 @@
+/**
+ * Daily Reconciliation Report
+ * POST /api/cron/reconciliation-report
+ *
+ * Compares one UTC day of payment_events against each provider's
+ * transaction list and emails the orders inbox when they disagree.
+ * Also checks cached affiliate balances against the referral ledger.
+ * Run once a day, shortly after midnight UTC.
+ *
+ * Query: ?date=YYYY-MM-DD (defaults to yesterday)
+ * Auth: Authorization: Bearer <CRON_SECRET>
+ */
+
+import type { APIRoute } from 'astro';
+import { verifyCronRequest, cronUnauthorized } from '../../../lib/security/cron';
+import { generateReconciliationReport } from '../../../services/reconciliation.service';
+import { verifyReferralBalances } from '../../../services/referral-ledger.service';
+
+export const POST: APIRoute = async ({ request }) => {
+  if (!verifyCronRequest(request)) {
+    return cronUnauthorized();
+  }
+
+  const dateParam = new URL(request.url).searchParams.get('date');
+  let reportDate: Date;
+
+  if (dateParam) {
+    reportDate = new Date(`${dateParam}T00:00:00Z`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(dateParam) || isNaN(reportDate.getTime())) {
+      return new Response(JSON.stringify({ error: 'Invalid date, expected YYYY-MM-DD' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+  } else {
+    reportDate = new Date(Date.now() - 24 * 60 * 60 * 1000);
+  }
+
+  try {
+    const reports = await generateReconciliationReport(reportDate);
+
+    const balanceMismatches = await verifyReferralBalances();
+    if (balanceMismatches.length > 0) {
+      console.warn(`[CRON] ${balanceMismatches.length} affiliate balance(s) disagree with the ledger`, balanceMismatches);
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, date: reportDate.toISOString().slice(0, 10), reports, balanceMismatches }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('[CRON] Reconciliation report failed:', error);
+    return new Response(JSON.stringify({ error: 'Reconciliation report failed' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
@@ -0,0 +1,119 @@
+/**
+ * Mock Payment Webhook Trigger
+ * POST /api/dev/mock-webhook
+ *
+ * Fires a signed mock webhook at /api/webhooks/stripe or /api/webhooks/campay
+ * for an existing order. Only available with PAYMENT_PROVIDER=mock outside
+ * production.
+ *
+ * Body (JSON): { order_id, event?: 'success' | 'failure' | 'refund', delay_ms? }
+ * The provider follows the order's currency (USD = stripe, XAF = campay).
+ */
+
+import type { APIRoute } from 'astro';
+import { getServerClient } from '../../../lib/supabase/server';
+import { isValidUUID } from '../../../lib/security/validation';
+import { isMockPaymentsEnabled } from '../../../lib/payments/provider-factory';
+import { fireMockWebhook, type MockWebhookEvent } from '../../../lib/payments/mock-provider';
+import type { SupportedCurrency } from '../../../lib/payments/types';
+
+const EVENTS: MockWebhookEvent[] = ['success', 'failure', 'refund'];
+const MAX_DELAY_MS = 10 * 60 * 1000;
+
+export const POST: APIRoute = async ({ request }) => {
+  if (!isMockPaymentsEnabled()) {
+    return new Response(JSON.stringify({ error: 'Not found' }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  let body: { order_id?: string; event?: string; delay_ms?: number };
+  try {
+    body = await request.json();
+  } catch {
+    return new Response(JSON.stringify({ error: 'Invalid request body' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const orderId = body.order_id || '';
+  if (!isValidUUID(orderId)) {
+    return new Response(JSON.stringify({ error: 'Invalid order ID' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const event = (body.event || 'success') as MockWebhookEvent;
+  if (!EVENTS.includes(event)) {
+    return new Response(JSON.stringify({ error: `event must be one of: ${EVENTS.join(', ')}` }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const delayMs = Number(body.delay_ms ?? 0);
+  if (!Number.isFinite(delayMs) || delayMs < 0 || delayMs > MAX_DELAY_MS) {
+    return new Response(JSON.stringify({ error: 'delay_ms must be between 0 and 600000' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const supabase = getServerClient();
+  const { data: order } = await supabase
+    .from('orders')
+    .select('id, currency, amount_expected, stripe_checkout_session, campay_reference, campay_operator')
+    .eq('id', orderId)
+    .single();
+
+  if (!order) {
+    return new Response(JSON.stringify({ error: 'Order not found' }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const provider = order.currency === 'XAF' ? 'campay' : 'stripe';
+  const reference =
+    (provider === 'campay' ? order.campay_reference : order.stripe_checkout_session) ||
+    (provider === 'campay' ? `mock-${crypto.randomUUID()}` : `cs_mock_${crypto.randomUUID()}`);
+
+  const baseUrl = new URL(request.url).origin;
+  const params = {
+    orderId: order.id,
+    reference,
+    amount: order.amount_expected,
+    currency: order.currency as SupportedCurrency,
+    operator: order.campay_operator ?? undefined,
+  };
+
+  if (delayMs > 0) {
+    setTimeout(() => {
+      void fireMockWebhook(baseUrl, provider, event, params);
+    }, delayMs);
+
+    return new Response(
+      JSON.stringify({ success: true, provider, event, scheduled_in_ms: delayMs }),
+      { status: 202, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const result = await fireMockWebhook(baseUrl, provider, event, params);
+
+  return new Response(
+    JSON.stringify({
+      success: result.success,
+      provider,
+      event,
+      webhook_status: result.status,
+      error: result.error,
+    }),
+    {
+      status: result.success ? 200 : 502,
+      headers: { 'Content-Type': 'application/json' },
+    }
+  );
+};
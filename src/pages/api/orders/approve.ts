@@ -0,0 +1,130 @@
+/**
+ * Order Preview Approval API Endpoint
+ * Customer approves the preview in review, moving the order to 'completed'.
+ * Changes are requested through /api/orders/revision instead.
+ */
+import type { APIRoute } from 'astro';
+import { getServerClient } from '../../../lib/supabase/server';
+import { getSession, validateCSRFToken } from '../../../lib/auth/session';
+import { isValidUUID, validateOrderOwnership, checkRateLimit } from '../../../lib/security/validation';
+import { approvePreview } from '../../../services/preview.service';
+
+export const POST: APIRoute = async ({ request, cookies, clientAddress }) => {
+  // Rate limiting
+  const rateLimitKey = clientAddress || 'unknown';
+  const rateLimit = checkRateLimit(rateLimitKey, 'preview-approve', 5, 300000); // 5 per 5 minutes
+
+  if (!rateLimit.allowed) {
+    return new Response(
+      JSON.stringify({
+        error: 'Too many requests. Please wait before trying again.',
+        resetIn: Math.ceil(rateLimit.resetIn / 1000),
+      }),
+      {
+        status: 429,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  // Validate session
+  const sessionResult = await getSession(cookies);
+  if (!sessionResult.success) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const { user } = sessionResult.data;
+
+  try {
+    const formData = await request.formData();
+
+    // Validate CSRF token
+    const csrfToken = formData.get('csrf_token') as string;
+    if (!validateCSRFToken(cookies, csrfToken)) {
+      return new Response(JSON.stringify({ error: 'Invalid security token. Please refresh and try again.' }), {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const orderId = formData.get('order_id') as string;
+    if (!orderId || !isValidUUID(orderId)) {
+      return new Response(JSON.stringify({ error: 'Invalid order ID' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Verify order ownership
+    const supabase = getServerClient();
+    const { data: order, error: orderError } = await supabase
+      .from('orders')
+      .select('id, customer_id, status, order_number, parent_order_id')
+      .eq('id', orderId)
+      .single();
+
+    if (orderError || !validateOrderOwnership(order, user.id)) {
+      console.warn(`Approval IDOR attempt: User ${user.id} tried to approve order ${orderId}`);
+      return new Response(JSON.stringify({ error: 'Order not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const result = await approvePreview(order, user.id);
+    if (!result.success) {
+      return new Response(JSON.stringify({ error: result.error }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Let the studio know the preview was approved
+    try {
+      const { enqueueEmail } = await import('../../../services/notification-queue.service');
+      const { siteConfig } = await import('../../../config');
+
+      await enqueueEmail(
+        {
+          to: siteConfig.contact.orders,
+          subject: `Preview Approved - ${order.order_number}`,
+          html: `
+            <h2>Preview Approved</h2>
+            <p>The customer approved the preview for order <strong>${order.order_number}</strong>.</p>
+            <p>Upload the final files to deliver the order.</p>
+            <p><a href="${siteConfig.url}/admin/orders/${orderId}">View Order in Admin</a></p>
+          `,
+          text: `Preview Approved\n\nThe customer approved the preview for order ${order.order_number}.\nUpload the final files to deliver the order.\n\nView: ${siteConfig.url}/admin/orders/${orderId}`,
+          tags: [
+            { name: 'type', value: 'preview-approved' },
+            { name: 'order', value: order.order_number },
+          ],
+        },
+        { orderId }
+      );
+    } catch (emailError) {
+      console.error('Failed to send preview approval email:', emailError);
+      // Don't fail the request if email fails
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: 'Thanks! We\'ll prepare your final files now.',
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Preview approval error:', error);
+    return new Response(JSON.stringify({ error: 'An unexpected error occurred' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+};
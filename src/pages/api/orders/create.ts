@@ -7,11 +7,15 @@ import type { APIRoute } from 'astro';
 import { getServerClient, createServerClientWithToken } from '@/lib/supabase/server';
 import { enforceRateLimit } from '@/lib/security/rate-limiter';
 import { encrypt } from '@/lib/security/encryption';
+import type { Json } from '@/types/database.types';
 import { getPackageBySlug, getOccasionBySlug, hasCapacity } from '@/services/config.service';
+import { calculateDueDate } from '@/services/pricing.service';
+import { getValidQuote, claimQuote, releaseQuote, linkQuoteToOrder } from '@/services/quote.service';
+import { redeemCoupon } from '@/services/coupon.service';
+import { createBundleItems } from '@/services/bundle-order.service';
 
 interface CreateOrderRequest {
-  package_slug: string;
-  occasion_slug: string;
+  quote_id: string;
   questionnaire: {
     recipient_name: string;
     recipient_relationship: string;
@@ -20,10 +24,14 @@ interface CreateOrderRequest {
     music_preferences?: string;
     special_requests?: string;
   };
-  currency: 'USD' | 'XAF';
 }
 
 export const POST: APIRoute = async ({ request, cookies }) => {
+  // Set once the quote is claimed and cleared once it is linked to the order,
+  // so an exception in between doesn't leave the quote used up
+  let claimedQuoteId: string | null = null;
+  let createdOrderId: string | null = null;
+
   try {
     // Rate limiting
     const rateLimitResponse = await enforceRateLimit('payment', request);
@@ -53,24 +61,28 @@ export const POST: APIRoute = async ({ request, cookies }) => {
 
     // Parse request body
     const body: CreateOrderRequest = await request.json();
-    const { package_slug, occasion_slug, questionnaire, currency } = body;
+    const { quote_id, questionnaire } = body;
 
     // Validate required fields
-    if (!package_slug || !occasion_slug || !questionnaire || !currency) {
+    if (!quote_id || !questionnaire) {
       return new Response(
         JSON.stringify({ error: 'Missing required fields' }),
         { status: 400, headers: { 'Content-Type': 'application/json' } }
       );
     }
 
-    // Validate currency
-    if (!['USD', 'XAF'].includes(currency)) {
+    // Price comes only from a valid signed quote
+    const quoteResult = await getValidQuote(quote_id, user.id);
+    if (!quoteResult.success) {
       return new Response(
-        JSON.stringify({ error: 'Invalid currency' }),
+        JSON.stringify({ error: quoteResult.error }),
         { status: 400, headers: { 'Content-Type': 'application/json' } }
       );
     }
 
+    const quote = quoteResult.data;
+    const { package_slug, occasion_slug, currency } = quote;
+
     // Get package and occasion
     const [pkg, occasion] = await Promise.all([
       getPackageBySlug(package_slug),
@@ -105,8 +117,21 @@ export const POST: APIRoute = async ({ request, cookies }) => {
       }
     }
 
-    // Calculate price
-    const price = currency === 'USD' ? pkg.price_usd : pkg.price_xaf;
+    const price = quote.total;
+
+    // Occasion date wins; otherwise package turnaround plus video production days
+    const dueDate = questionnaire.occasion_date
+      || calculateDueDate(pkg, quote.delivery_days_additional);
+
+    // Claim the quote so it can't be used for a second order
+    const claimed = await claimQuote(quote.id);
+    if (!claimed) {
+      return new Response(
+        JSON.stringify({ error: 'Quote has already been used' }),
+        { status: 409, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+    claimedQuoteId = quote.id;
 
     // Encrypt sensitive questionnaire data
     const encryptedQuestionnaire = await encrypt(JSON.stringify(questionnaire));
@@ -127,24 +152,99 @@ export const POST: APIRoute = async ({ request, cookies }) => {
         payment_status: 'pending',
         currency,
         amount_expected: price,
-        due_date: questionnaire.occasion_date || null,
+        due_date: dueDate,
+        order_type: quote.selection.bundle_slug ? 'bundle' : 'single',
+        bundle_slug: quote.selection.bundle_slug,
       })
       .select()
       .single();
 
     if (orderError) {
       console.error('Order creation error:', orderError);
+      await releaseQuote(quote.id);
       return new Response(
         JSON.stringify({ error: 'Failed to create order' }),
         { status: 500, headers: { 'Content-Type': 'application/json' } }
       );
     }
+    createdOrderId = order.id;
+
+    // Persist itemised breakdown
+    const { error: lineItemsError } = await supabase
+      .from('order_line_items')
+      .insert(
+        quote.line_items.map((item, index) => ({
+          order_id: order.id,
+          item_type: item.item_type,
+          item_slug: item.item_slug,
+          name: item.name,
+          quantity: item.quantity,
+          unit_price: item.unit_price,
+          amount: item.amount,
+          currency,
+          delivery_days_additional: item.delivery_days_additional,
+          metadata: (item.metadata ?? null) as Json,
+          display_order: index,
+        }))
+      );
+
+    if (lineItemsError) {
+      console.error('Line items creation error:', lineItemsError);
+      // Clean up order on failure
+      await supabase.from('orders').delete().eq('id', order.id);
+      await releaseQuote(quote.id);
+      return new Response(
+        JSON.stringify({ error: 'Failed to create order' }),
+        { status: 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Reserve the coupon redemption (caps are enforced atomically here; confirmed once paid)
+    const couponLine = quote.line_items.find((item) => item.item_type === 'coupon_discount');
+    if (couponLine) {
+      const redemption = await redeemCoupon({
+        couponId: couponLine.metadata?.coupon_id as string,
+        orderId: order.id,
+        customerId: user.id,
+        currency,
+        discountAmount: Math.abs(couponLine.amount),
+      });
+
+      if (!redemption.success) {
+        await supabase.from('orders').delete().eq('id', order.id);
+        await releaseQuote(quote.id);
+        return new Response(
+          JSON.stringify({ error: redemption.error }),
+          { status: 409, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    // Bundles: one child order per song; the submitted questionnaire is song #1
+    let questionnaireOrderId = order.id;
+    let bundleItemIds: string[] = [];
+    if (quote.selection.bundle_slug) {
+      const packageLine = quote.line_items.find((item) => item.item_type === 'package');
+      const bundleItems = await createBundleItems(order, packageLine?.quantity ?? 1);
+
+      if (!bundleItems.success || !bundleItems.items?.length) {
+        await supabase.from('orders').delete().eq('id', order.id);
+        await releaseQuote(quote.id);
+        return new Response(
+          JSON.stringify({ error: 'Failed to create order' }),
+          { status: 500, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      bundleItemIds = bundleItems.items.map((item) => item.id);
+      questionnaireOrderId = bundleItemIds[0];
+    }
 
     // Create questionnaire record
     const { error: questionnaireError } = await supabase
       .from('questionnaires')
       .insert({
-        order_id: order.id,
+        order_id: questionnaireOrderId,
         encrypted_data: encryptedQuestionnaire,
         recipient_name: questionnaire.recipient_name,
       });
@@ -153,12 +253,16 @@ export const POST: APIRoute = async ({ request, cookies }) => {
       console.error('Questionnaire creation error:', questionnaireError);
       // Clean up order on failure
       await supabase.from('orders').delete().eq('id', order.id);
+      await releaseQuote(quote.id);
       return new Response(
         JSON.stringify({ error: 'Failed to save questionnaire' }),
         { status: 500, headers: { 'Content-Type': 'application/json' } }
       );
     }
 
+    await linkQuoteToOrder(quote.id, order.id);
+    claimedQuoteId = null;
+
     // Log order creation
     await supabase.from('order_status_history').insert({
       order_id: order.id,
@@ -172,8 +276,13 @@ export const POST: APIRoute = async ({ request, cookies }) => {
         order_id: order.id,
         amount: price,
         currency,
+        line_items: quote.line_items,
+        subtotal: quote.subtotal,
+        discount: quote.discount,
+        due_date: dueDate,
         package_name: pkg.name,
         occasion_name: occasion.name,
+        bundle_item_ids: bundleItemIds,
       }),
       {
         status: 200,
@@ -182,6 +291,15 @@ export const POST: APIRoute = async ({ request, cookies }) => {
     );
   } catch (error) {
     console.error('Create order error:', error);
+
+    // Undo a half-created order and free the quote for another attempt
+    if (claimedQuoteId) {
+      if (createdOrderId) {
+        await getServerClient().from('orders').delete().eq('id', createdOrderId);
+      }
+      await releaseQuote(claimedQuoteId);
+    }
+
     return new Response(
       JSON.stringify({ error: 'Internal server error' }),
       { status: 500, headers: { 'Content-Type': 'application/json' } }
@@ -1,8 +1,9 @@
 /**
- * API: Download Order Deliverable
- * GET /api/orders/download?order_id={id}
+ * API: Download Order Deliverables
+ * GET /api/orders/download?order_id={id}[&deliverable_id={id}]
  *
- * Generates a secure signed URL for downloading the finished song.
+ * Lists every delivered file version for an order, each with its own
+ * signed download URL. Pass deliverable_id to sign a single file.
  * Security: Customer auth, order ownership verification, rate limiting
  */
 
@@ -11,6 +12,11 @@ import { getSession } from '../../../lib/auth/session';
 import { getServerClient } from '../../../lib/supabase/server';
 import { checkRateLimit, isValidUUID } from '../../../lib/security/validation';
 import { getSignedDownloadUrl } from '../../../lib/storage/r2-client';
+import { getOrderDeliverables, getLatestDeliverableIds } from '../../../services/deliverable.service';
+import { hasOpenDispute } from '../../../services/dispute.service';
+
+// Signed URLs are valid for 1 hour
+const DOWNLOAD_URL_TTL_SECONDS = 3600;
 
 export const GET: APIRoute = async ({ request, cookies, clientAddress }) => {
   // Rate limiting
@@ -43,6 +49,7 @@ export const GET: APIRoute = async ({ request, cookies, clientAddress }) => {
     // Get order ID from query params
     const url = new URL(request.url);
     const orderId = url.searchParams.get('order_id');
+    const deliverableId = url.searchParams.get('deliverable_id');
 
     if (!orderId || !isValidUUID(orderId)) {
       return new Response(
@@ -51,12 +58,19 @@ export const GET: APIRoute = async ({ request, cookies, clientAddress }) => {
       );
     }
 
+    if (deliverableId && !isValidUUID(deliverableId)) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid deliverable ID' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
     const supabase = getServerClient();
 
     // Fetch order and verify ownership
     const { data: order, error: fetchError } = await supabase
       .from('orders')
-      .select('id, customer_id, deliverable_key, deliverable_filename, status, payment_status')
+      .select('id, customer_id, status, payment_status, parent_order_id')
       .eq('id', orderId)
       .single();
 
@@ -75,6 +89,14 @@ export const GET: APIRoute = async ({ request, cookies, clientAddress }) => {
       );
     }
 
+    // Downloads are frozen while the payment is disputed
+    if (order.payment_status === 'disputed' || (await hasOpenDispute(order.id, order.parent_order_id))) {
+      return new Response(
+        JSON.stringify({ error: 'Downloads are paused while a payment dispute on this order is open' }),
+        { status: 403, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
     // Verify order is paid (or partially refunded - customer still deserves access)
     const allowedPaymentStatuses = ['paid', 'partially_refunded'];
     if (!allowedPaymentStatuses.includes(order.payment_status)) {
@@ -84,43 +106,70 @@ export const GET: APIRoute = async ({ request, cookies, clientAddress }) => {
       );
     }
 
+    const allDeliverables = await getOrderDeliverables(orderId);
+    const latestIds = getLatestDeliverableIds(allDeliverables);
+    const deliverables = deliverableId
+      ? allDeliverables.filter((d) => d.id === deliverableId)
+      : allDeliverables;
+
     // Verify deliverable exists
-    if (!order.deliverable_key) {
+    if (deliverables.length === 0) {
       return new Response(
-        JSON.stringify({ error: 'Deliverable not yet available' }),
+        JSON.stringify({ error: deliverableId ? 'File not found' : 'Deliverable not yet available' }),
         { status: 404, headers: { 'Content-Type': 'application/json' } }
       );
     }
 
-    // Generate signed download URL (valid for 1 hour)
-    const result = await getSignedDownloadUrl(
-      order.deliverable_key,
-      3600, // 1 hour
-      order.deliverable_filename || 'eventune-song.mp3'
+    // Sign each file separately
+    const files = await Promise.all(
+      deliverables.map(async (deliverable) => {
+        const result = await getSignedDownloadUrl(
+          deliverable.storage_key,
+          DOWNLOAD_URL_TTL_SECONDS,
+          deliverable.filename
+        );
+
+        return {
+          id: deliverable.id,
+          file_type: deliverable.file_type,
+          label: deliverable.label,
+          version: deliverable.version,
+          filename: deliverable.filename,
+          size: deliverable.size_bytes,
+          uploaded_at: deliverable.created_at,
+          revision_id: deliverable.revision_id,
+          is_latest: latestIds.has(deliverable.id),
+          url: result.success ? result.url : null,
+          expiresAt: result.expiresAt?.toISOString() ?? null,
+          error: result.success ? undefined : result.error || 'Failed to generate download URL',
+        };
+      })
     );
 
-    if (!result.success) {
+    const signed = files.filter((file) => file.url);
+    if (signed.length === 0) {
       return new Response(
-        JSON.stringify({ error: result.error || 'Failed to generate download URL' }),
+        JSON.stringify({ error: files[0].error || 'Failed to generate download URL' }),
         { status: 500, headers: { 'Content-Type': 'application/json' } }
       );
     }
 
-    // Record download in audit
-    await supabase.from('order_downloads').insert({
-      order_id: orderId,
-      customer_id: session.user.id,
-      ip_address: clientAddress,
-      user_agent: request.headers.get('user-agent') || null,
-      created_at: new Date().toISOString(),
-    });
+    // Record downloads in audit
+    await supabase.from('order_downloads').insert(
+      signed.map((file) => ({
+        order_id: orderId,
+        deliverable_id: file.id,
+        customer_id: session.user.id,
+        ip_address: clientAddress,
+        user_agent: request.headers.get('user-agent') || null,
+        created_at: new Date().toISOString(),
+      }))
+    );
 
     return new Response(
       JSON.stringify({
         success: true,
-        url: result.url,
-        filename: order.deliverable_filename,
-        expiresAt: result.expiresAt?.toISOString(),
+        files,
       }),
       { status: 200, headers: { 'Content-Type': 'application/json' } }
     );
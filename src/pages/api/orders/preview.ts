@@ -0,0 +1,120 @@
+/**
+ * API: Stream Order Preview
+ * GET /api/orders/preview?order_id={id}
+ *
+ * Returns a short-lived, inline signed URL for the latest watermarked
+ * preview while the order is in review. Players stream it with Range
+ * requests and ask for a fresh URL when it expires. Not a download.
+ * Security: Customer auth, order ownership verification, rate limiting
+ */
+
+import type { APIRoute } from 'astro';
+import { getSession } from '../../../lib/auth/session';
+import { getServerClient } from '../../../lib/supabase/server';
+import { checkRateLimit, isValidUUID } from '../../../lib/security/validation';
+import { getPreviewStream, PREVIEW_STATUSES } from '../../../services/preview.service';
+
+export const GET: APIRoute = async ({ request, cookies, clientAddress }) => {
+  // Rate limiting
+  const rateLimit = checkRateLimit(clientAddress, 'preview', 30, 60000);
+
+  if (!rateLimit.allowed) {
+    return new Response(
+      JSON.stringify({ error: 'Too many preview requests. Please wait.' }),
+      {
+        status: 429,
+        headers: {
+          'Content-Type': 'application/json',
+          'Retry-After': String(Math.ceil(rateLimit.resetIn / 1000)),
+        },
+      }
+    );
+  }
+
+  // Authentication
+  const sessionResult = await getSession(cookies);
+  if (!sessionResult.success) {
+    return new Response(
+      JSON.stringify({ error: 'Authentication required' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+  const session = sessionResult.data;
+
+  try {
+    // Get order ID from query params
+    const url = new URL(request.url);
+    const orderId = url.searchParams.get('order_id');
+
+    if (!orderId || !isValidUUID(orderId)) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid order ID' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabase = getServerClient();
+
+    // Fetch order and verify ownership
+    const { data: order, error: fetchError } = await supabase
+      .from('orders')
+      .select('id, customer_id, status')
+      .eq('id', orderId)
+      .single();
+
+    if (fetchError || !order) {
+      return new Response(
+        JSON.stringify({ error: 'Order not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Verify ownership (IDOR protection)
+    if (order.customer_id !== session.user.id) {
+      return new Response(
+        JSON.stringify({ error: 'Access denied' }),
+        { status: 403, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Previews are only available during review
+    if (!PREVIEW_STATUSES.includes(order.status)) {
+      return new Response(
+        JSON.stringify({ error: 'No preview available for this order' }),
+        { status: 403, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const result = await getPreviewStream(orderId);
+
+    if (!result.success) {
+      return new Response(
+        JSON.stringify({ error: result.error }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        url: result.url,
+        contentType: result.contentType,
+        version: result.version,
+        expiresAt: result.expiresAt,
+      }),
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('[PREVIEW] Error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -0,0 +1,80 @@
+/**
+ * Bundle Song Questionnaire API
+ * Saves the details for a bundle song that was left to fill in later
+ */
+
+import type { APIRoute } from 'astro';
+import { createServerClientWithToken } from '@/lib/supabase/server';
+import { enforceRateLimit } from '@/lib/security/rate-limiter';
+import { saveBundleItemQuestionnaire } from '@/services/bundle-order.service';
+
+interface SaveQuestionnaireRequest {
+  order_id: string;
+  questionnaire: {
+    recipient_name: string;
+    recipient_relationship: string;
+    occasion_date?: string;
+    story: string;
+    music_preferences?: string;
+    special_requests?: string;
+  };
+}
+
+export const POST: APIRoute = async ({ request, cookies }) => {
+  try {
+    // Rate limiting
+    const rateLimitResponse = await enforceRateLimit('api', request);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+
+    // Get auth token
+    const accessToken = cookies.get('sb-access-token')?.value;
+    if (!accessToken) {
+      return new Response(
+        JSON.stringify({ error: 'Authentication required' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Get authenticated user
+    const supabaseAuth = createServerClientWithToken(accessToken);
+    const { data: { user }, error: authError } = await supabaseAuth.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid session' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const body: SaveQuestionnaireRequest = await request.json();
+    const { order_id, questionnaire } = body;
+
+    if (!order_id || !questionnaire?.recipient_name || !questionnaire.story) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required fields' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const result = await saveBundleItemQuestionnaire(order_id, user.id, questionnaire);
+    if (!result.success) {
+      return new Response(
+        JSON.stringify({ error: result.error }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, order_id }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Save questionnaire error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
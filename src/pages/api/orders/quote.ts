@@ -0,0 +1,133 @@
+/**
+ * Order Quote API
+ * Returns a signed, expiring itemised quote that order creation must present
+ */
+
+import type { APIRoute } from 'astro';
+import { createServerClientWithToken } from '@/lib/supabase/server';
+import { enforceRateLimit } from '@/lib/security/rate-limiter';
+import { getOccasionBySlug, getPackageBySlug } from '@/services/config.service';
+import { calculateDueDate } from '@/services/pricing.service';
+import { createQuote } from '@/services/quote.service';
+
+interface QuoteRequestBody {
+  package_slug: string;
+  occasion_slug: string;
+  currency: 'USD' | 'XAF';
+  addon_slugs?: string[];
+  video_product_slugs?: string[];
+  bundle_slug?: string | null;
+  coupon_code?: string | null;
+}
+
+export const POST: APIRoute = async ({ request, cookies }) => {
+  try {
+    // Rate limiting
+    const rateLimitResponse = await enforceRateLimit('api', request);
+    if (rateLimitResponse) {
+      return rateLimitResponse;
+    }
+
+    // Get auth token
+    const accessToken = cookies.get('sb-access-token')?.value;
+    if (!accessToken) {
+      return new Response(
+        JSON.stringify({ error: 'Authentication required' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Get authenticated user
+    const supabaseAuth = createServerClientWithToken(accessToken);
+    const { data: { user }, error: authError } = await supabaseAuth.auth.getUser();
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid session' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Parse request body
+    const body: QuoteRequestBody = await request.json();
+    const {
+      package_slug,
+      occasion_slug,
+      currency,
+      addon_slugs,
+      video_product_slugs,
+      bundle_slug,
+      coupon_code,
+    } = body;
+
+    // Validate required fields
+    if (!package_slug || !occasion_slug || !currency) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required fields' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Validate currency
+    if (!['USD', 'XAF'].includes(currency)) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid currency' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const occasion = await getOccasionBySlug(occasion_slug);
+    if (!occasion) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid occasion' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const result = await createQuote(user.id, {
+      packageSlug: package_slug,
+      occasionSlug: occasion_slug,
+      currency,
+      addonSlugs: addon_slugs,
+      videoProductSlugs: video_product_slugs,
+      bundleSlug: bundle_slug || null,
+      couponCode: typeof coupon_code === 'string' && coupon_code.trim() ? coupon_code : null,
+    });
+
+    if (!result.success) {
+      return new Response(
+        JSON.stringify({ error: result.error }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const quote = result.data;
+    const pkg = await getPackageBySlug(quote.package_slug);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        quote_id: quote.id,
+        signature: quote.signature,
+        expires_at: quote.expires_at,
+        currency: quote.currency,
+        line_items: quote.line_items,
+        subtotal: quote.subtotal,
+        discount: quote.discount,
+        coupon_code: quote.selection.coupon_code,
+        total: quote.total,
+        estimated_due_date: pkg ? calculateDueDate(pkg, quote.delivery_days_additional) : null,
+      }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Create quote error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -1,6 +1,7 @@
 /**
  * Order Revision Request API Endpoint
  * Handles revision requests with CSRF, ownership validation, and input sanitization
+ * Quota (package revisions + revision add-ons) is enforced atomically
  */
 import type { APIRoute } from 'astro';
 import { getServerClient } from '../../../lib/supabase/server';
@@ -11,6 +12,7 @@ import {
   validateOrderOwnership,
   checkRateLimit,
 } from '../../../lib/security/validation';
+import { requestRevision, REVISION_ALLOWED_STATUSES } from '../../../services/revision.service';
 
 export const POST: APIRoute = async ({ request, cookies, clientAddress }) => {
   // Rate limiting for revision requests
@@ -77,7 +79,7 @@ export const POST: APIRoute = async ({ request, cookies, clientAddress }) => {
     const supabase = getServerClient();
     const { data: order, error: orderError } = await supabase
       .from('orders')
-      .select('id, customer_id, status')
+      .select('id, customer_id, status, package_slug, parent_order_id')
       .eq('id', orderId)
       .single();
 
@@ -90,11 +92,10 @@ export const POST: APIRoute = async ({ request, cookies, clientAddress }) => {
     }
 
     // Check if order status allows revision
-    const revisionAllowedStatuses = ['completed', 'delivered'];
-    if (!revisionAllowedStatuses.includes(order.status)) {
+    if (!REVISION_ALLOWED_STATUSES.includes(order.status)) {
       return new Response(
         JSON.stringify({
-          error: 'Revisions can only be requested for completed or delivered orders',
+          error: 'Revisions can only be requested while reviewing a preview or after completion',
         }),
         {
           status: 400,
@@ -103,93 +104,83 @@ export const POST: APIRoute = async ({ request, cookies, clientAddress }) => {
       );
     }
 
-    // Create revision request
-    const { error: insertError } = await supabase.from('revision_requests').insert({
-      order_id: orderId,
-      customer_id: user.id,
-      notes: sanitizedNotes,
-      status: 'pending',
-      created_at: new Date().toISOString(),
-    });
-
-    if (insertError) {
-      // If table doesn't exist yet, log but don't fail
-      console.error('Revision request insert error:', insertError);
-
-      // Fallback: Update order status to revision and add to status history
-      await supabase.from('order_status_history').insert({
-        order_id: orderId,
-        status: 'revision',
-        note: `Revision requested: ${sanitizedNotes}`,
-        created_at: new Date().toISOString(),
+    // Create revision request (checks quota and open rounds)
+    const result = await requestRevision(order, user.id, sanitizedNotes);
+    if (!result.success) {
+      return new Response(JSON.stringify({ error: result.error }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
       });
-
-      await supabase
-        .from('orders')
-        .update({
-          status: 'revision',
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', orderId);
     }
 
-    // Send email notifications
+    // Queue email notifications
     try {
-      const { sendEmail } = await import('../../../lib/email/client');
+      const { enqueueEmail } = await import('../../../services/notification-queue.service');
+      const { renderTemplate } = await import('../../../lib/email/client');
+      const { getMessages, toLocale } = await import('../../../lib/i18n');
       const { siteConfig } = await import('../../../config');
 
       // Get order details
       const { data: orderData } = await supabase
         .from('orders')
-        .select('order_number, profiles(full_name, email)')
+        .select('order_number, profiles(full_name, email, preferred_language)')
         .eq('id', orderId)
         .single();
 
       if (orderData) {
-        const profile = orderData.profiles as { full_name: string | null; email: string } | null;
-        const customerName = profile?.full_name || 'Valued Customer';
+        const profile = orderData.profiles as { full_name: string | null; email: string; preferred_language: string | null } | null;
         const customerEmail = profile?.email;
 
         // Send confirmation email to customer
         if (customerEmail) {
-          await sendEmail({
-            to: customerEmail,
-            subject: `Revision Request Received - ${orderData.order_number}`,
+          const locale = toLocale(profile.preferred_language);
+          const template = renderTemplate(
+            'revision-received',
+            {
+              orderNumber: orderData.order_number,
+              customerName: profile.full_name || getMessages(locale).orderStatus.valuedCustomer,
+              notes: sanitizedNotes,
+              portalUrl: `${siteConfig.url}/dashboard/orders/${orderId}`,
+            },
+            locale
+          );
+
+          await enqueueEmail(
+            {
+              to: customerEmail,
+              subject: template.subject,
+              html: template.html,
+              text: template.text,
+              tags: [
+                { name: 'type', value: 'revision-confirmation' },
+                { name: 'order', value: orderData.order_number },
+              ],
+            },
+            { orderId, recipientId: user.id }
+          );
+        }
+
+        // Send notification email to admin
+        await enqueueEmail(
+          {
+            to: siteConfig.contact.orders,
+            subject: `Revision Request - ${orderData.order_number}`,
             html: `
-              <h2>Revision Request Received</h2>
-              <p>Hi ${customerName},</p>
-              <p>We've received your revision request for order <strong>${orderData.order_number}</strong>.</p>
-              <p><strong>Your feedback:</strong></p>
+              <h2>New Revision Request</h2>
+              <p><strong>Order:</strong> ${orderData.order_number}</p>
+              <p><strong>Customer:</strong> ${profile?.full_name || 'Unknown'} (${customerEmail})</p>
+              <p><strong>Revision Notes:</strong></p>
               <p style="background: #f5f5f5; padding: 16px; border-radius: 8px;">${sanitizedNotes.replace(/\n/g, '<br>')}</p>
-              <p>Our team will review your request and get back to you within 24-48 hours.</p>
-              <p>You can track your order status in your <a href="${siteConfig.url}/dashboard/orders/${orderId}">dashboard</a>.</p>
+              <p><a href="${siteConfig.url}/admin/orders/${orderId}">View Order in Admin</a></p>
             `,
-            text: `Revision Request Received - ${orderData.order_number}\n\nHi ${customerName},\n\nWe've received your revision request.\n\nYour feedback:\n${sanitizedNotes}\n\nOur team will review your request within 24-48 hours.\n\nTrack your order: ${siteConfig.url}/dashboard/orders/${orderId}`,
+            text: `New Revision Request\n\nOrder: ${orderData.order_number}\nCustomer: ${profile?.full_name || 'Unknown'} (${customerEmail})\n\nRevision Notes:\n${sanitizedNotes}\n\nView: ${siteConfig.url}/admin/orders/${orderId}`,
             tags: [
-              { name: 'type', value: 'revision-confirmation' },
+              { name: 'type', value: 'revision-admin' },
               { name: 'order', value: orderData.order_number },
             ],
-          });
-        }
-
-        // Send notification email to admin
-        await sendEmail({
-          to: siteConfig.contact.orders,
-          subject: `Revision Request - ${orderData.order_number}`,
-          html: `
-            <h2>New Revision Request</h2>
-            <p><strong>Order:</strong> ${orderData.order_number}</p>
-            <p><strong>Customer:</strong> ${customerName} (${customerEmail})</p>
-            <p><strong>Revision Notes:</strong></p>
-            <p style="background: #f5f5f5; padding: 16px; border-radius: 8px;">${sanitizedNotes.replace(/\n/g, '<br>')}</p>
-            <p><a href="${siteConfig.url}/admin/orders/${orderId}">View Order in Admin</a></p>
-          `,
-          text: `New Revision Request\n\nOrder: ${orderData.order_number}\nCustomer: ${customerName} (${customerEmail})\n\nRevision Notes:\n${sanitizedNotes}\n\nView: ${siteConfig.url}/admin/orders/${orderId}`,
-          tags: [
-            { name: 'type', value: 'revision-admin' },
-            { name: 'order', value: orderData.order_number },
-          ],
-        });
+          },
+          { orderId }
+        );
       }
     } catch (emailError) {
       console.error('Failed to send revision request emails:', emailError);
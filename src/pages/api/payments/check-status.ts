@@ -6,6 +6,12 @@
 import type { APIRoute } from 'astro';
 import { createServerClientWithToken, getServerClient } from '@/lib/supabase/server';
 import { getProviderById } from '@/lib/payments/provider-factory';
+import { syncBundleItemsPayment } from '@/services/bundle-order.service';
+import {
+  recordPaymentEvent,
+  resolvePaymentSessions,
+  checkPaidAmount,
+} from '@/services/payment-session.service';
 
 interface CheckStatusRequest {
   orderId: string;
@@ -139,15 +145,31 @@ export const POST: APIRoute = async ({ request, cookies }) => {
         .eq('id', orderId);
 
       // Log status change
-      await supabase.from('payment_events').insert({
-        order_id: orderId,
+      await recordPaymentEvent({
+        orderId,
         provider: providerName,
-        event_type: `status_${statusResult.status}`,
+        eventType: `status_${statusResult.status}`,
         reference,
         amount: statusResult.paidAmount,
-        metadata: statusResult.rawResponse,
+        currency: statusResult.currency ?? order.currency,
+        payload: statusResult.rawResponse,
       });
 
+      if (statusResult.status === 'completed' || statusResult.status === 'failed') {
+        await resolvePaymentSessions(orderId, statusResult.status);
+      }
+
+      if (statusResult.status === 'completed') {
+        await checkPaidAmount({
+          orderId,
+          provider: providerName,
+          reference,
+          expectedAmount: order.amount_expected,
+          paidAmount: statusResult.paidAmount,
+          currency: order.currency,
+        });
+      }
+
       // Log order status change if payment completed
       if (statusResult.status === 'completed') {
         await supabase.from('order_status_history').insert({
@@ -156,6 +178,11 @@ export const POST: APIRoute = async ({ request, cookies }) => {
           notes: `Payment completed via ${providerName}`,
         });
       }
+
+      // Bundle songs share the parent's payment
+      if (order.order_type === 'bundle' && (statusResult.status === 'completed' || statusResult.status === 'failed')) {
+        await syncBundleItemsPayment(orderId, statusResult.status === 'completed' ? 'paid' : 'failed');
+      }
     }
 
     return new Response(
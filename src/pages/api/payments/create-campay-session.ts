@@ -7,6 +7,7 @@ import type { APIRoute } from 'astro';
 import { createServerClientWithToken, getServerClient } from '@/lib/supabase/server';
 import { enforceRateLimit } from '@/lib/security/rate-limiter';
 import { getProviderForCurrency } from '@/lib/payments/provider-factory';
+import { openPaymentSession, recordPaymentEvent } from '@/services/payment-session.service';
 import { normalizePhoneNumber, getCarrier } from '@/lib/utils/phone';
 import type { PaymentMethodType } from '@/lib/payments/types';
 
@@ -102,6 +103,14 @@ export const POST: APIRoute = async ({ request, cookies }) => {
       );
     }
 
+    // Bundle songs are paid through their bundle order
+    if (order.order_type === 'bundle_item') {
+      return new Response(
+        JSON.stringify({ error: 'Bundle songs are paid through their bundle' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
     // Verify order is pending payment
     if (order.payment_status !== 'pending') {
       return new Response(
@@ -171,13 +180,24 @@ export const POST: APIRoute = async ({ request, cookies }) => {
       console.error('Failed to update order with reference:', updateError);
     }
 
-    // Log payment event
-    await supabase.from('payment_events').insert({
-      order_id: orderId,
+    // Track the session for reconciliation and log the payment event
+    await openPaymentSession({
+      orderId: order.id,
       provider: 'campay',
-      event_type: 'session_created',
+      sessionId: result.sessionId,
+      amount: order.amount_expected,
+      currency: 'XAF',
+      expiresAt: result.expiresAt,
+    });
+
+    await recordPaymentEvent({
+      orderId: order.id,
+      provider: 'campay',
+      eventType: 'session_created',
       reference: result.sessionId,
-      metadata: {
+      amount: order.amount_expected,
+      currency: 'XAF',
+      payload: {
         operator: carrier.toUpperCase(),
         phone: phoneResult.phone.e164,
         expiresAt: result.expiresAt.toISOString(),
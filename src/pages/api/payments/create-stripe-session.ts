@@ -7,6 +7,7 @@ import type { APIRoute } from 'astro';
 import { createServerClientWithToken, getServerClient } from '@/lib/supabase/server';
 import { enforceRateLimit } from '@/lib/security/rate-limiter';
 import { getProviderForCurrency } from '@/lib/payments/provider-factory';
+import { openPaymentSession, recordPaymentEvent } from '@/services/payment-session.service';
 
 interface CreateSessionRequest {
   orderId: string;
@@ -74,6 +75,14 @@ export const POST: APIRoute = async ({ request, cookies }) => {
       );
     }
 
+    // Bundle songs are paid through their bundle order
+    if (order.order_type === 'bundle_item') {
+      return new Response(
+        JSON.stringify({ error: 'Bundle songs are paid through their bundle' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
     // Verify order is pending payment
     if (order.payment_status !== 'pending') {
       return new Response(
@@ -136,13 +145,24 @@ export const POST: APIRoute = async ({ request, cookies }) => {
       console.error('Failed to update order with session:', updateError);
     }
 
-    // Log payment event
-    await supabase.from('payment_events').insert({
-      order_id: orderId,
+    // Track the session for reconciliation and log the payment event
+    await openPaymentSession({
+      orderId: order.id,
+      provider: 'stripe',
+      sessionId: result.sessionId,
+      amount: order.amount_expected,
+      currency: 'USD',
+      expiresAt: result.expiresAt,
+    });
+
+    await recordPaymentEvent({
+      orderId: order.id,
       provider: 'stripe',
-      event_type: 'session_created',
+      eventType: 'session_created',
       reference: result.sessionId,
-      metadata: { expiresAt: result.expiresAt.toISOString() },
+      amount: order.amount_expected,
+      currency: 'USD',
+      payload: { expiresAt: result.expiresAt.toISOString() },
     });
 
     return new Response(
@@ -33,6 +33,7 @@ export const POST: APIRoute = async ({ request, cookies }) => {
     // Parse notification preferences (checkboxes send 'on' when checked)
     const emailNotifications = formData.get('email_notifications') === 'on';
     const smsNotifications = formData.get('sms_notifications') === 'on';
+    const whatsappNotifications = formData.get('whatsapp_notifications') === 'on';
     const marketingConsent = formData.get('marketing_consent') === 'on';
 
     // Update profile using server client
@@ -43,6 +44,7 @@ export const POST: APIRoute = async ({ request, cookies }) => {
         notification_preferences: {
           email: emailNotifications,
           sms: smsNotifications,
+          whatsapp: whatsappNotifications,
         },
         marketing_consent: marketingConsent,
         updated_at: new Date().toISOString(),
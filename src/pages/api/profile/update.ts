@@ -6,6 +6,8 @@ import type { APIRoute } from 'astro';
 import { getServerClient } from '../../../lib/supabase/server';
 import { getSession, validateCSRFToken } from '../../../lib/auth/session';
 import { sanitizeString, isValidPhone } from '../../../lib/security/validation';
+import { DEFAULT_LOCALE, isLocale } from '../../../lib/i18n';
+import { setLocaleCookie } from '../../../middleware/locale';
 
 export const POST: APIRoute = async ({ request, cookies, redirect }) => {
   // Validate session
@@ -46,8 +48,7 @@ export const POST: APIRoute = async ({ request, cookies, redirect }) => {
     }
 
     // Validate language
-    const validLanguages = ['en', 'fr'];
-    const language = validLanguages.includes(preferredLanguage) ? preferredLanguage : 'en';
+    const language = isLocale(preferredLanguage) ? preferredLanguage : DEFAULT_LOCALE;
 
     // Validate country code
     const validCountryCodes = ['+1', '+237', '+44', '+33'];
@@ -74,6 +75,9 @@ export const POST: APIRoute = async ({ request, cookies, redirect }) => {
       });
     }
 
+    // Pages follow the new language from the next request
+    setLocaleCookie(cookies, language);
+
     // Return success - client will handle redirect/update
     return new Response(JSON.stringify({ success: true, message: 'Profile updated successfully' }), {
       status: 200,
@@ -5,16 +5,30 @@
 
 import type { APIRoute } from 'astro';
 import { createServerClient } from '@/lib/supabase/server';
+import { getClientIP } from '@/lib/security';
+import { attachLinkToReferral } from '@/services/referral-link.service';
 
 interface ApplyReferralRequest {
   referral_code: string;
+  link?: string;
+  utm?: {
+    source?: string;
+    medium?: string;
+    campaign?: string;
+    landing_page?: string;
+  };
+}
+
+/** Optional attribution text, bounded */
+function optionalText(value: unknown, max = 100): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim().slice(0, max) : null;
 }
 
 export const POST: APIRoute = async ({ request, cookies }) => {
   try {
     // Parse request body
     const body = (await request.json()) as ApplyReferralRequest;
-    const { referral_code } = body;
+    const { referral_code, link, utm } = body;
 
     if (!referral_code || typeof referral_code !== 'string') {
       return new Response(
@@ -88,9 +102,15 @@ export const POST: APIRoute = async ({ request, cookies }) => {
       );
     }
 
-    // Apply referral code using database function
-    const { data: result, error: applyError } = await supabase.rpc('apply_referral_code', {
+    // Apply referral code using database function (with attribution for funnel reports)
+    const { data: result, error: applyError } = await supabase.rpc('apply_referral_code_v2', {
       code: referral_code.toLowerCase().trim(),
+      ip_addr: getClientIP(request),
+      user_agent_str: optionalText(request.headers.get('user-agent'), 500),
+      landing_page_url: optionalText(utm?.landing_page, 500),
+      utm_src: optionalText(utm?.source),
+      utm_med: optionalText(utm?.medium),
+      utm_camp: optionalText(utm?.campaign),
     });
 
     if (applyError) {
@@ -124,6 +144,11 @@ export const POST: APIRoute = async ({ request, cookies }) => {
 
     console.log(`[Referral Apply] Successfully applied referral code ${referral_code} to user ${user.id}`);
 
+    // Credit the tracking link the user came through
+    if (link && typeof link === 'string') {
+      await attachLinkToReferral(user.id, link);
+    }
+
     return new Response(
       JSON.stringify({
         success: true,
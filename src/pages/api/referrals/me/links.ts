@@ -0,0 +1,114 @@
+/**
+ * GET /api/referrals/me/links - List tracking links with their funnel
+ * POST /api/referrals/me/links - Create a tracking link
+ */
+
+import type { APIRoute } from 'astro';
+import { z } from 'zod';
+import { getSession } from '../../../../lib/auth/session';
+import { getAgentProfile } from '../../../../services/referral.service';
+import { getAgentLinks, createAgentLink, LINK_NAME_PATTERN } from '../../../../services/referral-link.service';
+
+const createLinkSchema = z.object({
+  name: z.string().trim().toLowerCase().regex(LINK_NAME_PATTERN, 'Use lowercase letters, numbers and hyphens (max 40)'),
+  occasion_slug: z.string().max(50).nullable().optional(),
+  package_slug: z.string().max(50).nullable().optional(),
+});
+
+export const GET: APIRoute = async ({ cookies, url }) => {
+  // Authenticate user
+  const session = await getSession(cookies);
+  if (!session.success) {
+    return new Response(
+      JSON.stringify({ error: 'Unauthorized' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const userId = session.data.user.id;
+
+  try {
+    const baseUrl = `${url.protocol}//${url.host}`;
+    const links = await getAgentLinks(userId, baseUrl);
+
+    return new Response(
+      JSON.stringify({ links }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('[GET /api/referrals/me/links] Error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
+
+export const POST: APIRoute = async ({ request, cookies, url }) => {
+  // Authenticate user
+  const session = await getSession(cookies);
+  if (!session.success) {
+    return new Response(
+      JSON.stringify({ error: 'Unauthorized' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const userId = session.data.user.id;
+
+  try {
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = createLinkSchema.safeParse(body);
+
+    if (!validation.success) {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid request body',
+          details: validation.error.flatten().fieldErrors,
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Verify agent profile exists and is active
+    const profile = await getAgentProfile(userId);
+    if (!profile) {
+      return new Response(
+        JSON.stringify({ error: 'Agent profile not found. Please join the referral program first.' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (profile.status !== 'active') {
+      return new Response(
+        JSON.stringify({ error: `Your account is ${profile.status}. Please contact support.` }),
+        { status: 403, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const baseUrl = `${url.protocol}//${url.host}`;
+    const result = await createAgentLink(userId, validation.data, baseUrl);
+
+    if (!result.success) {
+      return new Response(
+        JSON.stringify({ error: result.error }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        link: result.data,
+      }),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('[POST /api/referrals/me/links] Error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
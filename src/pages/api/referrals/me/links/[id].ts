@@ -0,0 +1,42 @@
+/**
+ * DELETE /api/referrals/me/links/[id] - Retire a tracking link
+ */
+
+import type { APIRoute } from 'astro';
+import { getSession } from '../../../../../lib/auth/session';
+import { archiveAgentLink } from '../../../../../services/referral-link.service';
+
+export const DELETE: APIRoute = async ({ params, cookies }) => {
+  // Authenticate user
+  const session = await getSession(cookies);
+  if (!session.success) {
+    return new Response(
+      JSON.stringify({ error: 'Unauthorized' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const userId = session.data.user.id;
+
+  try {
+    const result = await archiveAgentLink(userId, params.id!);
+
+    if (!result.success) {
+      return new Response(
+        JSON.stringify({ error: result.error }),
+        { status: result.error === 'Link not found' ? 404 : 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ success: true }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('[DELETE /api/referrals/me/links] Error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -0,0 +1,54 @@
+/**
+ * GET /api/referrals/me/links/[id]/qr?format=png|svg
+ * QR code of a tracking link's short URL, as a download
+ */
+
+import type { APIRoute } from 'astro';
+import { getSession } from '../../../../../../lib/auth/session';
+import { getAgentLinkQr } from '../../../../../../services/referral-link.service';
+
+const CONTENT_TYPES = {
+  png: 'image/png',
+  svg: 'image/svg+xml',
+} as const;
+
+export const GET: APIRoute = async ({ params, cookies, url }) => {
+  // Authenticate user
+  const session = await getSession(cookies);
+  if (!session.success) {
+    return new Response(
+      JSON.stringify({ error: 'Unauthorized' }),
+      { status: 401, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const userId = session.data.user.id;
+  const format = url.searchParams.get('format') === 'svg' ? 'svg' : 'png';
+
+  try {
+    const baseUrl = `${url.protocol}//${url.host}`;
+    const result = await getAgentLinkQr(userId, params.id!, format, baseUrl);
+
+    if (!result.success || !result.data) {
+      return new Response(
+        JSON.stringify({ error: result.error }),
+        { status: result.error === 'Link not found' ? 404 : 500, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(result.data.body, {
+      status: 200,
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="qr-${result.data.slug}.${format}"`,
+        'Cache-Control': 'private, max-age=86400',
+      },
+    });
+  } catch (error) {
+    console.error('[GET /api/referrals/me/links/qr] Error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+};
@@ -3,28 +3,16 @@
  * POST /api/webhooks/stripe
  *
  * Receives payment events from Stripe and updates order status.
- * Security: Signature verification, idempotency, audit logging
+ * Security: Signature verification, durable idempotency (webhook_events), audit logging
  */
 
 import type { APIRoute } from 'astro';
-import { StripeProvider } from '../../../lib/payments/stripe-provider';
-import { getServerClient } from '../../../lib/supabase/server';
-import { sendEmail, renderTemplate } from '../../../lib/email/client';
-import { siteConfig } from '../../../config';
-
-// Idempotency cache (in production, use Redis)
-const processedEvents = new Map<string, { processedAt: number }>();
-
-// Clean up old entries every hour
-const CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
-setInterval(() => {
-  const now = Date.now();
-  for (const [key, value] of processedEvents) {
-    if (now - value.processedAt > CACHE_TTL) {
-      processedEvents.delete(key);
-    }
-  }
-}, 60 * 60 * 1000);
+import { getProviderById } from '../../../lib/payments/provider-factory';
+import {
+  getWebhookEventKey,
+  claimWebhookEvent,
+  runWebhookEvent,
+} from '../../../services/webhook-event.service';
 
 export const POST: APIRoute = async ({ request }) => {
   const startTime = Date.now();
@@ -43,7 +31,8 @@ export const POST: APIRoute = async ({ request }) => {
     }
 
     // Verify webhook signature
-    const stripeProvider = new StripeProvider();
+    // Resolves to the mock provider when PAYMENT_PROVIDER=mock
+    const stripeProvider = getProviderById('stripe')!;
     const verification = await stripeProvider.verifyWebhook({
       rawBody,
       signature,
@@ -58,177 +47,53 @@ export const POST: APIRoute = async ({ request }) => {
       });
     }
 
-    // Extract event data
-    const { eventType, orderId, paymentStatus, amount, data } = verification;
-    const eventId = (data as Record<string, unknown>)?.id as string;
-
-    console.log(`[WEBHOOK:STRIPE] Event: ${eventType}, Order: ${orderId}`);
+    const eventKey = getWebhookEventKey('stripe', rawBody, verification);
+    console.log(`[WEBHOOK:STRIPE] Event: ${verification.eventType}, Order: ${verification.orderId}, Key: ${eventKey}`);
 
-    // Idempotency check
-    if (eventId && processedEvents.has(eventId)) {
-      console.log(`[WEBHOOK:STRIPE] Duplicate event ignored: ${eventId}`);
-      return new Response(JSON.stringify({ received: true, duplicate: true }), {
-        status: 200,
+    if (!eventKey) {
+      console.error('[WEBHOOK:STRIPE] Event has no event ID');
+      return new Response(JSON.stringify({ error: 'Missing event ID' }), {
+        status: 400,
         headers: { 'Content-Type': 'application/json' },
       });
     }
 
-    // Handle different event types
-    if (!orderId) {
-      console.log(`[WEBHOOK:STRIPE] No order ID in event ${eventType}`);
-      return new Response(JSON.stringify({ received: true, skipped: true }), {
-        status: 200,
+    // Idempotency: claim the event before touching the order
+    const claim = await claimWebhookEvent('stripe', eventKey, rawBody, verification);
+    if (!claim.success) {
+      // Let the provider retry
+      return new Response(JSON.stringify({ error: 'Internal server error' }), {
+        status: 500,
         headers: { 'Content-Type': 'application/json' },
       });
     }
 
-    const supabase = getServerClient();
-
-    // Fetch the order
-    const { data: order, error: fetchError } = await supabase
-      .from('orders')
-      .select('*, profiles(full_name, email)')
-      .eq('id', orderId)
-      .single();
-
-    if (fetchError || !order) {
-      console.error(`[WEBHOOK:STRIPE] Order not found: ${orderId}`);
-      return new Response(JSON.stringify({ error: 'Order not found' }), {
-        status: 404,
+    if (!claim.claimed) {
+      console.log(`[WEBHOOK:STRIPE] Duplicate event ignored: ${eventKey}`);
+      return new Response(JSON.stringify({ received: true, duplicate: true }), {
+        status: 200,
         headers: { 'Content-Type': 'application/json' },
       });
     }
 
-    // Process based on event type
-    switch (eventType) {
-      case 'checkout.session.completed': {
-        if (paymentStatus === 'completed') {
-          // Update order to paid status
-          const { error: updateError } = await supabase
-            .from('orders')
-            .update({
-              payment_status: 'paid',
-              status: 'paid',
-              amount_paid: amount || order.amount_expected,
-              payment_provider: 'stripe',
-              payment_reference: eventId,
-              paid_at: new Date().toISOString(),
-              updated_at: new Date().toISOString(),
-            })
-            .eq('id', orderId);
-
-          if (updateError) {
-            console.error('[WEBHOOK:STRIPE] Update error:', updateError);
-            throw updateError;
-          }
-
-          // Record status history
-          await supabase.from('order_status_history').insert({
-            order_id: orderId,
-            old_status: order.status,
-            new_status: 'paid',
-            changed_by: 'system',
-            notes: 'Payment confirmed via Stripe webhook',
-            created_at: new Date().toISOString(),
-          });
-
-          // Send confirmation email
-          const profile = order.profiles as { full_name: string | null; email: string } | null;
-          if (profile?.email) {
-            const template = renderTemplate('order-confirmation', {
-              orderNumber: order.order_number,
-              customerName: profile.full_name || 'Valued Customer',
-              packageName: formatPackageName(order.package_slug),
-              amount: String(amount || order.amount_expected),
-              currency: order.currency,
-              occasionName: formatOccasionName(order.occasion_slug),
-              estimatedDelivery: calculateDeliveryDate(order.package_slug),
-              portalUrl: `${siteConfig.url}/dashboard/orders/${orderId}`,
-            });
-
-            await sendEmail({
-              to: profile.email,
-              subject: template.subject,
-              html: template.html,
-              text: template.text,
-              tags: [
-                { name: 'type', value: 'order-confirmation' },
-                { name: 'order', value: order.order_number },
-              ],
-            });
-          }
-
-          console.log(`[WEBHOOK:STRIPE] Order ${orderId} marked as paid`);
-        }
-        break;
-      }
-
-      case 'payment_intent.payment_failed': {
-        // Update order status
-        await supabase
-          .from('orders')
-          .update({
-            payment_status: 'failed',
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', orderId);
-
-        // Record status history
-        await supabase.from('order_status_history').insert({
-          order_id: orderId,
-          old_status: order.payment_status,
-          new_status: 'failed',
-          changed_by: 'system',
-          notes: 'Payment failed via Stripe',
-          created_at: new Date().toISOString(),
-        });
-
-        console.log(`[WEBHOOK:STRIPE] Order ${orderId} payment failed`);
-        break;
-      }
-
-      case 'charge.refunded': {
-        const isFullRefund = paymentStatus === 'refunded';
-
-        await supabase
-          .from('orders')
-          .update({
-            payment_status: isFullRefund ? 'refunded' : 'partially_refunded',
-            status: isFullRefund ? 'cancelled' : order.status,
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', orderId);
-
-        // Record status history
-        await supabase.from('order_status_history').insert({
-          order_id: orderId,
-          old_status: order.payment_status,
-          new_status: isFullRefund ? 'refunded' : 'partially_refunded',
-          changed_by: 'system',
-          notes: `Refund processed via Stripe (${isFullRefund ? 'full' : 'partial'})`,
-          created_at: new Date().toISOString(),
-        });
-
-        console.log(`[WEBHOOK:STRIPE] Order ${orderId} refund processed`);
-        break;
-      }
-
-      default:
-        console.log(`[WEBHOOK:STRIPE] Unhandled event type: ${eventType}`);
-    }
-
-    // Mark as processed AFTER successful database operations
-    if (eventId) {
-      processedEvents.set(eventId, { processedAt: Date.now() });
+    const result = await runWebhookEvent(claim.eventId, 'stripe', verification);
+    if (!result.success) {
+      return new Response(
+        JSON.stringify({ error: result.notFound ? 'Order not found' : 'Internal server error' }),
+        { status: result.notFound ? 404 : 500, headers: { 'Content-Type': 'application/json' } }
+      );
     }
 
     const processingTime = Date.now() - startTime;
     console.log(`[WEBHOOK:STRIPE] Processed in ${processingTime}ms`);
 
-    return new Response(JSON.stringify({ received: true }), {
-      status: 200,
-      headers: { 'Content-Type': 'application/json' },
-    });
+    return new Response(
+      JSON.stringify(result.outcome === 'skipped' ? { received: true, skipped: true } : { received: true }),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
   } catch (error) {
     console.error('[WEBHOOK:STRIPE] Error:', error);
     return new Response(
@@ -237,38 +102,3 @@ export const POST: APIRoute = async ({ request }) => {
     );
   }
 };
-
-// Helper functions
-function formatPackageName(slug: string): string {
-  const names: Record<string, string> = {
-    express: 'Express Package',
-    classic: 'Classic Package',
-    signature: 'Signature Package',
-    legacy: 'Legacy Package',
-  };
-  return names[slug] || slug;
-}
-
-function formatOccasionName(slug: string): string {
-  return (slug || 'custom')
-    .replace(/[-_]/g, ' ')
-    .replace(/\b\w/g, (c) => c.toUpperCase());
-}
-
-function calculateDeliveryDate(packageSlug: string): string {
-  const deliveryDays: Record<string, number> = {
-    express: 3,
-    classic: 7,
-    signature: 10,
-    legacy: 14,
-  };
-  const days = deliveryDays[packageSlug] || 7;
-  const deliveryDate = new Date();
-  deliveryDate.setDate(deliveryDate.getDate() + days);
-  return deliveryDate.toLocaleDateString('en-US', {
-    weekday: 'long',
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
-  });
-}
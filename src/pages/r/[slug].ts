@@ -0,0 +1,9 @@
+/**
+ * GET /r/[slug]
+ * Tracking short links are resolved by referralMiddleware; this route
+ * only exists so they are routable and sends anything unresolved home.
+ */
+
+import type { APIRoute } from 'astro';
+
+export const GET: APIRoute = ({ redirect }) => redirect('/', 302);
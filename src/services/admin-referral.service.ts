@@ -75,6 +75,7 @@ export interface CommissionListItem {
   referrer_code: string;
   level: number;
   amount: number;
+  clawed_back_amount: number;
   currency: string;
   order_amount: number;
   rate_snapshot: number;
@@ -116,6 +117,9 @@ export interface PayoutListItem {
   processed_by: string | null;
   processed_at: string | null;
   rejection_reason: string | null;
+  disbursement_status: string | null;
+  disbursement_reference: string | null;
+  disbursement_error: string | null;
   created_at: string;
 }
 
@@ -618,6 +622,7 @@ export async function getCommissionsList(filters: CommissionFilters = {}): Promi
     referrer_code: c.referral_profiles?.referral_code || '',
     level: c.level,
     amount: c.amount,
+    clawed_back_amount: Number(c.clawed_back_amount ?? 0),
     currency: c.currency,
     order_amount: c.order_amount,
     rate_snapshot: c.rate_snapshot,
@@ -640,6 +645,7 @@ export async function getCommissionsList(filters: CommissionFilters = {}): Promi
 
 /**
  * Approve a commission
+ * Commissions held for a payment dispute are left pending.
  */
 export async function approveCommission(
   id: string,
@@ -659,7 +665,8 @@ export async function approveCommission(
       approved_at: new Date().toISOString(),
     })
     .eq('id', id)
-    .eq('status', 'pending');
+    .eq('status', 'pending')
+    .is('held_at', null);
 
   if (error) {
     console.error('[ADMIN REFERRAL] Error approving commission:', error);
@@ -740,6 +747,7 @@ export async function bulkApproveCommissions(
     })
     .in('id', ids)
     .eq('status', 'pending')
+    .is('held_at', null)
     .select('id');
 
   if (error) {
@@ -817,6 +825,9 @@ export async function getPayoutsList(filters: PayoutFilters = {}): Promise<{
     processed_by: p.processed_by,
     processed_at: p.processed_at,
     rejection_reason: p.rejection_reason,
+    disbursement_status: p.disbursement_status,
+    disbursement_reference: p.disbursement_reference,
+    disbursement_error: p.disbursement_error,
     created_at: p.created_at,
   }));
 
@@ -847,45 +858,21 @@ export async function processPayoutRequest(
 
   const supabase = getServerClient();
 
-  // Get payout details
-  const { data: payout, error: fetchError } = await supabase
-    .from('payout_requests')
-    .select('user_id, amount, currency')
-    .eq('id', id)
-    .eq('status', 'requested')
-    .single();
-
-  if (fetchError || !payout) {
-    return { success: false, error: 'Payout request not found or already processed' };
-  }
-
-  // Update payout status
-  const { error: updateError } = await supabase
-    .from('payout_requests')
-    .update({
-      status: 'paid',
-      transaction_reference: sanitizedRef,
-      processed_by: adminId,
-      processed_at: new Date().toISOString(),
-    })
-    .eq('id', id);
+  // Status change and ledger debit happen in one transaction
+  const { data: completed, error } = await supabase.rpc('complete_referral_payout', {
+    p_payout_id: id,
+    p_from_status: 'requested',
+    p_transaction_reference: sanitizedRef,
+    p_processed_by: adminId,
+  });
 
-  if (updateError) {
-    console.error('[ADMIN REFERRAL] Error processing payout:', updateError);
-    return { success: false, error: updateError.message };
+  if (error) {
+    console.error('[ADMIN REFERRAL] Error processing payout:', error);
+    return { success: false, error: error.message };
   }
 
-  // Deduct from agent balance
-  const balanceField = payout.currency === 'USD' ? 'current_balance_usd' : 'current_balance_xaf';
-  const { error: balanceError } = await supabase.rpc('update_agent_balance_subtract', {
-    agent_id: payout.user_id,
-    field_name: balanceField,
-    amount: payout.amount,
-  });
-
-  if (balanceError) {
-    console.error('[ADMIN REFERRAL] Error updating balance:', balanceError);
-    // Note: Payout marked as paid, but balance update failed - needs manual review
+  if (!completed) {
+    return { success: false, error: 'Payout request not found or already processed' };
   }
 
   return { success: true };
@@ -910,22 +897,22 @@ export async function rejectPayoutRequest(
 
   const supabase = getServerClient();
 
-  const { error } = await supabase
-    .from('payout_requests')
-    .update({
-      status: 'rejected',
-      rejection_reason: sanitizedReason,
-      processed_by: adminId,
-      processed_at: new Date().toISOString(),
-    })
-    .eq('id', id)
-    .eq('status', 'requested');
+  // Returns the held amount to the agent's available balance
+  const { data: rejected, error } = await supabase.rpc('reject_referral_payout', {
+    p_payout_id: id,
+    p_rejected_by: adminId,
+    p_reason: sanitizedReason,
+  });
 
   if (error) {
     console.error('[ADMIN REFERRAL] Error rejecting payout:', error);
     return { success: false, error: error.message };
   }
 
+  if (!rejected) {
+    return { success: false, error: 'Payout request not found or already processed' };
+  }
+
   return { success: true };
 }
 
@@ -6,6 +6,7 @@
 
 import { getServerClient } from '../lib/supabase/server';
 import { sanitizeString, sanitizeRevisionNotes, isValidUUID } from '../lib/security/validation';
+import { syncBundleParentStatus } from './bundle-order.service';
 import {
   ADMIN_CONFIG,
   ALLOWED_SORT_COLUMNS,
@@ -481,7 +482,7 @@ export async function updateOrderStatus(
   // Get current order
   const { data: order, error: fetchError } = await supabase
     .from('orders')
-    .select('status')
+    .select('status, parent_order_id')
     .eq('id', orderId)
     .single();
 
@@ -512,6 +513,11 @@ export async function updateOrderStatus(
     created_at: new Date().toISOString(),
   });
 
+  // Bundle finishes once all of its songs have
+  if (order.parent_order_id) {
+    await syncBundleParentStatus(order.parent_order_id);
+  }
+
   return { success: true };
 }
 
@@ -2643,3 +2649,329 @@ export async function deleteTestimonial(id: string): Promise<{ success: boolean;
 
   return { success: true };
 }
+
+// ============================================
+// COUPONS CRUD FUNCTIONS
+// ============================================
+
+export interface ConfigCoupon {
+  id: string;
+  code: string;
+  description: string | null;
+  discount_type: 'percentage' | 'fixed';
+  percentage: number | null;
+  amount_usd: number | null;
+  amount_xaf: number | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  max_redemptions: number | null;
+  max_redemptions_per_customer: number | null;
+  redemption_count: number;
+  package_slugs: string[] | null;
+  occasion_slugs: string[] | null;
+  first_order_only: boolean;
+  is_active: boolean;
+}
+
+export type CouponInput = Omit<ConfigCoupon, 'id' | 'redemption_count'>;
+
+export interface CouponRedemptionStats {
+  coupon_id: string;
+  code: string;
+  redemptions: number;
+  paid_redemptions: number;
+  discount_usd: number;
+  discount_xaf: number;
+}
+
+const COUPON_CODE_REGEX = /^[A-Z0-9_-]{3,32}$/;
+const SLUG_REGEX = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/**
+ * Validate coupon fields shared by create and update
+ */
+function validateCouponInput(coupon: Partial<CouponInput>): string | null {
+  if (coupon.code !== undefined && !COUPON_CODE_REGEX.test(coupon.code)) {
+    return 'Invalid code format. Use 3-32 uppercase letters, numbers, hyphens or underscores.';
+  }
+
+  if (coupon.discount_type === 'percentage') {
+    if (!coupon.percentage || coupon.percentage <= 0 || coupon.percentage > 100) {
+      return 'Percentage must be between 0 and 100';
+    }
+  }
+
+  if (coupon.discount_type === 'fixed') {
+    if (coupon.amount_usd == null && coupon.amount_xaf == null) {
+      return 'Fixed coupons need an amount in at least one currency';
+    }
+    if ((coupon.amount_usd ?? 0) < 0 || (coupon.amount_xaf ?? 0) < 0) {
+      return 'Amounts must be positive';
+    }
+  }
+
+  if (coupon.starts_at && coupon.ends_at && new Date(coupon.ends_at) <= new Date(coupon.starts_at)) {
+    return 'End date must be after start date';
+  }
+
+  const slugs = [...(coupon.package_slugs ?? []), ...(coupon.occasion_slugs ?? [])];
+  if (slugs.some((slug) => !SLUG_REGEX.test(slug))) {
+    return 'Invalid package or occasion slug';
+  }
+
+  return null;
+}
+
+/**
+ * Normalize discount columns so they satisfy valid_coupon_discount
+ */
+function normalizeCouponDiscount(coupon: Partial<CouponInput>): Partial<CouponInput> {
+  if (coupon.discount_type === 'percentage') {
+    return { percentage: coupon.percentage, amount_usd: null, amount_xaf: null };
+  }
+  if (coupon.discount_type === 'fixed') {
+    return {
+      percentage: null,
+      amount_usd: coupon.amount_usd ?? null,
+      amount_xaf: coupon.amount_xaf != null ? Math.round(coupon.amount_xaf) : null,
+    };
+  }
+
+  // Type unchanged - pass through individual values (DB constraint keeps them consistent)
+  const values: Partial<CouponInput> = {};
+  if (coupon.percentage !== undefined) values.percentage = coupon.percentage;
+  if (coupon.amount_usd !== undefined) values.amount_usd = coupon.amount_usd;
+  if (coupon.amount_xaf !== undefined) {
+    values.amount_xaf = coupon.amount_xaf != null ? Math.round(coupon.amount_xaf) : null;
+  }
+  return values;
+}
+
+/**
+ * Get all coupons for content management
+ */
+export async function getContentCoupons(): Promise<ConfigCoupon[]> {
+  const supabase = getServerClient();
+  const { data } = await supabase
+    .from('config_coupons')
+    .select('*')
+    .order('created_at', { ascending: false });
+  return data || [];
+}
+
+/**
+ * Create new coupon
+ */
+export async function createCoupon(
+  coupon: CouponInput
+): Promise<{ success: boolean; error?: string; id?: string }> {
+  const code = coupon.code.trim().toUpperCase();
+  const validationError = validateCouponInput({ ...coupon, code });
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
+  const sanitized = {
+    code,
+    description: coupon.description ? sanitizeString(coupon.description, 500) : null,
+    discount_type: coupon.discount_type,
+    ...normalizeCouponDiscount(coupon),
+    starts_at: coupon.starts_at || null,
+    ends_at: coupon.ends_at || null,
+    max_redemptions: coupon.max_redemptions ? Math.max(1, coupon.max_redemptions) : null,
+    max_redemptions_per_customer: coupon.max_redemptions_per_customer
+      ? Math.max(1, coupon.max_redemptions_per_customer)
+      : null,
+    package_slugs: coupon.package_slugs?.length ? coupon.package_slugs : null,
+    occasion_slugs: coupon.occasion_slugs?.length ? coupon.occasion_slugs : null,
+    first_order_only: coupon.first_order_only,
+    is_active: coupon.is_active,
+  };
+
+  const supabase = getServerClient();
+
+  // Check if code already exists
+  const { data: existing } = await supabase
+    .from('config_coupons')
+    .select('id')
+    .eq('code', code)
+    .single();
+
+  if (existing) {
+    return { success: false, error: 'A coupon with this code already exists' };
+  }
+
+  const { data, error } = await supabase
+    .from('config_coupons')
+    .insert(sanitized)
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('[ADMIN] Error creating coupon:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true, id: data?.id };
+}
+
+/**
+ * Update coupon
+ */
+export async function updateCoupon(
+  id: string,
+  coupon: Partial<CouponInput>
+): Promise<{ success: boolean; error?: string }> {
+  if (!isValidUUID(id)) {
+    return { success: false, error: 'Invalid ID' };
+  }
+
+  const code = coupon.code ? coupon.code.trim().toUpperCase() : undefined;
+  const validationError = validateCouponInput({ ...coupon, code });
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
+  // Build sanitized update object
+  const updates: any = { ...normalizeCouponDiscount(coupon) };
+  if (code) updates.code = code;
+  if (coupon.description !== undefined) {
+    updates.description = coupon.description ? sanitizeString(coupon.description, 500) : null;
+  }
+  if (coupon.discount_type) updates.discount_type = coupon.discount_type;
+  if (coupon.starts_at !== undefined) updates.starts_at = coupon.starts_at || null;
+  if (coupon.ends_at !== undefined) updates.ends_at = coupon.ends_at || null;
+  if (coupon.max_redemptions !== undefined) {
+    updates.max_redemptions = coupon.max_redemptions ? Math.max(1, coupon.max_redemptions) : null;
+  }
+  if (coupon.max_redemptions_per_customer !== undefined) {
+    updates.max_redemptions_per_customer = coupon.max_redemptions_per_customer
+      ? Math.max(1, coupon.max_redemptions_per_customer)
+      : null;
+  }
+  if (coupon.package_slugs !== undefined) {
+    updates.package_slugs = coupon.package_slugs?.length ? coupon.package_slugs : null;
+  }
+  if (coupon.occasion_slugs !== undefined) {
+    updates.occasion_slugs = coupon.occasion_slugs?.length ? coupon.occasion_slugs : null;
+  }
+  if (coupon.first_order_only !== undefined) updates.first_order_only = coupon.first_order_only;
+  if (coupon.is_active !== undefined) updates.is_active = coupon.is_active;
+
+  if (Object.keys(updates).length === 0) {
+    return { success: false, error: 'No fields to update' };
+  }
+
+  updates.updated_at = new Date().toISOString();
+
+  const supabase = getServerClient();
+
+  // Check code uniqueness if updating code
+  if (updates.code) {
+    const { data: existing } = await supabase
+      .from('config_coupons')
+      .select('id')
+      .eq('code', updates.code)
+      .neq('id', id)
+      .single();
+
+    if (existing) {
+      return { success: false, error: 'A coupon with this code already exists' };
+    }
+  }
+
+  const { error } = await supabase
+    .from('config_coupons')
+    .update(updates)
+    .eq('id', id);
+
+  if (error) {
+    console.error('[ADMIN] Error updating coupon:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Delete coupon
+ */
+export async function deleteCoupon(id: string): Promise<{ success: boolean; error?: string }> {
+  if (!isValidUUID(id)) {
+    return { success: false, error: 'Invalid ID' };
+  }
+
+  const supabase = getServerClient();
+
+  // Redemptions reference the coupon for discount reporting
+  const { data: redemptions } = await supabase
+    .from('coupon_redemptions')
+    .select('id')
+    .eq('coupon_id', id)
+    .limit(1);
+
+  if (redemptions && redemptions.length > 0) {
+    return { success: false, error: 'Cannot delete coupon that has been redeemed. Deactivate it instead.' };
+  }
+
+  const { error } = await supabase
+    .from('config_coupons')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('[ADMIN] Error deleting coupon:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Get redemption counts and discount cost per coupon
+ * Discount cost only counts orders that were actually paid
+ */
+export async function getCouponRedemptionStats(): Promise<CouponRedemptionStats[]> {
+  const supabase = getServerClient();
+  const { data, error } = await supabase
+    .from('coupon_redemptions')
+    .select('coupon_id, code, currency, discount_amount, status, orders(payment_status)');
+
+  if (error) {
+    console.error('[ADMIN] Error fetching coupon redemptions:', error);
+    return [];
+  }
+
+  const stats = new Map<string, CouponRedemptionStats>();
+
+  for (const row of (data || []) as any[]) {
+    // Released reservations never became a discount
+    if (row.status === 'released') {
+      continue;
+    }
+
+    const entry = stats.get(row.coupon_id) || {
+      coupon_id: row.coupon_id,
+      code: row.code,
+      redemptions: 0,
+      paid_redemptions: 0,
+      discount_usd: 0,
+      discount_xaf: 0,
+    };
+
+    entry.redemptions++;
+
+    if (row.orders?.payment_status === 'paid') {
+      entry.paid_redemptions++;
+      if (row.currency === 'USD') {
+        entry.discount_usd += Number(row.discount_amount);
+      } else {
+        entry.discount_xaf += Number(row.discount_amount);
+      }
+    }
+
+    stats.set(row.coupon_id, entry);
+  }
+
+  return Array.from(stats.values()).sort((a, b) => b.redemptions - a.redemptions);
+}
@@ -0,0 +1,382 @@
+/**
+ * Bundle Order Service
+ * Parent/child order handling for multi-song bundles
+ *
+ * The customer pays once on the parent ("bundle") order. Each song is a
+ * child ("bundle_item") order with its own questionnaire, status pipeline
+ * and deliverable. Children mirror the parent's payment status and carry
+ * their share of the amount so refunds can be made per song.
+ */
+
+import { getServerClient } from '../lib/supabase/server';
+import { encrypt } from '../lib/security/encryption';
+import { isValidUUID } from '../lib/security/validation';
+import type { Tables } from '../types/database.types';
+import { roundAmount, type Currency } from './pricing.service';
+
+export type Order = Tables<'orders'>;
+
+// Statuses that count as finished for a bundle item
+const FINISHED_STATUSES = ['completed', 'delivered', 'cancelled', 'refunded'];
+
+// ============================================
+// CREATION
+// ============================================
+
+/**
+ * Split a bundle total into per-song shares.
+ * Rounding remainder goes to the first song so shares always sum to the total.
+ */
+export function allocateBundleAmounts(
+  total: number,
+  songCount: number,
+  currency: Currency
+): number[] {
+  const share = currency === 'XAF'
+    ? Math.floor(total / songCount)
+    : Math.floor((total / songCount) * 100) / 100;
+  const shares = Array(songCount).fill(share) as number[];
+  shares[0] = roundAmount(total - share * (songCount - 1), currency);
+  return shares;
+}
+
+/**
+ * Create the child song orders for a freshly created bundle parent
+ */
+export async function createBundleItems(
+  parent: Order,
+  songCount: number
+): Promise<{ success: boolean; error?: string; items?: Order[] }> {
+  const currency = parent.currency as Currency;
+  const shares = allocateBundleAmounts(Number(parent.amount_expected), songCount, currency);
+
+  const supabase = getServerClient();
+  const { data, error } = await supabase
+    .from('orders')
+    .insert(
+      shares.map((amount, index) => ({
+        customer_id: parent.customer_id,
+        customer_email: parent.customer_email,
+        customer_name: parent.customer_name,
+        package_slug: parent.package_slug,
+        occasion_slug: parent.occasion_slug,
+        status: parent.status,
+        payment_status: parent.payment_status,
+        currency: parent.currency,
+        amount_expected: amount,
+        due_date: parent.due_date,
+        order_type: 'bundle_item' as const,
+        parent_order_id: parent.id,
+        bundle_slug: parent.bundle_slug,
+        bundle_position: index + 1,
+      }))
+    )
+    .select()
+    .order('bundle_position');
+
+  if (error) {
+    console.error('[BUNDLE] Failed to create bundle items:', error.message);
+    return { success: false, error: 'Failed to create bundle songs' };
+  }
+
+  return { success: true, items: data ?? [] };
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Get the child song orders of a bundle, in song order
+ */
+export async function getBundleItems(parentOrderId: string): Promise<Order[]> {
+  if (!isValidUUID(parentOrderId)) {
+    return [];
+  }
+
+  const supabase = getServerClient();
+  const { data, error } = await supabase
+    .from('orders')
+    .select('*')
+    .eq('parent_order_id', parentOrderId)
+    .order('bundle_position');
+
+  if (error) {
+    console.error('[BUNDLE] Failed to fetch bundle items:', error.message);
+    return [];
+  }
+
+  return data ?? [];
+}
+
+// ============================================
+// PAYMENT & STATUS SYNC
+// ============================================
+
+/**
+ * Mirror a parent payment outcome onto its child orders
+ * Call after the parent order has been updated by a webhook or status check.
+ */
+export async function syncBundleItemsPayment(
+  parentOrderId: string,
+  paymentStatus: 'paid' | 'failed'
+): Promise<void> {
+  const supabase = getServerClient();
+  const items = await getBundleItems(parentOrderId);
+  if (items.length === 0) {
+    return;
+  }
+
+  const now = new Date().toISOString();
+
+  for (const item of items) {
+    const update = paymentStatus === 'paid'
+      ? {
+          payment_status: 'paid',
+          status: 'paid',
+          amount_paid: item.amount_expected,
+          paid_at: now,
+          updated_at: now,
+        }
+      : {
+          payment_status: 'failed',
+          updated_at: now,
+        };
+
+    const { error } = await supabase
+      .from('orders')
+      .update(update)
+      .eq('id', item.id);
+
+    if (error) {
+      console.error(`[BUNDLE] Failed to sync payment for item ${item.id}:`, error.message);
+      continue;
+    }
+
+    if (paymentStatus === 'paid') {
+      await supabase.from('order_status_history').insert({
+        order_id: item.id,
+        old_status: item.status,
+        new_status: 'paid',
+        changed_by: 'system',
+        notes: 'Paid as part of bundle',
+        created_at: now,
+      });
+    }
+  }
+}
+
+/**
+ * Roll child progress up to the parent: once every song is finished,
+ * the bundle takes the most advanced shared status.
+ */
+export async function syncBundleParentStatus(parentOrderId: string): Promise<void> {
+  const items = await getBundleItems(parentOrderId);
+  if (items.length === 0 || !items.every((item) => FINISHED_STATUSES.includes(item.status))) {
+    return;
+  }
+
+  const active = items.filter((item) => !['cancelled', 'refunded'].includes(item.status));
+  const newStatus = active.length === 0
+    ? 'cancelled'
+    : active.every((item) => item.status === 'delivered')
+      ? 'delivered'
+      : 'completed';
+
+  const supabase = getServerClient();
+  const { data: parent } = await supabase
+    .from('orders')
+    .select('status')
+    .eq('id', parentOrderId)
+    .single();
+
+  if (!parent || parent.status === newStatus) {
+    return;
+  }
+
+  await supabase
+    .from('orders')
+    .update({ status: newStatus, updated_at: new Date().toISOString() })
+    .eq('id', parentOrderId);
+
+  await supabase.from('order_status_history').insert({
+    order_id: parentOrderId,
+    old_status: parent.status,
+    new_status: newStatus,
+    changed_by: 'system',
+    notes: 'All bundle songs finished',
+    created_at: new Date().toISOString(),
+  });
+}
+
+// ============================================
+// REFUNDS
+// ============================================
+
+/**
+ * Add a song refund to its bundle parent's running refund total
+ */
+export async function applyBundleItemRefund(
+  parentOrderId: string,
+  refundAmount: number,
+  reason: string,
+  changedBy: string
+): Promise<void> {
+  const supabase = getServerClient();
+  const { data: parent } = await supabase
+    .from('orders')
+    .select('payment_status, status, amount_paid, refund_amount, currency')
+    .eq('id', parentOrderId)
+    .single();
+
+  if (!parent) {
+    console.error(`[BUNDLE] Parent order ${parentOrderId} not found for refund`);
+    return;
+  }
+
+  const totalRefunded = roundAmount(
+    Number(parent.refund_amount ?? 0) + refundAmount,
+    parent.currency as Currency
+  );
+  const isFullRefund = totalRefunded >= Number(parent.amount_paid);
+  const newPaymentStatus = isFullRefund ? 'refunded' : 'partially_refunded';
+  const now = new Date().toISOString();
+
+  const { error } = await supabase
+    .from('orders')
+    .update({
+      payment_status: newPaymentStatus,
+      status: isFullRefund ? 'cancelled' : parent.status,
+      refund_amount: totalRefunded,
+      refund_reason: reason,
+      refunded_at: now,
+      updated_at: now,
+    })
+    .eq('id', parentOrderId);
+
+  if (error) {
+    console.error('[BUNDLE] Failed to update parent refund:', error.message);
+    return;
+  }
+
+  await supabase.from('order_status_history').insert({
+    order_id: parentOrderId,
+    old_status: parent.payment_status,
+    new_status: newPaymentStatus,
+    changed_by: changedBy,
+    notes: `Bundle song refunded: ${parent.currency} ${refundAmount}`,
+    created_at: now,
+  });
+}
+
+/**
+ * Mark every song of a fully refunded bundle as refunded and cancelled
+ */
+export async function cascadeBundleRefund(
+  parentOrderId: string,
+  reason: string,
+  changedBy: string
+): Promise<void> {
+  const supabase = getServerClient();
+  const items = await getBundleItems(parentOrderId);
+  const now = new Date().toISOString();
+
+  for (const item of items) {
+    if (item.payment_status === 'refunded') {
+      continue;
+    }
+
+    const { error } = await supabase
+      .from('orders')
+      .update({
+        payment_status: 'refunded',
+        status: 'cancelled',
+        refund_amount: item.amount_paid,
+        refund_reason: reason,
+        refunded_at: now,
+        updated_at: now,
+      })
+      .eq('id', item.id);
+
+    if (error) {
+      console.error(`[BUNDLE] Failed to refund item ${item.id}:`, error.message);
+      continue;
+    }
+
+    await supabase.from('order_status_history').insert({
+      order_id: item.id,
+      old_status: item.payment_status,
+      new_status: 'refunded',
+      changed_by: changedBy,
+      notes: 'Refunded with bundle',
+      created_at: now,
+    });
+  }
+}
+
+// ============================================
+// QUESTIONNAIRES
+// ============================================
+
+/**
+ * Save the questionnaire for a bundle song the customer fills in later
+ */
+export async function saveBundleItemQuestionnaire(
+  orderId: string,
+  customerId: string,
+  questionnaire: Record<string, unknown> & { recipient_name?: string }
+): Promise<{ success: boolean; error?: string }> {
+  if (!isValidUUID(orderId)) {
+    return { success: false, error: 'Invalid order ID' };
+  }
+
+  const supabase = getServerClient();
+  const { data: order } = await supabase
+    .from('orders')
+    .select('id, customer_id, order_type, status')
+    .eq('id', orderId)
+    .single();
+
+  if (!order || order.customer_id !== customerId) {
+    return { success: false, error: 'Order not found' };
+  }
+
+  if (order.order_type !== 'bundle_item') {
+    return { success: false, error: 'Details can only be added to bundle songs' };
+  }
+
+  if (['cancelled', 'refunded'].includes(order.status)) {
+    return { success: false, error: 'This song has been cancelled' };
+  }
+
+  const { data: existing } = await supabase
+    .from('questionnaires')
+    .select('id')
+    .eq('order_id', orderId)
+    .limit(1);
+
+  if (existing && existing.length > 0) {
+    return { success: false, error: 'Details have already been submitted for this song' };
+  }
+
+  const encryptedData = await encrypt(JSON.stringify(questionnaire));
+  const { error } = await supabase.from('questionnaires').insert({
+    order_id: orderId,
+    encrypted_data: encryptedData,
+    recipient_name: questionnaire.recipient_name,
+  });
+
+  if (error) {
+    console.error('[BUNDLE] Failed to save questionnaire:', error.message);
+    return { success: false, error: 'Failed to save details' };
+  }
+
+  if (questionnaire.recipient_name) {
+    await supabase
+      .from('orders')
+      .update({ customer_name: questionnaire.recipient_name, updated_at: new Date().toISOString() })
+      .eq('id', orderId);
+  }
+
+  return { success: true };
+}
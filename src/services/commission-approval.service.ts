@@ -0,0 +1,327 @@
+/**
+ * Commission Auto-Approval Service
+ * Approves pending commissions once their hold period has passed
+ *
+ * The hold period is per program (config.commission_hold_days) and counts
+ * from the order's delivery. A commission stays pending for manual review
+ * while the agent has unresolved fraud signals, or while the order is
+ * refunded, has a refund in flight, is disputed or is in revision. Approval credits
+ * the agent's ledger through the commission status trigger.
+ */
+
+import { getServerClient } from '../lib/supabase/server';
+
+const BATCH_SIZE = 500;
+const DELIVERED_STATUSES = ['delivered', 'completed'];
+const REFUNDED_PAYMENT_STATUSES = ['refunded', 'partially_refunded'];
+const REFUND_IN_FLIGHT_STATUSES = ['requested', 'approved'];
+
+export interface AutoApprovalResult {
+  checked: number;
+  approved: number;
+  skipped: {
+    holding: number;
+    fraud: number;
+    refunded: number;
+    disputed: number;
+    revision: number;
+  };
+  errors: number;
+}
+
+interface PendingCommission {
+  id: string;
+  order_id: string;
+  referrer_id: string;
+  amount: number;
+  currency: string;
+  level: number;
+  held_at: string | null;
+  created_at: string;
+  referral_profiles: { program_id: string | null } | null;
+  orders: {
+    status: string;
+    payment_status: string;
+    refund_status: string | null;
+    delivered_at: string | null;
+  } | null;
+}
+
+// ============================================
+// JOB
+// ============================================
+
+/**
+ * Approve every pending commission that is past its hold period
+ */
+export async function autoApproveCommissions(now: Date = new Date()): Promise<AutoApprovalResult> {
+  const result: AutoApprovalResult = {
+    checked: 0,
+    approved: 0,
+    skipped: { holding: 0, fraud: 0, refunded: 0, disputed: 0, revision: 0 },
+    errors: 0,
+  };
+  const supabase = getServerClient();
+
+  // Programs without a hold period are approved by hand
+  const { data: programs, error: programError } = await supabase
+    .from('referral_programs')
+    .select('id, config');
+
+  if (programError) {
+    console.error('[COMMISSION APPROVAL] Failed to load programs:', programError.message);
+    result.errors++;
+    return result;
+  }
+
+  const holdDays = new Map<string, number>();
+  for (const program of programs || []) {
+    const days = Number(program.config?.commission_hold_days);
+    if (program.config?.commission_hold_days !== null && Number.isFinite(days) && days >= 0) {
+      holdDays.set(program.id, days);
+    }
+  }
+
+  if (holdDays.size === 0) {
+    return result;
+  }
+
+  // Only orders delivered at least the shortest hold period ago
+  const minHoldDays = Math.min(...holdDays.values());
+  const deliveredBefore = new Date(now.getTime() - minHoldDays * 24 * 60 * 60 * 1000);
+
+  // Page by (created_at, id) so commissions that stay pending can't fill every batch
+  let cursor: { createdAt: string; id: string } | null = null;
+
+  while (true) {
+    let query = supabase
+      .from('commissions')
+      .select('id, order_id, referrer_id, amount, currency, level, held_at, created_at, referral_profiles(program_id), orders!inner(status, payment_status, refund_status, delivered_at)')
+      .eq('status', 'pending')
+      .lte('orders.delivered_at', deliveredBefore.toISOString());
+
+    if (cursor) {
+      query = query.or(`created_at.gt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.gt.${cursor.id})`);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (error) {
+      console.error('[COMMISSION APPROVAL] Failed to load pending commissions:', error.message);
+      result.errors++;
+      return result;
+    }
+
+    const commissions = (data || []) as PendingCommission[];
+    if (commissions.length === 0) {
+      return result;
+    }
+
+    await processBatch(commissions, holdDays, now, result);
+
+    if (commissions.length < BATCH_SIZE) {
+      return result;
+    }
+
+    const last = commissions[commissions.length - 1];
+    cursor = { createdAt: last.created_at, id: last.id };
+  }
+}
+
+/**
+ * Approve the commissions in one page that are clear of every hold
+ */
+async function processBatch(
+  commissions: PendingCommission[],
+  holdDays: Map<string, number>,
+  now: Date,
+  result: AutoApprovalResult
+): Promise<void> {
+  const orderIds = [...new Set(commissions.map((c) => c.order_id))];
+  const referrerIds = [...new Set(commissions.map((c) => c.referrer_id))];
+
+  const [flaggedAgents, ordersInRevision, ordersRefunding] = await Promise.all([
+    getAgentsWithOpenFraudSignals(referrerIds),
+    getOrdersInRevision(orderIds),
+    getOrdersWithPendingRefunds(orderIds),
+  ]);
+
+  for (const commission of commissions) {
+    result.checked++;
+
+    const days = holdDays.get(commission.referral_profiles?.program_id ?? '');
+    const order = commission.orders;
+    if (days === undefined || !order) {
+      result.skipped.holding++;
+      continue;
+    }
+
+    if (
+      REFUNDED_PAYMENT_STATUSES.includes(order.payment_status) ||
+      REFUND_IN_FLIGHT_STATUSES.includes(order.refund_status ?? '') ||
+      ordersRefunding.has(commission.order_id)
+    ) {
+      result.skipped.refunded++;
+      continue;
+    }
+
+    if (commission.held_at || order.payment_status === 'disputed') {
+      result.skipped.disputed++;
+      continue;
+    }
+
+    if (order.status === 'revision' || ordersInRevision.has(commission.order_id)) {
+      result.skipped.revision++;
+      continue;
+    }
+
+    const releaseAt = order.delivered_at
+      ? new Date(order.delivered_at).getTime() + days * 24 * 60 * 60 * 1000
+      : null;
+    if (!DELIVERED_STATUSES.includes(order.status) || releaseAt === null || releaseAt > now.getTime()) {
+      result.skipped.holding++;
+      continue;
+    }
+
+    if (flaggedAgents.has(commission.referrer_id)) {
+      result.skipped.fraud++;
+      continue;
+    }
+
+    if (await approveCommission(commission, days, order.delivered_at!, now)) {
+      result.approved++;
+    } else {
+      result.errors++;
+    }
+  }
+}
+
+/**
+ * Approve one commission and log it
+ * Conditional on pending so a manual decision in the meantime wins.
+ */
+async function approveCommission(
+  commission: PendingCommission,
+  holdDays: number,
+  deliveredAt: string,
+  now: Date
+): Promise<boolean> {
+  const supabase = getServerClient();
+
+  const { data: approved, error } = await supabase
+    .from('commissions')
+    .update({
+      status: 'approved',
+      approved_at: now.toISOString(),
+      notes: `Auto-approved after ${holdDays}-day hold`,
+    })
+    .eq('id', commission.id)
+    .eq('status', 'pending')
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    console.error(`[COMMISSION APPROVAL] Failed to approve commission ${commission.id}:`, error.message);
+    return false;
+  }
+  if (!approved) {
+    return true;
+  }
+
+  const { error: eventError } = await supabase.from('referral_events').insert({
+    event_type: 'commission_auto_approved',
+    referrer_id: commission.referrer_id,
+    order_id: commission.order_id,
+    commission_id: commission.id,
+    data: {
+      amount: commission.amount,
+      currency: commission.currency,
+      level: commission.level,
+      hold_days: holdDays,
+      delivered_at: deliveredAt,
+    },
+  });
+
+  if (eventError) {
+    console.error('[COMMISSION APPROVAL] Failed to log referral event:', eventError.message);
+  }
+
+  return true;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+async function getAgentsWithOpenFraudSignals(referrerIds: string[]): Promise<Set<string>> {
+  const supabase = getServerClient();
+  const { data, error } = await supabase
+    .from('referral_fraud_signals')
+    .select('referrer_id')
+    .in('referrer_id', referrerIds)
+    .eq('resolved', false);
+
+  if (error) {
+    // Fail closed: nobody is auto-approved without the fraud check
+    console.error('[COMMISSION APPROVAL] Failed to load fraud signals:', error.message);
+    return new Set(referrerIds);
+  }
+
+  return new Set((data || []).map((s: { referrer_id: string }) => s.referrer_id));
+}
+
+/**
+ * Orders (or bundles with a song) that have an open revision request
+ */
+async function getOrdersInRevision(orderIds: string[]): Promise<Set<string>> {
+  const supabase = getServerClient();
+  const { data: items } = await supabase
+    .from('orders')
+    .select('id, parent_order_id, status')
+    .in('parent_order_id', orderIds);
+
+  const rootOf = new Map<string, string>(orderIds.map((id) => [id, id]));
+  const inRevision = new Set<string>();
+  for (const item of items || []) {
+    rootOf.set(item.id, item.parent_order_id!);
+    if (item.status === 'revision') {
+      inRevision.add(item.parent_order_id!);
+    }
+  }
+
+  const { data: requests, error } = await supabase
+    .from('revision_requests')
+    .select('order_id')
+    .in('order_id', [...rootOf.keys()])
+    .in('status', ['pending', 'accepted']);
+
+  if (error) {
+    console.error('[COMMISSION APPROVAL] Failed to load revision requests:', error.message);
+    return new Set(orderIds);
+  }
+
+  for (const request of requests || []) {
+    inRevision.add(rootOf.get(request.order_id) ?? request.order_id);
+  }
+
+  return inRevision;
+}
+
+async function getOrdersWithPendingRefunds(orderIds: string[]): Promise<Set<string>> {
+  const supabase = getServerClient();
+  const { data, error } = await supabase
+    .from('payment_refunds')
+    .select('order_id')
+    .in('order_id', orderIds)
+    .eq('status', 'pending');
+
+  if (error) {
+    console.error('[COMMISSION APPROVAL] Failed to load pending refunds:', error.message);
+    return new Set(orderIds);
+  }
+
+  return new Set((data || []).map((r) => r.order_id));
+}
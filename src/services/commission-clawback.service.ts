@@ -0,0 +1,47 @@
+/**
+ * Commission Clawback Service
+ * Takes back affiliate commissions when an order's money is returned
+ *
+ * The work happens in clawback_order_commissions(): pending commissions
+ * are rejected on any refund, partial or full; credited ones are debited
+ * from the agent's ledger in proportion to the reversed share - leaving
+ * a negative balance when the commission was already withdrawn. Each
+ * step is logged to referral_events.
+ */
+
+import { getServerClient } from '../lib/supabase/server';
+
+export type ClawbackSource = 'refund' | 'chargeback';
+
+/**
+ * Claw back the commissions on an order
+ * reversedAmount defaults to the order's refund_amount. Safe to repeat:
+ * only the difference from earlier clawbacks is taken.
+ * Commissions live on the bundle parent, so pass that for bundle items.
+ */
+export async function clawbackOrderCommissions(
+  orderId: string,
+  reason: string,
+  source: ClawbackSource,
+  reversedAmount?: number
+): Promise<number> {
+  const supabase = getServerClient();
+  const { data, error } = await supabase.rpc('clawback_order_commissions', {
+    p_order_id: orderId,
+    p_reason: reason,
+    p_source: source,
+    p_reversed_amount: reversedAmount ?? null,
+  });
+
+  if (error) {
+    // The refund itself has gone through - flag for manual follow-up
+    console.error(`[CLAWBACK] Failed to claw back commissions for order ${orderId}:`, error.message);
+    return 0;
+  }
+
+  if (data && data > 0) {
+    console.log(`[CLAWBACK] Clawed back ${data} commission(s) for order ${orderId} (${source})`);
+  }
+
+  return data ?? 0;
+}
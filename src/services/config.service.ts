@@ -11,6 +11,7 @@
 import { getServerClient } from '../lib/supabase/server';
 import { supabase as browserClient } from '../lib/supabase/client';
 import type { Database, Tables } from '../types/database.types';
+import { DEFAULT_LOCALE, localizeContent, type Locale } from '../lib/i18n';
 import type { RealtimeChannel } from '@supabase/supabase-js';
 
 // Cache TTL in milliseconds
@@ -147,8 +148,8 @@ export type Package = Tables<'config_packages'>;
 /**
  * Get all active packages ordered by display_order
  */
-export async function getPackages(): Promise<Package[]> {
-  return getCached('packages:active', async () => {
+export async function getPackages(locale: Locale = DEFAULT_LOCALE): Promise<Package[]> {
+  const packages = await getCached('packages:active', async () => {
     const supabase = getServerClient();
     const { data, error } = await supabase
       .from('config_packages')
@@ -159,13 +160,18 @@ export async function getPackages(): Promise<Package[]> {
     if (error) throw error;
     return data ?? [];
   });
+
+  return packages.map((pkg) => localizeContent(pkg, locale));
 }
 
 /**
  * Get a single package by slug
  */
-export async function getPackageBySlug(slug: string): Promise<Package | null> {
-  return getCached(`packages:${slug}`, async () => {
+export async function getPackageBySlug(
+  slug: string,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<Package | null> {
+  const pkg = await getCached(`packages:${slug}`, async () => {
     const supabase = getServerClient();
     const { data, error } = await supabase
       .from('config_packages')
@@ -177,6 +183,8 @@ export async function getPackageBySlug(slug: string): Promise<Package | null> {
     if (error && error.code !== 'PGRST116') throw error;
     return data;
   });
+
+  return pkg && localizeContent(pkg, locale);
 }
 
 /**
@@ -198,8 +206,8 @@ export type Occasion = Tables<'config_occasions'>;
 /**
  * Get all active occasions ordered by display_order
  */
-export async function getOccasions(): Promise<Occasion[]> {
-  return getCached('occasions:active', async () => {
+export async function getOccasions(locale: Locale = DEFAULT_LOCALE): Promise<Occasion[]> {
+  const occasions = await getCached('occasions:active', async () => {
     const supabase = getServerClient();
     const { data, error } = await supabase
       .from('config_occasions')
@@ -210,13 +218,18 @@ export async function getOccasions(): Promise<Occasion[]> {
     if (error) throw error;
     return data ?? [];
   });
+
+  return occasions.map((occasion) => localizeContent(occasion, locale));
 }
 
 /**
  * Get a single occasion by slug
  */
-export async function getOccasionBySlug(slug: string): Promise<Occasion | null> {
-  return getCached(`occasions:${slug}`, async () => {
+export async function getOccasionBySlug(
+  slug: string,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<Occasion | null> {
+  const occasion = await getCached(`occasions:${slug}`, async () => {
     const supabase = getServerClient();
     const { data, error } = await supabase
       .from('config_occasions')
@@ -228,6 +241,8 @@ export async function getOccasionBySlug(slug: string): Promise<Occasion | null>
     if (error && error.code !== 'PGRST116') throw error;
     return data;
   });
+
+  return occasion && localizeContent(occasion, locale);
 }
 
 // ============================================
@@ -410,11 +425,11 @@ export type Testimonial = Tables<'config_testimonials'>;
  * Get active testimonials
  */
 export async function getTestimonials(
-  options: { featured?: boolean; limit?: number } = {}
+  options: { featured?: boolean; limit?: number; locale?: Locale } = {}
 ): Promise<Testimonial[]> {
   const cacheKey = `testimonials:${options.featured ? 'featured' : 'all'}:${options.limit ?? 'all'}`;
 
-  return getCached(cacheKey, async () => {
+  const testimonials = await getCached(cacheKey, async () => {
     const supabase = getServerClient();
     let query = supabase
       .from('config_testimonials')
@@ -434,6 +449,10 @@ export async function getTestimonials(
     if (error) throw error;
     return data ?? [];
   });
+
+  return testimonials.map((testimonial) =>
+    localizeContent(testimonial, options.locale ?? DEFAULT_LOCALE)
+  );
 }
 
 // ============================================
@@ -490,11 +509,12 @@ export type Sample = Tables<'config_samples'>;
  * Get active samples
  */
 export async function getSamples(
-  options: { featured?: boolean; occasion?: string; limit?: number } = {}
+  options: { featured?: boolean; occasion?: string; limit?: number; locale?: Locale } = {}
 ): Promise<Sample[]> {
-  const cacheKey = `samples:${JSON.stringify(options)}`;
+  const { locale = DEFAULT_LOCALE, ...filters } = options;
+  const cacheKey = `samples:${JSON.stringify(filters)}`;
 
-  return getCached(cacheKey, async () => {
+  const samples = await getCached(cacheKey, async () => {
     const supabase = getServerClient();
     let query = supabase
       .from('config_samples')
@@ -518,6 +538,8 @@ export async function getSamples(
     if (error) throw error;
     return data ?? [];
   });
+
+  return samples.map((sample) => localizeContent(sample, locale));
 }
 
 // ============================================
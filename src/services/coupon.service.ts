@@ -0,0 +1,230 @@
+/**
+ * Coupon Service
+ * Promo code validation, discount calculation and redemption
+ *
+ * Coupons are deliberately not cached: caps and validity windows must be
+ * evaluated against live data. Caps are enforced atomically by the
+ * redeem_coupon() database function; validateCoupon() only gives the
+ * customer an early, friendly answer.
+ *
+ * A redemption is reserved when the order is created, confirmed when the
+ * order is paid and released when the payment fails or the checkout
+ * expires (see the coupon_redemptions triggers).
+ */
+
+import { getServerClient } from '../lib/supabase/server';
+import type { Tables } from '../types/database.types';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type Coupon = Tables<'config_coupons'>;
+
+export interface CouponContext {
+  currency: 'USD' | 'XAF';
+  packageSlug: string;
+  occasionSlug?: string;
+  customerId?: string;
+}
+
+export type CouponResult =
+  | { success: true; data: Coupon }
+  | { success: false; error: string };
+
+export interface RedeemCouponParams {
+  couponId: string;
+  orderId: string;
+  customerId: string;
+  currency: 'USD' | 'XAF';
+  discountAmount: number;
+}
+
+// Reason codes returned by redeem_coupon()
+const REDEMPTION_ERRORS: Record<string, string> = {
+  inactive: 'This promo code is no longer active',
+  expired: 'This promo code has expired',
+  exhausted: 'This promo code has reached its redemption limit',
+  customer_limit: 'You have already used this promo code',
+  not_first_order: 'This promo code is only valid on your first order',
+};
+
+// ============================================
+// LOOKUP
+// ============================================
+
+/**
+ * Normalize user-entered code (codes are stored uppercase)
+ */
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Get an active coupon by code
+ */
+export async function getCouponByCode(code: string): Promise<Coupon | null> {
+  const normalized = normalizeCouponCode(code);
+  if (!/^[A-Z0-9_-]{3,32}$/.test(normalized)) {
+    return null;
+  }
+
+  const supabase = getServerClient();
+  const { data, error } = await supabase
+    .from('config_coupons')
+    .select('*')
+    .eq('code', normalized)
+    .eq('is_active', true)
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    console.error('[COUPON] Failed to fetch coupon:', error.message);
+  }
+
+  return data ?? null;
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+/**
+ * Check whether a code can be applied to this order
+ */
+export async function validateCoupon(
+  code: string,
+  context: CouponContext
+): Promise<CouponResult> {
+  const coupon = await getCouponByCode(code);
+  if (!coupon) {
+    return { success: false, error: 'Invalid promo code' };
+  }
+
+  const now = Date.now();
+  if (coupon.starts_at && new Date(coupon.starts_at).getTime() > now) {
+    return { success: false, error: 'This promo code is not active yet' };
+  }
+  if (coupon.ends_at && new Date(coupon.ends_at).getTime() <= now) {
+    return { success: false, error: REDEMPTION_ERRORS.expired };
+  }
+
+  if (coupon.max_redemptions !== null && coupon.redemption_count >= coupon.max_redemptions) {
+    return { success: false, error: REDEMPTION_ERRORS.exhausted };
+  }
+
+  // Fixed coupons are only valid in currencies they define an amount for
+  if (coupon.discount_type === 'fixed') {
+    const amount = context.currency === 'USD' ? coupon.amount_usd : coupon.amount_xaf;
+    if (amount === null) {
+      return { success: false, error: `This promo code can't be used with ${context.currency}` };
+    }
+  }
+
+  if (coupon.package_slugs?.length && !coupon.package_slugs.includes(context.packageSlug)) {
+    return { success: false, error: "This promo code doesn't apply to the selected package" };
+  }
+
+  if (
+    coupon.occasion_slugs?.length &&
+    (!context.occasionSlug || !coupon.occasion_slugs.includes(context.occasionSlug))
+  ) {
+    return { success: false, error: "This promo code doesn't apply to this occasion" };
+  }
+
+  const needsCustomer = coupon.first_order_only || coupon.max_redemptions_per_customer !== null;
+  if (needsCustomer && !context.customerId) {
+    return { success: false, error: 'Please sign in to use this promo code' };
+  }
+
+  const supabase = getServerClient();
+
+  if (coupon.first_order_only && context.customerId) {
+    const { count } = await supabase
+      .from('orders')
+      .select('id', { count: 'exact', head: true })
+      .eq('customer_id', context.customerId)
+      .eq('payment_status', 'paid');
+
+    if ((count ?? 0) > 0) {
+      return { success: false, error: REDEMPTION_ERRORS.not_first_order };
+    }
+  }
+
+  if (coupon.max_redemptions_per_customer !== null && context.customerId) {
+    const { count } = await supabase
+      .from('coupon_redemptions')
+      .select('id', { count: 'exact', head: true })
+      .eq('coupon_id', coupon.id)
+      .eq('customer_id', context.customerId)
+      .neq('status', 'released');
+
+    if ((count ?? 0) >= coupon.max_redemptions_per_customer) {
+      return { success: false, error: REDEMPTION_ERRORS.customer_limit };
+    }
+  }
+
+  return { success: true, data: coupon };
+}
+
+/**
+ * Calculate discount for an order amount (never exceeds the amount)
+ */
+export function calculateCouponDiscount(
+  coupon: Coupon,
+  amount: number,
+  currency: 'USD' | 'XAF'
+): number {
+  let discount: number;
+
+  if (coupon.discount_type === 'percentage') {
+    discount = (amount * (coupon.percentage ?? 0)) / 100;
+  } else {
+    discount = (currency === 'USD' ? coupon.amount_usd : coupon.amount_xaf) ?? 0;
+  }
+
+  return Math.max(0, Math.min(discount, amount));
+}
+
+// ============================================
+// REDEMPTION
+// ============================================
+
+/**
+ * Reserve a redemption for an order, enforcing global and per-customer caps atomically
+ */
+export async function redeemCoupon(
+  params: RedeemCouponParams
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = getServerClient();
+  const { data: reason, error } = await supabase.rpc('redeem_coupon', {
+    p_coupon_id: params.couponId,
+    p_order_id: params.orderId,
+    p_customer_id: params.customerId,
+    p_currency: params.currency,
+    p_discount_amount: params.discountAmount,
+  });
+
+  if (error) {
+    console.error('[COUPON] Redemption failed:', error.message);
+    return { success: false, error: 'Failed to apply promo code' };
+  }
+
+  if (reason) {
+    return { success: false, error: REDEMPTION_ERRORS[reason] || 'This promo code can no longer be used' };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Give back an order's reserved redemption (e.g. its checkout expired)
+ * Paid orders keep their confirmed redemption.
+ */
+export async function releaseCouponRedemption(orderId: string): Promise<void> {
+  const supabase = getServerClient();
+  const { error } = await supabase.rpc('release_coupon_redemption', { p_order_id: orderId });
+
+  if (error) {
+    console.error('[COUPON] Failed to release redemption:', error.message);
+  }
+}
@@ -0,0 +1,387 @@
+/**
+ * Deliverable Upload Service
+ * Presigned multipart uploads straight to R2
+ *
+ * Large masters and music videos don't fit through the API route, so the
+ * browser uploads parts directly to R2. The session is recorded up front
+ * with the declared size and MIME type. The client hashes each part before
+ * asking for its URL; the part's SHA-256 is signed into the URL, so R2 rejects
+ * a part whose body doesn't match and validates every part again when the
+ * upload is assembled. The stored object is checked against the declared
+ * size, MIME type and checksum, and its leading bytes against the container
+ * that MIME type names, before it becomes a deliverable.
+ *
+ * Checksum = hex SHA-256 of the concatenated SHA-256 digests of each part,
+ * which is R2's composite checksum for the assembled object.
+ */
+
+import { getServerClient } from '../lib/supabase/server';
+import { isValidUUID } from '../lib/security/validation';
+import {
+  validateDeliverableFile,
+  generateDeliverableKey,
+  getMultipartPartSize,
+  createMultipartUpload,
+  getSignedUploadPartUrl,
+  completeMultipartUpload,
+  abortMultipartUpload,
+  getFileInfo,
+  getFileHead,
+  matchesFileSignature,
+  FILE_SIGNATURE_BYTES,
+  deleteFile,
+} from '../lib/storage/r2-client';
+import type { Tables } from '../types/database.types';
+import {
+  recordDeliverable,
+  canDeliverFileType,
+  isDeliverableFileType,
+  type OrderDeliverable,
+} from './deliverable.service';
+import { hasOpenDispute } from './dispute.service';
+
+export type DeliverableUpload = Tables<'deliverable_uploads'>;
+
+// Presigned part URLs are short-lived; the client asks for more as it goes
+const PART_URL_TTL_SECONDS = 3600;
+const MAX_PART_URLS_PER_REQUEST = 100;
+
+const SHA256_HEX = /^[a-f0-9]{64}$/;
+const SHA256_BASE64 = /^[A-Za-z0-9+/]{43}=$/;
+
+type UploadResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string };
+
+// ============================================
+// HELPERS
+// ============================================
+
+async function getUploadById(uploadId: string): Promise<DeliverableUpload | null> {
+  if (!isValidUUID(uploadId)) {
+    return null;
+  }
+
+  const supabase = getServerClient();
+  const { data } = await supabase
+    .from('deliverable_uploads')
+    .select('*')
+    .eq('id', uploadId)
+    .single();
+
+  return data;
+}
+
+async function failUpload(upload: DeliverableUpload, reason: string): Promise<void> {
+  await deleteFile(upload.storage_key);
+
+  const supabase = getServerClient();
+  await supabase
+    .from('deliverable_uploads')
+    .update({ status: 'failed', failure_reason: reason, completed_at: new Date().toISOString() })
+    .eq('id', upload.id);
+}
+
+// ============================================
+// UPLOAD FLOW
+// ============================================
+
+/**
+ * Start a multipart upload for an order deliverable
+ */
+export async function initiateDeliverableUpload(params: {
+  orderId: string;
+  fileType: string;
+  label?: string | null;
+  filename: string;
+  contentType: string;
+  size: number;
+  adminId: string;
+}): Promise<UploadResult<DeliverableUpload>> {
+  const { orderId, fileType, filename, contentType, size } = params;
+
+  if (!isValidUUID(orderId)) {
+    return { success: false, error: 'Invalid order ID' };
+  }
+
+  if (!isDeliverableFileType(fileType)) {
+    return { success: false, error: 'Invalid deliverable type' };
+  }
+
+  if (!Number.isSafeInteger(size) || size <= 0) {
+    return { success: false, error: 'Invalid file size' };
+  }
+
+  if (!contentType) {
+    return { success: false, error: 'File type is required' };
+  }
+
+  const validation = validateDeliverableFile(fileType, filename, contentType, size);
+  if (!validation.valid) {
+    return { success: false, error: validation.error || 'Invalid file' };
+  }
+
+  const supabase = getServerClient();
+  const { data: order } = await supabase
+    .from('orders')
+    .select('id, order_number, parent_order_id')
+    .eq('id', orderId)
+    .single();
+
+  if (!order) {
+    return { success: false, error: 'Order not found' };
+  }
+
+  if (!(await canDeliverFileType(order, fileType))) {
+    return { success: false, error: 'Videos can only be delivered for orders with a video product' };
+  }
+
+  if (await hasOpenDispute(order.id, order.parent_order_id)) {
+    return { success: false, error: 'Delivery is frozen while a payment dispute on this order is open' };
+  }
+
+  const storageKey = generateDeliverableKey(orderId, filename);
+  const partSize = getMultipartPartSize(size);
+
+  const multipart = await createMultipartUpload(storageKey, contentType, {
+    orderId,
+    orderNumber: order.order_number,
+    uploadedBy: params.adminId,
+    fileType,
+  });
+
+  if (!multipart.success || !multipart.uploadId) {
+    return { success: false, error: multipart.error || 'Failed to start upload' };
+  }
+
+  const { data: upload, error } = await supabase
+    .from('deliverable_uploads')
+    .insert({
+      order_id: orderId,
+      file_type: fileType,
+      label: params.label?.trim() || null,
+      filename,
+      content_type: contentType,
+      size_bytes: size,
+      storage_key: storageKey,
+      r2_upload_id: multipart.uploadId,
+      part_size: partSize,
+      part_count: Math.ceil(size / partSize),
+      created_by: params.adminId,
+    })
+    .select()
+    .single();
+
+  if (error || !upload) {
+    console.error('[UPLOAD] Failed to record upload session:', error?.message);
+    await abortMultipartUpload(storageKey, multipart.uploadId);
+    return { success: false, error: 'Failed to start upload' };
+  }
+
+  return { success: true, data: upload };
+}
+
+/**
+ * Presign upload URLs for a batch of parts, each bound to its base64 SHA-256
+ */
+export async function signDeliverableUploadParts(
+  uploadId: string,
+  parts: { part_number: number; checksum_sha256: string }[]
+): Promise<UploadResult<{ part_number: number; url: string }[]>> {
+  const upload = await getUploadById(uploadId);
+  if (!upload) {
+    return { success: false, error: 'Upload not found' };
+  }
+
+  if (upload.status !== 'uploading') {
+    return { success: false, error: `Upload is ${upload.status}` };
+  }
+
+  const partNumbers = new Set(parts.map((p) => p.part_number));
+  if (
+    parts.length === 0 ||
+    parts.length > MAX_PART_URLS_PER_REQUEST ||
+    partNumbers.size !== parts.length ||
+    parts.some((p) => !Number.isInteger(p.part_number) || p.part_number < 1 || p.part_number > upload.part_count)
+  ) {
+    return { success: false, error: 'Invalid part numbers' };
+  }
+
+  if (parts.some((p) => typeof p.checksum_sha256 !== 'string' || !SHA256_BASE64.test(p.checksum_sha256))) {
+    return { success: false, error: 'Invalid part checksum' };
+  }
+
+  const urls = await Promise.all(
+    parts.map(async (part) => ({
+      partNumber: part.part_number,
+      result: await getSignedUploadPartUrl(
+        upload.storage_key,
+        upload.r2_upload_id,
+        part.part_number,
+        part.checksum_sha256,
+        PART_URL_TTL_SECONDS
+      ),
+    }))
+  );
+
+  const failed = urls.find(({ result }) => !result.success || !result.url);
+  if (failed) {
+    return { success: false, error: failed.result.error || 'Failed to generate part upload URL' };
+  }
+
+  return {
+    success: true,
+    data: urls.map(({ partNumber, result }) => ({ part_number: partNumber, url: result.url! })),
+  };
+}
+
+/**
+ * Assemble the parts, verify size, MIME type, contents and checksum, then record
+ * the object as the next deliverable version
+ */
+export async function completeDeliverableUpload(
+  uploadId: string,
+  parts: { part_number: number; etag: string; checksum_sha256: string }[],
+  checksumSha256: string,
+  adminId: string
+): Promise<UploadResult<{ upload: DeliverableUpload; deliverable: OrderDeliverable }>> {
+  const checksum = checksumSha256.toLowerCase();
+  if (!SHA256_HEX.test(checksum)) {
+    return { success: false, error: 'Invalid checksum' };
+  }
+
+  const upload = await getUploadById(uploadId);
+  if (!upload) {
+    return { success: false, error: 'Upload not found' };
+  }
+
+  const partNumbers = new Set(parts.map((p) => p.part_number));
+  if (
+    parts.length !== upload.part_count ||
+    partNumbers.size !== upload.part_count ||
+    parts.some((p) => !Number.isInteger(p.part_number) || p.part_number < 1 || p.part_number > upload.part_count || !p.etag)
+  ) {
+    return { success: false, error: `Expected ${upload.part_count} uploaded parts` };
+  }
+
+  if (parts.some((p) => typeof p.checksum_sha256 !== 'string' || !SHA256_BASE64.test(p.checksum_sha256))) {
+    return { success: false, error: 'Invalid part checksum' };
+  }
+
+  // Claim the session so a double submit can't record it twice
+  const supabase = getServerClient();
+  const { data: claimed } = await supabase
+    .from('deliverable_uploads')
+    .update({ status: 'verifying', checksum_sha256: checksum })
+    .eq('id', upload.id)
+    .eq('status', 'uploading')
+    .select('id')
+    .maybeSingle();
+
+  if (!claimed) {
+    return { success: false, error: `Upload is ${upload.status}` };
+  }
+
+  // R2 validates each part against its checksum here
+  const assembled = await completeMultipartUpload(
+    upload.storage_key,
+    upload.r2_upload_id,
+    parts.map((p) => ({ partNumber: p.part_number, etag: p.etag, checksumSha256: p.checksum_sha256 }))
+  );
+
+  if (!assembled.success) {
+    // Parts are still there - let the client retry or abort
+    await supabase.from('deliverable_uploads').update({ status: 'uploading' }).eq('id', upload.id);
+    return { success: false, error: assembled.error || 'Failed to complete upload' };
+  }
+
+  // Verify the stored object against what was declared at initiation
+  const info = await getFileInfo(upload.storage_key);
+  if (!info || info.size !== Number(upload.size_bytes)) {
+    await failUpload(upload, 'size_mismatch');
+    return { success: false, error: 'Uploaded file size does not match' };
+  }
+
+  if (info.contentType !== upload.content_type) {
+    await failUpload(upload, 'content_type_mismatch');
+    return { success: false, error: 'Uploaded file type does not match' };
+  }
+
+  // The MIME type is only what the browser claimed; sniff the container
+  const head = await getFileHead(upload.storage_key, FILE_SIGNATURE_BYTES);
+  if (!head || !matchesFileSignature(upload.content_type, head)) {
+    await failUpload(upload, 'signature_mismatch');
+    return { success: false, error: 'Uploaded file contents do not match its type' };
+  }
+
+  const storedChecksum = assembled.checksumSha256;
+  if (storedChecksum !== checksum) {
+    await failUpload(upload, storedChecksum ? 'checksum_mismatch' : 'checksum_unavailable');
+    return { success: false, error: 'Uploaded file checksum does not match' };
+  }
+
+  const recorded = await recordDeliverable({
+    orderId: upload.order_id,
+    fileType: upload.file_type,
+    label: upload.label,
+    storageKey: upload.storage_key,
+    filename: upload.filename,
+    contentType: upload.content_type,
+    sizeBytes: info.size,
+    uploadedBy: adminId,
+  });
+
+  if (!recorded.success || !recorded.deliverable) {
+    await supabase
+      .from('deliverable_uploads')
+      .update({ status: 'failed', failure_reason: 'record_failed', completed_at: new Date().toISOString() })
+      .eq('id', upload.id);
+    return { success: false, error: recorded.error || 'Failed to record deliverable' };
+  }
+
+  const { data: completed } = await supabase
+    .from('deliverable_uploads')
+    .update({
+      status: 'completed',
+      deliverable_id: recorded.deliverable.id,
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', upload.id)
+    .select()
+    .single();
+
+  return {
+    success: true,
+    data: { upload: completed ?? upload, deliverable: recorded.deliverable },
+  };
+}
+
+/**
+ * Abort an unfinished upload and discard its parts
+ */
+export async function abortDeliverableUpload(
+  uploadId: string
+): Promise<UploadResult<DeliverableUpload>> {
+  const upload = await getUploadById(uploadId);
+  if (!upload) {
+    return { success: false, error: 'Upload not found' };
+  }
+
+  if (upload.status !== 'uploading') {
+    return { success: false, error: `Upload is ${upload.status}` };
+  }
+
+  const aborted = await abortMultipartUpload(upload.storage_key, upload.r2_upload_id);
+  if (!aborted.success) {
+    return { success: false, error: aborted.error || 'Failed to abort upload' };
+  }
+
+  const supabase = getServerClient();
+  await supabase
+    .from('deliverable_uploads')
+    .update({ status: 'aborted', completed_at: new Date().toISOString() })
+    .eq('id', upload.id)
+    .eq('status', 'uploading');
+
+  return { success: true, data: upload };
+}
@@ -0,0 +1,422 @@
+/**
+ * Deliverable Service
+ * Versioned files delivered for an order
+ *
+ * Every upload adds a new version per (order, file type) instead of
+ * overwriting, so files delivered before a revision stay downloadable.
+ * The order's deliverable_* columns keep pointing at the latest song
+ * upload for older readers.
+ */
+
+import { getServerClient } from '../lib/supabase/server';
+import { isValidUUID } from '../lib/security/validation';
+import type { DeliverableFileType } from '../lib/storage/r2-client';
+import type { Tables } from '../types/database.types';
+import { syncBundleParentStatus } from './bundle-order.service';
+
+export type { DeliverableFileType };
+
+export type OrderDeliverable = Tables<'order_deliverables'>;
+
+export const DELIVERABLE_FILE_TYPES: DeliverableFileType[] = [
+  'mp3',
+  'wav_master',
+  'instrumental',
+  'lyric_sheet',
+  'video',
+  'preview',
+];
+
+export const DELIVERABLE_LABELS: Record<DeliverableFileType, string> = {
+  mp3: 'Song (MP3)',
+  wav_master: 'WAV Master',
+  instrumental: 'Instrumental',
+  lyric_sheet: 'Lyric Sheet (PDF)',
+  video: 'Video',
+  preview: 'Preview (watermarked)',
+};
+
+// File types that stand in for "the song" on the order row
+const SONG_FILE_TYPES: DeliverableFileType[] = ['mp3', 'wav_master'];
+
+// Retries when two uploads race for the same version number
+const MAX_VERSION_ATTEMPTS = 3;
+
+type DeliveryOrder = Pick<
+  Tables<'orders'>,
+  'id' | 'order_number' | 'status' | 'package_slug' | 'parent_order_id'
+> & {
+  profiles?: unknown;
+};
+
+export function isDeliverableFileType(value: unknown): value is DeliverableFileType {
+  return typeof value === 'string' && DELIVERABLE_FILE_TYPES.includes(value as DeliverableFileType);
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Get every deliverable version for an order, newest version first per type.
+ * Previews are stream-only and left out unless asked for.
+ */
+export async function getOrderDeliverables(
+  orderId: string,
+  options: { includePreviews?: boolean } = {}
+): Promise<OrderDeliverable[]> {
+  if (!isValidUUID(orderId)) {
+    return [];
+  }
+
+  const supabase = getServerClient();
+  let query = supabase
+    .from('order_deliverables')
+    .select('*')
+    .eq('order_id', orderId);
+
+  if (!options.includePreviews) {
+    query = query.neq('file_type', 'preview');
+  }
+
+  const { data, error } = await query
+    .order('file_type', { ascending: true })
+    .order('version', { ascending: false });
+
+  if (error) {
+    console.error('[DELIVERABLE] Failed to fetch deliverables:', error.message);
+    return [];
+  }
+
+  return data ?? [];
+}
+
+/**
+ * Ids of the newest version of each file type
+ */
+export function getLatestDeliverableIds(deliverables: OrderDeliverable[]): Set<string> {
+  const latest = new Map<string, OrderDeliverable>();
+  for (const deliverable of deliverables) {
+    const current = latest.get(deliverable.file_type);
+    if (!current || deliverable.version > current.version) {
+      latest.set(deliverable.file_type, deliverable);
+    }
+  }
+  return new Set([...latest.values()].map((d) => d.id));
+}
+
+/**
+ * Videos can only be delivered on orders that bought a video product.
+ * Bundle songs use the video products bought on their bundle.
+ */
+export async function canDeliverFileType(
+  order: Pick<Tables<'orders'>, 'id' | 'parent_order_id'>,
+  fileType: DeliverableFileType
+): Promise<boolean> {
+  if (fileType !== 'video') {
+    return true;
+  }
+
+  const supabase = getServerClient();
+  const { count } = await supabase
+    .from('order_line_items')
+    .select('id', { count: 'exact', head: true })
+    .eq('order_id', order.parent_order_id ?? order.id)
+    .eq('item_type', 'video_product');
+
+  return (count ?? 0) > 0;
+}
+
+// ============================================
+// RECORDING
+// ============================================
+
+/**
+ * Record an uploaded file as the next version of its type.
+ * Uploads made while a revision round is accepted are tagged with it.
+ */
+export async function recordDeliverable(params: {
+  orderId: string;
+  fileType: DeliverableFileType;
+  label?: string | null;
+  storageKey: string;
+  filename: string;
+  contentType?: string | null;
+  sizeBytes?: number | null;
+  uploadedBy: string;
+}): Promise<{ success: boolean; error?: string; deliverable?: OrderDeliverable }> {
+  const supabase = getServerClient();
+
+  const { data: openRevision } = await supabase
+    .from('revision_requests')
+    .select('id')
+    .eq('order_id', params.orderId)
+    .eq('status', 'accepted')
+    .maybeSingle();
+
+  for (let attempt = 0; attempt < MAX_VERSION_ATTEMPTS; attempt++) {
+    const { data: previous } = await supabase
+      .from('order_deliverables')
+      .select('version')
+      .eq('order_id', params.orderId)
+      .eq('file_type', params.fileType)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const { data: deliverable, error } = await supabase
+      .from('order_deliverables')
+      .insert({
+        order_id: params.orderId,
+        file_type: params.fileType,
+        label: params.label?.trim() || DELIVERABLE_LABELS[params.fileType],
+        version: (previous?.version ?? 0) + 1,
+        storage_key: params.storageKey,
+        filename: params.filename,
+        content_type: params.contentType || null,
+        size_bytes: params.sizeBytes ?? null,
+        uploaded_by: params.uploadedBy,
+        revision_id: openRevision?.id ?? null,
+      })
+      .select()
+      .single();
+
+    // Unique violation: another upload took this version number
+    if (error?.code === '23505') {
+      continue;
+    }
+
+    if (error || !deliverable) {
+      console.error('[DELIVERABLE] Failed to record deliverable:', error?.message);
+      return { success: false, error: 'Failed to record deliverable' };
+    }
+
+    if (SONG_FILE_TYPES.includes(params.fileType)) {
+      await supabase
+        .from('orders')
+        .update({
+          deliverable_key: params.storageKey,
+          deliverable_filename: params.filename,
+          deliverable_size: params.sizeBytes ?? null,
+          deliverable_uploaded_at: deliverable.created_at,
+          deliverable_uploaded_by: params.uploadedBy,
+        })
+        .eq('id', params.orderId);
+    }
+
+    return { success: true, deliverable };
+  }
+
+  return { success: false, error: 'Another upload is in progress for this file. Please retry.' };
+}
+
+/**
+ * Mark the order delivered after a new deliverable version and
+ * optionally email the customer a link to their files
+ */
+export async function markOrderDelivered(
+  order: DeliveryOrder,
+  deliverable: OrderDeliverable,
+  adminId: string,
+  notifyCustomer: boolean
+): Promise<void> {
+  const supabase = getServerClient();
+
+  const { error: updateError } = await supabase
+    .from('orders')
+    .update({
+      status: 'delivered',
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', order.id);
+
+  if (updateError) {
+    console.error('[DELIVERABLE] Order update error:', updateError.message);
+  }
+
+  await supabase.from('order_status_history').insert({
+    order_id: order.id,
+    old_status: order.status,
+    new_status: 'delivered',
+    changed_by: adminId,
+    notes: `Deliverable uploaded: ${deliverable.label} v${deliverable.version} (${deliverable.filename})`,
+    created_at: new Date().toISOString(),
+  });
+
+  // Bundle is delivered once all of its songs are
+  if (order.parent_order_id) {
+    await syncBundleParentStatus(order.parent_order_id);
+  }
+
+  if (!notifyCustomer) {
+    return;
+  }
+
+  const profile = order.profiles as {
+    full_name: string | null;
+    email: string;
+    phone?: string | null;
+    preferred_language?: string | null;
+  } | null;
+  if (!profile?.email) {
+    return;
+  }
+
+  try {
+    const { renderTemplate } = await import('../lib/email/client');
+    const { enqueueEmail, enqueueTemplatedWhatsApp } = await import('./notification-queue.service');
+    const { siteConfig } = await import('../config');
+    const { formatDate, getMessages, toLocale } = await import('../lib/i18n');
+
+    const locale = toLocale(profile.preferred_language);
+    const customerName = profile.full_name || getMessages(locale).orderStatus.valuedCustomer;
+
+    // Calculate expiry (7 days)
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + 7);
+
+    const downloadUrl = `${siteConfig.url}/dashboard/orders/${order.id}?download=true`;
+
+    const template = renderTemplate(
+      'delivery',
+      {
+        orderNumber: order.order_number,
+        customerName,
+        packageName: formatPackageName(order.package_slug),
+        downloadUrl,
+        expiresAt: formatDate(expiresAt, locale, {
+          weekday: 'long',
+          year: 'numeric',
+          month: 'long',
+          day: 'numeric',
+        }),
+      },
+      locale
+    );
+
+    await enqueueEmail(
+      {
+        to: profile.email,
+        subject: template.subject,
+        html: template.html,
+        text: template.text,
+        tags: [
+          { name: 'type', value: 'delivery' },
+          { name: 'order', value: order.order_number },
+        ],
+      },
+      { orderId: order.id }
+    );
+
+    if (profile.phone) {
+      await enqueueTemplatedWhatsApp(
+        profile.phone,
+        'delivery-ready',
+        {
+          customerName,
+          orderNumber: order.order_number,
+          downloadUrl,
+        },
+        { orderId: order.id, recipientEmail: profile.email, locale }
+      );
+    }
+  } catch (error) {
+    console.error('[DELIVERABLE] Failed to send delivery email:', error);
+  }
+}
+
+/**
+ * Move the order into customer review after a new preview and
+ * optionally email the customer to listen to it
+ */
+export async function markOrderInReview(
+  order: DeliveryOrder,
+  deliverable: OrderDeliverable,
+  adminId: string,
+  notifyCustomer: boolean
+): Promise<void> {
+  const supabase = getServerClient();
+
+  const { error: updateError } = await supabase
+    .from('orders')
+    .update({
+      status: 'review',
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', order.id);
+
+  if (updateError) {
+    console.error('[DELIVERABLE] Order update error:', updateError.message);
+  }
+
+  await supabase.from('order_status_history').insert({
+    order_id: order.id,
+    old_status: order.status,
+    new_status: 'review',
+    changed_by: adminId,
+    notes: `Preview uploaded: v${deliverable.version} (${deliverable.filename})`,
+    created_at: new Date().toISOString(),
+  });
+
+  if (!notifyCustomer) {
+    return;
+  }
+
+  const profile = order.profiles as {
+    full_name: string | null;
+    email: string;
+    preferred_language?: string | null;
+  } | null;
+  if (!profile?.email) {
+    return;
+  }
+
+  try {
+    const { renderTemplate } = await import('../lib/email/client');
+    const { enqueueEmail } = await import('./notification-queue.service');
+    const { siteConfig } = await import('../config');
+    const { getMessages, toLocale } = await import('../lib/i18n');
+
+    const locale = toLocale(profile.preferred_language);
+    const { orderStatus } = getMessages(locale);
+
+    const template = renderTemplate(
+      'status-update',
+      {
+        orderNumber: order.order_number,
+        customerName: profile.full_name || orderStatus.valuedCustomer,
+        newStatus: orderStatus.labels.review,
+        statusDescription: orderStatus.previewReady,
+        portalUrl: `${siteConfig.url}/dashboard/orders/${order.id}`,
+      },
+      locale
+    );
+
+    await enqueueEmail(
+      {
+        to: profile.email,
+        subject: template.subject,
+        html: template.html,
+        text: template.text,
+        tags: [
+          { name: 'type', value: 'preview-ready' },
+          { name: 'order', value: order.order_number },
+        ],
+      },
+      { orderId: order.id }
+    );
+  } catch (error) {
+    console.error('[DELIVERABLE] Failed to send preview email:', error);
+  }
+}
+
+function formatPackageName(slug: string | null): string {
+  if (!slug) return 'Custom Song';
+  const names: Record<string, string> = {
+    express: 'Express Package',
+    classic: 'Classic Package',
+    signature: 'Signature Package',
+    legacy: 'Legacy Package',
+  };
+  return names[slug] || slug;
+}
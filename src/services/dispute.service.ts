@@ -0,0 +1,591 @@
+/**
+ * Dispute Service
+ * Payment disputes (chargebacks) raised against orders
+ *
+ * Stripe's charge.dispute.* webhooks land here. While a dispute is open
+ * the order's payment_status is 'disputed', delivery and downloads are
+ * frozen (bundle songs included) and the order's commissions are held.
+ * When the last open dispute closes, the order is settled from every
+ * dispute closed since the freeze began: if none were lost the previous
+ * payment status is restored and the commissions released; otherwise
+ * the lost amount is recorded like a refund (cascading to bundle songs
+ * on a full reversal) and the reversed share is clawed back. Admins are
+ * emailed when a dispute opens and closes.
+ */
+
+import { getServerClient } from '../lib/supabase/server';
+import { decrypt } from '../lib/security/encryption';
+import { isValidUUID } from '../lib/security/validation';
+import type { WebhookVerifyResult } from '../lib/payments/types';
+import type { Tables } from '../types/database.types';
+import { cascadeBundleRefund } from './bundle-order.service';
+import { clawbackOrderCommissions } from './commission-clawback.service';
+import { recordPaymentEvent } from './payment-session.service';
+import type { WebhookProcessResult } from './payment-webhook.service';
+
+export type OrderDispute = Tables<'order_disputes'>;
+
+// Stripe statuses of a dispute that is over
+const CLOSED_STATUSES = ['won', 'lost', 'warning_closed'];
+
+// Roles that receive dispute alerts
+const ALERT_ROLES = ['super_admin', 'order_manager'];
+
+interface DisputedOrder {
+  id: string;
+  order_number: string;
+  status: string;
+  order_type: string;
+  payment_status: string;
+  amount_paid: number | null;
+  refund_amount: number | null;
+}
+
+export interface DisputeEvidence {
+  generated_at: string;
+  order: {
+    id: string;
+    order_number: string;
+    status: string;
+    payment_status: string;
+    package_slug: string | null;
+    occasion_slug: string | null;
+    currency: string;
+    amount_paid: number | null;
+    customer_email: string | null;
+    customer_name: string | null;
+    created_at: string;
+    paid_at: string | null;
+    delivered_at: string | null;
+  };
+  disputes: OrderDispute[];
+  questionnaire: {
+    submitted_at: string;
+    recipient_name: string | null;
+    responses: Record<string, string>;
+  }[];
+  status_history: {
+    old_status: string | null;
+    new_status: string | null;
+    changed_by: string | null;
+    notes: string | null;
+    created_at: string;
+  }[];
+  deliveries: {
+    order_id: string;
+    label: string;
+    file_type: string;
+    version: number;
+    filename: string;
+    delivered_at: string;
+  }[];
+  downloads: {
+    order_id: string;
+    deliverable_id: string | null;
+    ip_address: string | null;
+    user_agent: string | null;
+    downloaded_at: string;
+  }[];
+}
+
+// ============================================
+// WEBHOOK
+// ============================================
+
+/**
+ * Apply a charge.dispute.* event to its order
+ * State-based, so out-of-order and repeated events converge.
+ */
+export async function handleStripeDispute(
+  order: DisputedOrder,
+  verification: WebhookVerifyResult
+): Promise<WebhookProcessResult> {
+  const data = (verification.data ?? {}) as {
+    id?: string;
+    charge?: string | { id: string };
+    reason?: string;
+    status?: string;
+    evidence_details?: { due_by?: number | null };
+  };
+
+  if (!data.id || !data.status) {
+    return { success: false, error: 'Malformed dispute event' };
+  }
+
+  const supabase = getServerClient();
+  const now = new Date().toISOString();
+  const isClosed = CLOSED_STATUSES.includes(data.status);
+  const outcome = data.status === 'lost' ? 'lost' : isClosed ? 'won' : null;
+
+  const { data: existing, error: fetchError } = await supabase
+    .from('order_disputes')
+    .select('*')
+    .eq('provider', 'stripe')
+    .eq('provider_dispute_id', data.id)
+    .maybeSingle();
+
+  if (fetchError) {
+    return { success: false, error: fetchError.message };
+  }
+
+  if (existing?.closed_at) {
+    console.log(`[DISPUTES] Dispute ${data.id} already closed (${existing.outcome})`);
+    return { success: true, outcome: 'skipped' };
+  }
+
+  const fields = {
+    amount: verification.amount ?? existing?.amount ?? 0,
+    currency: verification.currency ?? existing?.currency ?? 'USD',
+    reason: data.reason ?? null,
+    status: data.status,
+    evidence_due_by: data.evidence_details?.due_by
+      ? new Date(data.evidence_details.due_by * 1000).toISOString()
+      : null,
+    outcome,
+    closed_at: isClosed ? now : null,
+    updated_at: now,
+  };
+
+  const { data: dispute, error: saveError } = existing
+    ? await supabase.from('order_disputes').update(fields).eq('id', existing.id).select().single()
+    : await supabase
+        .from('order_disputes')
+        .insert({
+          ...fields,
+          order_id: order.id,
+          provider: 'stripe',
+          provider_dispute_id: data.id,
+          charge_reference: typeof data.charge === 'string' ? data.charge : data.charge?.id ?? null,
+          previous_payment_status: order.payment_status === 'disputed'
+            ? await getPreviousPaymentStatus(order.id)
+            : order.payment_status,
+        })
+        .select()
+        .single();
+
+  if (saveError || !dispute) {
+    return { success: false, error: saveError?.message ?? 'Failed to record dispute' };
+  }
+
+  if (!isClosed) {
+    if (order.payment_status !== 'disputed') {
+      return openDispute(order, dispute);
+    }
+    if (!existing) {
+      // A second dispute on an order that is already frozen
+      await alertAdmins(order, dispute);
+    }
+    return { success: true, outcome: 'processed' };
+  }
+
+  // Another dispute on the same order keeps it frozen
+  const { count: stillOpen } = await supabase
+    .from('order_disputes')
+    .select('id', { count: 'exact', head: true })
+    .eq('order_id', order.id)
+    .is('closed_at', null);
+
+  if ((stillOpen ?? 0) === 0) {
+    const closed = await closeDispute(order, dispute);
+    if (!closed.success) {
+      return closed;
+    }
+  }
+
+  await recordPaymentEvent({
+    orderId: order.id,
+    provider: 'stripe',
+    eventType: outcome === 'lost' ? 'dispute_lost' : 'dispute_won',
+    reference: dispute.provider_dispute_id,
+    amount: Number(dispute.amount),
+    currency: dispute.currency,
+    payload: verification.data,
+  });
+
+  await alertAdmins(order, dispute);
+
+  console.log(`[DISPUTES] Dispute ${dispute.provider_dispute_id} on order ${order.id} ${outcome}`);
+  return { success: true, outcome: 'processed' };
+}
+
+/**
+ * Freeze the order and hold its commissions
+ */
+async function openDispute(
+  order: DisputedOrder,
+  dispute: OrderDispute
+): Promise<WebhookProcessResult> {
+  const supabase = getServerClient();
+
+  const { error: updateError } = await supabase
+    .from('orders')
+    .update({ payment_status: 'disputed', updated_at: new Date().toISOString() })
+    .eq('id', order.id);
+
+  if (updateError) {
+    return { success: false, error: updateError.message };
+  }
+
+  await supabase.from('order_status_history').insert({
+    order_id: order.id,
+    old_status: order.payment_status,
+    new_status: 'disputed',
+    changed_by: 'system',
+    notes: `Payment disputed via Stripe (${dispute.reason || 'no reason given'}) - delivery and downloads frozen`,
+    created_at: new Date().toISOString(),
+  });
+
+  const { error: holdError } = await supabase.rpc('hold_order_commissions', {
+    p_order_id: order.id,
+    p_reason: `Payment dispute ${dispute.provider_dispute_id}`,
+  });
+
+  if (holdError) {
+    // The order is already frozen - flag for manual follow-up
+    console.error(`[DISPUTES] Failed to hold commissions for order ${order.id}:`, holdError.message);
+  }
+
+  await recordPaymentEvent({
+    orderId: order.id,
+    provider: 'stripe',
+    eventType: 'dispute_opened',
+    reference: dispute.provider_dispute_id,
+    amount: Number(dispute.amount),
+    currency: dispute.currency,
+  });
+
+  await alertAdmins(order, dispute);
+
+  console.log(`[DISPUTES] Order ${order.id} disputed (${dispute.provider_dispute_id})`);
+  return { success: true, outcome: 'processed' };
+}
+
+/**
+ * Unfreeze the order after its last open dispute closes
+ * The outcome covers every dispute closed since the freeze began, so a
+ * dispute lost earlier isn't undone by one won afterwards.
+ */
+async function closeDispute(
+  order: DisputedOrder,
+  dispute: OrderDispute
+): Promise<WebhookProcessResult> {
+  const supabase = getServerClient();
+  const now = new Date().toISOString();
+
+  const { data: closedDisputes, error: fetchError } = await supabase
+    .from('order_disputes')
+    .select('id, amount, reason, outcome')
+    .eq('order_id', order.id)
+    .not('closed_at', 'is', null)
+    .is('settled_at', null);
+
+  if (fetchError) {
+    return { success: false, error: fetchError.message };
+  }
+
+  const lostDisputes = (closedDisputes || []).filter((d) => d.outcome === 'lost');
+  const lostAmount = lostDisputes.reduce((sum, d) => sum + Number(d.amount), 0);
+  const lost = lostDisputes.length > 0;
+  const reason = `Chargeback: ${lostDisputes[lostDisputes.length - 1]?.reason || 'dispute lost'}`;
+
+  // Lost disputes are settled like a refund of the disputed amount
+  const reversed = Number(order.refund_amount || 0) + lostAmount;
+  const isFullReversal = lost && reversed >= Number(order.amount_paid || 0);
+  const paymentStatus = lost
+    ? isFullReversal ? 'refunded' : 'partially_refunded'
+    : dispute.previous_payment_status || 'paid';
+
+  const { error: updateError } = await supabase
+    .from('orders')
+    .update({
+      payment_status: paymentStatus,
+      status: isFullReversal ? 'cancelled' : order.status,
+      ...(lost ? { refund_amount: reversed, refund_reason: reason, refunded_at: now } : {}),
+      updated_at: now,
+    })
+    .eq('id', order.id);
+
+  if (updateError) {
+    return { success: false, error: updateError.message };
+  }
+
+  const { error: settleError } = await supabase
+    .from('order_disputes')
+    .update({ settled_at: now, updated_at: now })
+    .in('id', (closedDisputes || []).map((d) => d.id));
+
+  if (settleError) {
+    console.error(`[DISPUTES] Failed to mark disputes settled for order ${order.id}:`, settleError.message);
+  }
+
+  await supabase.from('order_status_history').insert({
+    order_id: order.id,
+    old_status: 'disputed',
+    new_status: paymentStatus,
+    changed_by: 'system',
+    notes: lost
+      ? `Stripe dispute lost - ${lostAmount} ${dispute.currency} withdrawn`
+      : 'Stripe dispute closed in our favour - delivery and downloads unfrozen',
+    created_at: now,
+  });
+
+  // Songs of a fully reversed bundle go with it, as for a refund
+  if (isFullReversal && order.order_type === 'bundle') {
+    await cascadeBundleRefund(order.id, reason, 'system');
+  }
+
+  const { error: releaseError } = await supabase.rpc('release_order_commissions', {
+    p_order_id: order.id,
+    p_reason: `Payment dispute ${dispute.provider_dispute_id} ${lost ? 'lost' : 'won'}`,
+  });
+
+  if (releaseError) {
+    console.error(`[DISPUTES] Failed to release commissions for order ${order.id}:`, releaseError.message);
+  }
+
+  if (lost) {
+    await clawbackOrderCommissions(order.id, reason, 'chargeback', reversed);
+  }
+
+  return { success: true, outcome: 'processed' };
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Whether delivery and downloads are frozen for an order
+ * Bundle songs are frozen by a dispute on their bundle.
+ */
+export async function hasOpenDispute(orderId: string, parentOrderId?: string | null): Promise<boolean> {
+  const supabase = getServerClient();
+  const { count, error } = await supabase
+    .from('order_disputes')
+    .select('id', { count: 'exact', head: true })
+    .in('order_id', parentOrderId ? [orderId, parentOrderId] : [orderId])
+    .is('closed_at', null);
+
+  if (error) {
+    // Fail closed: keep the order frozen until the check succeeds
+    console.error('[DISPUTES] Failed to check open disputes:', error.message);
+    return true;
+  }
+
+  return (count ?? 0) > 0;
+}
+
+/**
+ * Disputes on an order (or its bundle), newest first
+ */
+export async function getOrderDisputes(orderId: string, parentOrderId?: string | null): Promise<OrderDispute[]> {
+  const supabase = getServerClient();
+  const { data, error } = await supabase
+    .from('order_disputes')
+    .select('*')
+    .in('order_id', parentOrderId ? [orderId, parentOrderId] : [orderId])
+    .order('opened_at', { ascending: false });
+
+  if (error) {
+    console.error('[DISPUTES] Failed to load disputes:', error.message);
+    return [];
+  }
+
+  return data || [];
+}
+
+// ============================================
+// EVIDENCE
+// ============================================
+
+/**
+ * Everything we can show the card network about an order:
+ * what the customer asked for, how the order progressed, when
+ * files were delivered and when the customer downloaded them.
+ * Bundles include their songs.
+ */
+export async function getDisputeEvidence(orderId: string): Promise<DisputeEvidence | null> {
+  if (!isValidUUID(orderId)) {
+    return null;
+  }
+
+  const supabase = getServerClient();
+  const { data: order, error } = await supabase
+    .from('orders')
+    .select('*, profiles(full_name, email)')
+    .eq('id', orderId)
+    .single();
+
+  if (error || !order) {
+    return null;
+  }
+
+  const { data: items } = await supabase
+    .from('orders')
+    .select('id')
+    .eq('parent_order_id', orderId);
+
+  const orderIds = [orderId, ...(items || []).map((item: { id: string }) => item.id)];
+
+  const [disputes, questionnaires, history, deliverables, downloads] = await Promise.all([
+    getOrderDisputes(orderId, order.parent_order_id),
+    supabase
+      .from('questionnaires')
+      .select('order_id, encrypted_data, recipient_name, created_at')
+      .in('order_id', orderIds),
+    supabase
+      .from('order_status_history')
+      .select('*')
+      .in('order_id', orderIds)
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('order_deliverables')
+      .select('order_id, label, file_type, version, filename, created_at')
+      .in('order_id', orderIds)
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('order_downloads')
+      .select('order_id, deliverable_id, ip_address, user_agent, created_at')
+      .in('order_id', orderIds)
+      .order('created_at', { ascending: true }),
+  ]);
+
+  const profile = order.profiles as { full_name: string | null; email: string } | null;
+
+  return {
+    generated_at: new Date().toISOString(),
+    order: {
+      id: order.id,
+      order_number: order.order_number,
+      status: order.status,
+      payment_status: order.payment_status,
+      package_slug: order.package_slug,
+      occasion_slug: order.occasion_slug,
+      currency: order.currency,
+      amount_paid: order.amount_paid,
+      customer_email: profile?.email ?? null,
+      customer_name: profile?.full_name ?? null,
+      created_at: order.created_at,
+      paid_at: order.paid_at,
+      delivered_at: order.delivered_at,
+    },
+    disputes,
+    questionnaire: await Promise.all(
+      ((questionnaires.data || []) as {
+        encrypted_data: string;
+        recipient_name: string | null;
+        created_at: string;
+      }[]).map(async (q) => ({
+        submitted_at: q.created_at,
+        recipient_name: q.recipient_name,
+        responses: await summarizeQuestionnaire(q.encrypted_data),
+      }))
+    ),
+    status_history: ((history.data || []) as Record<string, string | null>[]).map((h) => ({
+      old_status: h.old_status ?? null,
+      new_status: h.new_status ?? h.status ?? null,
+      changed_by: h.changed_by ?? null,
+      notes: h.notes ?? h.note ?? null,
+      created_at: h.created_at as string,
+    })),
+    deliveries: (deliverables.data || []).map((d) => ({
+      order_id: d.order_id,
+      label: d.label,
+      file_type: d.file_type,
+      version: d.version,
+      filename: d.filename,
+      delivered_at: d.created_at,
+    })),
+    downloads: (downloads.data || []).map((d) => ({
+      order_id: d.order_id,
+      deliverable_id: d.deliverable_id,
+      ip_address: d.ip_address,
+      user_agent: d.user_agent,
+      downloaded_at: d.created_at,
+    })),
+  };
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Questionnaire answers as short strings
+ */
+async function summarizeQuestionnaire(encrypted: string): Promise<Record<string, string>> {
+  try {
+    const answers = JSON.parse(await decrypt(encrypted)) as Record<string, unknown>;
+    return Object.fromEntries(
+      Object.entries(answers)
+        .filter(([, value]) => value !== null && value !== undefined && value !== '')
+        .map(([key, value]) => [key, String(typeof value === 'object' ? JSON.stringify(value) : value).slice(0, 500)])
+    );
+  } catch (error) {
+    console.error('[DISPUTES] Failed to decrypt questionnaire:', error);
+    return {};
+  }
+}
+
+/**
+ * Payment status from before the order's first open dispute
+ */
+async function getPreviousPaymentStatus(orderId: string): Promise<string> {
+  const supabase = getServerClient();
+  const { data } = await supabase
+    .from('order_disputes')
+    .select('previous_payment_status')
+    .eq('order_id', orderId)
+    .is('closed_at', null)
+    .order('opened_at', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  return data?.previous_payment_status || 'paid';
+}
+
+async function alertAdmins(order: DisputedOrder, dispute: OrderDispute): Promise<void> {
+  try {
+    const supabase = getServerClient();
+    const { data: admins } = await supabase
+      .from('profiles')
+      .select('email')
+      .in('admin_role', ALERT_ROLES);
+
+    const recipients = (admins || [])
+      .map((admin: { email: string | null }) => admin.email)
+      .filter((email): email is string => !!email);
+
+    if (recipients.length === 0) {
+      console.error(`[DISPUTES] No admins to alert about dispute ${dispute.provider_dispute_id}`);
+      return;
+    }
+
+    const { enqueueTemplatedEmail } = await import('./notification-queue.service');
+    const { siteConfig } = await import('../config');
+
+    await Promise.all(
+      recipients.map((email) =>
+        enqueueTemplatedEmail(
+          email,
+          'dispute-alert',
+          {
+            orderNumber: order.order_number,
+            amount: String(dispute.amount),
+            currency: dispute.currency,
+            reason: dispute.reason || 'Not given',
+            status: dispute.status.replace(/_/g, ' '),
+            outcome: dispute.outcome ?? undefined,
+            evidenceDueBy: dispute.evidence_due_by
+              ? new Date(dispute.evidence_due_by).toUTCString()
+              : undefined,
+            orderUrl: `${siteConfig.url}/admin/orders/${order.id}`,
+          },
+          { orderId: order.id }
+        )
+      )
+    );
+  } catch (error) {
+    console.error('[DISPUTES] Failed to alert admins:', error);
+  }
+}
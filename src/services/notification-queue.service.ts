@@ -0,0 +1,607 @@
+/**
+ * Notification Queue Service
+ * Durable outbox for outbound email, SMS and WhatsApp
+ *
+ * Senders enqueue fully rendered messages; the process-notifications cron
+ * worker claims due rows per channel and delivers them within that
+ * channel's rate limit. Failed attempts are retried with exponential
+ * backoff until max_attempts, after which the row is dead-lettered for an
+ * admin to inspect and resend. Delivery is at-least-once: a worker that
+ * dies mid-send leaves the row to be claimed again.
+ *
+ * Every message is checked against the recipient's preferences on the way
+ * in; blocked ones are stored as 'suppressed' with the reason. A WhatsApp
+ * message that fails is re-queued as an SMS ('fallback') when it can be.
+ */
+
+import { getServerClient } from '../lib/supabase/server';
+import { isValidUUID } from '../lib/security/validation';
+import {
+  sendEmail,
+  renderTemplate,
+  type SendEmailOptions,
+  type EmailTemplate,
+  type TemplateData,
+} from '../lib/email/client';
+import { sendSMS, type SendSMSOptions } from '../lib/sms/client';
+import {
+  sendTemplatedWhatsApp,
+  renderWhatsAppTemplate,
+  type WhatsAppTemplate,
+  type TemplateWhatsAppData,
+} from '../lib/whatsapp/client';
+import {
+  resolveNotificationPreference,
+  getNotificationCategory,
+  type NotificationCategory,
+} from '../lib/notifications/preferences';
+import { DEFAULT_LOCALE, type Locale } from '../lib/i18n';
+import type { Tables, TablesInsert, Json } from '../types/database.types';
+
+export type QueuedNotification = Tables<'notification_queue'>;
+export type NotificationStatus = QueuedNotification['status'];
+export type NotificationChannel = QueuedNotification['channel'];
+
+export const NOTIFICATION_STATUSES: NotificationStatus[] = [
+  'pending',
+  'processing',
+  'sent',
+  'failed',
+  'dead_letter',
+  'suppressed',
+  'fallback',
+];
+
+export interface EnqueueMeta {
+  type?: string;
+  // Defaults to the category of the notification type
+  category?: NotificationCategory;
+  recipientId?: string | null;
+  // Identifies SMS/WhatsApp recipients for the preference check
+  recipientEmail?: string | null;
+  orderId?: string | null;
+  // Language of templated messages (recipient's preferred_language)
+  locale?: Locale;
+}
+
+export interface EnqueueResult {
+  success: boolean;
+  ids?: string[];
+  // Recipients whose preferences blocked the message
+  suppressed?: number;
+  error?: string;
+}
+
+export interface QueueRunResult {
+  claimed: number;
+  sent: number;
+  retried: number;
+  deadLettered: number;
+  fellBack: number;
+}
+
+type EmailExtras = {
+  text?: string;
+  tags?: { name: string; value: string }[];
+  reply_to?: string;
+};
+
+type WhatsAppPayload = {
+  template: WhatsAppTemplate;
+  data: TemplateWhatsAppData[WhatsAppTemplate];
+  // Missing on rows queued before messages were localized
+  locale?: Locale;
+};
+
+// Provider limits: Resend allows 2 requests/s, Twilio ~1 message/s per number
+const CHANNEL_RATE_LIMITS: Record<NotificationChannel, { perMinute: number }> = {
+  email: { perMinute: 100 },
+  sms: { perMinute: 50 },
+  whatsapp: { perMinute: 50 },
+};
+
+// Leave headroom under Netlify's 10s function timeout
+const RUN_BUDGET_MS = 8_000;
+const CLAIM_BATCH_SIZE = 10;
+const STALE_CLAIM_SECONDS = 300;
+
+const BACKOFF_BASE_SECONDS = 120;
+const BACKOFF_MAX_SECONDS = 2 * 60 * 60;
+
+// ============================================
+// ENQUEUE
+// ============================================
+
+/**
+ * Queue an email (one row per recipient)
+ */
+export async function enqueueEmail(
+  options: SendEmailOptions,
+  meta: EnqueueMeta = {}
+): Promise<EnqueueResult> {
+  const recipients = Array.isArray(options.to) ? options.to : [options.to];
+  const extras: EmailExtras = {
+    text: options.text,
+    tags: options.tags,
+    reply_to: options.replyTo,
+  };
+  const type = meta.type ?? options.tags?.find((tag) => tag.name === 'type')?.value ?? 'general';
+  const category = meta.category ?? getNotificationCategory(type);
+
+  const rows = await Promise.all(
+    recipients.map((to) =>
+      applyPreferences('email', category, { recipientId: meta.recipientId, email: to }, {
+        recipient_email: to,
+        notification_type: type,
+        category,
+        channel: 'email',
+        subject: options.subject,
+        body: options.html,
+        template_data: extras as Json,
+        order_id: meta.orderId ?? null,
+      })
+    )
+  );
+
+  return insertNotifications(rows);
+}
+
+/**
+ * Render and queue a templated email
+ */
+export async function enqueueTemplatedEmail<T extends EmailTemplate>(
+  to: string,
+  template: T,
+  data: TemplateData[T],
+  meta: EnqueueMeta = {}
+): Promise<EnqueueResult> {
+  const { subject, html, text } = renderTemplate(template, data, meta.locale);
+  return enqueueEmail({ to, subject, html, text }, { type: template, ...meta });
+}
+
+/**
+ * Queue an SMS
+ */
+export async function enqueueSMS(
+  options: SendSMSOptions,
+  meta: EnqueueMeta = {}
+): Promise<EnqueueResult> {
+  const type = meta.type ?? 'general';
+  const category = meta.category ?? getNotificationCategory(type);
+
+  const row = await applyPreferences(
+    'sms',
+    category,
+    { recipientId: meta.recipientId, email: meta.recipientEmail },
+    {
+      recipient_email: meta.recipientEmail ?? null,
+      recipient_phone: options.to,
+      notification_type: type,
+      category,
+      channel: 'sms',
+      body: options.body,
+      order_id: meta.orderId ?? null,
+    }
+  );
+
+  return insertNotifications([row]);
+}
+
+/**
+ * Queue a templated WhatsApp message
+ * The rendered text is kept as the body for the SMS fallback.
+ */
+export async function enqueueTemplatedWhatsApp<T extends WhatsAppTemplate>(
+  to: string,
+  template: T,
+  data: TemplateWhatsAppData[T],
+  meta: EnqueueMeta = {}
+): Promise<EnqueueResult> {
+  const type = meta.type ?? template;
+  const category = meta.category ?? getNotificationCategory(type);
+  const locale = meta.locale ?? DEFAULT_LOCALE;
+  const payload: WhatsAppPayload = { template, data, locale };
+
+  const row = await applyPreferences(
+    'whatsapp',
+    category,
+    { recipientId: meta.recipientId, email: meta.recipientEmail },
+    {
+      recipient_email: meta.recipientEmail ?? null,
+      recipient_phone: to,
+      notification_type: type,
+      category,
+      channel: 'whatsapp',
+      body: renderWhatsAppTemplate(template, data, locale).body,
+      template_data: payload as unknown as Json,
+      order_id: meta.orderId ?? null,
+    }
+  );
+
+  return insertNotifications([row]);
+}
+
+/**
+ * Resolve the recipient's preferences into the row to store
+ */
+async function applyPreferences(
+  channel: NotificationChannel,
+  category: NotificationCategory,
+  recipient: { recipientId?: string | null; email?: string | null },
+  row: TablesInsert<'notification_queue'>
+): Promise<TablesInsert<'notification_queue'>> {
+  const decision = await resolveNotificationPreference(channel, category, recipient);
+
+  return decision.allowed
+    ? { ...row, recipient_id: decision.recipientId }
+    : { ...row, recipient_id: decision.recipientId, status: 'suppressed', suppressed_reason: decision.reason };
+}
+
+async function insertNotifications(
+  rows: TablesInsert<'notification_queue'>[]
+): Promise<EnqueueResult> {
+  if (rows.length === 0) {
+    return { success: true, ids: [], suppressed: 0 };
+  }
+
+  const supabase = getServerClient();
+  const { data, error } = await supabase
+    .from('notification_queue')
+    .insert(rows)
+    .select('id, status');
+
+  if (error) {
+    console.error('[NOTIFICATION_QUEUE] Failed to enqueue notification:', error.message);
+    return { success: false, error: 'Failed to queue notification' };
+  }
+
+  return {
+    success: true,
+    ids: (data ?? []).filter((row) => row.status !== 'suppressed').map((row) => row.id),
+    suppressed: (data ?? []).filter((row) => row.status === 'suppressed').length,
+  };
+}
+
+// ============================================
+// WORKER
+// ============================================
+
+/**
+ * Deliver due notifications, all channels in parallel
+ */
+export async function processNotificationQueue(): Promise<QueueRunResult> {
+  const deadline = Date.now() + RUN_BUDGET_MS;
+  const channels = Object.keys(CHANNEL_RATE_LIMITS) as NotificationChannel[];
+
+  const results = await Promise.all(channels.map((channel) => processChannel(channel, deadline)));
+
+  return results.reduce(
+    (total, r) => ({
+      claimed: total.claimed + r.claimed,
+      sent: total.sent + r.sent,
+      retried: total.retried + r.retried,
+      deadLettered: total.deadLettered + r.deadLettered,
+      fellBack: total.fellBack + r.fellBack,
+    }),
+    { claimed: 0, sent: 0, retried: 0, deadLettered: 0, fellBack: 0 }
+  );
+}
+
+/**
+ * Drain one channel, spacing sends to stay under its rate limit
+ */
+async function processChannel(channel: NotificationChannel, deadline: number): Promise<QueueRunResult> {
+  const result: QueueRunResult = { claimed: 0, sent: 0, retried: 0, deadLettered: 0, fellBack: 0 };
+  const interval = Math.ceil(60_000 / CHANNEL_RATE_LIMITS[channel].perMinute);
+
+  // Only claim what can be sent before the deadline
+  const capacity = () => Math.floor((deadline - Date.now()) / interval);
+
+  const supabase = getServerClient();
+
+  while (capacity() > 0) {
+    const { data: batch, error } = await supabase.rpc('claim_notifications', {
+      p_channel: channel,
+      p_limit: Math.min(CLAIM_BATCH_SIZE, capacity()),
+      p_stale_after_seconds: STALE_CLAIM_SECONDS,
+    });
+
+    if (error) {
+      console.error(`[NOTIFICATION_QUEUE] Failed to claim ${channel} notifications:`, error.message);
+      break;
+    }
+
+    if (!batch || batch.length === 0) {
+      break;
+    }
+
+    result.claimed += batch.length;
+
+    for (const notification of batch) {
+      const started = Date.now();
+      const outcome = await deliverNotification(notification);
+      result[outcome]++;
+
+      const wait = interval - (Date.now() - started);
+      if (wait > 0) {
+        await new Promise((resolve) => setTimeout(resolve, wait));
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Send a claimed notification and record the outcome
+ */
+async function deliverNotification(
+  notification: QueuedNotification
+): Promise<'sent' | 'retried' | 'deadLettered' | 'fellBack'> {
+  let sendResult: { success: boolean; messageId?: string; error?: string };
+  try {
+    sendResult = await sendToProvider(notification);
+  } catch (error) {
+    sendResult = { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+
+  const attempts = notification.retry_count + 1;
+  const now = new Date();
+  const supabase = getServerClient();
+
+  if (sendResult.success) {
+    await supabase
+      .from('notification_queue')
+      .update({
+        status: 'sent',
+        sent_at: now.toISOString(),
+        provider_message_id: sendResult.messageId ?? null,
+        error_message: null,
+        retry_count: attempts,
+        last_attempt_at: now.toISOString(),
+        locked_at: null,
+        updated_at: now.toISOString(),
+      })
+      .eq('id', notification.id);
+
+    return 'sent';
+  }
+
+  const errorMessage = (sendResult.error || 'Unknown error').slice(0, 1000);
+
+  // WhatsApp is often unreachable for good (no account, template rejected),
+  // so try SMS straight away rather than after the retries
+  if (notification.channel === 'whatsapp' && attempts === 1) {
+    const fallbackId = await queueSMSFallback(notification);
+    if (fallbackId) {
+      await supabase
+        .from('notification_queue')
+        .update({
+          status: 'fallback',
+          fallback_id: fallbackId,
+          error_message: errorMessage,
+          retry_count: attempts,
+          last_attempt_at: now.toISOString(),
+          locked_at: null,
+          updated_at: now.toISOString(),
+        })
+        .eq('id', notification.id);
+
+      console.warn(
+        `[NOTIFICATION_QUEUE] whatsapp notification ${notification.id} failed, falling back to SMS ${fallbackId}: ${errorMessage}`
+      );
+      return 'fellBack';
+    }
+  }
+
+  const exhausted = attempts >= notification.max_attempts;
+
+  await supabase
+    .from('notification_queue')
+    .update({
+      status: exhausted ? 'dead_letter' : 'failed',
+      error_message: errorMessage,
+      retry_count: attempts,
+      last_attempt_at: now.toISOString(),
+      next_attempt_at: new Date(now.getTime() + getBackoffSeconds(attempts) * 1000).toISOString(),
+      locked_at: null,
+      updated_at: now.toISOString(),
+    })
+    .eq('id', notification.id);
+
+  if (exhausted) {
+    console.error(
+      `[NOTIFICATION_QUEUE] ${notification.channel} notification ${notification.id} dead-lettered after ${attempts} attempts: ${errorMessage}`
+    );
+    return 'deadLettered';
+  }
+
+  console.warn(
+    `[NOTIFICATION_QUEUE] ${notification.channel} notification ${notification.id} failed (attempt ${attempts}): ${errorMessage}`
+  );
+  return 'retried';
+}
+
+async function sendToProvider(
+  notification: QueuedNotification
+): Promise<{ success: boolean; messageId?: string; error?: string }> {
+  if (notification.channel === 'email') {
+    if (!notification.recipient_email) {
+      return { success: false, error: 'No recipient email' };
+    }
+
+    const extras = (notification.template_data ?? {}) as EmailExtras;
+    return sendEmail({
+      to: notification.recipient_email,
+      subject: notification.subject ?? '',
+      html: notification.body ?? '',
+      text: extras.text,
+      tags: extras.tags,
+      replyTo: extras.reply_to,
+    });
+  }
+
+  if (notification.channel === 'sms') {
+    if (!notification.recipient_phone) {
+      return { success: false, error: 'No recipient phone' };
+    }
+
+    return sendSMS({ to: notification.recipient_phone, body: notification.body ?? '' });
+  }
+
+  if (notification.channel === 'whatsapp') {
+    if (!notification.recipient_phone) {
+      return { success: false, error: 'No recipient phone' };
+    }
+
+    const payload = notification.template_data as unknown as WhatsAppPayload | null;
+    if (!payload?.template) {
+      return { success: false, error: 'Missing WhatsApp template' };
+    }
+
+    return sendTemplatedWhatsApp(
+      notification.recipient_phone,
+      payload.template,
+      payload.data,
+      payload.locale ?? DEFAULT_LOCALE
+    );
+  }
+
+  return { success: false, error: `Unsupported channel: ${notification.channel}` };
+}
+
+/**
+ * Re-queue a failed WhatsApp message as an SMS
+ * Returns the SMS row ID, or null when the recipient doesn't accept SMS.
+ */
+async function queueSMSFallback(notification: QueuedNotification): Promise<string | null> {
+  if (!notification.recipient_phone || !notification.body) {
+    return null;
+  }
+
+  const result = await enqueueSMS(
+    { to: notification.recipient_phone, body: notification.body },
+    {
+      type: notification.notification_type,
+      category: notification.category,
+      recipientId: notification.recipient_id,
+      recipientEmail: notification.recipient_email,
+      orderId: notification.order_id,
+    }
+  );
+
+  return result.ids?.[0] ?? null;
+}
+
+/**
+ * Delay before the next attempt: 2, 4, 8 ... minutes, capped at 2 hours
+ */
+function getBackoffSeconds(attempts: number): number {
+  return Math.min(BACKOFF_BASE_SECONDS * 2 ** (attempts - 1), BACKOFF_MAX_SECONDS);
+}
+
+// ============================================
+// ADMIN
+// ============================================
+
+/**
+ * List queued notifications, newest first
+ */
+export async function getNotifications(options: {
+  status?: NotificationStatus;
+  channel?: NotificationChannel;
+  limit?: number;
+} = {}): Promise<QueuedNotification[]> {
+  const supabase = getServerClient();
+  let query = supabase
+    .from('notification_queue')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(options.limit ?? 100);
+
+  if (options.status) {
+    query = query.eq('status', options.status);
+  }
+  if (options.channel) {
+    query = query.eq('channel', options.channel);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('[NOTIFICATION_QUEUE] Failed to list notifications:', error.message);
+    return [];
+  }
+
+  return data ?? [];
+}
+
+/**
+ * Count notifications per status for the admin summary
+ */
+export async function getNotificationCounts(): Promise<Record<NotificationStatus, number>> {
+  const supabase = getServerClient();
+  const counts = await Promise.all(
+    NOTIFICATION_STATUSES.map(async (status) => {
+      const { count } = await supabase
+        .from('notification_queue')
+        .select('id', { count: 'exact', head: true })
+        .eq('status', status);
+      return [status, count ?? 0] as const;
+    })
+  );
+
+  return Object.fromEntries(counts) as Record<NotificationStatus, number>;
+}
+
+/**
+ * Resend a failed or dead-lettered notification now
+ * Starts a fresh retry cycle, so a failed resend goes back to the worker.
+ */
+export async function resendNotification(
+  notificationId: string
+): Promise<{ success: boolean; notification?: QueuedNotification; error?: string }> {
+  if (!isValidUUID(notificationId)) {
+    return { success: false, error: 'Invalid notification ID' };
+  }
+
+  const supabase = getServerClient();
+  const now = new Date().toISOString();
+
+  // Claim it so the worker can't send it at the same time
+  const { data: claimed } = await supabase
+    .from('notification_queue')
+    .update({
+      status: 'processing',
+      retry_count: 0,
+      locked_at: now,
+      updated_at: now,
+    })
+    .eq('id', notificationId)
+    .in('status', ['failed', 'dead_letter'])
+    .select('*')
+    .maybeSingle();
+
+  if (!claimed) {
+    const { data: existing } = await supabase
+      .from('notification_queue')
+      .select('status')
+      .eq('id', notificationId)
+      .maybeSingle();
+
+    return existing
+      ? { success: false, error: `Only failed notifications can be resent (notification is ${existing.status})` }
+      : { success: false, error: 'Notification not found' };
+  }
+
+  const outcome = await deliverNotification(claimed);
+
+  const { data: updated } = await supabase
+    .from('notification_queue')
+    .select('*')
+    .eq('id', notificationId)
+    .single();
+
+  return outcome === 'sent'
+    ? { success: true, notification: updated ?? claimed }
+    : { success: false, notification: updated ?? claimed, error: updated?.error_message ?? 'Resend failed' };
+}
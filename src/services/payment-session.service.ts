@@ -0,0 +1,170 @@
+/**
+ * Payment Session Service
+ * Bookkeeping shared by checkout, webhooks and reconciliation
+ *
+ * - payment_sessions: one row per provider checkout, closed when the payment
+ *   completes or fails, or expired by the reconciliation sweep
+ * - payment_events: payment lifecycle log compared against provider
+ *   transaction lists in the daily reconciliation report
+ * - payment_discrepancies: paid amounts that don't match the order
+ */
+
+import { getServerClient } from '../lib/supabase/server';
+import { validatePaymentAmount } from '../lib/security/webhook-verifier';
+import type { Json, Tables } from '../types/database.types';
+
+export type PaymentSession = Tables<'payment_sessions'>;
+export type PaymentDiscrepancy = Tables<'payment_discrepancies'>;
+
+// Events that mean "money was received" - matched against provider transactions
+export const PAYMENT_COMPLETED_EVENTS = ['payment_completed', 'status_completed'];
+
+// ============================================
+// SESSIONS
+// ============================================
+
+/**
+ * Track a newly created provider checkout session
+ */
+export async function openPaymentSession(params: {
+  orderId: string;
+  provider: string;
+  sessionId: string;
+  amount: number;
+  currency: string;
+  expiresAt: Date;
+}): Promise<void> {
+  const supabase = getServerClient();
+  const { error } = await supabase.from('payment_sessions').insert({
+    order_id: params.orderId,
+    provider: params.provider,
+    provider_session_id: params.sessionId,
+    amount: params.amount,
+    currency: params.currency,
+    expires_at: params.expiresAt.toISOString(),
+  });
+
+  if (error) {
+    console.error('[PAYMENT_SESSIONS] Failed to open session:', error.message);
+  }
+}
+
+/**
+ * Close an order's open sessions once the payment has an outcome
+ */
+export async function resolvePaymentSessions(
+  orderId: string,
+  status: 'completed' | 'failed' | 'expired',
+  sessionId?: string
+): Promise<void> {
+  const supabase = getServerClient();
+  let query = supabase
+    .from('payment_sessions')
+    .update({ status, resolved_at: new Date().toISOString() })
+    .eq('order_id', orderId)
+    .eq('status', 'pending');
+
+  if (sessionId) {
+    query = query.eq('id', sessionId);
+  }
+
+  const { error } = await query;
+  if (error) {
+    console.error('[PAYMENT_SESSIONS] Failed to resolve sessions:', error.message);
+  }
+}
+
+// ============================================
+// EVENTS
+// ============================================
+
+/**
+ * Append to the payment event log
+ */
+export async function recordPaymentEvent(params: {
+  orderId: string;
+  provider: string;
+  eventType: string;
+  reference?: string | null;
+  amount?: number | null;
+  currency?: string | null;
+  failureReason?: string | null;
+  payload?: Record<string, unknown>;
+}): Promise<void> {
+  const supabase = getServerClient();
+  const { error } = await supabase.from('payment_events').insert({
+    order_id: params.orderId,
+    provider: params.provider,
+    event_type: params.eventType,
+    provider_reference: params.reference ?? null,
+    amount: params.amount ?? null,
+    currency: params.currency ?? null,
+    failure_reason: params.failureReason ?? null,
+    raw_payload: (params.payload ?? null) as Json,
+  });
+
+  if (error) {
+    console.error('[PAYMENT_EVENTS] Failed to record event:', error.message);
+  }
+}
+
+// ============================================
+// DISCREPANCIES
+// ============================================
+
+/**
+ * Record a discrepancy once per (provider, reference, kind)
+ */
+export async function flagPaymentDiscrepancy(
+  discrepancy: Omit<PaymentDiscrepancy, 'id' | 'status' | 'resolved_by' | 'resolved_at' | 'detected_at'>
+): Promise<void> {
+  const supabase = getServerClient();
+  const { error } = await supabase
+    .from('payment_discrepancies')
+    .upsert(discrepancy, { onConflict: 'provider,provider_reference,kind', ignoreDuplicates: true });
+
+  if (error) {
+    console.error('[PAYMENT_DISCREPANCIES] Failed to flag discrepancy:', error.message);
+    return;
+  }
+
+  console.warn(
+    `[PAYMENT_DISCREPANCIES] ${discrepancy.kind} on ${discrepancy.provider}/${discrepancy.provider_reference}` +
+      (discrepancy.order_id ? ` (order ${discrepancy.order_id})` : '')
+  );
+}
+
+/**
+ * Flag an under/over-payment against the order's expected amount
+ * Returns true when the amount is off.
+ */
+export async function checkPaidAmount(params: {
+  orderId: string;
+  provider: string;
+  reference: string;
+  expectedAmount: number;
+  paidAmount: number | undefined;
+  currency: string;
+}): Promise<boolean> {
+  if (params.paidAmount === undefined || params.paidAmount === null) {
+    return false;
+  }
+
+  const check = validatePaymentAmount(params.expectedAmount, params.paidAmount, params.currency);
+  if (check.valid) {
+    return false;
+  }
+
+  await flagPaymentDiscrepancy({
+    order_id: params.orderId,
+    provider: params.provider,
+    provider_reference: params.reference,
+    kind: params.paidAmount < params.expectedAmount ? 'underpayment' : 'overpayment',
+    expected_amount: params.expectedAmount,
+    actual_amount: params.paidAmount,
+    currency: params.currency,
+    details: { error: check.error },
+  });
+
+  return true;
+}
@@ -0,0 +1,448 @@
+/**
+ * Payment Webhook Service
+ * Applies verified Stripe and CamPay webhook events to orders
+ *
+ * Shared by the webhook routes and admin replay of failed events
+ * (see webhook-event.service). Events are already signature-verified and
+ * claimed by the time they get here.
+ */
+
+import { getServerClient } from '../lib/supabase/server';
+import { renderTemplate } from '../lib/email/client';
+import { enqueueEmail, enqueueTemplatedWhatsApp } from './notification-queue.service';
+import { siteConfig } from '../config';
+import { formatDate, getMessages, toLocale, type Locale } from '../lib/i18n';
+import type { WebhookVerifyResult } from '../lib/payments/types';
+import { syncBundleItemsPayment } from './bundle-order.service';
+import {
+  recordPaymentEvent,
+  resolvePaymentSessions,
+  checkPaidAmount,
+} from './payment-session.service';
+import { handleRefundCallback, handleStripeChargeRefunded } from './refund.service';
+import { handlePayoutCallback } from './payout.service';
+import { handleStripeDispute } from './dispute.service';
+
+export type WebhookEventProvider = 'stripe' | 'campay';
+
+export type WebhookProcessResult =
+  | { success: true; outcome: 'processed' | 'skipped' }
+  | { success: false; error: string; notFound?: boolean };
+
+// ============================================
+// DISPATCH
+// ============================================
+
+/**
+ * Apply a verified webhook event to its order
+ */
+export async function processPaymentWebhook(
+  provider: WebhookEventProvider,
+  verification: WebhookVerifyResult
+): Promise<WebhookProcessResult> {
+  return provider === 'stripe'
+    ? processStripeEvent(verification)
+    : processCamPayEvent(verification);
+}
+
+async function getWebhookOrder(orderId: string) {
+  const supabase = getServerClient();
+  const { data: order, error } = await supabase
+    .from('orders')
+    .select('*, profiles(full_name, email, phone, preferred_language)')
+    .eq('id', orderId)
+    .single();
+
+  return error ? null : order;
+}
+
+// ============================================
+// STRIPE
+// ============================================
+
+async function processStripeEvent(verification: WebhookVerifyResult): Promise<WebhookProcessResult> {
+  const { eventType, orderId, paymentStatus, amount, data } = verification;
+  const eventId = (data as Record<string, unknown>)?.id as string;
+
+  if (!orderId) {
+    console.log(`[WEBHOOK:STRIPE] No order ID in event ${eventType}`);
+    return { success: true, outcome: 'skipped' };
+  }
+
+  const order = await getWebhookOrder(orderId);
+  if (!order) {
+    console.error(`[WEBHOOK:STRIPE] Order not found: ${orderId}`);
+    return { success: false, error: 'Order not found', notFound: true };
+  }
+
+  const supabase = getServerClient();
+
+  switch (eventType) {
+    case 'checkout.session.completed': {
+      if (paymentStatus !== 'completed') {
+        return { success: true, outcome: 'skipped' };
+      }
+
+      // Update order to paid status
+      const { error: updateError } = await supabase
+        .from('orders')
+        .update({
+          payment_status: 'paid',
+          status: 'paid',
+          amount_paid: amount || order.amount_expected,
+          payment_provider: 'stripe',
+          payment_reference: eventId,
+          paid_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', orderId);
+
+      if (updateError) {
+        console.error('[WEBHOOK:STRIPE] Update error:', updateError);
+        return { success: false, error: updateError.message };
+      }
+
+      // Record status history
+      await supabase.from('order_status_history').insert({
+        order_id: orderId,
+        old_status: order.status,
+        new_status: 'paid',
+        changed_by: 'system',
+        notes: 'Payment confirmed via Stripe webhook',
+        created_at: new Date().toISOString(),
+      });
+
+      // Bundle songs share the parent's payment
+      if (order.order_type === 'bundle') {
+        await syncBundleItemsPayment(orderId, 'paid');
+      }
+
+      await recordPaymentCompleted(order, 'stripe', eventId, amount, order.currency, data);
+
+      await sendOrderConfirmation(order, orderId, amount, order.currency, 'stripe');
+
+      console.log(`[WEBHOOK:STRIPE] Order ${orderId} marked as paid`);
+      return { success: true, outcome: 'processed' };
+    }
+
+    case 'payment_intent.payment_failed': {
+      const { error: updateError } = await supabase
+        .from('orders')
+        .update({
+          payment_status: 'failed',
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', orderId);
+
+      if (updateError) {
+        return { success: false, error: updateError.message };
+      }
+
+      // Record status history
+      await supabase.from('order_status_history').insert({
+        order_id: orderId,
+        old_status: order.payment_status,
+        new_status: 'failed',
+        changed_by: 'system',
+        notes: 'Payment failed via Stripe',
+        created_at: new Date().toISOString(),
+      });
+
+      if (order.order_type === 'bundle') {
+        await syncBundleItemsPayment(orderId, 'failed');
+      }
+
+      await recordPaymentFailed(orderId, 'stripe', eventId, data);
+
+      console.log(`[WEBHOOK:STRIPE] Order ${orderId} payment failed`);
+      return { success: true, outcome: 'processed' };
+    }
+
+    case 'charge.refunded':
+      return handleStripeChargeRefunded(order, verification);
+
+    case 'charge.dispute.created':
+    case 'charge.dispute.updated':
+    case 'charge.dispute.closed':
+      return handleStripeDispute(order, verification);
+
+    default:
+      console.log(`[WEBHOOK:STRIPE] Unhandled event type: ${eventType}`);
+      return { success: true, outcome: 'skipped' };
+  }
+}
+
+// ============================================
+// CAMPAY
+// ============================================
+
+async function processCamPayEvent(verification: WebhookVerifyResult): Promise<WebhookProcessResult> {
+  const { eventType, orderId, paymentStatus, amount, data } = verification;
+  const reference = (data as Record<string, unknown>)?.reference as string;
+
+  // Withdrawal callbacks for refunds and affiliate payouts arrive on the same endpoint
+  const disbursementResult =
+    (await handleRefundCallback(verification)) ?? (await handlePayoutCallback(verification));
+  if (disbursementResult) {
+    return disbursementResult;
+  }
+
+  if (!orderId) {
+    console.log(`[WEBHOOK:CAMPAY] No order ID in event ${eventType}`);
+    return { success: true, outcome: 'skipped' };
+  }
+
+  // CamPay uses external_reference which is the order ID
+  const order = await getWebhookOrder(orderId);
+  if (!order) {
+    console.error(`[WEBHOOK:CAMPAY] Order not found: ${orderId}`);
+    return { success: false, error: 'Order not found', notFound: true };
+  }
+
+  const supabase = getServerClient();
+
+  if (paymentStatus === 'completed') {
+    // Update order to paid status
+    const { error: updateError } = await supabase
+      .from('orders')
+      .update({
+        payment_status: 'paid',
+        status: 'paid',
+        amount_paid: amount || order.amount_expected,
+        payment_provider: 'campay',
+        payment_reference: reference,
+        paid_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', orderId);
+
+    if (updateError) {
+      console.error('[WEBHOOK:CAMPAY] Update error:', updateError);
+      return { success: false, error: updateError.message };
+    }
+
+    // Record status history
+    await supabase.from('order_status_history').insert({
+      order_id: orderId,
+      old_status: order.status,
+      new_status: 'paid',
+      changed_by: 'system',
+      notes: `Payment confirmed via CamPay Mobile Money (${(data as Record<string, unknown>)?.operator || 'Unknown'})`,
+      created_at: new Date().toISOString(),
+    });
+
+    // Bundle songs share the parent's payment
+    if (order.order_type === 'bundle') {
+      await syncBundleItemsPayment(orderId, 'paid');
+    }
+
+    await recordPaymentCompleted(order, 'campay', reference, amount, 'XAF', data);
+
+    await sendOrderConfirmation(order, orderId, amount, 'XAF', 'campay');
+
+    console.log(`[WEBHOOK:CAMPAY] Order ${orderId} marked as paid`);
+    return { success: true, outcome: 'processed' };
+  }
+
+  if (paymentStatus === 'failed') {
+    const { error: updateError } = await supabase
+      .from('orders')
+      .update({
+        payment_status: 'failed',
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', orderId);
+
+    if (updateError) {
+      return { success: false, error: updateError.message };
+    }
+
+    // Record status history
+    await supabase.from('order_status_history').insert({
+      order_id: orderId,
+      old_status: order.payment_status,
+      new_status: 'failed',
+      changed_by: 'system',
+      notes: 'Payment failed via CamPay Mobile Money',
+      created_at: new Date().toISOString(),
+    });
+
+    if (order.order_type === 'bundle') {
+      await syncBundleItemsPayment(orderId, 'failed');
+    }
+
+    await recordPaymentFailed(orderId, 'campay', reference, data);
+
+    console.log(`[WEBHOOK:CAMPAY] Order ${orderId} payment failed`);
+    return { success: true, outcome: 'processed' };
+  }
+
+  return { success: true, outcome: 'skipped' };
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Close the checkout session, log the payment and flag amount mismatches
+ */
+async function recordPaymentCompleted(
+  order: { id: string; amount_expected: number },
+  provider: WebhookEventProvider,
+  reference: string,
+  amount: number | undefined,
+  currency: string,
+  data: Record<string, unknown> | undefined
+): Promise<void> {
+  await resolvePaymentSessions(order.id, 'completed');
+
+  await recordPaymentEvent({
+    orderId: order.id,
+    provider,
+    eventType: 'payment_completed',
+    reference,
+    amount: amount ?? order.amount_expected,
+    currency,
+    payload: data,
+  });
+
+  await checkPaidAmount({
+    orderId: order.id,
+    provider,
+    reference,
+    expectedAmount: order.amount_expected,
+    paidAmount: amount,
+    currency,
+  });
+}
+
+async function recordPaymentFailed(
+  orderId: string,
+  provider: WebhookEventProvider,
+  reference: string,
+  data: Record<string, unknown> | undefined
+): Promise<void> {
+  await resolvePaymentSessions(orderId, 'failed');
+
+  await recordPaymentEvent({
+    orderId,
+    provider,
+    eventType: 'payment_failed',
+    reference,
+    payload: data,
+  });
+}
+
+/**
+ * Email the customer their order confirmation (and WhatsApp it if they opted in)
+ */
+export async function sendOrderConfirmation(
+  order: {
+    order_number: string;
+    amount_expected: number;
+    package_slug: string | null;
+    occasion_slug: string | null;
+    profiles: unknown;
+  },
+  orderId: string,
+  amount: number | undefined,
+  currency: string,
+  provider: WebhookEventProvider
+): Promise<void> {
+  const profile = order.profiles as {
+    full_name: string | null;
+    email: string;
+    phone?: string | null;
+    preferred_language?: string | null;
+  } | null;
+  if (!profile?.email) {
+    return;
+  }
+
+  const locale = toLocale(profile.preferred_language);
+  const customerName = profile.full_name || getMessages(locale).orderStatus.valuedCustomer;
+  const estimatedDelivery = calculateDeliveryDate(order.package_slug ?? '', locale);
+
+  const template = renderTemplate(
+    'order-confirmation',
+    {
+      orderNumber: order.order_number,
+      customerName,
+      packageName: formatPackageName(order.package_slug ?? ''),
+      amount: String(amount || order.amount_expected),
+      currency,
+      occasionName: formatOccasionName(order.occasion_slug ?? ''),
+      estimatedDelivery,
+      portalUrl: `${siteConfig.url}/dashboard/orders/${orderId}`,
+    },
+    locale
+  );
+
+  const tags = [
+    { name: 'type', value: 'order-confirmation' },
+    { name: 'order', value: order.order_number },
+  ];
+  if (provider === 'campay') {
+    tags.push({ name: 'provider', value: 'campay' });
+  }
+
+  await enqueueEmail(
+    {
+      to: profile.email,
+      subject: template.subject,
+      html: template.html,
+      text: template.text,
+      tags,
+    },
+    { orderId }
+  );
+
+  if (profile.phone) {
+    await enqueueTemplatedWhatsApp(
+      profile.phone,
+      'order-confirmation',
+      {
+        customerName,
+        orderNumber: order.order_number,
+        packageName: formatPackageName(order.package_slug ?? ''),
+        estimatedDelivery,
+      },
+      { orderId, recipientEmail: profile.email, locale }
+    );
+  }
+}
+
+function formatPackageName(slug: string): string {
+  const names: Record<string, string> = {
+    express: 'Express Package',
+    classic: 'Classic Package',
+    signature: 'Signature Package',
+    legacy: 'Legacy Package',
+  };
+  return names[slug] || slug;
+}
+
+function formatOccasionName(slug: string): string {
+  return (slug || 'custom')
+    .replace(/[-_]/g, ' ')
+    .replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+function calculateDeliveryDate(packageSlug: string, locale: Locale): string {
+  const deliveryDays: Record<string, number> = {
+    express: 3,
+    classic: 7,
+    signature: 10,
+    legacy: 14,
+  };
+  const days = deliveryDays[packageSlug] || 7;
+  const deliveryDate = new Date();
+  deliveryDate.setDate(deliveryDate.getDate() + days);
+  return formatDate(deliveryDate, locale, {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+}
@@ -0,0 +1,513 @@
+/**
+ * Payout Disbursement Service
+ * Sends XAF affiliate payouts to the agent's MTN/Orange number via CamPay
+ *
+ * Executing a payout moves the request to 'processing' and starts a CamPay
+ * withdrawal. The transfer settles asynchronously: CamPay's callback (or the
+ * reconciliation sweep) marks it paid and only then is the held amount
+ * debited from the agent's ledger. A failed transfer returns the request to
+ * 'requested' so it can be retried, paid manually or rejected.
+ *
+ * If CamPay's answer is lost (timeout, server error) the withdrawal may still
+ * have gone through, so the request stays 'processing' without a reference
+ * and the sweep finds the withdrawal by its external_reference. Each attempt
+ * is sent as '<request ID>:<attempt>', so a retry is never matched to the
+ * withdrawal of an earlier, failed attempt.
+ */
+
+import { getServerClient } from '../lib/supabase/server';
+import { isValidUUID } from '../lib/security/validation';
+import { getProviderById } from '../lib/payments/provider-factory';
+import type {
+  PaymentProvider,
+  PaymentStatus,
+  ProviderTransaction,
+  WebhookVerifyResult,
+} from '../lib/payments/types';
+import { normalizePhoneNumber, getCarrier } from '../lib/utils/phone';
+import type { WebhookProcessResult } from './payment-webhook.service';
+
+// Pending transfers older than this are re-checked by the sweep
+const SWEEP_MIN_AGE_MS = 5 * 60 * 1000;
+
+// A withdrawal with an unknown outcome that CamPay still doesn't list after
+// this long was never accepted
+const UNKNOWN_DISBURSEMENT_TIMEOUT_MS = 24 * 60 * 60 * 1000;
+
+interface PayoutRequestRow {
+  id: string;
+  user_id: string;
+  amount: number;
+  currency: string;
+  status: string;
+  payment_method: string | null;
+  payment_details: Record<string, unknown> | null;
+  disbursement_reference: string | null;
+  disbursement_status: string | null;
+  disbursement_phone: string | null;
+  disbursement_attempts: number;
+  processed_at: string | null;
+}
+
+export type ExecutePayoutResult =
+  | { success: true; pending: boolean; reference?: string }
+  | { success: false; error: string };
+
+// ============================================
+// EXECUTE
+// ============================================
+
+/**
+ * Disburse a requested payout to the agent's mobile money number
+ */
+export async function executePayoutRequest(id: string, adminId: string): Promise<ExecutePayoutResult> {
+  if (!isValidUUID(id)) {
+    return { success: false, error: 'Invalid payout request ID' };
+  }
+
+  const supabase = getServerClient();
+
+  const { data: payout, error: fetchError } = await supabase
+    .from('payout_requests')
+    .select('*')
+    .eq('id', id)
+    .eq('status', 'requested')
+    .single();
+
+  if (fetchError || !payout) {
+    return { success: false, error: 'Payout request not found or already processed' };
+  }
+
+  const request = payout as PayoutRequestRow;
+
+  if (request.payment_method !== 'mobile_money') {
+    return { success: false, error: 'Only mobile money payouts can be sent automatically' };
+  }
+  if (request.currency !== 'XAF') {
+    return { success: false, error: 'Mobile money payouts must be in XAF' };
+  }
+
+  // The number must be a real MTN/Orange Cameroon line, matching the chosen operator
+  const details = request.payment_details || {};
+  const phoneInput = typeof details.phone === 'string' ? details.phone : '';
+  const carrier = phoneInput ? getCarrier(phoneInput) : null;
+  const phone = phoneInput ? normalizePhoneNumber(phoneInput, 'CM').phone?.e164 : undefined;
+
+  if (!phone || (carrier !== 'mtn' && carrier !== 'orange')) {
+    return { success: false, error: 'Payout phone number is not a valid MTN or Orange Cameroon number' };
+  }
+
+  const operator = typeof details.operator === 'string' ? details.operator.toLowerCase() : '';
+  if (operator && !operator.includes(carrier)) {
+    return {
+      success: false,
+      error: `Payout phone number is on ${carrier.toUpperCase()} but the agent chose ${details.operator}`,
+    };
+  }
+
+  // Resolves to the mock provider when PAYMENT_PROVIDER=mock
+  const provider = getProviderById('campay');
+  if (!provider?.disburse) {
+    return { success: false, error: 'Mobile money disbursements are not available' };
+  }
+
+  // Claim the request so it can't be executed or processed twice
+  const attempt = request.disbursement_attempts + 1;
+  const { data: claimed, error: claimError } = await supabase
+    .from('payout_requests')
+    .update({
+      status: 'processing',
+      disbursement_provider: 'campay',
+      disbursement_status: 'pending',
+      disbursement_phone: phone,
+      disbursement_reference: null,
+      disbursement_error: null,
+      disbursement_attempts: attempt,
+      processed_by: adminId,
+      processed_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+    .eq('status', 'requested')
+    .select('id')
+    .maybeSingle();
+
+  if (claimError || !claimed) {
+    return { success: false, error: 'Payout request not found or already processed' };
+  }
+
+  const result = await provider.disburse({
+    amount: request.amount,
+    currency: 'XAF',
+    phone,
+    description: 'Eventune affiliate payout',
+    externalReference: toExternalReference(id, attempt),
+  });
+
+  if (result.uncertain) {
+    // Never retry blindly: the first transfer may have been accepted
+    await supabase
+      .from('payout_requests')
+      .update({ disbursement_error: result.error ?? 'Disbursement outcome unknown' })
+      .eq('id', id);
+
+    await logPayoutEvent('payout_disbursement_unknown', request, { phone, carrier, error: result.error });
+    console.warn(`[PAYOUTS] Payout ${id} disbursement outcome unknown: ${result.error}`);
+    return { success: true, pending: true };
+  }
+
+  if (!result.success) {
+    await returnPayoutToRequested(id, result.error ?? 'Disbursement failed', result.reference);
+    return { success: false, error: result.error ?? 'Disbursement failed' };
+  }
+
+  await supabase
+    .from('payout_requests')
+    .update({ disbursement_reference: result.reference ?? null })
+    .eq('id', id);
+
+  await logPayoutEvent('payout_disbursement_sent', request, {
+    reference: result.reference,
+    phone,
+    carrier,
+  });
+
+  if (result.status === 'completed') {
+    await completePayout(request, result.reference);
+    return { success: true, pending: false, reference: result.reference };
+  }
+
+  return { success: true, pending: true, reference: result.reference };
+}
+
+// ============================================
+// SETTLEMENT
+// ============================================
+
+/**
+ * Mark a payout paid and debit the held amount
+ * Normally from 'processing'; from 'requested' when a transfer reported as
+ * failed turns out to have gone through. Returns false if it was already settled.
+ */
+async function completePayout(
+  payout: PayoutRequestRow,
+  reference: string | undefined,
+  fromStatus: 'processing' | 'requested' = 'processing'
+): Promise<boolean> {
+  const supabase = getServerClient();
+
+  // Conditional on the status so a repeated callback can't debit twice
+  const { data: completed, error } = await supabase.rpc('complete_referral_payout', {
+    p_payout_id: payout.id,
+    p_from_status: fromStatus,
+    p_transaction_reference: reference ?? payout.disbursement_reference,
+  });
+
+  if (error) {
+    throw new Error(`Failed to mark payout ${payout.id} paid: ${error.message}`);
+  }
+  if (!completed) {
+    return false;
+  }
+
+  if (fromStatus === 'requested' || (reference && !payout.disbursement_reference)) {
+    await supabase
+      .from('payout_requests')
+      .update({
+        disbursement_status: 'completed',
+        disbursement_error: null,
+        disbursed_at: new Date().toISOString(),
+        ...(reference ? { disbursement_reference: reference } : {}),
+      })
+      .eq('id', payout.id);
+  }
+
+  console.log(`[PAYOUTS] Payout ${payout.id} paid (${payout.currency} ${payout.amount})`);
+  return true;
+}
+
+/**
+ * Failed transfer: back to requested so an admin can retry, pay manually or reject
+ */
+async function returnPayoutToRequested(
+  id: string,
+  reason: string,
+  reference?: string
+): Promise<boolean> {
+  const supabase = getServerClient();
+  const { data: updated, error } = await supabase
+    .from('payout_requests')
+    .update({
+      status: 'requested',
+      disbursement_status: 'failed',
+      disbursement_error: reason,
+      ...(reference ? { disbursement_reference: reference } : {}),
+    })
+    .eq('id', id)
+    .eq('status', 'processing')
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    console.error('[PAYOUTS] Failed to reset payout:', error.message);
+    return false;
+  }
+  if (!updated) {
+    return false;
+  }
+
+  await logPayoutEvent('payout_disbursement_failed', updated as PayoutRequestRow, { reference, reason });
+  console.warn(`[PAYOUTS] Payout ${id} disbursement failed: ${reason}`);
+  return true;
+}
+
+// ============================================
+// PROVIDER CALLBACKS
+// ============================================
+
+/**
+ * Settle a payout from its CamPay withdrawal callback
+ * Returns null when the callback isn't for a payout.
+ */
+export async function handlePayoutCallback(
+  verification: WebhookVerifyResult
+): Promise<WebhookProcessResult | null> {
+  const data = verification.data as Record<string, unknown> | undefined;
+  const reference = data?.reference as string | undefined;
+  const sent = parseExternalReference(verification.orderId);
+
+  // Payouts are sent with their request ID and attempt as external_reference
+  const supabase = getServerClient();
+  let query = supabase.from('payout_requests').select('*').not('disbursement_status', 'is', null);
+  if (sent) {
+    query = query.eq('id', sent.payoutId);
+  } else if (reference) {
+    query = query.eq('disbursement_reference', reference);
+  } else {
+    return null;
+  }
+
+  const { data: payout, error } = await query.maybeSingle();
+  if (error) {
+    console.error('[PAYOUTS] Payout lookup failed:', error.message);
+    return { success: false, error: error.message };
+  }
+  if (!payout) {
+    return null;
+  }
+
+  const request = payout as PayoutRequestRow;
+  // A retried payout can still receive the callback of its earlier attempt
+  const isCurrentAttempt = sent?.attempt
+    ? sent.attempt === request.disbursement_attempts
+    : !reference || !request.disbursement_reference || reference === request.disbursement_reference;
+
+  if (request.status !== 'processing' || !isCurrentAttempt) {
+    if (verification.paymentStatus === 'completed') {
+      return handleLateCompletion(request, reference, isCurrentAttempt);
+    }
+
+    console.log(`[PAYOUTS] Payout ${request.id} already ${request.status}`);
+    return { success: true, outcome: 'skipped' };
+  }
+
+  if (verification.paymentStatus === 'completed') {
+    const completed = await completePayout(request, reference);
+    return { success: true, outcome: completed ? 'processed' : 'skipped' };
+  }
+
+  if (verification.paymentStatus === 'failed') {
+    const reason = `CamPay withdrawal failed${data?.code ? ` (${data.code})` : ''}`;
+    const reset = await returnPayoutToRequested(request.id, reason, reference);
+    return { success: true, outcome: reset ? 'processed' : 'skipped' };
+  }
+
+  return { success: true, outcome: 'skipped' };
+}
+
+/**
+ * CamPay confirmed a transfer after we stopped waiting for it
+ * A request that went back to 'requested' is settled; anything else (paid
+ * another way, rejected, or a superseded attempt) needs an admin.
+ */
+async function handleLateCompletion(
+  request: PayoutRequestRow,
+  reference: string | undefined,
+  isCurrentAttempt: boolean
+): Promise<WebhookProcessResult> {
+  if (isCurrentAttempt && request.disbursement_status === 'completed') {
+    console.log(`[PAYOUTS] Payout ${request.id} already ${request.status}`);
+    return { success: true, outcome: 'skipped' };
+  }
+
+  if (isCurrentAttempt && request.status === 'requested' && request.disbursement_status === 'failed') {
+    const completed = await completePayout(request, reference, 'requested');
+    if (completed) {
+      await logPayoutEvent('payout_disbursement_late_success', request, { reference });
+      console.warn(`[PAYOUTS] Payout ${request.id} reported failed but CamPay completed it`);
+    }
+    return { success: true, outcome: completed ? 'processed' : 'skipped' };
+  }
+
+  await logPayoutEvent('payout_disbursement_unexpected', request, { reference, status: request.status });
+  console.error(`[PAYOUTS] CamPay completed a transfer for payout ${request.id}, which is ${request.status}`);
+  return { success: true, outcome: 'processed' };
+}
+
+// ============================================
+// SWEEP
+// ============================================
+
+/**
+ * Re-check pending transfers whose callback never arrived
+ */
+export async function reconcilePendingPayouts(): Promise<{ checked: number; settled: number; errors: number }> {
+  const result = { checked: 0, settled: 0, errors: 0 };
+  const supabase = getServerClient();
+
+  // Includes transfers with an unknown outcome (no reference yet)
+  const { data: payouts, error } = await supabase
+    .from('payout_requests')
+    .select('*')
+    .eq('status', 'processing')
+    .eq('disbursement_status', 'pending')
+    .lt('processed_at', new Date(Date.now() - SWEEP_MIN_AGE_MS).toISOString())
+    .limit(100);
+
+  if (error) {
+    console.error('[PAYOUTS] Failed to load pending payouts:', error.message);
+    result.errors++;
+    return result;
+  }
+
+  const provider = getProviderById('campay');
+  if (!provider) {
+    return result;
+  }
+
+  for (const row of payouts || []) {
+    const payout = row as PayoutRequestRow;
+    result.checked++;
+
+    try {
+      let reference = payout.disbursement_reference;
+      let status: PaymentStatus;
+
+      if (reference) {
+        // The transaction status endpoint covers withdrawals as well as collections
+        const verification = await provider.verifyPayment({ sessionId: reference, orderId: payout.id });
+
+        if (verification.rawResponse && 'error' in verification.rawResponse) {
+          result.errors++;
+          continue;
+        }
+        status = verification.status;
+      } else {
+        const withdrawal = await findWithdrawal(provider, payout);
+
+        if (!withdrawal) {
+          const age = Date.now() - new Date(payout.processed_at!).getTime();
+          if (
+            age > UNKNOWN_DISBURSEMENT_TIMEOUT_MS &&
+            (await returnPayoutToRequested(payout.id, 'No CamPay withdrawal found for this payout'))
+          ) {
+            result.settled++;
+          }
+          continue;
+        }
+
+        reference = withdrawal.reference;
+        status = withdrawal.status;
+        await supabase
+          .from('payout_requests')
+          .update({ disbursement_reference: reference })
+          .eq('id', payout.id)
+          .is('disbursement_reference', null);
+      }
+
+      if (status === 'completed' && (await completePayout(payout, reference))) {
+        result.settled++;
+      } else if (
+        status === 'failed' &&
+        (await returnPayoutToRequested(payout.id, 'CamPay withdrawal failed', reference))
+      ) {
+        result.settled++;
+      }
+    } catch (err) {
+      console.error(`[PAYOUTS] Payout ${payout.id} check failed:`, err);
+      result.errors++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Look up the withdrawal of the payout's current attempt by its external_reference
+ */
+async function findWithdrawal(
+  provider: PaymentProvider,
+  payout: PayoutRequestRow
+): Promise<ProviderTransaction | null> {
+  if (!provider.listTransactions) {
+    return null;
+  }
+
+  const from = new Date(new Date(payout.processed_at!).getTime() - SWEEP_MIN_AGE_MS);
+  const transactions = await provider.listTransactions(from, new Date());
+  // Transfers started before attempts were numbered carry the bare request ID
+  const externalReference = payout.disbursement_attempts
+    ? toExternalReference(payout.id, payout.disbursement_attempts)
+    : payout.id;
+  return transactions.find((transaction) => transaction.orderId === externalReference) ?? null;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function toExternalReference(payoutId: string, attempt: number): string {
+  return `${payoutId}:${attempt}`;
+}
+
+/**
+ * Split an external_reference into payout ID and attempt
+ */
+function parseExternalReference(
+  externalReference: string | undefined
+): { payoutId: string; attempt?: number } | null {
+  if (!externalReference) {
+    return null;
+  }
+
+  const [payoutId, attempt, ...rest] = externalReference.split(':');
+  if (!isValidUUID(payoutId) || rest.length > 0) {
+    return null;
+  }
+  if (attempt === undefined) {
+    return { payoutId };
+  }
+
+  return /^[1-9]\d*$/.test(attempt) ? { payoutId, attempt: Number(attempt) } : null;
+}
+
+async function logPayoutEvent(
+  eventType: string,
+  payout: PayoutRequestRow,
+  data: Record<string, unknown>
+): Promise<void> {
+  const supabase = getServerClient();
+  const { error } = await supabase.from('referral_events').insert({
+    event_type: eventType,
+    referrer_id: payout.user_id,
+    data: {
+      payout_id: payout.id,
+      amount: payout.amount,
+      currency: payout.currency,
+      ...data,
+    },
+  });
+
+  if (error) {
+    console.error('[PAYOUTS] Failed to log referral event:', error.message);
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Preview Service
+ * Customer review stage: stream a watermarked preview, then approve it
+ * or ask for changes
+ *
+ * Previews are 'preview' deliverables. They are only ever handed out as
+ * short-lived inline stream URLs, never as downloads. Approving moves the
+ * order from 'review' to 'completed'; requesting changes goes through the
+ * revision quota (see requestRevision in revision.service).
+ */
+
+import { getServerClient } from '../lib/supabase/server';
+import { isValidUUID } from '../lib/security/validation';
+import { getSignedStreamUrl } from '../lib/storage/r2-client';
+import type { OrderDeliverable } from './deliverable.service';
+import { syncBundleParentStatus } from './bundle-order.service';
+
+// Statuses in which the customer can listen to the preview
+export const PREVIEW_STATUSES = ['review', 'revision'];
+
+// Stream URLs are refreshed by the player when they expire
+const PREVIEW_URL_TTL_SECONDS = 300;
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Latest preview version for an order
+ */
+export async function getLatestPreview(orderId: string): Promise<OrderDeliverable | null> {
+  if (!isValidUUID(orderId)) {
+    return null;
+  }
+
+  const supabase = getServerClient();
+  const { data } = await supabase
+    .from('order_deliverables')
+    .select('*')
+    .eq('order_id', orderId)
+    .eq('file_type', 'preview')
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return data;
+}
+
+/**
+ * Short-lived inline stream URL for the latest preview
+ */
+export async function getPreviewStream(orderId: string): Promise<
+  | { success: true; url: string; expiresAt: string; contentType: string | null; version: number }
+  | { success: false; error: string }
+> {
+  const preview = await getLatestPreview(orderId);
+  if (!preview) {
+    return { success: false, error: 'Preview not yet available' };
+  }
+
+  const result = await getSignedStreamUrl(
+    preview.storage_key,
+    PREVIEW_URL_TTL_SECONDS,
+    preview.content_type ?? undefined
+  );
+
+  if (!result.success || !result.url || !result.expiresAt) {
+    return { success: false, error: result.error || 'Failed to load preview' };
+  }
+
+  return {
+    success: true,
+    url: result.url,
+    expiresAt: result.expiresAt.toISOString(),
+    contentType: preview.content_type,
+    version: preview.version,
+  };
+}
+
+// ============================================
+// APPROVAL
+// ============================================
+
+/**
+ * Customer approves the preview: review -> completed
+ */
+export async function approvePreview(
+  order: { id: string; parent_order_id?: string | null },
+  customerId: string
+): Promise<{ success: boolean; error?: string }> {
+  const preview = await getLatestPreview(order.id);
+  if (!preview) {
+    return { success: false, error: 'There is no preview to approve yet' };
+  }
+
+  const now = new Date().toISOString();
+  const supabase = getServerClient();
+  const { data: updated, error } = await supabase
+    .from('orders')
+    .update({ status: 'completed', updated_at: now })
+    .eq('id', order.id)
+    .eq('status', 'review')
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    console.error('[PREVIEW] Failed to approve preview:', error.message);
+    return { success: false, error: 'Failed to approve preview' };
+  }
+
+  if (!updated) {
+    return { success: false, error: 'This order is not awaiting your review' };
+  }
+
+  await supabase.from('order_status_history').insert({
+    order_id: order.id,
+    old_status: 'review',
+    new_status: 'completed',
+    changed_by: customerId,
+    notes: `Preview v${preview.version} approved by customer`,
+    created_at: now,
+  });
+
+  if (order.parent_order_id) {
+    await syncBundleParentStatus(order.parent_order_id);
+  }
+
+  return { success: true };
+}
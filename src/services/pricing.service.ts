@@ -0,0 +1,310 @@
+/**
+ * Pricing Service
+ * Server-side itemised pricing for orders
+ *
+ * Prices are always recomputed from config tables - never trust
+ * amounts sent by the client.
+ */
+
+import {
+  getPackageBySlug,
+  getAddonBySlug,
+  getVideoProductBySlug,
+  getBundleBySlug,
+  getPackagePrice,
+  calculateAddonPrice,
+  calculateBundlePrice,
+  type Package,
+  type Bundle,
+} from './config.service';
+import { validateCoupon, calculateCouponDiscount, type Coupon } from './coupon.service';
+
+// Upper bound on selectable extras per order (guards against abusive payloads)
+const MAX_EXTRAS_PER_ORDER = 20;
+
+// Smallest total the payment providers will charge (Stripe's minimum is
+// $0.50); coupons never take an order below it, so every order is payable
+export const MIN_PAYABLE_TOTAL: Record<Currency, number> = {
+  USD: 0.5,
+  XAF: 500,
+};
+
+// ============================================
+// TYPES
+// ============================================
+
+export type Currency = 'USD' | 'XAF';
+
+export type LineItemType = 'package' | 'bundle_discount' | 'addon' | 'video_product' | 'coupon_discount';
+
+export interface PricingSelection {
+  packageSlug: string;
+  currency: Currency;
+  addonSlugs?: string[];
+  videoProductSlugs?: string[];
+  bundleSlug?: string | null;
+  couponCode?: string | null;
+  // Needed for coupon restrictions (occasion, first order, per-customer caps)
+  occasionSlug?: string;
+  customerId?: string;
+}
+
+export interface PriceLineItem {
+  item_type: LineItemType;
+  item_slug: string;
+  name: string;
+  quantity: number;
+  unit_price: number;
+  amount: number;
+  delivery_days_additional: number;
+  metadata?: Record<string, unknown>;
+}
+
+export interface OrderPricing {
+  currency: Currency;
+  lineItems: PriceLineItem[];
+  subtotal: number;
+  discount: number;
+  total: number;
+  deliveryDaysAdditional: number;
+  package: Package;
+  bundle: Bundle | null;
+  coupon: Coupon | null;
+}
+
+export type PricingResult =
+  | { success: true; data: OrderPricing }
+  | { success: false; error: string };
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Round to the currency's minor unit (XAF has no decimals)
+ */
+export function roundAmount(amount: number, currency: Currency): number {
+  if (currency === 'XAF') {
+    return Math.round(amount);
+  }
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Normalize a list of slugs from a request body (dedupe, drop non-strings)
+ */
+function normalizeSlugs(slugs: unknown): string[] | null {
+  if (slugs === undefined || slugs === null) {
+    return [];
+  }
+  if (!Array.isArray(slugs)) {
+    return null;
+  }
+
+  const unique = [...new Set(slugs.filter((s): s is string => typeof s === 'string' && s.length > 0))];
+  return unique.length > MAX_EXTRAS_PER_ORDER ? null : unique;
+}
+
+/**
+ * Calculate due date from package turnaround plus extra production days
+ * Mirrors calculate_due_date() in the database
+ */
+export function calculateDueDate(
+  pkg: Package,
+  additionalDays: number = 0,
+  from: Date = new Date()
+): string {
+  const deliveryDays = (pkg.delivery_days_max ?? 14) + additionalDays;
+  const due = new Date(from);
+  due.setDate(due.getDate() + deliveryDays);
+  return due.toISOString().split('T')[0];
+}
+
+// ============================================
+// PRICING
+// ============================================
+
+/**
+ * Build an itemised price breakdown for a package selection
+ *
+ * Bundles multiply the package by song_count and add a negative discount line.
+ * Percentage add-ons apply to the song subtotal (after bundle discount).
+ * Video products run after the song, so the longest one extends the due date.
+ * Coupons apply last, to everything after the bundle discount.
+ */
+export async function calculateOrderPricing(selection: PricingSelection): Promise<PricingResult> {
+  const { packageSlug, currency, bundleSlug } = selection;
+
+  const addonSlugs = normalizeSlugs(selection.addonSlugs);
+  const videoProductSlugs = normalizeSlugs(selection.videoProductSlugs);
+
+  if (!addonSlugs || !videoProductSlugs) {
+    return { success: false, error: 'Invalid add-on or video selection' };
+  }
+
+  const pkg = await getPackageBySlug(packageSlug);
+  if (!pkg) {
+    return { success: false, error: 'Invalid package' };
+  }
+
+  const lineItems: PriceLineItem[] = [];
+  const packagePrice = getPackagePrice(pkg, currency);
+
+  // Songs (single package or bundle)
+  let bundle: Bundle | null = null;
+  let songSubtotal = packagePrice;
+  let discount = 0;
+
+  if (bundleSlug) {
+    bundle = await getBundleBySlug(bundleSlug);
+    if (!bundle) {
+      return { success: false, error: 'Invalid bundle' };
+    }
+
+    const bundlePrice = calculateBundlePrice(bundle, packagePrice);
+    discount = roundAmount(bundlePrice.savings, currency);
+    songSubtotal = roundAmount(bundlePrice.originalPrice, currency) - discount;
+
+    lineItems.push({
+      item_type: 'package',
+      item_slug: pkg.slug,
+      name: pkg.name,
+      quantity: bundle.song_count,
+      unit_price: packagePrice,
+      amount: roundAmount(bundlePrice.originalPrice, currency),
+      delivery_days_additional: 0,
+    });
+
+    lineItems.push({
+      item_type: 'bundle_discount',
+      item_slug: bundle.slug,
+      name: bundle.name,
+      quantity: 1,
+      unit_price: -discount,
+      amount: -discount,
+      delivery_days_additional: 0,
+      metadata: { discount_percentage: bundle.discount_percentage, song_count: bundle.song_count },
+    });
+  } else {
+    lineItems.push({
+      item_type: 'package',
+      item_slug: pkg.slug,
+      name: pkg.name,
+      quantity: 1,
+      unit_price: packagePrice,
+      amount: packagePrice,
+      delivery_days_additional: 0,
+    });
+  }
+
+  // Add-ons
+  const addons = await Promise.all(addonSlugs.map((slug) => getAddonBySlug(slug)));
+  for (let i = 0; i < addons.length; i++) {
+    const addon = addons[i];
+    if (!addon) {
+      return { success: false, error: `Invalid add-on: ${addonSlugs[i]}` };
+    }
+
+    const price = roundAmount(calculateAddonPrice(addon, songSubtotal, currency), currency);
+    lineItems.push({
+      item_type: 'addon',
+      item_slug: addon.slug,
+      name: addon.name,
+      quantity: 1,
+      unit_price: price,
+      amount: price,
+      delivery_days_additional: 0,
+      metadata: {
+        category: addon.category,
+        price_type: addon.price_type,
+        ...(addon.price_type === 'percentage' && { percentage: addon.percentage }),
+        ...(addon.category === 'revision' && { revision_count: addon.revision_count }),
+      },
+    });
+  }
+
+  // Video products
+  const videoProducts = await Promise.all(videoProductSlugs.map((slug) => getVideoProductBySlug(slug)));
+  let deliveryDaysAdditional = 0;
+  for (let i = 0; i < videoProducts.length; i++) {
+    const video = videoProducts[i];
+    if (!video) {
+      return { success: false, error: `Invalid video product: ${videoProductSlugs[i]}` };
+    }
+
+    const price = currency === 'USD' ? video.price_usd : video.price_xaf;
+    const extraDays = video.delivery_days_additional ?? 0;
+    deliveryDaysAdditional = Math.max(deliveryDaysAdditional, extraDays);
+
+    lineItems.push({
+      item_type: 'video_product',
+      item_slug: video.slug,
+      name: video.name,
+      quantity: 1,
+      unit_price: price,
+      amount: price,
+      delivery_days_additional: extraDays,
+      metadata: { category: video.category },
+    });
+  }
+
+  const subtotal = roundAmount(
+    lineItems.filter((item) => item.amount > 0).reduce((sum, item) => sum + item.amount, 0),
+    currency
+  );
+
+  // Coupon
+  let coupon: Coupon | null = null;
+  if (selection.couponCode) {
+    const couponResult = await validateCoupon(selection.couponCode, {
+      currency,
+      packageSlug: pkg.slug,
+      occasionSlug: selection.occasionSlug,
+      customerId: selection.customerId,
+    });
+
+    if (!couponResult.success) {
+      return { success: false, error: couponResult.error };
+    }
+
+    coupon = couponResult.data;
+    const maxCouponDiscount = Math.max(0, subtotal - discount - MIN_PAYABLE_TOTAL[currency]);
+    const couponDiscount = roundAmount(
+      Math.min(calculateCouponDiscount(coupon, subtotal - discount, currency), maxCouponDiscount),
+      currency
+    );
+    discount = roundAmount(discount + couponDiscount, currency);
+
+    lineItems.push({
+      item_type: 'coupon_discount',
+      item_slug: coupon.code,
+      name: coupon.description || `Promo code ${coupon.code}`,
+      quantity: 1,
+      unit_price: -couponDiscount,
+      amount: -couponDiscount,
+      delivery_days_additional: 0,
+      metadata: {
+        coupon_id: coupon.id,
+        discount_type: coupon.discount_type,
+        ...(coupon.discount_type === 'percentage' && { percentage: coupon.percentage }),
+      },
+    });
+  }
+
+  const total = roundAmount(subtotal - discount, currency);
+
+  return {
+    success: true,
+    data: {
+      currency,
+      lineItems,
+      subtotal,
+      discount,
+      total,
+      deliveryDaysAdditional,
+      package: pkg,
+      bundle,
+      coupon,
+    },
+  };
+}
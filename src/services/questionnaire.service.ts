@@ -7,6 +7,8 @@
  */
 
 import { getServerClient } from '../lib/supabase/server';
+import { DEFAULT_LOCALE, localizeContent, type Locale, type Translations } from '../lib/i18n';
+import type { Json } from '../types/database.types';
 
 // Cache TTL in milliseconds
 const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
@@ -63,24 +65,47 @@ export interface QuestionnaireField {
     max?: number;
   } | null;
   is_active: boolean;
+  translations: Json;
   created_at: string;
   updated_at: string;
 }
 
+/**
+ * Overlay a field's translations for a locale
+ * Option labels are translated under "option.<value>" keys.
+ */
+function localizeField(field: QuestionnaireField, locale: Locale): QuestionnaireField {
+  const localized = localizeContent(field, locale);
+  const translation = (field.translations as Translations | null)?.[locale];
+  if (!translation || !localized.options) return localized;
+
+  return {
+    ...localized,
+    options: localized.options.map((opt) => ({
+      ...opt,
+      label: translation[`option.${opt.value}`]?.trim() || opt.label,
+    })),
+  };
+}
+
 /**
  * Get questionnaire fields for a specific occasion
  * Includes both common fields (null occasion_slug) and occasion-specific fields
  *
  * @param occasionSlug - The occasion slug to fetch fields for
+ * @param locale - Language of the labels, placeholders and options
  * @returns Array of questionnaire fields sorted by group and display order
  */
-export async function getQuestionnaireFields(occasionSlug: string): Promise<QuestionnaireField[]> {
+export async function getQuestionnaireFields(
+  occasionSlug: string,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<QuestionnaireField[]> {
   // Check cache first
   const cacheKey = `questionnaire:${occasionSlug}`;
   const cached = getCached<QuestionnaireField[]>(cacheKey);
   if (cached) {
     console.log('[Questionnaire] Using cached fields for:', occasionSlug);
-    return cached;
+    return cached.map((field) => localizeField(field, locale));
   }
 
   try {
@@ -117,7 +142,7 @@ export async function getQuestionnaireFields(occasionSlug: string): Promise<Ques
     // Cache the result
     setCache(cacheKey, fields);
 
-    return fields;
+    return fields.map((field) => localizeField(field, locale));
   } catch (error) {
     console.error('[Questionnaire] Error fetching fields:', error);
     return [];
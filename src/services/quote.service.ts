@@ -0,0 +1,270 @@
+/**
+ * Quote Service
+ * Signed, expiring price quotes that order creation must present
+ *
+ * A quote freezes the server-computed price for a short window so a
+ * config change between browsing and paying can't silently alter the
+ * amount charged. The HMAC signature covers every priced field, so a
+ * row edited outside this service is rejected.
+ */
+
+import { getServerClient } from '../lib/supabase/server';
+import { hmacSign, hmacVerify } from '../lib/security/encryption';
+import { isValidUUID } from '../lib/security/validation';
+import type { Json, Tables } from '../types/database.types';
+import {
+  calculateOrderPricing,
+  type Currency,
+  type PriceLineItem,
+  type PricingSelection,
+} from './pricing.service';
+
+// How long a quote can be used to create an order
+export const QUOTE_TTL_MS = 30 * 60 * 1000; // 30 minutes
+
+// ============================================
+// TYPES
+// ============================================
+
+export type QuoteRow = Tables<'order_quotes'>;
+
+export interface QuoteRequest extends PricingSelection {
+  occasionSlug: string;
+}
+
+export interface Quote {
+  id: string;
+  customer_id: string;
+  package_slug: string;
+  occasion_slug: string;
+  currency: Currency;
+  selection: {
+    addon_slugs: string[];
+    video_product_slugs: string[];
+    bundle_slug: string | null;
+    coupon_code: string | null;
+  };
+  line_items: PriceLineItem[];
+  subtotal: number;
+  discount: number;
+  total: number;
+  delivery_days_additional: number;
+  expires_at: string;
+  signature: string;
+}
+
+export type QuoteResult =
+  | { success: true; data: Quote }
+  | { success: false; error: string };
+
+// ============================================
+// SIGNING
+// ============================================
+
+function getSigningSecret(): string {
+  const secret = import.meta.env.QUOTE_SIGNING_SECRET;
+  if (!secret) {
+    throw new Error('QUOTE_SIGNING_SECRET environment variable is required');
+  }
+  return secret;
+}
+
+/**
+ * Stable JSON serialization (sorted keys) so JSONB round-trips verify
+ */
+function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function getSignedPayload(quote: Omit<Quote, 'signature'>): string {
+  return canonicalize({
+    id: quote.id,
+    customer_id: quote.customer_id,
+    package_slug: quote.package_slug,
+    occasion_slug: quote.occasion_slug,
+    currency: quote.currency,
+    selection: quote.selection,
+    line_items: quote.line_items,
+    subtotal: Number(quote.subtotal),
+    discount: Number(quote.discount),
+    total: Number(quote.total),
+    delivery_days_additional: quote.delivery_days_additional,
+    // Normalize timestamp format (DB returns +00:00, JS emits Z)
+    expires_at: new Date(quote.expires_at).getTime(),
+  });
+}
+
+function rowToQuote(row: QuoteRow): Quote {
+  return {
+    id: row.id,
+    customer_id: row.customer_id,
+    package_slug: row.package_slug,
+    occasion_slug: row.occasion_slug,
+    currency: row.currency,
+    selection: row.selection as unknown as Quote['selection'],
+    line_items: row.line_items as unknown as PriceLineItem[],
+    subtotal: Number(row.subtotal),
+    discount: Number(row.discount),
+    total: Number(row.total),
+    delivery_days_additional: row.delivery_days_additional,
+    expires_at: row.expires_at,
+    signature: row.signature,
+  };
+}
+
+// ============================================
+// QUOTES
+// ============================================
+
+/**
+ * Price a selection and persist it as a signed quote
+ */
+export async function createQuote(
+  customerId: string,
+  request: QuoteRequest
+): Promise<QuoteResult> {
+  const pricing = await calculateOrderPricing({ ...request, customerId });
+  if (!pricing.success) {
+    return { success: false, error: pricing.error };
+  }
+
+  const { data: priced } = pricing;
+  const unsigned: Omit<Quote, 'signature'> = {
+    id: crypto.randomUUID(),
+    customer_id: customerId,
+    package_slug: priced.package.slug,
+    occasion_slug: request.occasionSlug,
+    currency: priced.currency,
+    selection: {
+      addon_slugs: priced.lineItems.filter((i) => i.item_type === 'addon').map((i) => i.item_slug),
+      video_product_slugs: priced.lineItems.filter((i) => i.item_type === 'video_product').map((i) => i.item_slug),
+      bundle_slug: priced.bundle?.slug ?? null,
+      coupon_code: priced.coupon?.code ?? null,
+    },
+    line_items: priced.lineItems,
+    subtotal: priced.subtotal,
+    discount: priced.discount,
+    total: priced.total,
+    delivery_days_additional: priced.deliveryDaysAdditional,
+    expires_at: new Date(Date.now() + QUOTE_TTL_MS).toISOString(),
+  };
+
+  const signature = await hmacSign(getSignedPayload(unsigned), getSigningSecret());
+  const quote: Quote = { ...unsigned, signature };
+
+  const supabase = getServerClient();
+  const { error } = await supabase.from('order_quotes').insert({
+    ...quote,
+    selection: quote.selection as unknown as Json,
+    line_items: quote.line_items as unknown as Json,
+  });
+
+  if (error) {
+    console.error('[QUOTE] Failed to persist quote:', error.message);
+    return { success: false, error: 'Failed to create quote' };
+  }
+
+  return { success: true, data: quote };
+}
+
+/**
+ * Load a quote and check ownership, expiry, consumption and signature
+ */
+export async function getValidQuote(
+  quoteId: string,
+  customerId: string
+): Promise<QuoteResult> {
+  if (!quoteId || !isValidUUID(quoteId)) {
+    return { success: false, error: 'Invalid quote' };
+  }
+
+  const supabase = getServerClient();
+  const { data: row, error } = await supabase
+    .from('order_quotes')
+    .select('*')
+    .eq('id', quoteId)
+    .single();
+
+  if (error || !row) {
+    return { success: false, error: 'Invalid quote' };
+  }
+
+  if (row.customer_id !== customerId) {
+    return { success: false, error: 'Invalid quote' };
+  }
+
+  if (row.consumed_at) {
+    return { success: false, error: 'Quote has already been used' };
+  }
+
+  if (new Date(row.expires_at).getTime() <= Date.now()) {
+    return { success: false, error: 'Quote has expired. Please review the updated price.' };
+  }
+
+  const quote = rowToQuote(row);
+  const { signature, ...unsigned } = quote;
+  const valid = await hmacVerify(getSignedPayload(unsigned), signature, getSigningSecret());
+
+  if (!valid) {
+    console.error('[QUOTE] Signature mismatch for quote:', quoteId);
+    return { success: false, error: 'Invalid quote' };
+  }
+
+  return { success: true, data: quote };
+}
+
+/**
+ * Atomically mark a quote as used. Returns false if it was already claimed.
+ */
+export async function claimQuote(quoteId: string): Promise<boolean> {
+  const supabase = getServerClient();
+  const { data, error } = await supabase
+    .from('order_quotes')
+    .update({ consumed_at: new Date().toISOString() })
+    .eq('id', quoteId)
+    .is('consumed_at', null)
+    .select('id');
+
+  if (error) {
+    console.error('[QUOTE] Failed to claim quote:', error.message);
+    return false;
+  }
+
+  return (data?.length ?? 0) > 0;
+}
+
+/**
+ * Release a claimed quote after a failed order creation
+ */
+export async function releaseQuote(quoteId: string): Promise<void> {
+  const supabase = getServerClient();
+  await supabase
+    .from('order_quotes')
+    .update({ consumed_at: null, order_id: null })
+    .eq('id', quoteId);
+}
+
+/**
+ * Link a consumed quote to the order created from it
+ */
+export async function linkQuoteToOrder(quoteId: string, orderId: string): Promise<void> {
+  const supabase = getServerClient();
+  const { error } = await supabase
+    .from('order_quotes')
+    .update({ order_id: orderId })
+    .eq('id', quoteId);
+
+  if (error) {
+    console.error('[QUOTE] Failed to link quote to order:', error.message);
+  }
+}
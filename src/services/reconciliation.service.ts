@@ -0,0 +1,603 @@
+/**
+ * Payment Reconciliation Service
+ * Scheduled checks that catch what webhooks and status polling missed
+ *
+ * - reconcileOpenSessions: re-verifies pending payment sessions with the
+ *   provider, applies completed/failed outcomes, expires abandoned sessions
+ *   and flags under/over-payments
+ * - generateReconciliationReport: daily comparison of our payment_events
+ *   against each provider's transaction list
+ */
+
+import { getServerClient } from '../lib/supabase/server';
+import { getProviderById } from '../lib/payments';
+import type { PaymentVerifyResult, ProviderTransaction } from '../lib/payments';
+import { validatePaymentAmount } from '../lib/security/webhook-verifier';
+import type { Json } from '../types/database.types';
+import { syncBundleItemsPayment } from './bundle-order.service';
+import { releaseCouponRedemption } from './coupon.service';
+import { sendOrderConfirmation, type WebhookEventProvider } from './payment-webhook.service';
+import {
+  PAYMENT_COMPLETED_EVENTS,
+  recordPaymentEvent,
+  resolvePaymentSessions,
+  flagPaymentDiscrepancy,
+  checkPaidAmount,
+  type PaymentSession,
+} from './payment-session.service';
+
+// Sessions re-verified per sweep, oldest first
+const SWEEP_BATCH_SIZE = 200;
+
+// Providers covered by the daily report
+const REPORT_PROVIDERS: WebhookEventProvider[] = ['stripe', 'campay'];
+
+// Provider and webhook timestamps can straddle midnight
+const REPORT_WINDOW_GRACE_MS = 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SessionSweepResult {
+  checked: number;
+  completed: number;
+  failed: number;
+  expired: number;
+  stillPending: number;
+  amountMismatches: number;
+  errors: number;
+}
+
+export interface ReconciliationReportResult {
+  provider: string;
+  status: 'balanced' | 'discrepancies' | 'error';
+  providerCount: number;
+  ourCount: number;
+  matchedCount: number;
+  discrepancyCount: number;
+  error?: string;
+}
+
+interface SweepOrder {
+  id: string;
+  order_number: string;
+  status: string;
+  payment_status: string;
+  amount_expected: number;
+  currency: string;
+  order_type: string;
+  package_slug: string | null;
+  occasion_slug: string | null;
+  profiles: unknown;
+}
+
+// ============================================
+// SESSION SWEEP
+// ============================================
+
+/**
+ * Re-verify open payment sessions with their provider
+ */
+export async function reconcileOpenSessions(now: Date = new Date()): Promise<SessionSweepResult> {
+  const result: SessionSweepResult = {
+    checked: 0,
+    completed: 0,
+    failed: 0,
+    expired: 0,
+    stillPending: 0,
+    amountMismatches: 0,
+    errors: 0,
+  };
+
+  const supabase = getServerClient();
+  const { data: sessions, error } = await supabase
+    .from('payment_sessions')
+    .select(
+      '*, orders(id, order_number, status, payment_status, amount_expected, currency, order_type, package_slug, occasion_slug, profiles(full_name, email, phone, preferred_language))'
+    )
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true })
+    .limit(SWEEP_BATCH_SIZE);
+
+  if (error) {
+    console.error('[RECONCILIATION] Failed to load open sessions:', error.message);
+    result.errors++;
+    return result;
+  }
+
+  for (const row of sessions || []) {
+    const { orders, ...session } = row as PaymentSession & { orders: SweepOrder | null };
+    result.checked++;
+
+    try {
+      const outcome = await reconcileSession(session, orders, now);
+      if (outcome === 'mismatch') {
+        result.completed++;
+        result.amountMismatches++;
+      } else if (outcome === 'completed') {
+        result.completed++;
+      } else if (outcome === 'failed') {
+        result.failed++;
+      } else if (outcome === 'expired') {
+        result.expired++;
+      } else if (outcome === 'pending') {
+        result.stillPending++;
+      } else {
+        result.errors++;
+      }
+    } catch (err) {
+      console.error(`[RECONCILIATION] Session ${session.id} failed:`, err);
+      result.errors++;
+    }
+  }
+
+  console.log(
+    `[RECONCILIATION] Swept ${result.checked} sessions: ${result.completed} completed, ` +
+      `${result.failed} failed, ${result.expired} expired, ${result.errors} errors`
+  );
+
+  return result;
+}
+
+async function reconcileSession(
+  session: PaymentSession,
+  order: SweepOrder | null,
+  now: Date
+): Promise<'completed' | 'mismatch' | 'failed' | 'expired' | 'pending' | 'error'> {
+  const expired = new Date(session.expires_at) < now;
+
+  if (!order) {
+    return 'error';
+  }
+
+  // A webhook or status poll already settled the order
+  if (order.payment_status === 'paid') {
+    await resolvePaymentSessions(order.id, 'completed', session.id);
+    return 'completed';
+  }
+
+  const provider = session.provider_session_id ? getProviderById(session.provider) : null;
+  if (!provider || !session.provider_session_id) {
+    if (expired) {
+      await expireSession(session, order);
+      return 'expired';
+    }
+    return 'error';
+  }
+
+  const verification = await provider.verifyPayment({
+    sessionId: session.provider_session_id,
+    orderId: order.id,
+  });
+
+  const supabase = getServerClient();
+  await supabase
+    .from('payment_sessions')
+    .update({
+      check_count: session.check_count + 1,
+      last_checked_at: now.toISOString(),
+    })
+    .eq('id', session.id);
+
+  // Providers report lookup errors as 'failed' - that says nothing about the payment
+  if (verification.rawResponse && 'error' in verification.rawResponse) {
+    console.error(
+      `[RECONCILIATION] Could not verify ${session.provider} session ${session.provider_session_id}:`,
+      verification.rawResponse.error
+    );
+    return 'error';
+  }
+
+  switch (verification.status) {
+    case 'completed':
+      return (await applyCompletedPayment(session, order, verification)) ? 'mismatch' : 'completed';
+
+    case 'failed':
+      // Stripe reports abandoned checkouts as failed once they expire
+      if (expired) {
+        await expireSession(session, order);
+        return 'expired';
+      }
+      await applyFailedPayment(session, order, verification);
+      return 'failed';
+
+    default:
+      if (expired) {
+        await expireSession(session, order);
+        return 'expired';
+      }
+      return 'pending';
+  }
+}
+
+/**
+ * Mark the order paid from a provider-confirmed session
+ * Returns true when the paid amount doesn't match the order.
+ */
+async function applyCompletedPayment(
+  session: PaymentSession,
+  order: SweepOrder,
+  verification: PaymentVerifyResult
+): Promise<boolean> {
+  const supabase = getServerClient();
+  const reference = session.provider_session_id as string;
+  const currency = verification.currency ?? order.currency;
+
+  // Conditional on payment_status so a webhook landing mid-sweep isn't applied twice
+  const { data: updated, error } = await supabase
+    .from('orders')
+    .update({
+      payment_status: 'paid',
+      status: 'paid',
+      amount_paid: verification.paidAmount ?? order.amount_expected,
+      payment_provider: session.provider,
+      payment_reference: reference,
+      paid_at: (verification.paidAt ?? new Date()).toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', order.id)
+    .neq('payment_status', 'paid')
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to mark order ${order.id} paid: ${error.message}`);
+  }
+
+  await resolvePaymentSessions(order.id, 'completed', session.id);
+
+  if (updated) {
+    await supabase.from('order_status_history').insert({
+      order_id: order.id,
+      old_status: order.status,
+      new_status: 'paid',
+      changed_by: 'system',
+      notes: `Payment confirmed by reconciliation (${session.provider})`,
+      created_at: new Date().toISOString(),
+    });
+
+    if (order.order_type === 'bundle') {
+      await syncBundleItemsPayment(order.id, 'paid');
+    }
+
+    await recordPaymentEvent({
+      orderId: order.id,
+      provider: session.provider,
+      eventType: 'payment_completed',
+      reference,
+      amount: verification.paidAmount ?? order.amount_expected,
+      currency,
+      payload: { source: 'reconciliation', transaction_id: verification.transactionId },
+    });
+
+    // The webhook never arrived, so neither did the confirmation email
+    await sendOrderConfirmation(
+      order,
+      order.id,
+      verification.paidAmount,
+      currency,
+      session.provider as WebhookEventProvider
+    );
+
+    console.log(`[RECONCILIATION] Order ${order.id} marked as paid`);
+  }
+
+  return checkPaidAmount({
+    orderId: order.id,
+    provider: session.provider,
+    reference,
+    expectedAmount: order.amount_expected,
+    paidAmount: verification.paidAmount,
+    currency,
+  });
+}
+
+async function applyFailedPayment(
+  session: PaymentSession,
+  order: SweepOrder,
+  verification: PaymentVerifyResult
+): Promise<void> {
+  const supabase = getServerClient();
+
+  const { data: updated } = await supabase
+    .from('orders')
+    .update({
+      payment_status: 'failed',
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', order.id)
+    .in('payment_status', ['pending', 'processing'])
+    .select('id')
+    .maybeSingle();
+
+  await resolvePaymentSessions(order.id, 'failed', session.id);
+
+  await recordPaymentEvent({
+    orderId: order.id,
+    provider: session.provider,
+    eventType: 'payment_failed',
+    reference: session.provider_session_id,
+    payload: { source: 'reconciliation', status: verification.status },
+  });
+
+  if (updated) {
+    await supabase.from('order_status_history').insert({
+      order_id: order.id,
+      old_status: order.status,
+      new_status: order.status,
+      changed_by: 'system',
+      notes: `Payment failed (${session.provider}, found by reconciliation)`,
+      created_at: new Date().toISOString(),
+    });
+
+    if (order.order_type === 'bundle') {
+      await syncBundleItemsPayment(order.id, 'failed');
+    }
+  }
+}
+
+/**
+ * Close an abandoned checkout - the order goes back to pending so the customer can retry
+ */
+async function expireSession(session: PaymentSession, order: SweepOrder): Promise<void> {
+  const supabase = getServerClient();
+  await resolvePaymentSessions(order.id, 'expired', session.id);
+
+  // Starting a checkout moved the order to 'processing'; keep it there while
+  // another checkout for the order is still open
+  const { count: openSessions } = await supabase
+    .from('payment_sessions')
+    .select('id', { count: 'exact', head: true })
+    .eq('order_id', order.id)
+    .eq('status', 'pending');
+
+  if (!openSessions) {
+    await supabase
+      .from('orders')
+      .update({ payment_status: 'pending', updated_at: new Date().toISOString() })
+      .eq('id', order.id)
+      .eq('payment_status', 'processing');
+  }
+
+  await recordPaymentEvent({
+    orderId: order.id,
+    provider: session.provider,
+    eventType: 'session_expired',
+    reference: session.provider_session_id,
+    amount: session.amount,
+    currency: session.currency,
+    payload: { source: 'reconciliation', expires_at: session.expires_at },
+  });
+
+  // Free the promo code's cap slot; it is taken back if the retry is paid
+  await releaseCouponRedemption(order.id);
+}
+
+// ============================================
+// DAILY REPORT
+// ============================================
+
+/**
+ * Compare one UTC day of payment_events against each provider's transactions
+ */
+export async function generateReconciliationReport(
+  reportDate: Date
+): Promise<ReconciliationReportResult[]> {
+  const dayStart = new Date(
+    Date.UTC(reportDate.getUTCFullYear(), reportDate.getUTCMonth(), reportDate.getUTCDate())
+  );
+  const dayEnd = new Date(dayStart.getTime() + DAY_MS);
+  const date = dayStart.toISOString().slice(0, 10);
+
+  const results: ReconciliationReportResult[] = [];
+  for (const providerId of REPORT_PROVIDERS) {
+    results.push(await reconcileProviderDay(providerId, date, dayStart, dayEnd));
+  }
+
+  const flagged = results.filter((r) => r.status !== 'balanced');
+  if (flagged.length > 0) {
+    await sendReportAlert(date, flagged);
+  }
+
+  return results;
+}
+
+async function reconcileProviderDay(
+  providerId: WebhookEventProvider,
+  date: string,
+  dayStart: Date,
+  dayEnd: Date
+): Promise<ReconciliationReportResult> {
+  const supabase = getServerClient();
+  const windowStart = new Date(dayStart.getTime() - REPORT_WINDOW_GRACE_MS);
+  const windowEnd = new Date(dayEnd.getTime() + REPORT_WINDOW_GRACE_MS);
+  const inDay = (at: Date) => at >= dayStart && at < dayEnd;
+
+  let result: ReconciliationReportResult;
+  let summary: Record<string, unknown> = {};
+
+  try {
+    const provider = getProviderById(providerId);
+    if (!provider?.listTransactions) {
+      throw new Error(`${providerId} does not support transaction listing`);
+    }
+
+    const transactions = (await provider.listTransactions(windowStart, windowEnd)).filter(
+      (t) => t.provider === providerId && t.status === 'completed'
+    );
+
+    const { data: events, error } = await supabase
+      .from('payment_events')
+      .select('order_id, provider_reference, amount, currency, created_at')
+      .eq('provider', providerId)
+      .in('event_type', PAYMENT_COMPLETED_EVENTS)
+      .gte('created_at', windowStart.toISOString())
+      .lt('created_at', windowEnd.toISOString());
+
+    if (error) {
+      throw new Error(`Failed to load payment events: ${error.message}`);
+    }
+
+    // Webhook and status polling can both log the same payment
+    const ours = new Map<string, NonNullable<typeof events>[number]>();
+    for (const event of events || []) {
+      if (event.provider_reference && !ours.has(event.provider_reference)) {
+        ours.set(event.provider_reference, event);
+      }
+    }
+    const theirs = new Map<string, ProviderTransaction>(transactions.map((t) => [t.reference, t]));
+
+    const dayTransactions = transactions.filter((t) => inDay(t.createdAt));
+    const dayEvents = [...ours.values()].filter((e) => inDay(new Date(e.created_at)));
+
+    const missingEvent: string[] = [];
+    const missingAtProvider: string[] = [];
+    const amountMismatch: string[] = [];
+    let matchedCount = 0;
+
+    for (const transaction of dayTransactions) {
+      const event = ours.get(transaction.reference);
+      if (!event) {
+        missingEvent.push(transaction.reference);
+        await flagPaymentDiscrepancy({
+          order_id: transaction.orderId ?? null,
+          provider: providerId,
+          provider_reference: transaction.reference,
+          kind: 'missing_event',
+          expected_amount: null,
+          actual_amount: transaction.amount,
+          currency: transaction.currency,
+          details: { report_date: date, provider_created_at: transaction.createdAt.toISOString() },
+        });
+        continue;
+      }
+
+      const check = validatePaymentAmount(
+        transaction.amount,
+        Number(event.amount ?? 0),
+        transaction.currency
+      );
+      if (!check.valid) {
+        amountMismatch.push(transaction.reference);
+        await flagPaymentDiscrepancy({
+          order_id: event.order_id,
+          provider: providerId,
+          provider_reference: transaction.reference,
+          kind: 'amount_mismatch',
+          expected_amount: transaction.amount,
+          actual_amount: event.amount,
+          currency: transaction.currency,
+          details: { report_date: date, error: check.error },
+        });
+        continue;
+      }
+
+      matchedCount++;
+    }
+
+    for (const event of dayEvents) {
+      const reference = event.provider_reference as string;
+      if (theirs.has(reference)) {
+        continue;
+      }
+      missingAtProvider.push(reference);
+      await flagPaymentDiscrepancy({
+        order_id: event.order_id,
+        provider: providerId,
+        provider_reference: reference,
+        kind: 'missing_at_provider',
+        expected_amount: event.amount,
+        actual_amount: null,
+        currency: event.currency,
+        details: { report_date: date, recorded_at: event.created_at },
+      });
+    }
+
+    const discrepancyCount = missingEvent.length + missingAtProvider.length + amountMismatch.length;
+    summary = {
+      provider_totals: sumByCurrency(dayTransactions.map((t) => ({ amount: t.amount, currency: t.currency }))),
+      our_totals: sumByCurrency(dayEvents.map((e) => ({ amount: Number(e.amount ?? 0), currency: e.currency ?? '' }))),
+      missing_event: missingEvent,
+      missing_at_provider: missingAtProvider,
+      amount_mismatch: amountMismatch,
+    };
+
+    result = {
+      provider: providerId,
+      status: discrepancyCount > 0 ? 'discrepancies' : 'balanced',
+      providerCount: dayTransactions.length,
+      ourCount: dayEvents.length,
+      matchedCount,
+      discrepancyCount,
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    console.error(`[RECONCILIATION] ${providerId} report for ${date} failed:`, message);
+    result = {
+      provider: providerId,
+      status: 'error',
+      providerCount: 0,
+      ourCount: 0,
+      matchedCount: 0,
+      discrepancyCount: 0,
+      error: message,
+    };
+  }
+
+  // Re-running a day replaces its report
+  const { error: saveError } = await supabase.from('reconciliation_reports').upsert(
+    {
+      report_date: date,
+      provider: providerId,
+      status: result.status,
+      provider_count: result.providerCount,
+      our_count: result.ourCount,
+      matched_count: result.matchedCount,
+      discrepancy_count: result.discrepancyCount,
+      summary: summary as Json,
+      error: result.error ?? null,
+      created_at: new Date().toISOString(),
+    },
+    { onConflict: 'report_date,provider' }
+  );
+
+  if (saveError) {
+    console.error('[RECONCILIATION] Failed to save report:', saveError.message);
+  }
+
+  return result;
+}
+
+function sumByCurrency(items: { amount: number; currency: string }[]): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const item of items) {
+    totals[item.currency] = (totals[item.currency] ?? 0) + item.amount;
+  }
+  return totals;
+}
+
+async function sendReportAlert(date: string, flagged: ReconciliationReportResult[]): Promise<void> {
+  try {
+    const { enqueueEmail } = await import('./notification-queue.service');
+    const { siteConfig } = await import('../config');
+
+    const lines = flagged.map((r) =>
+      r.status === 'error'
+        ? `${r.provider}: report failed - ${r.error}`
+        : `${r.provider}: ${r.discrepancyCount} discrepancies (${r.matchedCount} of ${r.providerCount} provider transactions matched)`
+    );
+
+    await enqueueEmail({
+      to: siteConfig.contact.orders,
+      subject: `Payment Reconciliation - ${date}`,
+      html: `
+        <h2>Payment Reconciliation - ${date}</h2>
+        <p>The daily reconciliation found payments that need review:</p>
+        <ul>${lines.map((line) => `<li>${line}</li>`).join('')}</ul>
+      `,
+      text: `Payment Reconciliation - ${date}\n\nThe daily reconciliation found payments that need review:\n\n${lines.join('\n')}`,
+      tags: [{ name: 'type', value: 'payment-reconciliation' }],
+    });
+  } catch (error) {
+    console.error('[RECONCILIATION] Failed to send report email:', error);
+  }
+}
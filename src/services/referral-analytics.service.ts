@@ -0,0 +1,232 @@
+/**
+ * Referral Analytics Service
+ * Click capture and clicks -> signups -> first orders funnels
+ *
+ * referralMiddleware records a click for every visit that carries an
+ * agent's code; record_referral_click() drops repeat visits (same
+ * visitor, agent, link and UTC day). get_referral_funnel() joins the
+ * clicks with signups, first orders and attributed revenue.
+ */
+
+import { getServerClient } from '../lib/supabase/server';
+
+export type DeviceClass = 'desktop' | 'mobile' | 'tablet';
+export type FunnelGrouping = 'agent' | 'campaign';
+
+export interface ReferralClickInput {
+  referralCode: string;
+  visitorId: string;
+  linkId?: string | null;
+  landingPage: string;
+  referrerHost?: string | null;
+  utm?: {
+    source?: string | null;
+    medium?: string | null;
+    campaign?: string | null;
+    content?: string | null;
+    term?: string | null;
+  };
+  deviceClass: DeviceClass;
+}
+
+export interface FunnelRow {
+  referrer_id: string | null;
+  referral_code: string | null;
+  agent_name: string | null;
+  campaign: string | null;
+  clicks: number;
+  signups: number;
+  first_orders: number;
+  conversion_rate: number;
+  revenue_usd: number;
+  revenue_xaf: number;
+}
+
+export interface FunnelReport {
+  from: string;
+  to: string;
+  totals: Omit<FunnelRow, 'referrer_id' | 'referral_code' | 'agent_name' | 'campaign'>;
+  rows: FunnelRow[];
+}
+
+const BOT_PATTERN = /bot|crawl|spider|slurp|facebookexternalhit|whatsapp|telegram|preview|headless|lighthouse/i;
+const TABLET_PATTERN = /ipad|tablet|kindle|silk|playbook|android(?!.*mobile)/i;
+const MOBILE_PATTERN = /mobi|iphone|ipod|android|blackberry|opera mini|iemobile/i;
+
+// ============================================
+// CLICK CAPTURE
+// ============================================
+
+/**
+ * Classify a user agent; null for bots and link previews
+ */
+export function getDeviceClass(userAgent: string | null): DeviceClass | null {
+  if (!userAgent || BOT_PATTERN.test(userAgent)) {
+    return null;
+  }
+  if (TABLET_PATTERN.test(userAgent)) {
+    return 'tablet';
+  }
+  return MOBILE_PATTERN.test(userAgent) ? 'mobile' : 'desktop';
+}
+
+/**
+ * Host of an external referring page (own site and bad values -> null)
+ */
+export function getReferrerHost(referer: string | null, ownHost: string): string | null {
+  if (!referer) {
+    return null;
+  }
+  try {
+    const host = new URL(referer).hostname.toLowerCase();
+    return host === ownHost.split(':')[0].toLowerCase() ? null : host.slice(0, 255);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Record a visit carrying an agent's code
+ * Returns false for unknown codes and repeat visits.
+ */
+export async function recordReferralClick(input: ReferralClickInput): Promise<boolean> {
+  const supabase = getServerClient();
+  const { data, error } = await supabase.rpc('record_referral_click', {
+    p_referral_code: input.referralCode,
+    p_visitor_id: input.visitorId,
+    p_link_id: input.linkId ?? null,
+    p_landing_page: input.landingPage.slice(0, 500),
+    p_referrer_host: input.referrerHost ?? null,
+    p_utm_source: truncate(input.utm?.source),
+    p_utm_medium: truncate(input.utm?.medium),
+    p_utm_campaign: truncate(input.utm?.campaign),
+    p_utm_content: truncate(input.utm?.content),
+    p_utm_term: truncate(input.utm?.term),
+    p_device_class: input.deviceClass,
+  });
+
+  if (error) {
+    console.error('[REFERRAL ANALYTICS] Failed to record click:', error.message);
+    return false;
+  }
+
+  return data === true;
+}
+
+// ============================================
+// FUNNEL REPORTS
+// ============================================
+
+/**
+ * Funnel per agent or per campaign over [from, to)
+ * Pass referrerId to limit the report to one agent.
+ */
+export async function getReferralFunnel(
+  from: Date,
+  to: Date,
+  groupBy: FunnelGrouping,
+  referrerId?: string
+): Promise<FunnelReport> {
+  const supabase = getServerClient();
+  const report: FunnelReport = {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    totals: { clicks: 0, signups: 0, first_orders: 0, conversion_rate: 0, revenue_usd: 0, revenue_xaf: 0 },
+    rows: [],
+  };
+
+  const { data, error } = await supabase.rpc('get_referral_funnel', {
+    p_from: report.from,
+    p_to: report.to,
+    p_group_by: groupBy,
+    p_referrer_id: referrerId ?? null,
+  });
+
+  if (error) {
+    console.error('[REFERRAL ANALYTICS] Failed to load funnel:', error.message);
+    return report;
+  }
+
+  const raw = (data || []) as {
+    referrer_id: string | null;
+    campaign: string | null;
+    clicks: number;
+    signups: number;
+    first_orders: number;
+    revenue_usd: number;
+    revenue_xaf: number;
+  }[];
+
+  const agentIds = [...new Set(raw.map((r) => r.referrer_id).filter((id): id is string => !!id))];
+  const agents = await getAgentLabels(agentIds);
+
+  report.rows = raw
+    .map((r) => {
+      const clicks = Number(r.clicks);
+      const firstOrders = Number(r.first_orders);
+      const agent = r.referrer_id ? agents.get(r.referrer_id) : undefined;
+      return {
+        referrer_id: r.referrer_id,
+        referral_code: agent?.referral_code ?? null,
+        agent_name: agent?.name ?? null,
+        campaign: r.campaign,
+        clicks,
+        signups: Number(r.signups),
+        first_orders: firstOrders,
+        conversion_rate: conversionRate(firstOrders, clicks),
+        revenue_usd: Number(r.revenue_usd),
+        revenue_xaf: Number(r.revenue_xaf),
+      };
+    })
+    .sort((a, b) => b.first_orders - a.first_orders || b.clicks - a.clicks);
+
+  for (const row of report.rows) {
+    report.totals.clicks += row.clicks;
+    report.totals.signups += row.signups;
+    report.totals.first_orders += row.first_orders;
+    report.totals.revenue_usd += row.revenue_usd;
+    report.totals.revenue_xaf += row.revenue_xaf;
+  }
+  report.totals.conversion_rate = conversionRate(report.totals.first_orders, report.totals.clicks);
+
+  return report;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * First orders per unique click, as a percentage
+ */
+function conversionRate(firstOrders: number, clicks: number): number {
+  return clicks > 0 ? Math.round((firstOrders / clicks) * 10000) / 100 : 0;
+}
+
+function truncate(value: string | null | undefined): string | null {
+  return value ? value.slice(0, 100) : null;
+}
+
+async function getAgentLabels(
+  ids: string[]
+): Promise<Map<string, { referral_code: string; name: string | null }>> {
+  const labels = new Map<string, { referral_code: string; name: string | null }>();
+  if (ids.length === 0) {
+    return labels;
+  }
+
+  const supabase = getServerClient();
+  const [{ data: agents }, { data: profiles }] = await Promise.all([
+    supabase.from('referral_profiles').select('id, referral_code').in('id', ids),
+    supabase.from('profiles').select('id, full_name').in('id', ids),
+  ]);
+
+  for (const agent of (agents || []) as { id: string; referral_code: string }[]) {
+    const profile = (profiles || []).find((p: { id: string }) => p.id === agent.id) as
+      | { full_name: string | null }
+      | undefined;
+    labels.set(agent.id, { referral_code: agent.referral_code, name: profile?.full_name ?? null });
+  }
+
+  return labels;
+}
@@ -0,0 +1,204 @@
+/**
+ * Referral Ledger Service
+ * Reads the double-entry affiliate ledger (referral_ledger)
+ *
+ * Postings are made in the database only: commission status triggers and
+ * the request/complete/reject payout functions. Each entry moves an amount
+ * between an agent's accounts (earnings, available, held, paid_out);
+ * current_balance_* on referral_profiles caches the 'available' account.
+ */
+
+import { getServerClient } from '../lib/supabase/server';
+import { isValidUUID } from '../lib/security/validation';
+
+export type LedgerAccount = 'earnings' | 'available' | 'held' | 'paid_out';
+
+export type LedgerEntryType =
+  | 'opening_balance'
+  | 'commission_credit'
+  | 'commission_reversal'
+  | 'payout_hold'
+  | 'payout_release'
+  | 'payout_debit';
+
+export const LEDGER_ENTRY_LABELS: Record<LedgerEntryType, string> = {
+  opening_balance: 'Opening balance',
+  commission_credit: 'Commission credited',
+  commission_reversal: 'Commission reversed',
+  payout_hold: 'Payout requested',
+  payout_release: 'Payout released',
+  payout_debit: 'Payout paid',
+};
+
+interface LedgerLineRow {
+  entry_id: string;
+  currency: 'USD' | 'XAF';
+  account: LedgerAccount;
+  amount: number;
+  entry_type: LedgerEntryType;
+  commission_id: string | null;
+  payout_request_id: string | null;
+  description: string | null;
+  created_at: string;
+}
+
+/**
+ * One posting, with its effect on each account
+ */
+export interface LedgerStatementEntry {
+  entry_id: string;
+  entry_type: LedgerEntryType;
+  currency: 'USD' | 'XAF';
+  description: string | null;
+  commission_id: string | null;
+  payout_request_id: string | null;
+  created_at: string;
+  available_change: number;
+  held_change: number;
+  paid_out_change: number;
+  // Running available balance after this entry
+  available_balance: number;
+}
+
+export interface LedgerBalances {
+  currency: 'USD' | 'XAF';
+  earned: number;
+  available: number;
+  held: number;
+  paid_out: number;
+  // Cached current_balance_* on the agent's profile
+  cached_available: number;
+  in_sync: boolean;
+}
+
+export interface AgentLedger {
+  balances: LedgerBalances[];
+  // Newest first
+  entries: LedgerStatementEntry[];
+}
+
+// ============================================
+// STATEMENT
+// ============================================
+
+/**
+ * Ledger statement and derived balances for one agent
+ */
+export async function getAgentLedger(referrerId: string): Promise<AgentLedger | null> {
+  if (!isValidUUID(referrerId)) {
+    return null;
+  }
+
+  const supabase = getServerClient();
+
+  const [{ data: lines, error }, { data: profile }] = await Promise.all([
+    supabase
+      .from('referral_ledger')
+      .select('entry_id, currency, account, amount, entry_type, commission_id, payout_request_id, description, created_at')
+      .eq('referrer_id', referrerId)
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('referral_profiles')
+      .select('current_balance_usd, current_balance_xaf')
+      .eq('id', referrerId)
+      .single(),
+  ]);
+
+  if (error) {
+    console.error('[REFERRAL LEDGER] Failed to load ledger:', error.message);
+    return null;
+  }
+
+  // Fold the lines of each entry together, oldest first
+  const entries = new Map<string, LedgerStatementEntry>();
+  const totals = new Map<string, Record<LedgerAccount, number>>();
+
+  for (const line of (lines || []) as LedgerLineRow[]) {
+    const amount = Number(line.amount);
+
+    let entry = entries.get(line.entry_id);
+    if (!entry) {
+      entry = {
+        entry_id: line.entry_id,
+        entry_type: line.entry_type,
+        currency: line.currency,
+        description: line.description,
+        commission_id: line.commission_id,
+        payout_request_id: line.payout_request_id,
+        created_at: line.created_at,
+        available_change: 0,
+        held_change: 0,
+        paid_out_change: 0,
+        available_balance: 0,
+      };
+      entries.set(line.entry_id, entry);
+    }
+
+    if (line.account === 'available') entry.available_change += amount;
+    if (line.account === 'held') entry.held_change += amount;
+    if (line.account === 'paid_out') entry.paid_out_change += amount;
+
+    const total = totals.get(line.currency) ?? { earnings: 0, available: 0, held: 0, paid_out: 0 };
+    total[line.account] += amount;
+    totals.set(line.currency, total);
+  }
+
+  const running = new Map<string, number>();
+  for (const entry of entries.values()) {
+    const balance = (running.get(entry.currency) ?? 0) + entry.available_change;
+    running.set(entry.currency, balance);
+    entry.available_balance = roundAmount(balance);
+  }
+
+  const balances: LedgerBalances[] = (['USD', 'XAF'] as const).map((currency) => {
+    const total = totals.get(currency) ?? { earnings: 0, available: 0, held: 0, paid_out: 0 };
+    const cached = Number(
+      (currency === 'USD' ? profile?.current_balance_usd : profile?.current_balance_xaf) ?? 0
+    );
+    const available = roundAmount(total.available);
+
+    return {
+      currency,
+      earned: roundAmount(-total.earnings),
+      available,
+      held: roundAmount(total.held),
+      paid_out: roundAmount(total.paid_out),
+      cached_available: cached,
+      in_sync: roundAmount(cached) === available,
+    };
+  });
+
+  return {
+    balances,
+    entries: Array.from(entries.values()).reverse(),
+  };
+}
+
+// ============================================
+// VERIFICATION
+// ============================================
+
+/**
+ * Agents whose cached balance disagrees with the ledger
+ */
+export async function verifyReferralBalances(): Promise<
+  { referrer_id: string; currency: string; cached_balance: number; ledger_balance: number }[]
+> {
+  const supabase = getServerClient();
+  const { data, error } = await supabase.rpc('verify_referral_balances');
+
+  if (error) {
+    console.error('[REFERRAL LEDGER] Balance verification failed:', error.message);
+    return [];
+  }
+
+  return data || [];
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
@@ -0,0 +1,345 @@
+/**
+ * Referral Link Service
+ * Named short tracking links for agents
+ *
+ * Each link lives at /r/<slug> and lands on an occasion (optionally
+ * with a package preselected). referralMiddleware resolves the slug,
+ * records the click and sets the referral cookie; the signup then
+ * records the link on the referral, giving every link its own funnel.
+ */
+
+import QRCode from 'qrcode';
+import { getServerClient } from '../lib/supabase/server';
+
+const SLUG_ALPHABET = 'abcdefghijkmnpqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const SLUG_LENGTH = 7;
+const SLUG_ATTEMPTS = 3;
+const MAX_LINKS_PER_AGENT = 50;
+
+export const LINK_NAME_PATTERN = /^[a-z0-9][a-z0-9-]{0,39}$/;
+export const LINK_SLUG_PATTERN = /^[a-zA-Z0-9]{4,16}$/;
+
+export interface ReferralLink {
+  id: string;
+  name: string;
+  slug: string;
+  occasion_slug: string | null;
+  package_slug: string | null;
+  is_active: boolean;
+  created_at: string;
+  short_url: string;
+  destination: string;
+  clicks: number;
+  signups: number;
+  orders: number;
+}
+
+export interface CreateLinkInput {
+  name: string;
+  occasion_slug?: string | null;
+  package_slug?: string | null;
+}
+
+export interface ResolvedLink {
+  id: string;
+  referrer_id: string;
+  referral_code: string;
+  slug: string;
+  destination: string;
+}
+
+export type QrFormat = 'png' | 'svg';
+
+type LinkRow = {
+  id: string;
+  referrer_id: string;
+  name: string;
+  slug: string;
+  occasion_slug: string | null;
+  package_slug: string | null;
+  is_active: boolean;
+  created_at: string;
+};
+
+// ============================================
+// AGENT OPERATIONS
+// ============================================
+
+/**
+ * List an agent's active links with their funnel
+ */
+export async function getAgentLinks(referrerId: string, baseUrl: string): Promise<ReferralLink[]> {
+  const supabase = getServerClient();
+
+  const { data: links, error } = await supabase
+    .from('referral_links')
+    .select('id, referrer_id, name, slug, occasion_slug, package_slug, is_active, created_at')
+    .eq('referrer_id', referrerId)
+    .eq('is_active', true)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('[REFERRAL LINKS] Failed to load links:', error.message);
+    return [];
+  }
+
+  if (!links || links.length === 0) {
+    return [];
+  }
+
+  const { data: funnel, error: funnelError } = await supabase
+    .from('referral_link_funnel')
+    .select('link_id, clicks, signups, orders')
+    .in('link_id', links.map((l) => l.id));
+
+  if (funnelError) {
+    console.error('[REFERRAL LINKS] Failed to load link funnel:', funnelError.message);
+  }
+
+  const byLink = new Map((funnel || []).map((f) => [f.link_id, f]));
+
+  return (links as LinkRow[]).map((link) => {
+    const stats = byLink.get(link.id);
+    return {
+      id: link.id,
+      name: link.name,
+      slug: link.slug,
+      occasion_slug: link.occasion_slug,
+      package_slug: link.package_slug,
+      is_active: link.is_active,
+      created_at: link.created_at,
+      short_url: getShortUrl(baseUrl, link.slug),
+      destination: getLinkDestination(link),
+      clicks: Number(stats?.clicks || 0),
+      signups: Number(stats?.signups || 0),
+      orders: Number(stats?.orders || 0),
+    };
+  });
+}
+
+/**
+ * Create a named link with a fresh short slug
+ */
+export async function createAgentLink(
+  referrerId: string,
+  input: CreateLinkInput,
+  baseUrl: string
+): Promise<{ success: boolean; data?: ReferralLink; error?: string }> {
+  const supabase = getServerClient();
+  const name = input.name.trim().toLowerCase();
+
+  if (!LINK_NAME_PATTERN.test(name)) {
+    return { success: false, error: 'Use lowercase letters, numbers and hyphens (max 40)' };
+  }
+
+  const { count } = await supabase
+    .from('referral_links')
+    .select('*', { count: 'exact', head: true })
+    .eq('referrer_id', referrerId)
+    .eq('is_active', true);
+
+  if ((count || 0) >= MAX_LINKS_PER_AGENT) {
+    return { success: false, error: `You can have up to ${MAX_LINKS_PER_AGENT} links` };
+  }
+
+  for (let attempt = 0; attempt < SLUG_ATTEMPTS; attempt++) {
+    const { data, error } = await supabase
+      .from('referral_links')
+      .insert({
+        referrer_id: referrerId,
+        name,
+        slug: generateSlug(),
+        occasion_slug: input.occasion_slug || null,
+        package_slug: input.package_slug || null,
+      })
+      .select('id, referrer_id, name, slug, occasion_slug, package_slug, is_active, created_at')
+      .single();
+
+    if (!error && data) {
+      const link = data as LinkRow;
+      return {
+        success: true,
+        data: {
+          ...link,
+          short_url: getShortUrl(baseUrl, link.slug),
+          destination: getLinkDestination(link),
+          clicks: 0,
+          signups: 0,
+          orders: 0,
+        },
+      };
+    }
+
+    if (error?.code === '23505') {
+      // Name taken by one of the agent's active links, otherwise a slug collision - retry
+      if (error.message.includes('idx_referral_links_active_name')) {
+        return { success: false, error: 'You already have a link with this name' };
+      }
+      continue;
+    }
+
+    if (error?.code === '23503') {
+      return { success: false, error: 'Unknown occasion or package' };
+    }
+
+    console.error('[REFERRAL LINKS] Failed to create link:', error?.message);
+    return { success: false, error: 'Failed to create link' };
+  }
+
+  return { success: false, error: 'Failed to create link' };
+}
+
+/**
+ * Retire a link; its clicks and signups stay in the agent's history
+ */
+export async function archiveAgentLink(
+  referrerId: string,
+  linkId: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = getServerClient();
+
+  const { data, error } = await supabase
+    .from('referral_links')
+    .update({ is_active: false, updated_at: new Date().toISOString() })
+    .eq('id', linkId)
+    .eq('referrer_id', referrerId)
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    console.error('[REFERRAL LINKS] Failed to archive link:', error.message);
+    return { success: false, error: 'Failed to remove link' };
+  }
+
+  if (!data) {
+    return { success: false, error: 'Link not found' };
+  }
+
+  return { success: true };
+}
+
+/**
+ * QR code for one of the agent's links
+ */
+export async function getAgentLinkQr(
+  referrerId: string,
+  linkId: string,
+  format: QrFormat,
+  baseUrl: string
+): Promise<{ success: boolean; data?: { slug: string; body: string | Uint8Array<ArrayBuffer> }; error?: string }> {
+  const supabase = getServerClient();
+
+  const { data: link } = await supabase
+    .from('referral_links')
+    .select('slug')
+    .eq('id', linkId)
+    .eq('referrer_id', referrerId)
+    .maybeSingle();
+
+  if (!link) {
+    return { success: false, error: 'Link not found' };
+  }
+
+  const url = getShortUrl(baseUrl, link.slug);
+  const options = { errorCorrectionLevel: 'M' as const, margin: 2, width: 512 };
+
+  try {
+    const body =
+      format === 'svg'
+        ? await QRCode.toString(url, { ...options, type: 'svg' })
+        : new Uint8Array(await QRCode.toBuffer(url, { ...options, type: 'png' }));
+
+    return { success: true, data: { slug: link.slug, body } };
+  } catch (error) {
+    console.error('[REFERRAL LINKS] Failed to render QR code:', error);
+    return { success: false, error: 'Failed to generate QR code' };
+  }
+}
+
+// ============================================
+// TRACKING
+// ============================================
+
+/**
+ * Resolve an active link of an active agent
+ */
+export async function resolveLink(slug: string): Promise<ResolvedLink | null> {
+  if (!LINK_SLUG_PATTERN.test(slug)) {
+    return null;
+  }
+
+  const supabase = getServerClient();
+  const { data, error } = await supabase
+    .from('referral_links')
+    .select('id, referrer_id, slug, occasion_slug, package_slug, referral_profiles!inner(referral_code, status)')
+    .eq('slug', slug)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[REFERRAL LINKS] Failed to resolve link:', error.message);
+    return null;
+  }
+
+  const agent = data?.referral_profiles as { referral_code: string; status: string } | undefined;
+  if (!data || !agent || agent.status !== 'active') {
+    return null;
+  }
+
+  return {
+    id: data.id,
+    referrer_id: data.referrer_id,
+    referral_code: agent.referral_code,
+    slug: data.slug,
+    destination: getLinkDestination(data),
+  };
+}
+
+/**
+ * Remember which link a new referral came through
+ * Ignored unless the link belongs to the agent the referee was attributed to.
+ */
+export async function attachLinkToReferral(refereeId: string, slug: string): Promise<void> {
+  const link = await resolveLink(slug);
+  if (!link) {
+    return;
+  }
+
+  const supabase = getServerClient();
+  const { error } = await supabase
+    .from('referrals')
+    .update({ link_id: link.id })
+    .eq('referee_id', refereeId)
+    .eq('referrer_id', link.referrer_id)
+    .is('link_id', null);
+
+  if (error) {
+    console.error('[REFERRAL LINKS] Failed to attach link to referral:', error.message);
+  }
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+export function getShortUrl(baseUrl: string, slug: string): string {
+  return `${baseUrl}/r/${slug}`;
+}
+
+/**
+ * Path a link lands on (same-site only)
+ */
+export function getLinkDestination(link: { occasion_slug: string | null; package_slug: string | null }): string {
+  if (!link.occasion_slug && !link.package_slug) {
+    return '/';
+  }
+
+  const path = `/order/${encodeURIComponent(link.occasion_slug || 'wedding')}`;
+  return link.package_slug ? `${path}?package=${encodeURIComponent(link.package_slug)}` : path;
+}
+
+function generateSlug(): string {
+  const bytes = new Uint8Array(SLUG_LENGTH);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => SLUG_ALPHABET[b % SLUG_ALPHABET.length]).join('');
+}
@@ -0,0 +1,223 @@
+/**
+ * Referral Tier Service
+ * Monthly promotion/demotion of agents between performance tiers
+ *
+ * Tiers are defined per program (referral_program_tiers) by the number of
+ * orders an agent converted in a calendar month. evaluate_referral_tiers()
+ * moves agents and logs each change to referral_events; this service runs
+ * it for the previous month and emails the agents who moved.
+ */
+
+import { getServerClient } from '../lib/supabase/server';
+import { siteConfig } from '../config';
+import { formatDate, toLocale } from '../lib/i18n';
+import { enqueueTemplatedEmail } from './notification-queue.service';
+
+export interface ReferralTier {
+  program_id: string;
+  tier_level: number;
+  name: string;
+  min_monthly_conversions: number;
+  commission_type: 'percentage' | 'fixed' | null;
+  commission_value: number | null;
+}
+
+export interface TierEvaluationResult {
+  period: string;
+  promoted: number;
+  demoted: number;
+  notified: number;
+}
+
+interface TierChange {
+  referrer_id: string;
+  previous_tier: number;
+  new_tier: number;
+  conversions: number;
+}
+
+// ============================================
+// JOB
+// ============================================
+
+/**
+ * Re-tier agents on last calendar month's conversions (UTC)
+ */
+export async function evaluateAgentTiers(now: Date = new Date()): Promise<TierEvaluationResult> {
+  const periodStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+  const period = periodStart.toISOString().slice(0, 7);
+  const result: TierEvaluationResult = { period, promoted: 0, demoted: 0, notified: 0 };
+
+  const supabase = getServerClient();
+  const { data, error } = await supabase.rpc('evaluate_referral_tiers', {
+    p_period_start: periodStart.toISOString().slice(0, 10),
+  });
+
+  if (error) {
+    throw new Error(`Tier evaluation failed: ${error.message}`);
+  }
+
+  const changes = (data || []) as TierChange[];
+  if (changes.length === 0) {
+    return result;
+  }
+
+  const [tiers, agents] = await Promise.all([
+    getAllTiers(),
+    getAgentContacts(changes.map((c) => c.referrer_id)),
+  ]);
+
+  for (const change of changes) {
+    const promoted = change.new_tier > change.previous_tier;
+    if (promoted) {
+      result.promoted++;
+    } else {
+      result.demoted++;
+    }
+
+    const agent = agents.get(change.referrer_id);
+    if (!agent?.email) {
+      continue;
+    }
+
+    const programTiers = tiers.filter((t) => t.program_id === agent.program_id);
+    const tier = programTiers.find((t) => t.tier_level === change.new_tier);
+    const previous = programTiers.find((t) => t.tier_level === change.previous_tier);
+
+    if (await sendTierChangeEmail(agent, tier, previous, change, promoted, period)) {
+      result.notified++;
+    }
+  }
+
+  console.log(
+    `[REFERRAL TIERS] ${period}: ${result.promoted} promoted, ${result.demoted} demoted, ${result.notified} notified`
+  );
+  return result;
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Tiers of a program, lowest first
+ */
+export async function getProgramTiers(programId: string): Promise<ReferralTier[]> {
+  const supabase = getServerClient();
+  const { data, error } = await supabase
+    .from('referral_program_tiers')
+    .select('program_id, tier_level, name, min_monthly_conversions, commission_type, commission_value')
+    .eq('program_id', programId)
+    .order('tier_level', { ascending: true });
+
+  if (error) {
+    console.error('[REFERRAL TIERS] Failed to load program tiers:', error.message);
+    return [];
+  }
+
+  return (data || []) as ReferralTier[];
+}
+
+/**
+ * Human-readable commission override of a tier
+ */
+export function formatTierRate(tier: ReferralTier, currency = 'USD'): string | undefined {
+  if (!tier.commission_type || tier.commission_value === null) {
+    return undefined;
+  }
+  return tier.commission_type === 'percentage'
+    ? `${Number(tier.commission_value)}%`
+    : `${currency} ${Number(tier.commission_value)} per order`;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+async function getAllTiers(): Promise<ReferralTier[]> {
+  const supabase = getServerClient();
+  const { data, error } = await supabase
+    .from('referral_program_tiers')
+    .select('program_id, tier_level, name, min_monthly_conversions, commission_type, commission_value');
+
+  if (error) {
+    console.error('[REFERRAL TIERS] Failed to load tiers:', error.message);
+    return [];
+  }
+
+  return (data || []) as ReferralTier[];
+}
+
+type AgentContact = {
+  email: string | null;
+  full_name: string | null;
+  preferred_language: string | null;
+  preferred_currency: string | null;
+  program_id: string | null;
+};
+
+async function getAgentContacts(ids: string[]): Promise<Map<string, AgentContact>> {
+  const supabase = getServerClient();
+  const [{ data: profiles }, { data: agents }] = await Promise.all([
+    supabase.from('profiles').select('id, email, full_name, preferred_language, preferred_currency').in('id', ids),
+    supabase.from('referral_profiles').select('id, program_id').in('id', ids),
+  ]);
+
+  const contacts = new Map<string, AgentContact>();
+  for (const id of ids) {
+    const profile = (profiles || []).find((p: { id: string }) => p.id === id) as
+      | {
+          email: string | null;
+          full_name: string | null;
+          preferred_language: string | null;
+          preferred_currency: string | null;
+        }
+      | undefined;
+    const agent = (agents || []).find((a: { id: string }) => a.id === id) as
+      | { program_id: string | null }
+      | undefined;
+    contacts.set(id, {
+      email: profile?.email ?? null,
+      full_name: profile?.full_name ?? null,
+      preferred_language: profile?.preferred_language ?? null,
+      preferred_currency: profile?.preferred_currency ?? null,
+      program_id: agent?.program_id ?? null,
+    });
+  }
+
+  return contacts;
+}
+
+async function sendTierChangeEmail(
+  agent: AgentContact,
+  tier: ReferralTier | undefined,
+  previous: ReferralTier | undefined,
+  change: TierChange,
+  promoted: boolean,
+  period: string
+): Promise<boolean> {
+  try {
+    const locale = toLocale(agent.preferred_language);
+    const sent = await enqueueTemplatedEmail(
+      agent.email!,
+      'tier-change',
+      {
+        agentName: agent.full_name || 'Partner',
+        tierName: tier?.name ?? `Tier ${change.new_tier}`,
+        previousTierName: previous?.name ?? `Tier ${change.previous_tier}`,
+        promoted,
+        conversions: change.conversions,
+        // 2026-01 -> January 2026 / janvier 2026
+        period: formatDate(`${period}-01T00:00:00Z`, locale, { month: 'long', year: 'numeric', timeZone: 'UTC' }),
+        commissionRate: tier ? formatTierRate(tier, agent.preferred_currency ?? undefined) : undefined,
+        dashboardUrl: `${siteConfig.url}/dashboard/referrals`,
+      },
+      { locale }
+    );
+
+    return sent.success && !sent.suppressed;
+  } catch (error) {
+    console.error('[REFERRAL TIERS] Failed to send tier email:', error);
+    return false;
+  }
+}
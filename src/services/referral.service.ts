@@ -5,6 +5,7 @@
 
 import { getServerClient } from '../lib/supabase/server';
 import type { Database } from '../types/database.types';
+import { getAgentLinks, type ReferralLink } from './referral-link.service';
 
 type ReferralProfile = Database['public']['Tables']['referral_profiles']['Row'];
 type Referral = Database['public']['Tables']['referrals']['Row'];
@@ -43,12 +44,25 @@ export interface AgentStats {
   total_orders: number;
 }
 
+export interface CommissionCapStatus {
+  currency: 'USD' | 'XAF';
+  cap: number;
+  cap_period: 'monthly' | 'yearly' | 'lifetime';
+  period_start: string | null;
+  period_end: string | null;
+  earned: number;
+  remaining: number;
+}
+
 export interface DashboardStats {
   profile: AgentProfile;
   stats: AgentStats;
   referral_link: string;
+  tracking_links: ReferralLink[];
   minimum_payout_usd: number;
   minimum_payout_xaf: number;
+  /** Only currencies the agent's program caps */
+  commission_caps: CommissionCapStatus[];
 }
 
 export interface PaginatedResult<T> {
@@ -186,12 +200,51 @@ export async function getAgentStats(userId: string): Promise<AgentStats | null>
 }
 
 /**
- * Get dashboard stats (profile + stats + referral link)
+ * Get the agent's commission cap headroom for the current period
+ */
+export async function getAgentCapStatus(userId: string): Promise<CommissionCapStatus[]> {
+  const supabase = getServerClient();
+  const currencies = ['USD', 'XAF'] as const;
+
+  const results = await Promise.all(
+    currencies.map((currency) =>
+      supabase.rpc('get_referral_cap_status', { p_referrer_id: userId, p_currency: currency })
+    )
+  );
+
+  const caps: CommissionCapStatus[] = [];
+  results.forEach(({ data, error }, i) => {
+    if (error) {
+      console.error('[getAgentCapStatus] Error:', error);
+      return;
+    }
+    const row = data?.[0];
+    if (!row) {
+      return;
+    }
+    caps.push({
+      currency: currencies[i],
+      cap: Number(row.cap),
+      cap_period: row.cap_period,
+      period_start: row.period_start,
+      period_end: row.period_end,
+      earned: Number(row.earned),
+      remaining: Number(row.remaining),
+    });
+  });
+
+  return caps;
+}
+
+/**
+ * Get dashboard stats (profile + stats + referral links + cap headroom)
  */
 export async function getAgentDashboardStats(userId: string, baseUrl: string): Promise<DashboardStats | null> {
-  const [profile, stats] = await Promise.all([
+  const [profile, stats, commissionCaps, trackingLinks] = await Promise.all([
     getAgentProfile(userId),
     getAgentStats(userId),
+    getAgentCapStatus(userId),
+    getAgentLinks(userId, baseUrl),
   ]);
 
   if (!profile || !stats) {
@@ -212,8 +265,10 @@ export async function getAgentDashboardStats(userId: string, baseUrl: string): P
     profile,
     stats,
     referral_link: referralLink,
+    tracking_links: trackingLinks,
     minimum_payout_usd: Number(program?.minimum_payout_usd || 10),
     minimum_payout_xaf: Number(program?.minimum_payout_xaf || 5000),
+    commission_caps: commissionCaps,
   };
 }
 
@@ -411,33 +466,26 @@ export async function requestPayout(
     };
   }
 
-  // Create payout request
-  const { data, error } = await supabase
-    .from('payout_requests')
-    .insert({
-      user_id: userId,
-      amount,
-      currency,
-      payment_method: profile.payout_method,
-      payment_details: profile.payout_details,
-      status: 'requested',
-    })
-    .select()
-    .single();
-
-  if (error) {
+  // Create the request and hold the amount in one transaction; the
+  // ledger balance is re-checked under a lock
+  const { data, error } = await supabase.rpc('request_referral_payout', {
+    p_referrer_id: userId,
+    p_amount: amount,
+    p_currency: currency,
+    p_payment_method: profile.payout_method,
+    p_payment_details: profile.payout_details,
+  });
+
+  if (error || !data) {
+    // Raised by the function when the balance is too low
+    if (error?.code === 'P0001') {
+      return { success: false, error: error.message };
+    }
     console.error('[requestPayout] Error:', error);
     return { success: false, error: 'Failed to create payout request' };
   }
 
-  // Deduct from balance (optimistic - will be reversed if payout is rejected)
-  const balanceField = currency === 'USD' ? 'current_balance_usd' : 'current_balance_xaf';
-  await supabase
-    .from('referral_profiles')
-    .update({ [balanceField]: balance - amount })
-    .eq('id', userId);
-
-  return { success: true, data };
+  return { success: true, data: data as PayoutRequest };
 }
 
 /**
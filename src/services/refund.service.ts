@@ -0,0 +1,468 @@
+/**
+ * Refund Service
+ * Tracks refunds sent to payment providers (payment_refunds)
+ *
+ * Stripe refunds settle when the API call returns. CamPay refunds are
+ * mobile-money disbursements: the refund stays pending until CamPay's
+ * callback confirms or fails the transfer, and only then is the order
+ * marked refunded.
+ */
+
+import { getServerClient } from '../lib/supabase/server';
+import { isValidUUID } from '../lib/security/validation';
+import type { WebhookVerifyResult } from '../lib/payments/types';
+import type { Tables } from '../types/database.types';
+import { applyBundleItemRefund, cascadeBundleRefund } from './bundle-order.service';
+import { clawbackOrderCommissions } from './commission-clawback.service';
+import { recordPaymentEvent } from './payment-session.service';
+import type { WebhookProcessResult } from './payment-webhook.service';
+
+export type PaymentRefund = Tables<'payment_refunds'>;
+
+export type OpenRefundResult =
+  | { success: true; refund: PaymentRefund }
+  | { success: false; error: string; inProgress?: boolean };
+
+// ============================================
+// LIFECYCLE
+// ============================================
+
+/**
+ * Record a refund before it's sent to the provider
+ * Only one refund per order can be pending at a time.
+ */
+export async function openRefund(params: {
+  orderId: string;
+  provider: string;
+  paymentReference: string | null;
+  amount: number;
+  currency: string;
+  reason: string;
+  recipientPhone?: string | null;
+  requestedBy: string | null;
+}): Promise<OpenRefundResult> {
+  const supabase = getServerClient();
+  const { data, error } = await supabase
+    .from('payment_refunds')
+    .insert({
+      order_id: params.orderId,
+      provider: params.provider,
+      payment_reference: params.paymentReference,
+      amount: params.amount,
+      currency: params.currency,
+      reason: params.reason,
+      recipient_phone: params.recipientPhone ?? null,
+      requested_by: params.requestedBy,
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    // Unique violation on the one-pending-refund-per-order index
+    if (error?.code === '23505') {
+      return { success: false, error: 'A refund for this order is already in progress', inProgress: true };
+    }
+    console.error('[REFUNDS] Failed to open refund:', error?.message);
+    return { success: false, error: 'Failed to record refund' };
+  }
+
+  return { success: true, refund: data };
+}
+
+/**
+ * Store the provider reference of a refund awaiting confirmation
+ */
+export async function markRefundSubmitted(refundId: string, providerReference: string | undefined): Promise<void> {
+  const supabase = getServerClient();
+  const { error } = await supabase
+    .from('payment_refunds')
+    .update({
+      provider_reference: providerReference ?? null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', refundId);
+
+  if (error) {
+    console.error('[REFUNDS] Failed to store provider reference:', error.message);
+  }
+}
+
+/**
+ * Move a pending refund to failed
+ */
+export async function failRefund(
+  refundId: string,
+  failureReason: string | undefined,
+  providerReference?: string
+): Promise<PaymentRefund | null> {
+  const supabase = getServerClient();
+  const { data, error } = await supabase
+    .from('payment_refunds')
+    .update({
+      status: 'failed',
+      failure_reason: failureReason ?? 'Refund failed',
+      ...(providerReference ? { provider_reference: providerReference } : {}),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', refundId)
+    .eq('status', 'pending')
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('[REFUNDS] Failed to mark refund failed:', error.message);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Move a pending refund to completed and apply it to the order
+ * Returns null if the refund was already settled.
+ */
+export async function completeRefund(
+  refundId: string,
+  providerReference?: string
+): Promise<{ refund: PaymentRefund; isFullRefund: boolean } | null> {
+  const supabase = getServerClient();
+  const now = new Date().toISOString();
+
+  // Conditional on pending so a repeated callback can't refund twice
+  const { data: refund, error } = await supabase
+    .from('payment_refunds')
+    .update({
+      status: 'completed',
+      ...(providerReference ? { provider_reference: providerReference } : {}),
+      completed_at: now,
+      updated_at: now,
+    })
+    .eq('id', refundId)
+    .eq('status', 'pending')
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to complete refund ${refundId}: ${error.message}`);
+  }
+  if (!refund) {
+    return null;
+  }
+
+  const isFullRefund = await applyRefundToOrder(refund);
+  return { refund, isFullRefund };
+}
+
+/**
+ * Mark the order (partially) refunded and tell the customer
+ * Returns true for a full refund.
+ */
+async function applyRefundToOrder(refund: PaymentRefund): Promise<boolean> {
+  const supabase = getServerClient();
+
+  const { data: orderData, error } = await supabase
+    .from('orders')
+    .select('id, order_number, order_type, parent_order_id, payment_status, status, amount_paid, refund_amount, currency, profiles(full_name, email, preferred_language)')
+    .eq('id', refund.order_id)
+    .single();
+
+  if (error || !orderData) {
+    throw new Error(`Order not found for refund ${refund.id}`);
+  }
+
+  const order = orderData as {
+    id: string;
+    order_number: string;
+    order_type: 'single' | 'bundle' | 'bundle_item';
+    parent_order_id: string | null;
+    payment_status: string;
+    status: string;
+    amount_paid: number;
+    refund_amount: number | null;
+    currency: string;
+    profiles: { full_name: string | null; email: string; preferred_language: string | null } | null;
+  };
+
+  const amount = Number(refund.amount);
+  const alreadyRefunded = Number(order.refund_amount ?? 0);
+  const isFullRefund = alreadyRefunded + amount >= order.amount_paid;
+  const newPaymentStatus = isFullRefund ? 'refunded' : 'partially_refunded';
+  const changedBy = refund.requested_by ?? 'system';
+
+  await supabase
+    .from('orders')
+    .update({
+      payment_status: newPaymentStatus,
+      status: isFullRefund ? 'cancelled' : order.status,
+      refund_amount: alreadyRefunded + amount,
+      refund_reason: refund.reason,
+      refund_reference: refund.provider_reference,
+      refunded_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', order.id);
+
+  await supabase.from('order_status_history').insert({
+    order_id: order.id,
+    old_status: order.payment_status,
+    new_status: newPaymentStatus,
+    changed_by: changedBy,
+    notes: `Refund processed: ${order.currency} ${amount} - ${refund.reason}`,
+    created_at: new Date().toISOString(),
+  });
+
+  // Keep bundle parent and songs consistent. A partial refund of the bundle
+  // isn't tied to a song, so the songs stay as they are.
+  if (order.order_type === 'bundle_item') {
+    await applyBundleItemRefund(order.parent_order_id!, amount, refund.reason, changedBy);
+  } else if (order.order_type === 'bundle' && isFullRefund) {
+    await cascadeBundleRefund(order.id, refund.reason, changedBy);
+  }
+
+  // Commissions are earned on the order (or its bundle parent)
+  await clawbackOrderCommissions(order.parent_order_id ?? order.id, refund.reason, 'refund');
+
+  await sendRefundEmail(order, amount, refund.reason);
+
+  return isFullRefund;
+}
+
+// ============================================
+// PROVIDER CALLBACKS
+// ============================================
+
+/**
+ * Settle a CamPay refund from its withdrawal callback
+ * Returns null when the callback isn't for a refund.
+ */
+export async function handleRefundCallback(
+  verification: WebhookVerifyResult
+): Promise<WebhookProcessResult | null> {
+  const data = verification.data as Record<string, unknown> | undefined;
+  const reference = data?.reference as string | undefined;
+  const externalReference = verification.orderId;
+
+  // Refunds are sent with their own ID as external_reference
+  const supabase = getServerClient();
+  let query = supabase.from('payment_refunds').select('*').eq('provider', 'campay');
+  if (externalReference && isValidUUID(externalReference)) {
+    query = query.eq('id', externalReference);
+  } else if (reference) {
+    query = query.eq('provider_reference', reference);
+  } else {
+    return null;
+  }
+
+  const { data: refund, error } = await query.maybeSingle();
+  if (error) {
+    console.error('[REFUNDS] Refund lookup failed:', error.message);
+    return { success: false, error: error.message };
+  }
+  if (!refund) {
+    return null;
+  }
+
+  if (refund.status !== 'pending') {
+    console.log(`[REFUNDS] Refund ${refund.id} already ${refund.status}`);
+    return { success: true, outcome: 'skipped' };
+  }
+
+  if (verification.paymentStatus === 'completed') {
+    const completed = await completeRefund(refund.id, reference);
+    if (completed) {
+      await recordPaymentEvent({
+        orderId: refund.order_id,
+        provider: 'campay',
+        eventType: completed.isFullRefund ? 'refund_completed' : 'partial_refund_completed',
+        reference,
+        amount: Number(refund.amount),
+        currency: refund.currency,
+        payload: data,
+      });
+      console.log(`[REFUNDS] Refund ${refund.id} completed for order ${refund.order_id}`);
+    }
+    return { success: true, outcome: completed ? 'processed' : 'skipped' };
+  }
+
+  if (verification.paymentStatus === 'failed') {
+    const reason = `CamPay withdrawal failed${data?.code ? ` (${data.code})` : ''}`;
+    const failed = await failRefund(refund.id, reason, reference);
+
+    if (failed) {
+      await recordPaymentEvent({
+        orderId: refund.order_id,
+        provider: 'campay',
+        eventType: 'refund_failed',
+        reference,
+        amount: Number(refund.amount),
+        currency: refund.currency,
+        failureReason: reason,
+        payload: data,
+      });
+      await sendRefundFailedAlert(failed);
+      console.warn(`[REFUNDS] Refund ${refund.id} failed for order ${refund.order_id}`);
+    }
+
+    return { success: true, outcome: failed ? 'processed' : 'skipped' };
+  }
+
+  return { success: true, outcome: 'skipped' };
+}
+
+/**
+ * Record a Stripe charge.refunded event in the refund ledger
+ * amount_refunded is cumulative across the charge, so only the part not
+ * already recorded is applied - refunds sent from the admin are recorded
+ * before Stripe reports them, refunds made in the Stripe dashboard aren't.
+ */
+export async function handleStripeChargeRefunded(
+  order: { id: string; currency: string },
+  verification: WebhookVerifyResult
+): Promise<WebhookProcessResult> {
+  const charge = verification.data as
+    | { id?: string; amount_refunded?: number; payment_intent?: string | { id: string } | null }
+    | undefined;
+  const refundedTotal = (charge?.amount_refunded ?? 0) / 100;
+  const supabase = getServerClient();
+
+  // Bundle songs are refunded against the parent's charge
+  const { data: items, error: itemsError } = await supabase
+    .from('orders')
+    .select('id')
+    .eq('parent_order_id', order.id);
+
+  if (itemsError) {
+    return { success: false, error: itemsError.message };
+  }
+
+  const { data: refunds, error } = await supabase
+    .from('payment_refunds')
+    .select('amount, status')
+    .in('order_id', [order.id, ...(items ?? []).map((item) => item.id)])
+    .in('status', ['pending', 'completed']);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  // An admin refund is between the Stripe call and being recorded - retry later
+  if ((refunds ?? []).some((refund) => refund.status === 'pending')) {
+    return { success: false, error: 'A refund for this order is already in progress' };
+  }
+
+  const recorded = (refunds ?? []).reduce((sum, refund) => sum + Number(refund.amount), 0);
+  const amount = Math.round((refundedTotal - recorded) * 100) / 100;
+  if (amount <= 0) {
+    console.log(`[REFUNDS] Stripe refund for order ${order.id} already recorded`);
+    return { success: true, outcome: 'skipped' };
+  }
+
+  const paymentIntent = charge?.payment_intent;
+  const opened = await openRefund({
+    orderId: order.id,
+    provider: 'stripe',
+    paymentReference: typeof paymentIntent === 'string' ? paymentIntent : paymentIntent?.id ?? null,
+    amount,
+    currency: order.currency,
+    reason: 'Refunded in Stripe',
+    requestedBy: null,
+  });
+
+  if (!opened.success) {
+    return { success: false, error: opened.error };
+  }
+
+  const completed = await completeRefund(opened.refund.id);
+  if (completed) {
+    await recordPaymentEvent({
+      orderId: order.id,
+      provider: 'stripe',
+      eventType: completed.isFullRefund ? 'refund_completed' : 'partial_refund_completed',
+      reference: charge?.id,
+      amount,
+      currency: order.currency,
+      payload: charge,
+    });
+    console.log(`[REFUNDS] Stripe refund of ${order.currency} ${amount} recorded for order ${order.id}`);
+  }
+
+  return { success: true, outcome: completed ? 'processed' : 'skipped' };
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+async function sendRefundEmail(
+  order: {
+    order_number: string;
+    currency: string;
+    profiles: { full_name: string | null; email: string; preferred_language: string | null } | null;
+  },
+  amount: number,
+  reason: string
+): Promise<void> {
+  const profile = order.profiles;
+  if (!profile?.email) {
+    return;
+  }
+
+  try {
+    const { renderTemplate } = await import('../lib/email/client');
+    const { enqueueEmail } = await import('./notification-queue.service');
+    const { getMessages, toLocale } = await import('../lib/i18n');
+
+    const locale = toLocale(profile.preferred_language);
+    const template = renderTemplate(
+      'cancellation',
+      {
+        orderNumber: order.order_number,
+        customerName: profile.full_name || getMessages(locale).orderStatus.valuedCustomer,
+        refundAmount: `${order.currency} ${amount}`,
+        reason,
+      },
+      locale
+    );
+
+    await enqueueEmail({
+      to: profile.email,
+      subject: template.subject,
+      html: template.html,
+      text: template.text,
+      tags: [
+        { name: 'type', value: 'refund' },
+        { name: 'order', value: order.order_number },
+      ],
+    });
+  } catch (error) {
+    console.error('[REFUNDS] Failed to send refund email:', error);
+  }
+}
+
+/**
+ * The customer hasn't been paid - an admin needs to retry or refund manually
+ */
+async function sendRefundFailedAlert(refund: PaymentRefund): Promise<void> {
+  try {
+    const { enqueueEmail } = await import('./notification-queue.service');
+    const { siteConfig } = await import('../config');
+
+    await enqueueEmail(
+      {
+        to: siteConfig.contact.orders,
+        subject: `Refund Failed - ${refund.currency} ${refund.amount}`,
+        html: `
+          <h2>Refund Failed</h2>
+          <p>The CamPay refund of <strong>${refund.currency} ${refund.amount}</strong> to ${refund.recipient_phone ?? 'the customer'} failed: ${refund.failure_reason}.</p>
+          <p>The order has not been marked refunded. Retry the refund or pay the customer manually.</p>
+          <p><a href="${siteConfig.url}/admin/orders/${refund.order_id}">View Order in Admin</a></p>
+        `,
+        text: `Refund Failed\n\nThe CamPay refund of ${refund.currency} ${refund.amount} to ${refund.recipient_phone ?? 'the customer'} failed: ${refund.failure_reason}.\nThe order has not been marked refunded. Retry the refund or pay the customer manually.\n\nView: ${siteConfig.url}/admin/orders/${refund.order_id}`,
+        tags: [{ name: 'type', value: 'refund-failed' }],
+      },
+      { orderId: refund.order_id }
+    );
+  } catch (error) {
+    console.error('[REFUNDS] Failed to send refund failure alert:', error);
+  }
+}
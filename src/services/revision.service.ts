@@ -0,0 +1,421 @@
+/**
+ * Revision Service
+ * Revision rounds, quota and admin review workflow
+ *
+ * Quota = package revision_count + rounds bought through 'revision'
+ * add-ons. Rejected rounds don't count against it. An accepted round
+ * is completed once a new deliverable version has been uploaded for it.
+ */
+
+import { getServerClient } from '../lib/supabase/server';
+import { isValidUUID, sanitizeRevisionNotes } from '../lib/security/validation';
+import type { RevisionUpdateData } from '../lib/email/client';
+import type { Tables } from '../types/database.types';
+import { getPackageBySlug } from './config.service';
+
+// Order statuses a customer can request a revision from
+// Enforced again by the request_revision function
+export const REVISION_ALLOWED_STATUSES = ['review', 'completed', 'delivered'];
+
+// ============================================
+// TYPES
+// ============================================
+
+export type RevisionRequest = Tables<'revision_requests'>;
+
+export interface RevisionQuota {
+  included: number;
+  extra: number;
+  used: number;
+  remaining: number;
+  hasOpenRequest: boolean;
+}
+
+type RevisionOrder = {
+  id: string;
+  package_slug: string;
+  status?: string;
+  parent_order_id?: string | null;
+};
+
+const REQUEST_ERRORS: Record<string, string> = {
+  not_found: 'Order not found',
+  invalid_status: 'Revisions can only be requested while reviewing a preview or after completion',
+  open_request: 'You already have a revision request in progress for this order',
+  quota_exceeded: 'You have used all revisions for this order. Extra revisions can be added from our add-ons.',
+};
+
+// ============================================
+// QUOTA
+// ============================================
+
+/**
+ * Extra rounds bought as 'revision' add-ons.
+ * Bundle songs use the add-ons bought on their bundle.
+ */
+async function getExtraRevisionCount(order: RevisionOrder): Promise<number> {
+  const supabase = getServerClient();
+  const { data, error } = await supabase
+    .from('order_line_items')
+    .select('quantity, metadata')
+    .eq('order_id', order.parent_order_id ?? order.id)
+    .eq('item_type', 'addon');
+
+  if (error) {
+    console.error('[REVISION] Failed to fetch add-ons:', error.message);
+    return 0;
+  }
+
+  return (data ?? []).reduce((sum, item) => {
+    const metadata = (item.metadata ?? {}) as { category?: string; revision_count?: number };
+    if (metadata.category !== 'revision') {
+      return sum;
+    }
+    return sum + item.quantity * (metadata.revision_count ?? 1);
+  }, 0);
+}
+
+/**
+ * Get revision quota usage for an order
+ */
+export async function getRevisionQuota(order: RevisionOrder): Promise<RevisionQuota> {
+  const supabase = getServerClient();
+  const [pkg, extra, { data: revisions }] = await Promise.all([
+    getPackageBySlug(order.package_slug),
+    getExtraRevisionCount(order),
+    supabase
+      .from('revision_requests')
+      .select('status')
+      .eq('order_id', order.id),
+  ]);
+
+  const included = pkg?.revision_count ?? 0;
+  const used = (revisions ?? []).filter((r) => r.status !== 'rejected').length;
+  const hasOpenRequest = (revisions ?? []).some((r) => r.status === 'pending' || r.status === 'accepted');
+
+  return {
+    included,
+    extra,
+    used,
+    remaining: Math.max(0, included + extra - used),
+    hasOpenRequest,
+  };
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Get all revision rounds for an order, oldest first
+ */
+export async function getRevisionRequests(orderId: string): Promise<RevisionRequest[]> {
+  if (!isValidUUID(orderId)) {
+    return [];
+  }
+
+  const supabase = getServerClient();
+  const { data, error } = await supabase
+    .from('revision_requests')
+    .select('*')
+    .eq('order_id', orderId)
+    .order('round_number', { ascending: true });
+
+  if (error) {
+    console.error('[REVISION] Failed to fetch revisions:', error.message);
+    return [];
+  }
+
+  return data ?? [];
+}
+
+async function getRevisionById(revisionId: string): Promise<RevisionRequest | null> {
+  if (!isValidUUID(revisionId)) {
+    return null;
+  }
+
+  const supabase = getServerClient();
+  const { data } = await supabase
+    .from('revision_requests')
+    .select('*')
+    .eq('id', revisionId)
+    .single();
+
+  return data;
+}
+
+// ============================================
+// CUSTOMER
+// ============================================
+
+/**
+ * Open a new revision round if the order still has quota.
+ * The quota is computed by request_revision from the order itself.
+ * Asking for changes to a preview moves the order straight to 'revision'.
+ */
+export async function requestRevision(
+  order: RevisionOrder,
+  customerId: string,
+  notes: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = getServerClient();
+  const { data: reason, error } = await supabase.rpc('request_revision', {
+    p_order_id: order.id,
+    p_customer_id: customerId,
+    p_notes: notes,
+  });
+
+  if (error) {
+    console.error('[REVISION] Failed to request revision:', error.message);
+    return { success: false, error: 'Failed to submit revision request' };
+  }
+
+  if (reason) {
+    return { success: false, error: REQUEST_ERRORS[reason] || 'Revision request not allowed' };
+  }
+
+  if (order.status === 'review') {
+    await setOrderStatus(order.id, 'revision', customerId, 'Customer requested changes to the preview');
+  }
+
+  return { success: true };
+}
+
+// ============================================
+// ADMIN WORKFLOW
+// ============================================
+
+async function setOrderStatus(
+  orderId: string,
+  newStatus: string,
+  changedBy: string,
+  notes: string
+): Promise<void> {
+  const supabase = getServerClient();
+  const { data: order } = await supabase
+    .from('orders')
+    .select('status')
+    .eq('id', orderId)
+    .single();
+
+  if (!order || order.status === newStatus) {
+    return;
+  }
+
+  await supabase
+    .from('orders')
+    .update({ status: newStatus, updated_at: new Date().toISOString() })
+    .eq('id', orderId);
+
+  await supabase.from('order_status_history').insert({
+    order_id: orderId,
+    old_status: order.status,
+    new_status: newStatus,
+    changed_by: changedBy,
+    notes,
+    created_at: new Date().toISOString(),
+  });
+}
+
+/**
+ * Accept a pending round and move the order back into production
+ */
+export async function acceptRevision(
+  revisionId: string,
+  adminId: string,
+  response?: string
+): Promise<{ success: boolean; error?: string; revision?: RevisionRequest }> {
+  const revision = await getRevisionById(revisionId);
+  if (!revision) {
+    return { success: false, error: 'Revision request not found' };
+  }
+
+  if (revision.status !== 'pending') {
+    return { success: false, error: `Revision is already ${revision.status}` };
+  }
+
+  const now = new Date().toISOString();
+  const supabase = getServerClient();
+  const { data: updated, error } = await supabase
+    .from('revision_requests')
+    .update({
+      status: 'accepted',
+      admin_response: response ? sanitizeRevisionNotes(response, 1000) : null,
+      reviewed_by: adminId,
+      reviewed_at: now,
+      updated_at: now,
+    })
+    .eq('id', revisionId)
+    .eq('status', 'pending')
+    .select()
+    .single();
+
+  if (error || !updated) {
+    return { success: false, error: 'Failed to accept revision' };
+  }
+
+  await setOrderStatus(revision.order_id, 'revision', adminId, `Revision round ${revision.round_number} accepted`);
+
+  return { success: true, revision: updated };
+}
+
+/**
+ * Reject a pending round. Rejected rounds don't use quota.
+ */
+export async function rejectRevision(
+  revisionId: string,
+  adminId: string,
+  response: string
+): Promise<{ success: boolean; error?: string; revision?: RevisionRequest }> {
+  const sanitizedResponse = sanitizeRevisionNotes(response, 1000);
+  if (!sanitizedResponse || sanitizedResponse.length < 10) {
+    return { success: false, error: 'Please explain why the revision was rejected (minimum 10 characters)' };
+  }
+
+  const revision = await getRevisionById(revisionId);
+  if (!revision) {
+    return { success: false, error: 'Revision request not found' };
+  }
+
+  if (revision.status !== 'pending') {
+    return { success: false, error: `Revision is already ${revision.status}` };
+  }
+
+  const now = new Date().toISOString();
+  const supabase = getServerClient();
+  const { data: updated, error } = await supabase
+    .from('revision_requests')
+    .update({
+      status: 'rejected',
+      admin_response: sanitizedResponse,
+      reviewed_by: adminId,
+      reviewed_at: now,
+      updated_at: now,
+    })
+    .eq('id', revisionId)
+    .eq('status', 'pending')
+    .select()
+    .single();
+
+  if (error || !updated) {
+    return { success: false, error: 'Failed to reject revision' };
+  }
+
+  return { success: true, revision: updated };
+}
+
+/**
+ * Complete an accepted round, linking it to the deliverable uploaded for it
+ */
+export async function completeRevision(
+  revisionId: string,
+  adminId: string
+): Promise<{ success: boolean; error?: string; revision?: RevisionRequest }> {
+  const revision = await getRevisionById(revisionId);
+  if (!revision) {
+    return { success: false, error: 'Revision request not found' };
+  }
+
+  if (revision.status !== 'accepted') {
+    return { success: false, error: 'Only accepted revisions can be completed' };
+  }
+
+  // Uploads made while the round is accepted are tagged with it
+  const supabase = getServerClient();
+  const { data: deliverable } = await supabase
+    .from('order_deliverables')
+    .select('id, storage_key, filename')
+    .eq('order_id', revision.order_id)
+    .eq('revision_id', revision.id)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (!deliverable) {
+    return { success: false, error: 'Upload the revised deliverable before completing this revision' };
+  }
+
+  const now = new Date().toISOString();
+  const { data: updated, error } = await supabase
+    .from('revision_requests')
+    .update({
+      status: 'completed',
+      completed_by: adminId,
+      completed_at: now,
+      deliverable_id: deliverable.id,
+      deliverable_key: deliverable.storage_key,
+      deliverable_filename: deliverable.filename,
+      updated_at: now,
+    })
+    .eq('id', revisionId)
+    .eq('status', 'accepted')
+    .select()
+    .single();
+
+  if (error || !updated) {
+    return { success: false, error: 'Failed to complete revision' };
+  }
+
+  return { success: true, revision: updated };
+}
+
+// ============================================
+// NOTIFICATIONS
+// ============================================
+
+/**
+ * Email the customer about a change to their revision round
+ */
+export async function sendRevisionUpdateEmail(
+  revision: RevisionRequest,
+  update: RevisionUpdateData['update']
+): Promise<void> {
+  try {
+    const { renderTemplate } = await import('../lib/email/client');
+    const { enqueueEmail } = await import('./notification-queue.service');
+    const { getMessages, toLocale } = await import('../lib/i18n');
+    const { siteConfig } = await import('../config');
+
+    const supabase = getServerClient();
+    const { data: order } = await supabase
+      .from('orders')
+      .select('order_number, profiles(full_name, email, preferred_language)')
+      .eq('id', revision.order_id)
+      .single();
+
+    const profile = order?.profiles as { full_name: string | null; email: string; preferred_language: string | null } | null;
+    if (!order || !profile?.email) {
+      return;
+    }
+
+    const locale = toLocale(profile.preferred_language);
+    const template = renderTemplate(
+      'revision-update',
+      {
+        orderNumber: order.order_number,
+        customerName: profile.full_name || getMessages(locale).orderStatus.valuedCustomer,
+        update,
+        roundNumber: revision.round_number,
+        response: revision.admin_response,
+        portalUrl: `${siteConfig.url}/dashboard/orders/${revision.order_id}`,
+      },
+      locale
+    );
+
+    await enqueueEmail(
+      {
+        to: profile.email,
+        subject: template.subject,
+        html: template.html,
+        text: template.text,
+        tags: [
+          { name: 'type', value: 'revision-update' },
+          { name: 'order', value: order.order_number },
+        ],
+      },
+      { orderId: revision.order_id }
+    );
+  } catch (error) {
+    console.error('[REVISION] Failed to send update email:', error);
+  }
+}
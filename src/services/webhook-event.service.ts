@@ -0,0 +1,251 @@
+/**
+ * Webhook Event Service
+ * Durable idempotency store for payment provider webhooks
+ *
+ * Every verified delivery is recorded in webhook_events under a unique
+ * (provider, event_key). Handlers claim the row atomically before touching
+ * the order, so duplicates are ignored across instances and cold starts.
+ * Failed events are re-claimed when the provider retries, or replayed by an
+ * admin after the stored body is verified again with the provider.
+ */
+
+import { getServerClient } from '../lib/supabase/server';
+import { isValidUUID } from '../lib/security/validation';
+import { getProviderById } from '../lib/payments/provider-factory';
+import type { WebhookVerifyResult } from '../lib/payments/types';
+import type { Tables, Json } from '../types/database.types';
+import {
+  processPaymentWebhook,
+  type WebhookEventProvider,
+  type WebhookProcessResult,
+} from './payment-webhook.service';
+
+export type WebhookEvent = Tables<'webhook_events'>;
+export type WebhookEventStatus = WebhookEvent['status'];
+
+export const WEBHOOK_EVENT_STATUSES: WebhookEventStatus[] = ['processing', 'processed', 'skipped', 'failed'];
+
+// A claim older than this is assumed to have died mid-processing
+const STALE_CLAIM_SECONDS = 300;
+
+// ============================================
+// CLAIMING
+// ============================================
+
+/**
+ * Provider event identity used for deduplication
+ * Stripe: event id. CamPay: reference + status (one callback per outcome).
+ */
+export function getWebhookEventKey(
+  provider: WebhookEventProvider,
+  rawBody: string,
+  verification: WebhookVerifyResult
+): string | null {
+  try {
+    if (provider === 'stripe') {
+      const event = JSON.parse(rawBody) as { id?: string };
+      return event.id ?? null;
+    }
+
+    const data = verification.data as { reference?: string; status?: string } | undefined;
+    return data?.reference ? `${data.reference}:${data.status ?? ''}` : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Record and claim a verified webhook event
+ * Returns claimed: false for duplicates that are processed or in flight.
+ */
+export async function claimWebhookEvent(
+  provider: WebhookEventProvider,
+  eventKey: string,
+  rawBody: string,
+  verification: WebhookVerifyResult
+): Promise<
+  | { success: true; claimed: true; eventId: string }
+  | { success: true; claimed: false }
+  | { success: false; error: string }
+> {
+  const supabase = getServerClient();
+  const { data: eventId, error } = await supabase.rpc('claim_webhook_event', {
+    p_provider: provider,
+    p_event_key: eventKey,
+    p_event_type: verification.eventType ?? null,
+    p_order_id: verification.orderId && isValidUUID(verification.orderId) ? verification.orderId : null,
+    p_raw_body: rawBody,
+    p_result: verification as unknown as Json,
+    p_stale_after_seconds: STALE_CLAIM_SECONDS,
+  });
+
+  if (error) {
+    console.error('[WEBHOOK_EVENTS] Failed to claim event:', error.message);
+    return { success: false, error: 'Failed to record webhook event' };
+  }
+
+  return eventId
+    ? { success: true, claimed: true, eventId }
+    : { success: true, claimed: false };
+}
+
+/**
+ * Process a claimed event and record the outcome
+ */
+export async function runWebhookEvent(
+  eventId: string,
+  provider: WebhookEventProvider,
+  verification: WebhookVerifyResult
+): Promise<WebhookProcessResult> {
+  let result: WebhookProcessResult;
+  try {
+    result = await processPaymentWebhook(provider, verification);
+  } catch (error) {
+    result = { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+
+  const now = new Date().toISOString();
+  const supabase = getServerClient();
+  await supabase
+    .from('webhook_events')
+    .update(
+      result.success
+        ? { status: result.outcome, processed_at: now, last_error: null, updated_at: now }
+        : { status: 'failed', last_error: result.error.slice(0, 1000), updated_at: now }
+    )
+    .eq('id', eventId);
+
+  if (!result.success) {
+    console.error(`[WEBHOOK_EVENTS] ${provider} event ${eventId} failed: ${result.error}`);
+  }
+
+  return result;
+}
+
+// ============================================
+// ADMIN
+// ============================================
+
+/**
+ * List webhook events, newest first
+ */
+export async function getWebhookEvents(options: {
+  status?: WebhookEventStatus;
+  provider?: WebhookEventProvider;
+  limit?: number;
+} = {}): Promise<WebhookEvent[]> {
+  const supabase = getServerClient();
+  let query = supabase
+    .from('webhook_events')
+    .select('*')
+    .order('received_at', { ascending: false })
+    .limit(options.limit ?? 100);
+
+  if (options.status) {
+    query = query.eq('status', options.status);
+  }
+  if (options.provider) {
+    query = query.eq('provider', options.provider);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('[WEBHOOK_EVENTS] Failed to list events:', error.message);
+    return [];
+  }
+
+  return data ?? [];
+}
+
+/**
+ * Count events per status for the admin summary
+ */
+export async function getWebhookEventCounts(): Promise<Record<WebhookEventStatus, number>> {
+  const supabase = getServerClient();
+  const counts = await Promise.all(
+    WEBHOOK_EVENT_STATUSES.map(async (status) => {
+      const { count } = await supabase
+        .from('webhook_events')
+        .select('id', { count: 'exact', head: true })
+        .eq('status', status);
+      return [status, count ?? 0] as const;
+    })
+  );
+
+  return Object.fromEntries(counts) as Record<WebhookEventStatus, number>;
+}
+
+/**
+ * Re-run a failed event after verifying its stored body with the provider
+ * The stored result is never trusted on its own.
+ */
+export async function replayWebhookEvent(
+  eventId: string
+): Promise<{ success: boolean; event?: WebhookEvent; error?: string }> {
+  if (!isValidUUID(eventId)) {
+    return { success: false, error: 'Invalid event ID' };
+  }
+
+  const supabase = getServerClient();
+  const { data: event } = await supabase
+    .from('webhook_events')
+    .select('*')
+    .eq('id', eventId)
+    .single();
+
+  if (!event) {
+    return { success: false, error: 'Webhook event not found' };
+  }
+
+  if (event.status !== 'failed') {
+    return { success: false, error: `Only failed events can be replayed (event is ${event.status})` };
+  }
+
+  const provider = getProviderById(event.provider);
+  if (!provider?.reverifyWebhook) {
+    return { success: false, error: `Events from ${event.provider} cannot be re-verified` };
+  }
+
+  const verification = await provider.reverifyWebhook(event.raw_body);
+  if (!verification.valid) {
+    console.error(`[WEBHOOK_EVENTS] Replay of ${eventId} failed verification: ${verification.error}`);
+    return { success: false, error: `Event failed verification: ${verification.error}` };
+  }
+
+  if (getWebhookEventKey(event.provider, event.raw_body, verification) !== event.event_key) {
+    return { success: false, error: 'Verified event does not match the stored event' };
+  }
+
+  // Claim it so a provider retry can't run it at the same time
+  const now = new Date().toISOString();
+  const { data: claimed } = await supabase
+    .from('webhook_events')
+    .update({
+      status: 'processing',
+      attempts: event.attempts + 1,
+      result: verification as unknown as Json,
+      last_error: null,
+      processing_started_at: now,
+      updated_at: now,
+    })
+    .eq('id', eventId)
+    .eq('status', 'failed')
+    .select('id')
+    .maybeSingle();
+
+  if (!claimed) {
+    return { success: false, error: 'Event is already being processed' };
+  }
+
+  const result = await runWebhookEvent(event.id, event.provider, verification);
+
+  const { data: updated } = await supabase
+    .from('webhook_events')
+    .select('*')
+    .eq('id', eventId)
+    .single();
+
+  return result.success
+    ? { success: true, event: updated ?? event }
+    : { success: false, event: updated ?? event, error: result.error };
+}
@@ -24,11 +24,12 @@ export type Database = {
           full_name: string | null;
           phone: string | null;
           preferred_currency: string;
-          locale: string;
+          preferred_language: 'en' | 'fr';
           admin_role: 'super_admin' | 'order_manager' | 'support' | null;
           admin_2fa_secret: string | null;
           gdpr_consent_at: string | null;
           marketing_consent: boolean;
+          notification_preferences: Json;
           anonymized_at: string | null;
           created_at: string;
           updated_at: string;
@@ -44,6 +45,7 @@ export type Database = {
           admin_2fa_secret?: string | null;
           gdpr_consent_at?: string | null;
           marketing_consent?: boolean;
+          notification_preferences?: Json;
           anonymized_at?: string | null;
           created_at?: string;
           updated_at?: string;
@@ -59,6 +61,7 @@ export type Database = {
           admin_2fa_secret?: string | null;
           gdpr_consent_at?: string | null;
           marketing_consent?: boolean;
+          notification_preferences?: Json;
           anonymized_at?: string | null;
           created_at?: string;
           updated_at?: string;
@@ -81,7 +84,7 @@ export type Database = {
           payment_provider: string | null;
           payment_method: string | null;
           payment_reference: string | null;
-          payment_status: 'pending' | 'processing' | 'completed' | 'failed' | 'refunded' | 'partially_refunded';
+          payment_status: 'pending' | 'processing' | 'completed' | 'failed' | 'refunded' | 'partially_refunded' | 'disputed';
           stripe_checkout_session: string | null;
           stripe_payment_intent: string | null;
           campay_reference: string | null;
@@ -102,6 +105,15 @@ export type Database = {
           utm_source: string | null;
           utm_medium: string | null;
           utm_campaign: string | null;
+          order_type: 'single' | 'bundle' | 'bundle_item';
+          parent_order_id: string | null;
+          bundle_slug: string | null;
+          bundle_position: number | null;
+          deliverable_key: string | null;
+          deliverable_filename: string | null;
+          deliverable_size: number | null;
+          deliverable_uploaded_at: string | null;
+          deliverable_uploaded_by: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -121,7 +133,7 @@ export type Database = {
           payment_provider?: string | null;
           payment_method?: string | null;
           payment_reference?: string | null;
-          payment_status?: 'pending' | 'processing' | 'completed' | 'failed' | 'refunded' | 'partially_refunded';
+          payment_status?: 'pending' | 'processing' | 'completed' | 'failed' | 'refunded' | 'partially_refunded' | 'disputed';
           stripe_checkout_session?: string | null;
           stripe_payment_intent?: string | null;
           campay_reference?: string | null;
@@ -142,6 +154,15 @@ export type Database = {
           utm_source?: string | null;
           utm_medium?: string | null;
           utm_campaign?: string | null;
+          order_type?: 'single' | 'bundle' | 'bundle_item';
+          parent_order_id?: string | null;
+          bundle_slug?: string | null;
+          bundle_position?: number | null;
+          deliverable_key?: string | null;
+          deliverable_filename?: string | null;
+          deliverable_size?: number | null;
+          deliverable_uploaded_at?: string | null;
+          deliverable_uploaded_by?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -161,7 +182,7 @@ export type Database = {
           payment_provider?: string | null;
           payment_method?: string | null;
           payment_reference?: string | null;
-          payment_status?: 'pending' | 'processing' | 'completed' | 'failed' | 'refunded' | 'partially_refunded';
+          payment_status?: 'pending' | 'processing' | 'completed' | 'failed' | 'refunded' | 'partially_refunded' | 'disputed';
           stripe_checkout_session?: string | null;
           stripe_payment_intent?: string | null;
           campay_reference?: string | null;
@@ -182,6 +203,15 @@ export type Database = {
           utm_source?: string | null;
           utm_medium?: string | null;
           utm_campaign?: string | null;
+          order_type?: 'single' | 'bundle' | 'bundle_item';
+          parent_order_id?: string | null;
+          bundle_slug?: string | null;
+          bundle_position?: number | null;
+          deliverable_key?: string | null;
+          deliverable_filename?: string | null;
+          deliverable_size?: number | null;
+          deliverable_uploaded_at?: string | null;
+          deliverable_uploaded_by?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -241,67 +271,329 @@ export type Database = {
           created_at?: string;
         };
       };
-      payment_events: {
+      order_line_items: {
         Row: {
           id: string;
           order_id: string;
-          provider: string;
-          event_type: string;
-          event_data: Json;
-          idempotency_key: string | null;
+          item_type: 'package' | 'bundle_discount' | 'addon' | 'video_product' | 'coupon_discount';
+          item_slug: string;
+          name: string;
+          quantity: number;
+          unit_price: number;
+          amount: number;
+          currency: 'USD' | 'XAF';
+          delivery_days_additional: number;
+          metadata: Json | null;
+          display_order: number;
           created_at: string;
         };
         Insert: {
           id?: string;
           order_id: string;
+          item_type: 'package' | 'bundle_discount' | 'addon' | 'video_product' | 'coupon_discount';
+          item_slug: string;
+          name: string;
+          quantity?: number;
+          unit_price: number;
+          amount: number;
+          currency: 'USD' | 'XAF';
+          delivery_days_additional?: number;
+          metadata?: Json | null;
+          display_order?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          order_id?: string;
+          item_type?: 'package' | 'bundle_discount' | 'addon' | 'video_product' | 'coupon_discount';
+          item_slug?: string;
+          name?: string;
+          quantity?: number;
+          unit_price?: number;
+          amount?: number;
+          currency?: 'USD' | 'XAF';
+          delivery_days_additional?: number;
+          metadata?: Json | null;
+          display_order?: number;
+          created_at?: string;
+        };
+      };
+      order_quotes: {
+        Row: {
+          id: string;
+          customer_id: string;
+          package_slug: string;
+          occasion_slug: string;
+          currency: 'USD' | 'XAF';
+          selection: Json;
+          line_items: Json;
+          subtotal: number;
+          discount: number;
+          total: number;
+          delivery_days_additional: number;
+          signature: string;
+          expires_at: string;
+          consumed_at: string | null;
+          order_id: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id: string;
+          customer_id: string;
+          package_slug: string;
+          occasion_slug: string;
+          currency: 'USD' | 'XAF';
+          selection?: Json;
+          line_items: Json;
+          subtotal: number;
+          discount?: number;
+          total: number;
+          delivery_days_additional?: number;
+          signature: string;
+          expires_at: string;
+          consumed_at?: string | null;
+          order_id?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          customer_id?: string;
+          package_slug?: string;
+          occasion_slug?: string;
+          currency?: 'USD' | 'XAF';
+          selection?: Json;
+          line_items?: Json;
+          subtotal?: number;
+          discount?: number;
+          total?: number;
+          delivery_days_additional?: number;
+          signature?: string;
+          expires_at?: string;
+          consumed_at?: string | null;
+          order_id?: string | null;
+          created_at?: string;
+        };
+      };
+      payment_events: {
+        Row: {
+          id: string;
+          order_id: string | null;
+          event_type: string;
           provider: string;
+          provider_reference: string | null;
+          amount: number | null;
+          currency: string | null;
+          failure_reason: string | null;
+          raw_payload: Json | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          order_id?: string | null;
           event_type: string;
-          event_data: Json;
-          idempotency_key?: string | null;
+          provider: string;
+          provider_reference?: string | null;
+          amount?: number | null;
+          currency?: string | null;
+          failure_reason?: string | null;
+          raw_payload?: Json | null;
           created_at?: string;
         };
         Update: {
           id?: string;
-          order_id?: string;
-          provider?: string;
+          order_id?: string | null;
           event_type?: string;
-          event_data?: Json;
-          idempotency_key?: string | null;
+          provider?: string;
+          provider_reference?: string | null;
+          amount?: number | null;
+          currency?: string | null;
+          failure_reason?: string | null;
+          raw_payload?: Json | null;
           created_at?: string;
         };
       };
       payment_sessions: {
+        Row: {
+          id: string;
+          order_id: string | null;
+          provider: string;
+          provider_session_id: string | null;
+          status: 'pending' | 'completed' | 'failed' | 'expired';
+          amount: number | null;
+          currency: string | null;
+          check_count: number;
+          last_checked_at: string | null;
+          resolved_at: string | null;
+          expires_at: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          order_id?: string | null;
+          provider: string;
+          provider_session_id?: string | null;
+          status?: 'pending' | 'completed' | 'failed' | 'expired';
+          amount?: number | null;
+          currency?: string | null;
+          check_count?: number;
+          last_checked_at?: string | null;
+          resolved_at?: string | null;
+          expires_at: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          order_id?: string | null;
+          provider?: string;
+          provider_session_id?: string | null;
+          status?: 'pending' | 'completed' | 'failed' | 'expired';
+          amount?: number | null;
+          currency?: string | null;
+          check_count?: number;
+          last_checked_at?: string | null;
+          resolved_at?: string | null;
+          expires_at?: string;
+          created_at?: string;
+        };
+      };
+      payment_discrepancies: {
+        Row: {
+          id: string;
+          order_id: string | null;
+          provider: string;
+          provider_reference: string;
+          kind: 'underpayment' | 'overpayment' | 'amount_mismatch' | 'missing_event' | 'missing_at_provider';
+          expected_amount: number | null;
+          actual_amount: number | null;
+          currency: string | null;
+          details: Json;
+          status: 'open' | 'resolved' | 'ignored';
+          resolved_by: string | null;
+          resolved_at: string | null;
+          detected_at: string;
+        };
+        Insert: {
+          id?: string;
+          order_id?: string | null;
+          provider: string;
+          provider_reference: string;
+          kind: 'underpayment' | 'overpayment' | 'amount_mismatch' | 'missing_event' | 'missing_at_provider';
+          expected_amount?: number | null;
+          actual_amount?: number | null;
+          currency?: string | null;
+          details?: Json;
+          status?: 'open' | 'resolved' | 'ignored';
+          resolved_by?: string | null;
+          resolved_at?: string | null;
+          detected_at?: string;
+        };
+        Update: {
+          id?: string;
+          order_id?: string | null;
+          provider?: string;
+          provider_reference?: string;
+          kind?: 'underpayment' | 'overpayment' | 'amount_mismatch' | 'missing_event' | 'missing_at_provider';
+          expected_amount?: number | null;
+          actual_amount?: number | null;
+          currency?: string | null;
+          details?: Json;
+          status?: 'open' | 'resolved' | 'ignored';
+          resolved_by?: string | null;
+          resolved_at?: string | null;
+          detected_at?: string;
+        };
+      };
+      payment_refunds: {
         Row: {
           id: string;
           order_id: string;
           provider: string;
-          session_id: string;
-          status: 'pending' | 'processing' | 'completed' | 'failed' | 'refunded' | 'partially_refunded';
+          payment_reference: string | null;
+          provider_reference: string | null;
           amount: number;
           currency: string;
-          expires_at: string;
+          recipient_phone: string | null;
+          reason: string;
+          status: 'pending' | 'completed' | 'failed';
+          failure_reason: string | null;
+          requested_by: string | null;
           created_at: string;
+          completed_at: string | null;
+          updated_at: string;
         };
         Insert: {
           id?: string;
           order_id: string;
           provider: string;
-          session_id: string;
-          status?: 'pending' | 'processing' | 'completed' | 'failed' | 'refunded' | 'partially_refunded';
+          payment_reference?: string | null;
+          provider_reference?: string | null;
           amount: number;
           currency: string;
-          expires_at: string;
+          recipient_phone?: string | null;
+          reason: string;
+          status?: 'pending' | 'completed' | 'failed';
+          failure_reason?: string | null;
+          requested_by?: string | null;
           created_at?: string;
+          completed_at?: string | null;
+          updated_at?: string;
         };
         Update: {
           id?: string;
           order_id?: string;
           provider?: string;
-          session_id?: string;
-          status?: 'pending' | 'processing' | 'completed' | 'failed' | 'refunded' | 'partially_refunded';
+          payment_reference?: string | null;
+          provider_reference?: string | null;
           amount?: number;
           currency?: string;
-          expires_at?: string;
+          recipient_phone?: string | null;
+          reason?: string;
+          status?: 'pending' | 'completed' | 'failed';
+          failure_reason?: string | null;
+          requested_by?: string | null;
+          created_at?: string;
+          completed_at?: string | null;
+          updated_at?: string;
+        };
+      };
+      reconciliation_reports: {
+        Row: {
+          id: string;
+          report_date: string;
+          provider: string;
+          status: 'balanced' | 'discrepancies' | 'error';
+          provider_count: number;
+          our_count: number;
+          matched_count: number;
+          discrepancy_count: number;
+          summary: Json;
+          error: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          report_date: string;
+          provider: string;
+          status: 'balanced' | 'discrepancies' | 'error';
+          provider_count?: number;
+          our_count?: number;
+          matched_count?: number;
+          discrepancy_count?: number;
+          summary?: Json;
+          error?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          report_date?: string;
+          provider?: string;
+          status?: 'balanced' | 'discrepancies' | 'error';
+          provider_count?: number;
+          our_count?: number;
+          matched_count?: number;
+          discrepancy_count?: number;
+          summary?: Json;
+          error?: string | null;
           created_at?: string;
         };
       };
@@ -417,38 +709,80 @@ export type Database = {
         Row: {
           id: string;
           recipient_id: string | null;
-          recipient_email: string;
-          channel: 'email' | 'sms' | 'push';
-          template: string;
-          data: Json;
-          status: 'pending' | 'sent' | 'failed';
+          recipient_email: string | null;
+          recipient_phone: string | null;
+          notification_type: string;
+          channel: 'email' | 'sms' | 'whatsapp';
+          subject: string | null;
+          body: string | null;
+          template_data: Json | null;
+          status: 'pending' | 'processing' | 'sent' | 'failed' | 'dead_letter' | 'suppressed' | 'fallback';
           sent_at: string | null;
-          error: string | null;
+          error_message: string | null;
+          retry_count: number;
+          max_attempts: number;
+          next_attempt_at: string;
+          locked_at: string | null;
+          last_attempt_at: string | null;
+          provider_message_id: string | null;
+          order_id: string | null;
+          category: 'required' | 'transactional' | 'marketing' | 'internal';
+          suppressed_reason: string | null;
+          fallback_id: string | null;
           created_at: string;
+          updated_at: string;
         };
         Insert: {
           id?: string;
           recipient_id?: string | null;
-          recipient_email: string;
-          channel: 'email' | 'sms' | 'push';
-          template: string;
-          data: Json;
-          status?: 'pending' | 'sent' | 'failed';
+          recipient_email?: string | null;
+          recipient_phone?: string | null;
+          notification_type: string;
+          channel: 'email' | 'sms' | 'whatsapp';
+          subject?: string | null;
+          body?: string | null;
+          template_data?: Json | null;
+          status?: 'pending' | 'processing' | 'sent' | 'failed' | 'dead_letter' | 'suppressed' | 'fallback';
           sent_at?: string | null;
-          error?: string | null;
+          error_message?: string | null;
+          retry_count?: number;
+          max_attempts?: number;
+          next_attempt_at?: string;
+          locked_at?: string | null;
+          last_attempt_at?: string | null;
+          provider_message_id?: string | null;
+          order_id?: string | null;
+          category?: 'required' | 'transactional' | 'marketing' | 'internal';
+          suppressed_reason?: string | null;
+          fallback_id?: string | null;
           created_at?: string;
+          updated_at?: string;
         };
         Update: {
           id?: string;
           recipient_id?: string | null;
-          recipient_email?: string;
-          channel?: 'email' | 'sms' | 'push';
-          template?: string;
-          data?: Json;
-          status?: 'pending' | 'sent' | 'failed';
+          recipient_email?: string | null;
+          recipient_phone?: string | null;
+          notification_type?: string;
+          channel?: 'email' | 'sms' | 'whatsapp';
+          subject?: string | null;
+          body?: string | null;
+          template_data?: Json | null;
+          status?: 'pending' | 'processing' | 'sent' | 'failed' | 'dead_letter' | 'suppressed' | 'fallback';
           sent_at?: string | null;
-          error?: string | null;
+          error_message?: string | null;
+          retry_count?: number;
+          max_attempts?: number;
+          next_attempt_at?: string;
+          locked_at?: string | null;
+          last_attempt_at?: string | null;
+          provider_message_id?: string | null;
+          order_id?: string | null;
+          category?: 'required' | 'transactional' | 'marketing' | 'internal';
+          suppressed_reason?: string | null;
+          fallback_id?: string | null;
           created_at?: string;
+          updated_at?: string;
         };
       };
       config_packages: {
@@ -470,6 +804,7 @@ export type Database = {
           display_order: number;
           is_popular: boolean;
           is_active: boolean;
+          translations: Json;
           created_at: string;
           updated_at: string;
         };
@@ -491,6 +826,7 @@ export type Database = {
           display_order?: number;
           is_popular?: boolean;
           is_active?: boolean;
+          translations?: Json;
           created_at?: string;
           updated_at?: string;
         };
@@ -512,6 +848,7 @@ export type Database = {
           display_order?: number;
           is_popular?: boolean;
           is_active?: boolean;
+          translations?: Json;
           created_at?: string;
           updated_at?: string;
         };
@@ -528,6 +865,7 @@ export type Database = {
           meta_description: string | null;
           display_order: number;
           is_active: boolean;
+          translations: Json;
           created_at: string;
           updated_at: string | null;
         };
@@ -542,6 +880,7 @@ export type Database = {
           meta_description?: string | null;
           display_order?: number;
           is_active?: boolean;
+          translations?: Json;
           created_at?: string;
           updated_at?: string | null;
         };
@@ -556,6 +895,7 @@ export type Database = {
           meta_description?: string | null;
           display_order?: number;
           is_active?: boolean;
+          translations?: Json;
           created_at?: string;
           updated_at?: string | null;
         };
@@ -706,6 +1046,7 @@ export type Database = {
           is_featured: boolean;
           is_active: boolean;
           display_order: number;
+          translations: Json;
           created_at: string;
         };
         Insert: {
@@ -719,6 +1060,7 @@ export type Database = {
           is_featured?: boolean;
           is_active?: boolean;
           display_order?: number;
+          translations?: Json;
           created_at?: string;
         };
         Update: {
@@ -732,6 +1074,7 @@ export type Database = {
           is_featured?: boolean;
           is_active?: boolean;
           display_order?: number;
+          translations?: Json;
           created_at?: string;
         };
       };
@@ -784,6 +1127,7 @@ export type Database = {
           is_featured: boolean;
           is_active: boolean;
           display_order: number;
+          translations: Json;
           created_at: string;
           updated_at: string | null;
         };
@@ -803,6 +1147,7 @@ export type Database = {
           is_featured?: boolean;
           is_active?: boolean;
           display_order?: number;
+          translations?: Json;
           created_at?: string;
           updated_at?: string | null;
         };
@@ -822,6 +1167,7 @@ export type Database = {
           is_featured?: boolean;
           is_active?: boolean;
           display_order?: number;
+          translations?: Json;
           created_at?: string;
           updated_at?: string | null;
         };
@@ -904,6 +1250,7 @@ export type Database = {
           price_usd: number | null;
           price_xaf: number | null;
           percentage: number | null;
+          revision_count: number;
           display_order: number;
           is_active: boolean;
           created_at: string;
@@ -918,6 +1265,7 @@ export type Database = {
           price_usd?: number | null;
           price_xaf?: number | null;
           percentage?: number | null;
+          revision_count?: number;
           display_order?: number;
           is_active?: boolean;
           created_at?: string;
@@ -932,6 +1280,7 @@ export type Database = {
           price_usd?: number | null;
           price_xaf?: number | null;
           percentage?: number | null;
+          revision_count?: number;
           display_order?: number;
           is_active?: boolean;
           created_at?: string;
@@ -972,6 +1321,573 @@ export type Database = {
           created_at?: string;
         };
       };
+      config_coupons: {
+        Row: {
+          id: string;
+          code: string;
+          description: string | null;
+          discount_type: 'percentage' | 'fixed';
+          percentage: number | null;
+          amount_usd: number | null;
+          amount_xaf: number | null;
+          starts_at: string | null;
+          ends_at: string | null;
+          max_redemptions: number | null;
+          max_redemptions_per_customer: number | null;
+          redemption_count: number;
+          package_slugs: string[] | null;
+          occasion_slugs: string[] | null;
+          first_order_only: boolean;
+          is_active: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          code: string;
+          description?: string | null;
+          discount_type: 'percentage' | 'fixed';
+          percentage?: number | null;
+          amount_usd?: number | null;
+          amount_xaf?: number | null;
+          starts_at?: string | null;
+          ends_at?: string | null;
+          max_redemptions?: number | null;
+          max_redemptions_per_customer?: number | null;
+          redemption_count?: number;
+          package_slugs?: string[] | null;
+          occasion_slugs?: string[] | null;
+          first_order_only?: boolean;
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          code?: string;
+          description?: string | null;
+          discount_type?: 'percentage' | 'fixed';
+          percentage?: number | null;
+          amount_usd?: number | null;
+          amount_xaf?: number | null;
+          starts_at?: string | null;
+          ends_at?: string | null;
+          max_redemptions?: number | null;
+          max_redemptions_per_customer?: number | null;
+          redemption_count?: number;
+          package_slugs?: string[] | null;
+          occasion_slugs?: string[] | null;
+          first_order_only?: boolean;
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      coupon_redemptions: {
+        Row: {
+          id: string;
+          coupon_id: string;
+          order_id: string;
+          customer_id: string | null;
+          code: string;
+          currency: 'USD' | 'XAF';
+          discount_amount: number;
+          status: 'reserved' | 'confirmed' | 'released';
+          confirmed_at: string | null;
+          released_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          coupon_id: string;
+          order_id: string;
+          customer_id?: string | null;
+          code: string;
+          currency: 'USD' | 'XAF';
+          discount_amount: number;
+          status?: 'reserved' | 'confirmed' | 'released';
+          confirmed_at?: string | null;
+          released_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          coupon_id?: string;
+          order_id?: string;
+          customer_id?: string | null;
+          code?: string;
+          currency?: 'USD' | 'XAF';
+          discount_amount?: number;
+          status?: 'reserved' | 'confirmed' | 'released';
+          confirmed_at?: string | null;
+          released_at?: string | null;
+          created_at?: string;
+        };
+      };
+      revision_requests: {
+        Row: {
+          id: string;
+          order_id: string;
+          customer_id: string | null;
+          round_number: number;
+          notes: string;
+          status: 'pending' | 'accepted' | 'rejected' | 'completed';
+          is_extra: boolean;
+          admin_response: string | null;
+          reviewed_by: string | null;
+          reviewed_at: string | null;
+          completed_by: string | null;
+          completed_at: string | null;
+          deliverable_key: string | null;
+          deliverable_filename: string | null;
+          deliverable_id: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          order_id: string;
+          customer_id?: string | null;
+          round_number: number;
+          notes: string;
+          status?: 'pending' | 'accepted' | 'rejected' | 'completed';
+          is_extra?: boolean;
+          admin_response?: string | null;
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
+          completed_by?: string | null;
+          completed_at?: string | null;
+          deliverable_key?: string | null;
+          deliverable_filename?: string | null;
+          deliverable_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          order_id?: string;
+          customer_id?: string | null;
+          round_number?: number;
+          notes?: string;
+          status?: 'pending' | 'accepted' | 'rejected' | 'completed';
+          is_extra?: boolean;
+          admin_response?: string | null;
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
+          completed_by?: string | null;
+          completed_at?: string | null;
+          deliverable_key?: string | null;
+          deliverable_filename?: string | null;
+          deliverable_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      order_deliverables: {
+        Row: {
+          id: string;
+          order_id: string;
+          file_type: 'mp3' | 'wav_master' | 'instrumental' | 'lyric_sheet' | 'video' | 'preview';
+          label: string;
+          version: number;
+          storage_key: string;
+          filename: string;
+          content_type: string | null;
+          size_bytes: number | null;
+          uploaded_by: string | null;
+          revision_id: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          order_id: string;
+          file_type: 'mp3' | 'wav_master' | 'instrumental' | 'lyric_sheet' | 'video' | 'preview';
+          label: string;
+          version?: number;
+          storage_key: string;
+          filename: string;
+          content_type?: string | null;
+          size_bytes?: number | null;
+          uploaded_by?: string | null;
+          revision_id?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          order_id?: string;
+          file_type?: 'mp3' | 'wav_master' | 'instrumental' | 'lyric_sheet' | 'video' | 'preview';
+          label?: string;
+          version?: number;
+          storage_key?: string;
+          filename?: string;
+          content_type?: string | null;
+          size_bytes?: number | null;
+          uploaded_by?: string | null;
+          revision_id?: string | null;
+          created_at?: string;
+        };
+      };
+      order_downloads: {
+        Row: {
+          id: string;
+          order_id: string;
+          deliverable_id: string | null;
+          customer_id: string | null;
+          ip_address: string | null;
+          user_agent: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          order_id: string;
+          deliverable_id?: string | null;
+          customer_id?: string | null;
+          ip_address?: string | null;
+          user_agent?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          order_id?: string;
+          deliverable_id?: string | null;
+          customer_id?: string | null;
+          ip_address?: string | null;
+          user_agent?: string | null;
+          created_at?: string;
+        };
+      };
+      deliverable_uploads: {
+        Row: {
+          id: string;
+          order_id: string;
+          file_type: 'mp3' | 'wav_master' | 'instrumental' | 'lyric_sheet' | 'video' | 'preview';
+          label: string | null;
+          filename: string;
+          content_type: string;
+          size_bytes: number;
+          checksum_sha256: string | null;
+          storage_key: string;
+          r2_upload_id: string;
+          part_size: number;
+          part_count: number;
+          status: 'uploading' | 'verifying' | 'completed' | 'aborted' | 'failed';
+          failure_reason: string | null;
+          deliverable_id: string | null;
+          created_by: string | null;
+          created_at: string;
+          completed_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          order_id: string;
+          file_type: 'mp3' | 'wav_master' | 'instrumental' | 'lyric_sheet' | 'video' | 'preview';
+          label?: string | null;
+          filename: string;
+          content_type: string;
+          size_bytes: number;
+          checksum_sha256?: string | null;
+          storage_key: string;
+          r2_upload_id: string;
+          part_size: number;
+          part_count: number;
+          status?: 'uploading' | 'verifying' | 'completed' | 'aborted' | 'failed';
+          failure_reason?: string | null;
+          deliverable_id?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+          completed_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          order_id?: string;
+          file_type?: 'mp3' | 'wav_master' | 'instrumental' | 'lyric_sheet' | 'video' | 'preview';
+          label?: string | null;
+          filename?: string;
+          content_type?: string;
+          size_bytes?: number;
+          checksum_sha256?: string | null;
+          storage_key?: string;
+          r2_upload_id?: string;
+          part_size?: number;
+          part_count?: number;
+          status?: 'uploading' | 'verifying' | 'completed' | 'aborted' | 'failed';
+          failure_reason?: string | null;
+          deliverable_id?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+          completed_at?: string | null;
+        };
+      };
+      order_disputes: {
+        Row: {
+          id: string;
+          order_id: string;
+          provider: string;
+          provider_dispute_id: string;
+          charge_reference: string | null;
+          amount: number;
+          currency: string;
+          reason: string | null;
+          status: string;
+          evidence_due_by: string | null;
+          previous_payment_status: string | null;
+          outcome: 'won' | 'lost' | null;
+          opened_at: string;
+          closed_at: string | null;
+          settled_at: string | null;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          order_id: string;
+          provider?: string;
+          provider_dispute_id: string;
+          charge_reference?: string | null;
+          amount: number;
+          currency: string;
+          reason?: string | null;
+          status: string;
+          evidence_due_by?: string | null;
+          previous_payment_status?: string | null;
+          outcome?: 'won' | 'lost' | null;
+          opened_at?: string;
+          closed_at?: string | null;
+          settled_at?: string | null;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          order_id?: string;
+          provider?: string;
+          provider_dispute_id?: string;
+          charge_reference?: string | null;
+          amount?: number;
+          currency?: string;
+          reason?: string | null;
+          status?: string;
+          evidence_due_by?: string | null;
+          previous_payment_status?: string | null;
+          outcome?: 'won' | 'lost' | null;
+          opened_at?: string;
+          closed_at?: string | null;
+          settled_at?: string | null;
+          updated_at?: string;
+        };
+      };
+      webhook_events: {
+        Row: {
+          id: string;
+          provider: 'stripe' | 'campay';
+          event_key: string;
+          event_type: string | null;
+          order_id: string | null;
+          raw_body: string;
+          result: Json;
+          status: 'processing' | 'processed' | 'skipped' | 'failed';
+          attempts: number;
+          last_error: string | null;
+          received_at: string;
+          processing_started_at: string;
+          processed_at: string | null;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          provider: 'stripe' | 'campay';
+          event_key: string;
+          event_type?: string | null;
+          order_id?: string | null;
+          raw_body: string;
+          result?: Json;
+          status?: 'processing' | 'processed' | 'skipped' | 'failed';
+          attempts?: number;
+          last_error?: string | null;
+          received_at?: string;
+          processing_started_at?: string;
+          processed_at?: string | null;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          provider?: 'stripe' | 'campay';
+          event_key?: string;
+          event_type?: string | null;
+          order_id?: string | null;
+          raw_body?: string;
+          result?: Json;
+          status?: 'processing' | 'processed' | 'skipped' | 'failed';
+          attempts?: number;
+          last_error?: string | null;
+          received_at?: string;
+          processing_started_at?: string;
+          processed_at?: string | null;
+          updated_at?: string;
+        };
+      };
+      referral_links: {
+        Row: {
+          id: string;
+          referrer_id: string;
+          name: string;
+          slug: string;
+          occasion_slug: string | null;
+          package_slug: string | null;
+          is_active: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          referrer_id: string;
+          name: string;
+          slug: string;
+          occasion_slug?: string | null;
+          package_slug?: string | null;
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          referrer_id?: string;
+          name?: string;
+          slug?: string;
+          occasion_slug?: string | null;
+          package_slug?: string | null;
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      referral_program_tiers: {
+        Row: {
+          id: string;
+          program_id: string;
+          tier_level: number;
+          name: string;
+          min_monthly_conversions: number;
+          commission_type: 'percentage' | 'fixed' | null;
+          commission_value: number | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          program_id: string;
+          tier_level: number;
+          name: string;
+          min_monthly_conversions?: number;
+          commission_type?: 'percentage' | 'fixed' | null;
+          commission_value?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          program_id?: string;
+          tier_level?: number;
+          name?: string;
+          min_monthly_conversions?: number;
+          commission_type?: 'percentage' | 'fixed' | null;
+          commission_value?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      referral_clicks: {
+        Row: {
+          id: string;
+          referrer_id: string;
+          link_id: string | null;
+          visitor_id: string;
+          click_date: string;
+          landing_page: string | null;
+          referrer_host: string | null;
+          utm_source: string | null;
+          utm_medium: string | null;
+          utm_campaign: string | null;
+          utm_content: string | null;
+          utm_term: string | null;
+          device_class: 'desktop' | 'mobile' | 'tablet' | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          referrer_id: string;
+          link_id?: string | null;
+          visitor_id: string;
+          click_date?: string;
+          landing_page?: string | null;
+          referrer_host?: string | null;
+          utm_source?: string | null;
+          utm_medium?: string | null;
+          utm_campaign?: string | null;
+          utm_content?: string | null;
+          utm_term?: string | null;
+          device_class?: 'desktop' | 'mobile' | 'tablet' | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          referrer_id?: string;
+          link_id?: string | null;
+          visitor_id?: string;
+          click_date?: string;
+          landing_page?: string | null;
+          referrer_host?: string | null;
+          utm_source?: string | null;
+          utm_medium?: string | null;
+          utm_campaign?: string | null;
+          utm_content?: string | null;
+          utm_term?: string | null;
+          device_class?: 'desktop' | 'mobile' | 'tablet' | null;
+          created_at?: string;
+        };
+      };
+      referral_ledger: {
+        Row: {
+          id: string;
+          entry_id: string;
+          referrer_id: string;
+          currency: 'USD' | 'XAF';
+          account: 'earnings' | 'available' | 'held' | 'paid_out';
+          amount: number;
+          entry_type: 'opening_balance' | 'commission_credit' | 'commission_reversal' | 'commission_hold' | 'commission_release' | 'payout_hold' | 'payout_release' | 'payout_debit';
+          commission_id: string | null;
+          payout_request_id: string | null;
+          description: string | null;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          entry_id: string;
+          referrer_id: string;
+          currency: 'USD' | 'XAF';
+          account: 'earnings' | 'available' | 'held' | 'paid_out';
+          amount: number;
+          entry_type: 'opening_balance' | 'commission_credit' | 'commission_reversal' | 'commission_hold' | 'commission_release' | 'payout_hold' | 'payout_release' | 'payout_debit';
+          commission_id?: string | null;
+          payout_request_id?: string | null;
+          description?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          entry_id?: string;
+          referrer_id?: string;
+          currency?: 'USD' | 'XAF';
+          account?: 'earnings' | 'available' | 'held' | 'paid_out';
+          amount?: number;
+          entry_type?: 'opening_balance' | 'commission_credit' | 'commission_reversal' | 'commission_hold' | 'commission_release' | 'payout_hold' | 'payout_release' | 'payout_debit';
+          commission_id?: string | null;
+          payout_request_id?: string | null;
+          description?: string | null;
+          created_by?: string | null;
+          created_at?: string;
+        };
+      };
       contact_submissions: {
         Row: {
           id: string;
@@ -1033,6 +1949,7 @@ export type Database = {
           options: Json | null;
           field_group: 'recipient' | 'relationship' | 'memories' | 'song_preferences' | 'additional';
           validation_rules: Json | null;
+          translations: Json;
           is_active: boolean;
           created_at: string;
           updated_at: string;
@@ -1050,6 +1967,7 @@ export type Database = {
           options?: Json | null;
           field_group?: 'recipient' | 'relationship' | 'memories' | 'song_preferences' | 'additional';
           validation_rules?: Json | null;
+          translations?: Json;
           is_active?: boolean;
           created_at?: string;
           updated_at?: string;
@@ -1067,6 +1985,7 @@ export type Database = {
           options?: Json | null;
           field_group?: 'recipient' | 'relationship' | 'memories' | 'song_preferences' | 'additional';
           validation_rules?: Json | null;
+          translations?: Json;
           is_active?: boolean;
           created_at?: string;
           updated_at?: string;
@@ -1074,7 +1993,15 @@ export type Database = {
       };
     };
     Views: {
-      [_ in never]: never;
+      referral_link_funnel: {
+        Row: {
+          link_id: string;
+          referrer_id: string;
+          clicks: number;
+          signups: number;
+          orders: number;
+        };
+      };
     };
     Functions: {
       is_admin: {
@@ -1102,12 +2029,168 @@ export type Database = {
         };
         Returns: undefined;
       };
+      redeem_coupon: {
+        Args: {
+          p_coupon_id: string;
+          p_order_id: string;
+          p_customer_id: string;
+          p_currency: string;
+          p_discount_amount: number;
+        };
+        Returns: string | null;
+      };
+      release_coupon_redemption: {
+        Args: {
+          p_order_id: string;
+        };
+        Returns: undefined;
+      };
+      confirm_coupon_redemption: {
+        Args: {
+          p_order_id: string;
+        };
+        Returns: undefined;
+      };
+      request_revision: {
+        Args: {
+          p_order_id: string;
+          p_customer_id: string;
+          p_notes: string;
+        };
+        Returns: string | null;
+      };
+      claim_webhook_event: {
+        Args: {
+          p_provider: string;
+          p_event_key: string;
+          p_event_type: string | null;
+          p_order_id: string | null;
+          p_raw_body: string;
+          p_result: Json;
+          p_stale_after_seconds?: number;
+        };
+        Returns: string | null;
+      };
+      request_referral_payout: {
+        Args: {
+          p_referrer_id: string;
+          p_amount: number;
+          p_currency: string;
+          p_payment_method: string;
+          p_payment_details: Json;
+        };
+        Returns: Record<string, unknown>;
+      };
+      complete_referral_payout: {
+        Args: {
+          p_payout_id: string;
+          p_from_status: string;
+          p_transaction_reference: string | null;
+          p_processed_by?: string | null;
+        };
+        Returns: boolean;
+      };
+      reject_referral_payout: {
+        Args: {
+          p_payout_id: string;
+          p_rejected_by: string;
+          p_reason: string;
+        };
+        Returns: boolean;
+      };
+      clawback_order_commissions: {
+        Args: {
+          p_order_id: string;
+          p_reason: string;
+          p_source: string;
+          p_reversed_amount?: number | null;
+        };
+        Returns: number;
+      };
+      evaluate_referral_tiers: {
+        Args: { p_period_start: string };
+        Returns: {
+          referrer_id: string;
+          previous_tier: number;
+          new_tier: number;
+          conversions: number;
+        }[];
+      };
+      get_referral_cap_status: {
+        Args: { p_referrer_id: string; p_currency: string; p_at?: string };
+        Returns: {
+          cap: number;
+          cap_period: 'monthly' | 'yearly' | 'lifetime';
+          period_start: string | null;
+          period_end: string | null;
+          earned: number;
+          remaining: number;
+        }[];
+      };
+      record_referral_click: {
+        Args: {
+          p_referral_code: string;
+          p_visitor_id: string;
+          p_link_id?: string | null;
+          p_landing_page?: string | null;
+          p_referrer_host?: string | null;
+          p_utm_source?: string | null;
+          p_utm_medium?: string | null;
+          p_utm_campaign?: string | null;
+          p_utm_content?: string | null;
+          p_utm_term?: string | null;
+          p_device_class?: string | null;
+        };
+        Returns: boolean;
+      };
+      get_referral_funnel: {
+        Args: {
+          p_from: string;
+          p_to: string;
+          p_group_by?: 'agent' | 'campaign';
+          p_referrer_id?: string | null;
+        };
+        Returns: {
+          referrer_id: string | null;
+          campaign: string | null;
+          clicks: number;
+          signups: number;
+          first_orders: number;
+          revenue_usd: number;
+          revenue_xaf: number;
+        }[];
+      };
+      hold_order_commissions: {
+        Args: { p_order_id: string; p_reason: string };
+        Returns: number;
+      };
+      release_order_commissions: {
+        Args: { p_order_id: string; p_reason: string };
+        Returns: number;
+      };
+      claim_notifications: {
+        Args: {
+          p_channel: 'email' | 'sms' | 'whatsapp';
+          p_limit: number;
+          p_stale_after_seconds?: number;
+        };
+        Returns: Database['public']['Tables']['notification_queue']['Row'][];
+      };
+      verify_referral_balances: {
+        Args: Record<PropertyKey, never>;
+        Returns: {
+          referrer_id: string;
+          currency: string;
+          cached_balance: number;
+          ledger_balance: number;
+        }[];
+      };
     };
     Enums: {
       admin_role: 'super_admin' | 'order_manager' | 'support';
-      payment_status: 'pending' | 'processing' | 'completed' | 'failed' | 'refunded' | 'partially_refunded';
-      notification_channel: 'email' | 'sms' | 'push';
-      notification_status: 'pending' | 'sent' | 'failed';
+      payment_status: 'pending' | 'processing' | 'completed' | 'failed' | 'refunded' | 'partially_refunded' | 'disputed';
+      notification_channel: 'email' | 'sms' | 'whatsapp';
+      notification_status: 'pending' | 'processing' | 'sent' | 'failed' | 'dead_letter' | 'suppressed' | 'fallback';
       security_severity: 'low' | 'medium' | 'high' | 'critical';
     };
   };
@@ -0,0 +1,66 @@
+-- ============================================
+-- ORDER LINE ITEMS
+-- Itemised price breakdown per order (package, bundle, add-ons, video products)
+-- ============================================
+
+-- ============================================
+-- 1. CREATE TABLE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS order_line_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID REFERENCES orders(id) ON DELETE CASCADE NOT NULL,
+
+  -- What was sold (slug + name snapshot so config edits don't rewrite history)
+  item_type TEXT NOT NULL CHECK (item_type IN ('package', 'bundle_discount', 'addon', 'video_product')),
+  item_slug TEXT NOT NULL,
+  name TEXT NOT NULL,
+
+  -- Pricing snapshot
+  quantity INT NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  unit_price DECIMAL(10, 2) NOT NULL,
+  amount DECIMAL(10, 2) NOT NULL,
+  currency TEXT NOT NULL CHECK (currency IN ('USD', 'XAF')),
+
+  -- Scheduling impact
+  delivery_days_additional INT NOT NULL DEFAULT 0,
+
+  metadata JSONB,
+  display_order INT DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON TABLE order_line_items IS 'Server-computed price breakdown persisted at order creation';
+COMMENT ON COLUMN order_line_items.amount IS 'Line total (quantity * unit_price); negative for discounts';
+COMMENT ON COLUMN order_line_items.delivery_days_additional IS 'Extra production days this item adds to the due date';
+
+-- ============================================
+-- 2. INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_order_line_items_order ON order_line_items(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_line_items_type_slug ON order_line_items(item_type, item_slug);
+
+-- ============================================
+-- 3. RLS POLICIES
+-- ============================================
+
+ALTER TABLE order_line_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own order line items" ON order_line_items
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_line_items.order_id
+      AND orders.customer_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can manage order line items" ON order_line_items
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.admin_role IS NOT NULL
+    )
+  );
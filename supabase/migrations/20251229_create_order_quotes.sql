@@ -0,0 +1,65 @@
+-- ============================================
+-- ORDER QUOTES
+-- Server-signed, expiring price quotes consumed by order creation
+-- ============================================
+
+-- ============================================
+-- 1. CREATE TABLE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS order_quotes (
+  id UUID PRIMARY KEY,
+  customer_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+
+  -- Selection
+  package_slug TEXT NOT NULL REFERENCES config_packages(slug),
+  occasion_slug TEXT NOT NULL REFERENCES config_occasions(slug),
+  currency TEXT NOT NULL CHECK (currency IN ('USD', 'XAF')),
+  selection JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+  -- Priced breakdown (snapshot at quote time)
+  line_items JSONB NOT NULL,
+  subtotal DECIMAL(10, 2) NOT NULL,
+  discount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  total DECIMAL(10, 2) NOT NULL,
+  delivery_days_additional INT NOT NULL DEFAULT 0,
+
+  -- Integrity
+  signature TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+
+  -- Consumption (one order per quote)
+  consumed_at TIMESTAMPTZ,
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON TABLE order_quotes IS 'Itemised price quotes; order creation only accepts a valid, unexpired, unconsumed quote';
+COMMENT ON COLUMN order_quotes.signature IS 'HMAC-SHA256 over the canonical quote payload (detects tampering)';
+COMMENT ON COLUMN order_quotes.consumed_at IS 'Set atomically when an order is created from this quote';
+
+-- ============================================
+-- 2. INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_order_quotes_customer ON order_quotes(customer_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_order_quotes_expires ON order_quotes(expires_at) WHERE consumed_at IS NULL;
+
+-- ============================================
+-- 3. RLS POLICIES
+-- ============================================
+
+ALTER TABLE order_quotes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own quotes" ON order_quotes
+  FOR SELECT USING (auth.uid() = customer_id);
+
+CREATE POLICY "Admins can manage quotes" ON order_quotes
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.admin_role IS NOT NULL
+    )
+  );
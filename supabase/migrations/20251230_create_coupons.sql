@@ -0,0 +1,274 @@
+-- ============================================
+-- COUPONS & PROMO CODES
+-- Discount codes with validity windows, redemption caps and restrictions
+-- ============================================
+
+-- ============================================
+-- 1. CREATE TABLES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS config_coupons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT UNIQUE NOT NULL CHECK (code = UPPER(code) AND code ~ '^[A-Z0-9_-]{3,32}$'),
+  description TEXT,
+
+  -- Discount value
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+  percentage DECIMAL(5, 2),
+  amount_usd DECIMAL(10, 2),
+  amount_xaf DECIMAL(10, 0),
+
+  -- Validity window (NULL = open-ended)
+  starts_at TIMESTAMPTZ,
+  ends_at TIMESTAMPTZ,
+
+  -- Redemption caps (NULL = unlimited)
+  max_redemptions INT CHECK (max_redemptions IS NULL OR max_redemptions > 0),
+  max_redemptions_per_customer INT DEFAULT 1 CHECK (max_redemptions_per_customer IS NULL OR max_redemptions_per_customer > 0),
+  redemption_count INT NOT NULL DEFAULT 0,
+
+  -- Restrictions (NULL = any)
+  package_slugs TEXT[],
+  occasion_slugs TEXT[],
+  first_order_only BOOLEAN DEFAULT FALSE,
+
+  is_active BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT valid_coupon_discount CHECK (
+    (discount_type = 'percentage' AND percentage > 0 AND percentage <= 100 AND amount_usd IS NULL AND amount_xaf IS NULL) OR
+    (discount_type = 'fixed' AND percentage IS NULL AND (amount_usd IS NOT NULL OR amount_xaf IS NOT NULL))
+  ),
+  CONSTRAINT valid_coupon_window CHECK (starts_at IS NULL OR ends_at IS NULL OR ends_at > starts_at)
+);
+
+COMMENT ON TABLE config_coupons IS 'Promo codes: percentage or per-currency fixed discounts';
+COMMENT ON COLUMN config_coupons.amount_usd IS 'Fixed discount in USD; NULL means the coupon is not valid for USD orders';
+COMMENT ON COLUMN config_coupons.amount_xaf IS 'Fixed discount in XAF; NULL means the coupon is not valid for XAF orders';
+COMMENT ON COLUMN config_coupons.redemption_count IS 'Reserved + confirmed redemptions, maintained by the coupon functions; do not edit manually';
+
+CREATE TABLE IF NOT EXISTS coupon_redemptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  coupon_id UUID REFERENCES config_coupons(id) ON DELETE RESTRICT NOT NULL,
+  order_id UUID REFERENCES orders(id) ON DELETE CASCADE NOT NULL,
+  customer_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  code TEXT NOT NULL,
+  currency TEXT NOT NULL CHECK (currency IN ('USD', 'XAF')),
+  discount_amount DECIMAL(10, 2) NOT NULL CHECK (discount_amount >= 0),
+  status TEXT NOT NULL DEFAULT 'reserved' CHECK (status IN ('reserved', 'confirmed', 'released')),
+  confirmed_at TIMESTAMPTZ,
+  released_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(coupon_id, order_id)
+);
+
+COMMENT ON TABLE coupon_redemptions IS 'One row per order a coupon was applied to (discount cost reporting)';
+COMMENT ON COLUMN coupon_redemptions.status IS 'reserved at checkout, confirmed once paid, released when the payment fails or the checkout expires';
+
+-- Allow coupon lines in the itemised breakdown
+ALTER TABLE order_line_items DROP CONSTRAINT IF EXISTS order_line_items_item_type_check;
+ALTER TABLE order_line_items ADD CONSTRAINT order_line_items_item_type_check
+  CHECK (item_type IN ('package', 'bundle_discount', 'addon', 'video_product', 'coupon_discount'));
+
+-- ============================================
+-- 2. INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_config_coupons_active ON config_coupons(is_active) WHERE is_active = TRUE;
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_coupon ON coupon_redemptions(coupon_id);
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_customer ON coupon_redemptions(coupon_id, customer_id);
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_order ON coupon_redemptions(order_id);
+
+-- ============================================
+-- 3. RLS POLICIES
+-- ============================================
+
+ALTER TABLE config_coupons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE coupon_redemptions ENABLE ROW LEVEL SECURITY;
+
+-- Coupons are validated server-side only; codes are not publicly listable
+CREATE POLICY "Admins can manage coupons" ON config_coupons
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.admin_role IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Users can view own coupon redemptions" ON coupon_redemptions
+  FOR SELECT USING (auth.uid() = customer_id);
+
+CREATE POLICY "Admins can manage coupon redemptions" ON coupon_redemptions
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.admin_role IS NOT NULL
+    )
+  );
+
+-- ============================================
+-- 4. FUNCTIONS
+-- ============================================
+
+-- Atomically enforce redemption caps and reserve a redemption at checkout.
+-- Returns NULL on success, or a reason code when the coupon can't be redeemed.
+CREATE OR REPLACE FUNCTION redeem_coupon(
+  p_coupon_id UUID,
+  p_order_id UUID,
+  p_customer_id UUID,
+  p_currency TEXT,
+  p_discount_amount DECIMAL
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_coupon config_coupons%ROWTYPE;
+  v_customer_count INT;
+BEGIN
+  -- Lock the coupon row so concurrent checkouts can't exceed the caps
+  SELECT * INTO v_coupon FROM config_coupons WHERE id = p_coupon_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT v_coupon.is_active THEN
+    RETURN 'inactive';
+  END IF;
+
+  IF v_coupon.ends_at IS NOT NULL AND v_coupon.ends_at <= NOW() THEN
+    RETURN 'expired';
+  END IF;
+
+  IF v_coupon.max_redemptions IS NOT NULL AND v_coupon.redemption_count >= v_coupon.max_redemptions THEN
+    RETURN 'exhausted';
+  END IF;
+
+  IF v_coupon.max_redemptions_per_customer IS NOT NULL THEN
+    SELECT COUNT(*) INTO v_customer_count
+    FROM coupon_redemptions
+    WHERE coupon_id = p_coupon_id AND customer_id = p_customer_id AND status <> 'released';
+
+    IF v_customer_count >= v_coupon.max_redemptions_per_customer THEN
+      RETURN 'customer_limit';
+    END IF;
+  END IF;
+
+  IF v_coupon.first_order_only AND EXISTS (
+    SELECT 1 FROM orders
+    WHERE customer_id = p_customer_id AND payment_status = 'paid' AND id <> p_order_id
+  ) THEN
+    RETURN 'not_first_order';
+  END IF;
+
+  INSERT INTO coupon_redemptions (coupon_id, order_id, customer_id, code, currency, discount_amount)
+  VALUES (p_coupon_id, p_order_id, p_customer_id, v_coupon.code, p_currency, p_discount_amount);
+
+  UPDATE config_coupons
+  SET redemption_count = redemption_count + 1, updated_at = NOW()
+  WHERE id = p_coupon_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION redeem_coupon IS 'Atomically checks caps and reserves a coupon redemption (NULL = success)';
+
+-- Give back a reserved redemption (failed payment, expired checkout)
+CREATE OR REPLACE FUNCTION release_coupon_redemption(p_order_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_redemption RECORD;
+BEGIN
+  FOR v_redemption IN
+    UPDATE coupon_redemptions
+    SET status = 'released', released_at = NOW()
+    WHERE order_id = p_order_id AND status = 'reserved'
+    RETURNING coupon_id
+  LOOP
+    UPDATE config_coupons
+    SET redemption_count = GREATEST(redemption_count - 1, 0), updated_at = NOW()
+    WHERE id = v_redemption.coupon_id;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION release_coupon_redemption IS 'Releases an order''s reserved coupon redemption and frees its cap slot';
+
+-- Confirm the redemption once the order is paid. A released redemption
+-- (customer retried after a failed payment) takes its cap slot back.
+CREATE OR REPLACE FUNCTION confirm_coupon_redemption(p_order_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_redemption RECORD;
+BEGIN
+  FOR v_redemption IN
+    UPDATE coupon_redemptions r
+    SET status = 'confirmed', confirmed_at = NOW(), released_at = NULL
+    FROM coupon_redemptions prev
+    WHERE r.id = prev.id AND r.order_id = p_order_id AND r.status <> 'confirmed'
+    RETURNING r.coupon_id, prev.status AS old_status
+  LOOP
+    IF v_redemption.old_status = 'released' THEN
+      UPDATE config_coupons
+      SET redemption_count = redemption_count + 1, updated_at = NOW()
+      WHERE id = v_redemption.coupon_id;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION confirm_coupon_redemption IS 'Confirms an order''s coupon redemption once the order is paid';
+
+-- ============================================
+-- 5. TRIGGERS
+-- ============================================
+
+-- Every payment path (webhooks, reconciliation, status checks) ends in
+-- an orders.payment_status update, so redemptions follow it here
+CREATE OR REPLACE FUNCTION sync_coupon_redemption()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.payment_status = 'paid' THEN
+    PERFORM confirm_coupon_redemption(NEW.id);
+  ELSIF NEW.payment_status = 'failed' THEN
+    PERFORM release_coupon_redemption(NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_sync_coupon_redemption ON orders;
+CREATE TRIGGER trigger_sync_coupon_redemption
+  AFTER UPDATE OF payment_status ON orders
+  FOR EACH ROW
+  WHEN (OLD.payment_status IS DISTINCT FROM NEW.payment_status)
+  EXECUTE FUNCTION sync_coupon_redemption();
+
+-- Deleting an order cascades to its redemption; free the cap slot it held
+CREATE OR REPLACE FUNCTION release_deleted_coupon_redemption()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status <> 'released' THEN
+    UPDATE config_coupons
+    SET redemption_count = GREATEST(redemption_count - 1, 0), updated_at = NOW()
+    WHERE id = OLD.coupon_id;
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_release_deleted_coupon_redemption ON coupon_redemptions;
+CREATE TRIGGER trigger_release_deleted_coupon_redemption
+  AFTER DELETE ON coupon_redemptions
+  FOR EACH ROW
+  EXECUTE FUNCTION release_deleted_coupon_redemption();
+
+-- ============================================
+-- 6. PERMISSIONS
+-- ============================================
+-- Redemptions are managed server-side only (service role)
+REVOKE EXECUTE ON FUNCTION redeem_coupon(UUID, UUID, UUID, TEXT, DECIMAL) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_coupon_redemption(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION confirm_coupon_redemption(UUID) FROM PUBLIC, anon, authenticated;
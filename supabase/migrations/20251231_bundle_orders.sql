@@ -0,0 +1,46 @@
+-- ============================================
+-- BUNDLE ORDERS
+-- A bundle is paid once on a parent order and fulfilled
+-- through N linked child song orders.
+-- ============================================
+
+-- ============================================
+-- 1. ORDER HIERARCHY COLUMNS
+-- ============================================
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS order_type TEXT NOT NULL DEFAULT 'single'
+  CHECK (order_type IN ('single', 'bundle', 'bundle_item'));
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS parent_order_id UUID REFERENCES orders(id) ON DELETE CASCADE;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS bundle_slug TEXT REFERENCES config_bundles(slug);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS bundle_position INT;
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_bundle_hierarchy_check;
+ALTER TABLE orders ADD CONSTRAINT orders_bundle_hierarchy_check CHECK (
+  (order_type = 'bundle_item' AND parent_order_id IS NOT NULL AND bundle_position IS NOT NULL) OR
+  (order_type <> 'bundle_item' AND parent_order_id IS NULL)
+);
+
+COMMENT ON COLUMN orders.order_type IS 'single = one song; bundle = paid parent; bundle_item = child song of a bundle';
+COMMENT ON COLUMN orders.parent_order_id IS 'Bundle parent for bundle_item orders (payment lives on the parent)';
+COMMENT ON COLUMN orders.bundle_position IS '1-based song number within the bundle';
+
+-- ============================================
+-- 2. INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_orders_parent ON orders(parent_order_id) WHERE parent_order_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_bundle_position ON orders(parent_order_id, bundle_position)
+  WHERE parent_order_id IS NOT NULL;
+
+-- ============================================
+-- 3. COMMISSIONS
+-- Commissions are earned once on the bundle parent; child orders
+-- mirror its payment status and must not pay out again.
+-- ============================================
+
+DROP TRIGGER IF EXISTS trigger_calculate_commissions_v2 ON orders;
+CREATE TRIGGER trigger_calculate_commissions_v2
+AFTER INSERT OR UPDATE ON orders
+FOR EACH ROW
+WHEN (NEW.parent_order_id IS NULL)
+EXECUTE FUNCTION calculate_commissions_v2();
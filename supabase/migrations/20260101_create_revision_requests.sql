@@ -0,0 +1,171 @@
+-- ============================================
+-- REVISION REQUESTS
+-- Persisted revision rounds with per-package quota
+-- and paid extra revisions from 'revision' add-ons
+-- ============================================
+
+-- ============================================
+-- 1. REVISION ADD-ON ROUNDS
+-- ============================================
+
+ALTER TABLE config_addons ADD COLUMN IF NOT EXISTS revision_count INT NOT NULL DEFAULT 0
+  CHECK (revision_count >= 0);
+
+COMMENT ON COLUMN config_addons.revision_count IS 'Extra revision rounds granted by a revision add-on';
+
+UPDATE config_addons SET revision_count = 1 WHERE slug = 'extra-revision';
+UPDATE config_addons SET revision_count = 3 WHERE slug = 'revision-pack';
+
+-- ============================================
+-- 2. ORDER DELIVERABLE COLUMNS
+-- Written by upload-deliverable; a completed round
+-- snapshots them to keep its own version.
+-- ============================================
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS deliverable_key TEXT;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS deliverable_filename TEXT;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS deliverable_size BIGINT;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS deliverable_uploaded_at TIMESTAMPTZ;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS deliverable_uploaded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- ============================================
+-- 3. TABLES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS revision_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID REFERENCES orders(id) ON DELETE CASCADE NOT NULL,
+  customer_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  round_number INT NOT NULL CHECK (round_number >= 1),
+  notes TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'accepted', 'rejected', 'completed')),
+  is_extra BOOLEAN NOT NULL DEFAULT FALSE,
+
+  -- Admin review
+  admin_response TEXT,
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+
+  -- Deliverable produced by this round
+  completed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  completed_at TIMESTAMPTZ,
+  deliverable_key TEXT,
+  deliverable_filename TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(order_id, round_number)
+);
+
+COMMENT ON TABLE revision_requests IS 'Customer revision rounds; rejected rounds do not count against the quota';
+COMMENT ON COLUMN revision_requests.is_extra IS 'Round consumed a paid extra revision rather than one included in the package';
+COMMENT ON COLUMN revision_requests.deliverable_key IS 'Storage key of the deliverable version delivered for this round';
+
+-- ============================================
+-- 4. INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_revision_requests_order ON revision_requests(order_id);
+CREATE INDEX IF NOT EXISTS idx_revision_requests_status ON revision_requests(status)
+  WHERE status IN ('pending', 'accepted');
+
+-- Only one open round per order
+CREATE UNIQUE INDEX IF NOT EXISTS idx_revision_requests_open ON revision_requests(order_id)
+  WHERE status IN ('pending', 'accepted');
+
+-- ============================================
+-- 5. RLS POLICIES
+-- ============================================
+
+ALTER TABLE revision_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own revision requests" ON revision_requests
+  FOR SELECT USING (auth.uid() = customer_id);
+
+CREATE POLICY "Admins can manage revision requests" ON revision_requests
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.admin_role IS NOT NULL
+    )
+  );
+
+-- ============================================
+-- 6. FUNCTIONS
+-- ============================================
+
+-- Atomically check quota and open a new revision round.
+-- Quota = package revision_count + rounds from 'revision' add-ons
+-- (bundle songs use the add-ons bought on their bundle).
+-- Returns NULL on success, otherwise a reason code.
+CREATE OR REPLACE FUNCTION request_revision(
+  p_order_id UUID,
+  p_customer_id UUID,
+  p_notes TEXT
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_order RECORD;
+  v_included INT;
+  v_extra INT;
+  v_used INT;
+  v_next_round INT;
+BEGIN
+  -- Lock the order so concurrent requests can't exceed the quota
+  SELECT id, status, package_slug, parent_order_id INTO v_order
+  FROM orders
+  WHERE id = p_order_id AND customer_id = p_customer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN 'not_found';
+  END IF;
+
+  -- Keep in sync with REVISION_ALLOWED_STATUSES (revision.service.ts)
+  IF v_order.status NOT IN ('review', 'completed', 'delivered') THEN
+    RETURN 'invalid_status';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM revision_requests
+    WHERE order_id = p_order_id AND status IN ('pending', 'accepted')
+  ) THEN
+    RETURN 'open_request';
+  END IF;
+
+  SELECT COALESCE(revision_count, 0) INTO v_included
+  FROM config_packages
+  WHERE slug = v_order.package_slug;
+
+  SELECT COALESCE(SUM(quantity * COALESCE((metadata->>'revision_count')::INT, 1)), 0) INTO v_extra
+  FROM order_line_items
+  WHERE order_id = COALESCE(v_order.parent_order_id, v_order.id)
+    AND item_type = 'addon'
+    AND metadata->>'category' = 'revision';
+
+  SELECT COUNT(*) FILTER (WHERE status <> 'rejected'), COALESCE(MAX(round_number), 0) + 1
+  INTO v_used, v_next_round
+  FROM revision_requests
+  WHERE order_id = p_order_id;
+
+  IF v_used >= COALESCE(v_included, 0) + v_extra THEN
+    RETURN 'quota_exceeded';
+  END IF;
+
+  INSERT INTO revision_requests (order_id, customer_id, round_number, notes, is_extra)
+  VALUES (p_order_id, p_customer_id, v_next_round, p_notes, v_used >= COALESCE(v_included, 0));
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION request_revision IS 'Atomically checks order status and revision quota and opens a round (NULL = success)';
+
+-- ============================================
+-- 7. PERMISSIONS
+-- ============================================
+-- Rounds are opened through the orders API only (service role)
+REVOKE EXECUTE ON FUNCTION request_revision(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
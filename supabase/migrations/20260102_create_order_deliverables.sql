@@ -0,0 +1,111 @@
+-- ============================================
+-- ORDER DELIVERABLES
+-- Versioned files per order (song, master, instrumental,
+-- lyric sheet, video). Uploads add a new version instead
+-- of overwriting, so pre-revision files stay retrievable.
+-- ============================================
+
+-- ============================================
+-- 1. TABLES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS order_deliverables (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID REFERENCES orders(id) ON DELETE CASCADE NOT NULL,
+  file_type TEXT NOT NULL
+    CHECK (file_type IN ('mp3', 'wav_master', 'instrumental', 'lyric_sheet', 'video')),
+  label TEXT NOT NULL,
+  version INT NOT NULL DEFAULT 1 CHECK (version >= 1),
+  storage_key TEXT UNIQUE NOT NULL,
+  filename TEXT NOT NULL,
+  content_type TEXT,
+  size_bytes BIGINT,
+  uploaded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  revision_id UUID REFERENCES revision_requests(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(order_id, file_type, version)
+);
+
+COMMENT ON TABLE order_deliverables IS 'Every delivered file version for an order; never overwritten';
+COMMENT ON COLUMN order_deliverables.version IS 'Per order and file type, starting at 1';
+COMMENT ON COLUMN order_deliverables.revision_id IS 'Revision round this version was delivered for (NULL = original delivery)';
+
+CREATE TABLE IF NOT EXISTS order_downloads (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID REFERENCES orders(id) ON DELETE CASCADE NOT NULL,
+  deliverable_id UUID REFERENCES order_deliverables(id) ON DELETE SET NULL,
+  customer_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ip_address TEXT,
+  user_agent TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON TABLE order_downloads IS 'Audit trail of signed download URLs issued to customers';
+
+-- Revision rounds point at the version delivered for them
+ALTER TABLE revision_requests ADD COLUMN IF NOT EXISTS deliverable_id UUID
+  REFERENCES order_deliverables(id) ON DELETE SET NULL;
+
+-- ============================================
+-- 2. INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_order_deliverables_order ON order_deliverables(order_id, file_type, version DESC);
+CREATE INDEX IF NOT EXISTS idx_order_deliverables_revision ON order_deliverables(revision_id)
+  WHERE revision_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_order_downloads_order ON order_downloads(order_id);
+
+-- ============================================
+-- 3. RLS POLICIES
+-- ============================================
+
+ALTER TABLE order_deliverables ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_downloads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own order deliverables" ON order_deliverables
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_deliverables.order_id
+      AND orders.customer_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can manage order deliverables" ON order_deliverables
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.admin_role IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Admins can view order downloads" ON order_downloads
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.admin_role IS NOT NULL
+    )
+  );
+
+-- ============================================
+-- 4. BACKFILL
+-- Existing single-file deliverables become version 1
+-- ============================================
+
+INSERT INTO order_deliverables (order_id, file_type, label, version, storage_key, filename, size_bytes, uploaded_by, created_at)
+SELECT
+  id,
+  CASE WHEN LOWER(deliverable_filename) LIKE '%.wav' THEN 'wav_master' ELSE 'mp3' END,
+  CASE WHEN LOWER(deliverable_filename) LIKE '%.wav' THEN 'WAV Master' ELSE 'Song (MP3)' END,
+  1,
+  deliverable_key,
+  COALESCE(deliverable_filename, 'eventune-song.mp3'),
+  deliverable_size,
+  deliverable_uploaded_by,
+  COALESCE(deliverable_uploaded_at, NOW())
+FROM orders
+WHERE deliverable_key IS NOT NULL
+ON CONFLICT (storage_key) DO NOTHING;
@@ -0,0 +1,65 @@
+-- ============================================
+-- DELIVERABLE UPLOADS
+-- Presigned multipart uploads straight to R2 for large
+-- deliverables (masters, music videos). The stored object's
+-- size, MIME type and checksum are verified before the file
+-- becomes an order deliverable.
+-- ============================================
+
+-- ============================================
+-- 1. TABLES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS deliverable_uploads (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID REFERENCES orders(id) ON DELETE CASCADE NOT NULL,
+  file_type TEXT NOT NULL
+    CHECK (file_type IN ('mp3', 'wav_master', 'instrumental', 'lyric_sheet', 'video')),
+  label TEXT,
+  filename TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size_bytes BIGINT NOT NULL CHECK (size_bytes > 0),
+  checksum_sha256 TEXT,
+
+  -- R2 multipart session
+  storage_key TEXT UNIQUE NOT NULL,
+  r2_upload_id TEXT NOT NULL,
+  part_size BIGINT NOT NULL,
+  part_count INT NOT NULL CHECK (part_count BETWEEN 1 AND 10000),
+
+  status TEXT NOT NULL DEFAULT 'uploading'
+    CHECK (status IN ('uploading', 'verifying', 'completed', 'aborted', 'failed')),
+  failure_reason TEXT,
+  deliverable_id UUID REFERENCES order_deliverables(id) ON DELETE SET NULL,
+
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+COMMENT ON TABLE deliverable_uploads IS 'Direct-to-R2 multipart upload sessions for order deliverables';
+COMMENT ON COLUMN deliverable_uploads.status IS 'verifying = parts assembled, size/MIME/checksum checks in progress';
+COMMENT ON COLUMN deliverable_uploads.checksum_sha256 IS 'Declared at completion: hex SHA-256 of the concatenated SHA-256 digests of each part';
+
+-- ============================================
+-- 2. INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_deliverable_uploads_order ON deliverable_uploads(order_id);
+CREATE INDEX IF NOT EXISTS idx_deliverable_uploads_open ON deliverable_uploads(created_at)
+  WHERE status = 'uploading';
+
+-- ============================================
+-- 3. RLS POLICIES
+-- ============================================
+
+ALTER TABLE deliverable_uploads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage deliverable uploads" ON deliverable_uploads
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.admin_role IS NOT NULL
+    )
+  );
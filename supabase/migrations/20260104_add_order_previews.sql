@@ -0,0 +1,38 @@
+-- ============================================
+-- ORDER PREVIEWS
+-- Watermarked previews the customer streams during the
+-- 'review' stage. Stored as a separate 'preview' deliverable
+-- type that is never offered for download.
+-- ============================================
+
+-- ============================================
+-- 1. FILE TYPES
+-- ============================================
+
+ALTER TABLE order_deliverables DROP CONSTRAINT IF EXISTS order_deliverables_file_type_check;
+ALTER TABLE order_deliverables ADD CONSTRAINT order_deliverables_file_type_check
+  CHECK (file_type IN ('mp3', 'wav_master', 'instrumental', 'lyric_sheet', 'video', 'preview'));
+
+ALTER TABLE deliverable_uploads DROP CONSTRAINT IF EXISTS deliverable_uploads_file_type_check;
+ALTER TABLE deliverable_uploads ADD CONSTRAINT deliverable_uploads_file_type_check
+  CHECK (file_type IN ('mp3', 'wav_master', 'instrumental', 'lyric_sheet', 'video', 'preview'));
+
+COMMENT ON COLUMN order_deliverables.file_type IS 'preview = watermarked review copy, streamed only';
+
+-- ============================================
+-- 2. CUSTOMER ACCESS
+-- Previews are streamed through short-lived signed URLs
+-- from the API, so customers don't read their rows directly.
+-- ============================================
+
+DROP POLICY IF EXISTS "Users can view own order deliverables" ON order_deliverables;
+
+CREATE POLICY "Users can view own order deliverables" ON order_deliverables
+  FOR SELECT USING (
+    file_type <> 'preview'
+    AND EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_deliverables.order_id
+      AND orders.customer_id = auth.uid()
+    )
+  );
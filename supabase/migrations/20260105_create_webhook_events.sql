@@ -0,0 +1,110 @@
+-- ============================================
+-- WEBHOOK EVENTS
+-- Durable idempotency store for payment provider webhooks.
+-- Replaces the per-instance in-memory caches so duplicate
+-- deliveries are caught across cold starts and instances,
+-- and failed events can be inspected and replayed by admins.
+-- ============================================
+
+-- ============================================
+-- 1. TABLES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS webhook_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider TEXT NOT NULL CHECK (provider IN ('stripe', 'campay')),
+  event_key TEXT NOT NULL,
+  event_type TEXT,
+  order_id UUID,
+
+  -- Exactly what the provider sent, plus the verified/normalized event
+  raw_body TEXT NOT NULL,
+  result JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+  status TEXT NOT NULL DEFAULT 'processing'
+    CHECK (status IN ('processing', 'processed', 'skipped', 'failed')),
+  attempts INT NOT NULL DEFAULT 1,
+  last_error TEXT,
+
+  received_at TIMESTAMPTZ DEFAULT NOW(),
+  processing_started_at TIMESTAMPTZ DEFAULT NOW(),
+  processed_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE (provider, event_key)
+);
+
+COMMENT ON TABLE webhook_events IS 'Payment provider webhook deliveries, one row per provider event';
+COMMENT ON COLUMN webhook_events.event_key IS 'Provider event identity: Stripe event id, CamPay reference:status';
+COMMENT ON COLUMN webhook_events.result IS 'Verified, normalized event (WebhookVerifyResult) used for processing and replay';
+COMMENT ON COLUMN webhook_events.status IS 'skipped = valid event with nothing to do (e.g. no order reference)';
+
+-- ============================================
+-- 2. INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_webhook_events_status ON webhook_events(status, received_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_order ON webhook_events(order_id);
+
+-- ============================================
+-- 3. FUNCTIONS
+-- ============================================
+
+-- Atomically claim an event for processing.
+-- New events are inserted; failed events and events stuck in
+-- 'processing' longer than p_stale_after_seconds are re-claimed.
+-- Returns the event ID when claimed, NULL for a duplicate.
+CREATE OR REPLACE FUNCTION claim_webhook_event(
+  p_provider TEXT,
+  p_event_key TEXT,
+  p_event_type TEXT,
+  p_order_id UUID,
+  p_raw_body TEXT,
+  p_result JSONB,
+  p_stale_after_seconds INT DEFAULT 300
+)
+RETURNS UUID AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  INSERT INTO webhook_events (provider, event_key, event_type, order_id, raw_body, result)
+  VALUES (p_provider, p_event_key, p_event_type, p_order_id, p_raw_body, p_result)
+  ON CONFLICT (provider, event_key) DO UPDATE
+    SET status = 'processing',
+        attempts = webhook_events.attempts + 1,
+        last_error = NULL,
+        processing_started_at = NOW(),
+        updated_at = NOW()
+    WHERE webhook_events.status = 'failed'
+       OR (
+         webhook_events.status = 'processing'
+         AND webhook_events.processing_started_at < NOW() - make_interval(secs => p_stale_after_seconds)
+       )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION claim_webhook_event IS 'Atomically claims a webhook event for processing (NULL = duplicate)';
+
+-- ============================================
+-- 4. RLS POLICIES
+-- ============================================
+
+ALTER TABLE webhook_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view webhook events" ON webhook_events
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.admin_role IS NOT NULL
+    )
+  );
+
+-- ============================================
+-- 5. PERMISSIONS
+-- ============================================
+-- Events are recorded by the webhook handlers only (service role)
+REVOKE EXECUTE ON FUNCTION claim_webhook_event(TEXT, TEXT, TEXT, UUID, TEXT, JSONB, INT) FROM PUBLIC, anon, authenticated;
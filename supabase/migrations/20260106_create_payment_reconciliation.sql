@@ -0,0 +1,112 @@
+-- ============================================
+-- PAYMENT RECONCILIATION
+-- Scheduled sweep of open payment sessions plus a daily
+-- comparison of our payment_events against each provider's
+-- transaction list. Under/over-payments and missing
+-- transactions are recorded as discrepancies for review.
+-- ============================================
+
+-- ============================================
+-- 1. PAYMENT SESSIONS
+-- ============================================
+
+ALTER TABLE payment_sessions
+  ADD COLUMN IF NOT EXISTS amount DECIMAL(12, 2),
+  ADD COLUMN IF NOT EXISTS currency TEXT,
+  ADD COLUMN IF NOT EXISTS check_count INT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS last_checked_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS resolved_at TIMESTAMPTZ;
+
+ALTER TABLE payment_sessions DROP CONSTRAINT IF EXISTS payment_sessions_status_check;
+ALTER TABLE payment_sessions ADD CONSTRAINT payment_sessions_status_check
+  CHECK (status IN ('pending', 'completed', 'failed', 'expired'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_sessions_provider_session
+  ON payment_sessions(provider, provider_session_id)
+  WHERE provider_session_id IS NOT NULL;
+
+COMMENT ON COLUMN payment_sessions.status IS 'expired = abandoned past expires_at, closed by the reconciliation sweep';
+
+-- ============================================
+-- 2. DISCREPANCIES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS payment_discrepancies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID REFERENCES orders(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  provider_reference TEXT NOT NULL,
+  kind TEXT NOT NULL
+    CHECK (kind IN ('underpayment', 'overpayment', 'amount_mismatch', 'missing_event', 'missing_at_provider')),
+  expected_amount DECIMAL(12, 2),
+  actual_amount DECIMAL(12, 2),
+  currency TEXT,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'ignored')),
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  detected_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE (provider, provider_reference, kind)
+);
+
+COMMENT ON TABLE payment_discrepancies IS 'Payments that do not reconcile with the order or the provider';
+COMMENT ON COLUMN payment_discrepancies.kind IS 'under/overpayment = paid vs amount_expected; amount_mismatch/missing_* = our events vs provider transactions';
+
+-- ============================================
+-- 3. DAILY REPORTS
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS reconciliation_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_date DATE NOT NULL,
+  provider TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('balanced', 'discrepancies', 'error')),
+  provider_count INT NOT NULL DEFAULT 0,
+  our_count INT NOT NULL DEFAULT 0,
+  matched_count INT NOT NULL DEFAULT 0,
+  discrepancy_count INT NOT NULL DEFAULT 0,
+  summary JSONB NOT NULL DEFAULT '{}'::jsonb,
+  error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE (report_date, provider)
+);
+
+COMMENT ON TABLE reconciliation_reports IS 'Daily payment_events vs provider transaction comparison, one row per provider per day';
+COMMENT ON COLUMN reconciliation_reports.summary IS 'Totals per currency and the unmatched/mismatched references';
+
+-- ============================================
+-- 4. INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_payment_discrepancies_open ON payment_discrepancies(detected_at DESC)
+  WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_payment_discrepancies_order ON payment_discrepancies(order_id);
+CREATE INDEX IF NOT EXISTS idx_reconciliation_reports_date ON reconciliation_reports(report_date DESC);
+
+-- ============================================
+-- 5. RLS POLICIES
+-- ============================================
+
+ALTER TABLE payment_discrepancies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reconciliation_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view payment discrepancies" ON payment_discrepancies
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.admin_role IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Admins can view reconciliation reports" ON reconciliation_reports
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.admin_role IS NOT NULL
+    )
+  );
@@ -0,0 +1,64 @@
+-- ============================================
+-- PAYMENT REFUNDS
+-- One row per refund sent to a provider. Stripe refunds
+-- settle immediately; CamPay refunds are mobile-money
+-- disbursements that stay pending until CamPay calls back.
+-- ============================================
+
+-- ============================================
+-- 1. TABLES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS payment_refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID REFERENCES orders(id) ON DELETE CASCADE NOT NULL,
+  provider TEXT NOT NULL,
+  payment_reference TEXT,
+  provider_reference TEXT,
+  amount DECIMAL(12, 2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL,
+  recipient_phone TEXT,
+  reason TEXT NOT NULL,
+
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'failed')),
+  failure_reason TEXT,
+  requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON TABLE payment_refunds IS 'Refunds sent to payment providers and their settlement status';
+COMMENT ON COLUMN payment_refunds.payment_reference IS 'Provider reference of the payment being refunded (the bundle payment for bundle songs)';
+COMMENT ON COLUMN payment_refunds.provider_reference IS 'Stripe refund ID or CamPay withdrawal reference';
+COMMENT ON COLUMN payment_refunds.status IS 'pending until the provider confirms; the order is only marked refunded on completed';
+
+-- ============================================
+-- 2. INDEXES
+-- ============================================
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_refunds_provider_reference
+  ON payment_refunds(provider, provider_reference)
+  WHERE provider_reference IS NOT NULL;
+
+-- One in-flight refund per order, so a pending disbursement can't be doubled
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_refunds_one_pending
+  ON payment_refunds(order_id)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_payment_refunds_order ON payment_refunds(order_id, created_at DESC);
+
+-- ============================================
+-- 3. RLS POLICIES
+-- ============================================
+
+ALTER TABLE payment_refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view payment refunds" ON payment_refunds
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.admin_role IS NOT NULL
+    )
+  );
@@ -0,0 +1,38 @@
+-- ============================================
+-- PAYOUT DISBURSEMENTS
+-- XAF payouts to mobile money agents are sent through
+-- CamPay's withdraw API. The request sits in 'processing'
+-- until CamPay confirms the transfer; the agent's balance
+-- is only debited once it has.
+-- ============================================
+
+-- ============================================
+-- 1. COLUMNS
+-- ============================================
+
+ALTER TABLE payout_requests
+  ADD COLUMN IF NOT EXISTS disbursement_provider TEXT,
+  ADD COLUMN IF NOT EXISTS disbursement_reference TEXT,
+  ADD COLUMN IF NOT EXISTS disbursement_status TEXT
+    CHECK (disbursement_status IN ('pending', 'completed', 'failed')),
+  ADD COLUMN IF NOT EXISTS disbursement_phone TEXT,
+  ADD COLUMN IF NOT EXISTS disbursement_error TEXT,
+  ADD COLUMN IF NOT EXISTS disbursement_attempts INT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS disbursed_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN payout_requests.disbursement_reference IS 'Provider reference of the automated transfer (CamPay withdrawal); NULL while pending = outcome unknown, matched by external_reference';
+COMMENT ON COLUMN payout_requests.disbursement_status IS 'NULL = paid manually; pending until the provider confirms, failed returns the request to requested';
+COMMENT ON COLUMN payout_requests.disbursement_phone IS 'E.164 number the transfer was sent to';
+COMMENT ON COLUMN payout_requests.disbursement_attempts IS 'Automated transfers started; attempt N is sent with external_reference <id>:<N>';
+
+-- ============================================
+-- 2. INDEXES
+-- ============================================
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payout_requests_disbursement
+  ON payout_requests(disbursement_provider, disbursement_reference)
+  WHERE disbursement_reference IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_payout_requests_disbursement_pending
+  ON payout_requests(processed_at)
+  WHERE disbursement_status = 'pending';
@@ -0,0 +1,507 @@
+-- ============================================
+-- REFERRAL LEDGER
+-- Double-entry ledger behind affiliate balances. Every
+-- balance movement is one entry of two lines that sum to
+-- zero, moving money between an agent's accounts:
+--   earnings  - source of commission credits (negative = total earned)
+--   available - withdrawable balance
+--   held      - reserved by open payout requests
+--   paid_out  - sent to the agent
+-- referral_profiles.current_balance_* is a cache of the
+-- 'available' account, rewritten on every posting.
+-- Payout request/complete/reject each run as one transaction.
+-- ============================================
+
+-- ============================================
+-- 1. TABLES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS referral_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_id UUID NOT NULL,
+  referrer_id UUID REFERENCES referral_profiles(id) NOT NULL,
+  currency TEXT NOT NULL CHECK (currency IN ('USD', 'XAF')),
+  account TEXT NOT NULL CHECK (account IN ('earnings', 'available', 'held', 'paid_out')),
+  amount DECIMAL(12, 2) NOT NULL CHECK (amount <> 0),
+
+  entry_type TEXT NOT NULL CHECK (entry_type IN (
+    'opening_balance',
+    'commission_credit',
+    'commission_reversal',
+    'payout_hold',
+    'payout_release',
+    'payout_debit'
+  )),
+  commission_id UUID REFERENCES commissions(id),
+  payout_request_id UUID REFERENCES payout_requests(id),
+  description TEXT,
+
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON TABLE referral_ledger IS 'Append-only double-entry ledger of affiliate balance movements';
+COMMENT ON COLUMN referral_ledger.entry_id IS 'Groups the lines of one posting; the lines of an entry sum to zero';
+COMMENT ON COLUMN referral_ledger.amount IS 'Signed: positive increases the account, negative decreases it';
+
+-- ============================================
+-- 2. INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_referral_ledger_referrer
+  ON referral_ledger(referrer_id, currency, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_referral_ledger_entry ON referral_ledger(entry_id);
+
+-- A commission is credited at most once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_referral_ledger_commission_credit
+  ON referral_ledger(commission_id, account)
+  WHERE entry_type = 'commission_credit';
+
+-- Each payout is held, released and debited at most once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_referral_ledger_payout
+  ON referral_ledger(payout_request_id, entry_type, account)
+  WHERE payout_request_id IS NOT NULL;
+
+-- ============================================
+-- 3. VIEWS
+-- ============================================
+
+CREATE OR REPLACE VIEW referral_ledger_balances
+WITH (security_invoker = true) AS
+SELECT
+  referrer_id,
+  currency,
+  COALESCE(SUM(amount) FILTER (WHERE account = 'available'), 0) AS available,
+  COALESCE(SUM(amount) FILTER (WHERE account = 'held'), 0) AS held,
+  COALESCE(SUM(amount) FILTER (WHERE account = 'paid_out'), 0) AS paid_out,
+  COALESCE(-SUM(amount) FILTER (WHERE account = 'earnings'), 0) AS earned
+FROM referral_ledger
+GROUP BY referrer_id, currency;
+
+COMMENT ON VIEW referral_ledger_balances IS 'Per-agent, per-currency account balances derived from referral_ledger';
+
+-- ============================================
+-- 4. FUNCTIONS
+-- ============================================
+
+-- 4.1 Ledger lines are never changed; corrections are new entries
+CREATE OR REPLACE FUNCTION prevent_referral_ledger_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'referral_ledger is append-only; post a reversing entry instead';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_referral_ledger_append_only ON referral_ledger;
+CREATE TRIGGER trigger_referral_ledger_append_only
+BEFORE UPDATE OR DELETE ON referral_ledger
+FOR EACH ROW
+EXECUTE FUNCTION prevent_referral_ledger_changes();
+
+-- 4.2 Post one balanced entry and refresh the cached balance
+CREATE OR REPLACE FUNCTION post_referral_ledger_entry(
+  p_referrer_id UUID,
+  p_currency TEXT,
+  p_amount DECIMAL,
+  p_from_account TEXT,
+  p_to_account TEXT,
+  p_entry_type TEXT,
+  p_commission_id UUID DEFAULT NULL,
+  p_payout_request_id UUID DEFAULT NULL,
+  p_description TEXT DEFAULT NULL,
+  p_created_by UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_entry_id UUID := gen_random_uuid();
+  v_available DECIMAL;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Ledger amount must be positive';
+  END IF;
+
+  INSERT INTO referral_ledger (
+    entry_id, referrer_id, currency, account, amount, entry_type,
+    commission_id, payout_request_id, description, created_by
+  )
+  VALUES
+    (v_entry_id, p_referrer_id, p_currency, p_from_account, -p_amount, p_entry_type,
+     p_commission_id, p_payout_request_id, p_description, p_created_by),
+    (v_entry_id, p_referrer_id, p_currency, p_to_account, p_amount, p_entry_type,
+     p_commission_id, p_payout_request_id, p_description, p_created_by);
+
+  IF p_from_account = 'available' OR p_to_account = 'available' THEN
+    SELECT COALESCE(SUM(amount), 0) INTO v_available
+    FROM referral_ledger
+    WHERE referrer_id = p_referrer_id
+      AND currency = p_currency
+      AND account = 'available';
+
+    IF p_currency = 'USD' THEN
+      UPDATE referral_profiles
+      SET current_balance_usd = v_available, updated_at = NOW()
+      WHERE id = p_referrer_id;
+    ELSE
+      UPDATE referral_profiles
+      SET current_balance_xaf = v_available, updated_at = NOW()
+      WHERE id = p_referrer_id;
+    END IF;
+  END IF;
+
+  RETURN v_entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION post_referral_ledger_entry IS 'Moves p_amount from one ledger account to another and syncs current_balance_*';
+
+-- 4.3 Credit approved commissions, reverse rejected ones
+-- Replaces update_referral_balance_v2, which only credited on 'paid'
+CREATE OR REPLACE FUNCTION referral_ledger_commission_status()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_outstanding DECIMAL;
+  v_lines INT;
+BEGIN
+  IF NEW.status IN ('approved', 'paid')
+     AND NEW.amount > 0
+     AND COALESCE(OLD.status, '') NOT IN ('approved', 'paid')
+     AND NOT EXISTS (
+       SELECT 1 FROM referral_ledger
+       WHERE commission_id = NEW.id AND entry_type = 'commission_credit'
+     ) THEN
+    PERFORM post_referral_ledger_entry(
+      NEW.referrer_id, NEW.currency, NEW.amount, 'earnings', 'available',
+      'commission_credit', NEW.id, NULL, 'Commission approved', NEW.approved_by
+    );
+
+    IF NEW.currency = 'USD' THEN
+      UPDATE referral_profiles
+      SET total_earnings_usd = COALESCE(total_earnings_usd, 0) + NEW.amount
+      WHERE id = NEW.referrer_id;
+    ELSE
+      UPDATE referral_profiles
+      SET total_earnings_xaf = COALESCE(total_earnings_xaf, 0) + NEW.amount
+      WHERE id = NEW.referrer_id;
+    END IF;
+
+    INSERT INTO referral_events (event_type, referrer_id, commission_id, data)
+    VALUES ('commission_credited', NEW.referrer_id, NEW.id,
+      jsonb_build_object('amount', NEW.amount, 'currency', NEW.currency, 'level', NEW.level));
+  END IF;
+
+  IF OLD.status IN ('approved', 'paid') AND NEW.status NOT IN ('approved', 'paid') THEN
+    -- Whatever of the credit hasn't already been reversed
+    SELECT COALESCE(SUM(amount), 0), COUNT(*) INTO v_outstanding, v_lines
+    FROM referral_ledger
+    WHERE commission_id = NEW.id AND account = 'available';
+
+    -- Paid before the ledger existed: the credit is part of the opening balance
+    IF v_lines = 0 AND OLD.status = 'paid' THEN
+      v_outstanding := OLD.amount;
+    END IF;
+
+    IF v_outstanding > 0 THEN
+      PERFORM post_referral_ledger_entry(
+        NEW.referrer_id, NEW.currency, v_outstanding, 'available', 'earnings',
+        'commission_reversal', NEW.id, NULL,
+        COALESCE(NEW.rejection_reason, 'Commission reversed'), NEW.approved_by
+      );
+
+      IF NEW.currency = 'USD' THEN
+        UPDATE referral_profiles
+        SET total_earnings_usd = GREATEST(0, COALESCE(total_earnings_usd, 0) - v_outstanding)
+        WHERE id = NEW.referrer_id;
+      ELSE
+        UPDATE referral_profiles
+        SET total_earnings_xaf = GREATEST(0, COALESCE(total_earnings_xaf, 0) - v_outstanding)
+        WHERE id = NEW.referrer_id;
+      END IF;
+
+      INSERT INTO referral_events (event_type, referrer_id, commission_id, data)
+      VALUES ('commission_reversed', NEW.referrer_id, NEW.id,
+        jsonb_build_object('amount', v_outstanding, 'currency', NEW.currency, 'reason', NEW.rejection_reason));
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION referral_ledger_commission_status() IS 'Posts commission credits and reversals to referral_ledger';
+
+DROP TRIGGER IF EXISTS trigger_update_balance_v2 ON commissions;
+DROP TRIGGER IF EXISTS trigger_referral_ledger_commission ON commissions;
+CREATE TRIGGER trigger_referral_ledger_commission
+AFTER UPDATE OF status ON commissions
+FOR EACH ROW
+EXECUTE FUNCTION referral_ledger_commission_status();
+
+-- 4.4 Request a payout: check the ledger balance and hold the amount
+CREATE OR REPLACE FUNCTION request_referral_payout(
+  p_referrer_id UUID,
+  p_amount DECIMAL,
+  p_currency TEXT,
+  p_payment_method TEXT,
+  p_payment_details JSONB
+)
+RETURNS payout_requests AS $$
+DECLARE
+  v_available DECIMAL;
+  v_payout payout_requests;
+BEGIN
+  -- Serialize requests per agent so two can't spend the same balance
+  PERFORM 1 FROM referral_profiles WHERE id = p_referrer_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Agent profile not found';
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_available
+  FROM referral_ledger
+  WHERE referrer_id = p_referrer_id
+    AND currency = p_currency
+    AND account = 'available';
+
+  IF p_amount > v_available THEN
+    RAISE EXCEPTION 'Insufficient balance. Available: % %', v_available, p_currency;
+  END IF;
+
+  INSERT INTO payout_requests (user_id, amount, currency, payment_method, payment_details, status)
+  VALUES (p_referrer_id, p_amount, p_currency, p_payment_method, p_payment_details, 'requested')
+  RETURNING * INTO v_payout;
+
+  PERFORM post_referral_ledger_entry(
+    p_referrer_id, p_currency, p_amount, 'available', 'held',
+    'payout_hold', NULL, v_payout.id, 'Payout requested', p_referrer_id
+  );
+
+  INSERT INTO referral_events (event_type, referrer_id, data)
+  VALUES ('payout_requested', p_referrer_id,
+    jsonb_build_object('payout_id', v_payout.id, 'amount', p_amount, 'currency', p_currency));
+
+  RETURN v_payout;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION request_referral_payout IS 'Creates a payout request and holds the amount from the available balance';
+
+-- 4.5 Mark a payout paid and debit the held amount
+CREATE OR REPLACE FUNCTION complete_referral_payout(
+  p_payout_id UUID,
+  p_from_status TEXT,
+  p_transaction_reference TEXT,
+  p_processed_by UUID DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_payout payout_requests;
+BEGIN
+  -- Conditional on the expected status so a payout can't be paid twice
+  UPDATE payout_requests
+  SET status = 'paid',
+      transaction_reference = COALESCE(p_transaction_reference, transaction_reference),
+      processed_by = COALESCE(p_processed_by, processed_by),
+      processed_at = COALESCE(processed_at, NOW()),
+      disbursement_status = CASE WHEN p_from_status = 'processing' THEN 'completed' ELSE disbursement_status END,
+      disbursed_at = CASE WHEN p_from_status = 'processing' THEN NOW() ELSE disbursed_at END
+  WHERE id = p_payout_id
+    AND status = p_from_status
+  RETURNING * INTO v_payout;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Requests made before the ledger existed may have no hold
+  IF EXISTS (
+    SELECT 1 FROM referral_ledger
+    WHERE payout_request_id = v_payout.id AND entry_type IN ('payout_hold', 'opening_balance') AND account = 'held'
+  ) THEN
+    PERFORM post_referral_ledger_entry(
+      v_payout.user_id, v_payout.currency, v_payout.amount, 'held', 'paid_out',
+      'payout_debit', NULL, v_payout.id, 'Payout paid', p_processed_by
+    );
+  ELSE
+    PERFORM post_referral_ledger_entry(
+      v_payout.user_id, v_payout.currency, v_payout.amount, 'available', 'paid_out',
+      'payout_debit', NULL, v_payout.id, 'Payout paid', p_processed_by
+    );
+  END IF;
+
+  INSERT INTO referral_events (event_type, referrer_id, data)
+  VALUES ('payout_paid', v_payout.user_id,
+    jsonb_build_object(
+      'payout_id', v_payout.id,
+      'amount', v_payout.amount,
+      'currency', v_payout.currency,
+      'reference', COALESCE(p_transaction_reference, v_payout.transaction_reference)
+    ));
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION complete_referral_payout IS 'Marks a payout paid and moves its held amount to paid_out (FALSE = not in p_from_status)';
+
+-- 4.6 Reject a payout and release the held amount
+CREATE OR REPLACE FUNCTION reject_referral_payout(
+  p_payout_id UUID,
+  p_rejected_by UUID,
+  p_reason TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_payout payout_requests;
+BEGIN
+  UPDATE payout_requests
+  SET status = 'rejected',
+      rejection_reason = p_reason,
+      processed_by = p_rejected_by,
+      processed_at = NOW()
+  WHERE id = p_payout_id
+    AND status = 'requested'
+  RETURNING * INTO v_payout;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM referral_ledger
+    WHERE payout_request_id = v_payout.id AND entry_type IN ('payout_hold', 'opening_balance') AND account = 'held'
+  ) THEN
+    PERFORM post_referral_ledger_entry(
+      v_payout.user_id, v_payout.currency, v_payout.amount, 'held', 'available',
+      'payout_release', NULL, v_payout.id, COALESCE(p_reason, 'Payout rejected'), p_rejected_by
+    );
+  END IF;
+
+  INSERT INTO referral_events (event_type, referrer_id, data)
+  VALUES ('payout_rejected', v_payout.user_id,
+    jsonb_build_object(
+      'payout_id', v_payout.id,
+      'amount', v_payout.amount,
+      'currency', v_payout.currency,
+      'reason', p_reason
+    ));
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION reject_referral_payout IS 'Rejects a requested payout and returns its held amount to available (FALSE = not requested)';
+
+-- 4.7 Cached balances that disagree with the ledger
+CREATE OR REPLACE FUNCTION verify_referral_balances()
+RETURNS TABLE (
+  referrer_id UUID,
+  currency TEXT,
+  cached_balance DECIMAL,
+  ledger_balance DECIMAL
+) AS $$
+  SELECT
+    rp.id,
+    c.currency,
+    CASE WHEN c.currency = 'USD' THEN COALESCE(rp.current_balance_usd, 0) ELSE COALESCE(rp.current_balance_xaf, 0) END,
+    COALESCE(b.available, 0)
+  FROM referral_profiles rp
+  CROSS JOIN (VALUES ('USD'), ('XAF')) AS c(currency)
+  LEFT JOIN referral_ledger_balances b
+    ON b.referrer_id = rp.id AND b.currency = c.currency
+  WHERE CASE WHEN c.currency = 'USD' THEN COALESCE(rp.current_balance_usd, 0) ELSE COALESCE(rp.current_balance_xaf, 0) END
+    <> COALESCE(b.available, 0);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- ============================================
+-- 5. BACKFILL
+-- ============================================
+
+DO $$
+DECLARE
+  v_profile RECORD;
+  v_payout RECORD;
+  v_commission RECORD;
+BEGIN
+  IF EXISTS (SELECT 1 FROM referral_ledger) THEN
+    RETURN;
+  END IF;
+
+  -- Existing balances open the ledger as-is
+  FOR v_profile IN
+    SELECT id, current_balance_usd, current_balance_xaf FROM referral_profiles
+  LOOP
+    IF COALESCE(v_profile.current_balance_usd, 0) > 0 THEN
+      PERFORM post_referral_ledger_entry(
+        v_profile.id, 'USD', v_profile.current_balance_usd, 'earnings', 'available',
+        'opening_balance', NULL, NULL, 'Opening balance'
+      );
+    END IF;
+    IF COALESCE(v_profile.current_balance_xaf, 0) > 0 THEN
+      PERFORM post_referral_ledger_entry(
+        v_profile.id, 'XAF', v_profile.current_balance_xaf, 'earnings', 'available',
+        'opening_balance', NULL, NULL, 'Opening balance'
+      );
+    END IF;
+  END LOOP;
+
+  -- Open requests were already deducted from the balance: hold them
+  FOR v_payout IN
+    SELECT id, user_id, currency, amount FROM payout_requests
+    WHERE status IN ('requested', 'processing')
+  LOOP
+    PERFORM post_referral_ledger_entry(
+      v_payout.user_id, v_payout.currency, v_payout.amount, 'earnings', 'held',
+      'opening_balance', NULL, v_payout.id, 'Opening hold'
+    );
+  END LOOP;
+
+  -- Approved commissions were never credited (only 'paid' ones were)
+  FOR v_commission IN
+    SELECT id, referrer_id, currency, amount FROM commissions
+    WHERE status = 'approved' AND amount > 0
+  LOOP
+    PERFORM post_referral_ledger_entry(
+      v_commission.referrer_id, v_commission.currency, v_commission.amount, 'earnings', 'available',
+      'commission_credit', v_commission.id, NULL, 'Commission approved'
+    );
+
+    IF v_commission.currency = 'USD' THEN
+      UPDATE referral_profiles
+      SET total_earnings_usd = COALESCE(total_earnings_usd, 0) + v_commission.amount
+      WHERE id = v_commission.referrer_id;
+    ELSE
+      UPDATE referral_profiles
+      SET total_earnings_xaf = COALESCE(total_earnings_xaf, 0) + v_commission.amount
+      WHERE id = v_commission.referrer_id;
+    END IF;
+  END LOOP;
+END $$;
+
+-- ============================================
+-- 6. PERMISSIONS
+-- ============================================
+
+-- Postings and payouts are server-side only (service role)
+REVOKE EXECUTE ON FUNCTION post_referral_ledger_entry(UUID, TEXT, DECIMAL, TEXT, TEXT, TEXT, UUID, UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION request_referral_payout(UUID, DECIMAL, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION complete_referral_payout(UUID, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reject_referral_payout(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION verify_referral_balances() FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 7. RLS POLICIES
+-- ============================================
+
+ALTER TABLE referral_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Agents can view own ledger" ON referral_ledger
+  FOR SELECT USING (auth.uid() = referrer_id);
+
+CREATE POLICY "Admins can view referral ledger" ON referral_ledger
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.admin_role IS NOT NULL
+    )
+  );
@@ -0,0 +1,212 @@
+-- ============================================
+-- COMMISSION CLAWBACK
+-- Refunds (and chargebacks) take back the commissions earned
+-- on the order:
+--   pending  - rejected on any reversal, partial or full
+--   approved - the reversed share is debited from the ledger
+--   paid     - same; if the agent has already withdrawn it the
+--              available balance goes negative and is carried
+--              forward against future commissions
+-- ============================================
+
+-- ============================================
+-- 1. COLUMNS
+-- ============================================
+
+ALTER TABLE commissions
+  ADD COLUMN IF NOT EXISTS clawed_back_amount DECIMAL(10, 2) NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN commissions.clawed_back_amount IS 'Part of the commission taken back by refunds/chargebacks; the agent earns amount - clawed_back_amount';
+
+-- ============================================
+-- 2. FUNCTIONS
+-- ============================================
+
+-- 2.1 Claw back an order's commissions
+-- Idempotent: pending commissions are rejected once, and each call
+-- brings the clawed-back share of credited ones up to
+-- p_reversed_amount / amount_paid, so replaying a refund is a no-op.
+CREATE OR REPLACE FUNCTION clawback_order_commissions(
+  p_order_id UUID,
+  p_reason TEXT,
+  p_source TEXT,
+  p_reversed_amount DECIMAL DEFAULT NULL
+)
+RETURNS INT AS $$
+DECLARE
+  v_order RECORD;
+  v_ratio DECIMAL;
+  v_commission RECORD;
+  v_target DECIMAL;
+  v_delta DECIMAL;
+  v_balance DECIMAL;
+  v_count INT := 0;
+BEGIN
+  SELECT id, amount_paid, refund_amount INTO v_order
+  FROM orders WHERE id = p_order_id;
+
+  IF NOT FOUND OR COALESCE(v_order.amount_paid, 0) <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  v_ratio := LEAST(1, COALESCE(p_reversed_amount, v_order.refund_amount, 0) / v_order.amount_paid);
+  IF v_ratio <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  FOR v_commission IN
+    SELECT * FROM commissions
+    WHERE order_id = p_order_id AND status <> 'rejected'
+    ORDER BY level
+    FOR UPDATE
+  LOOP
+    IF v_commission.status = 'pending' THEN
+      -- Not credited yet: a refunded order earns nothing, so reject it
+      UPDATE commissions
+      SET clawed_back_amount = v_commission.amount,
+          status = 'rejected',
+          rejection_reason = p_reason
+      WHERE id = v_commission.id;
+
+      INSERT INTO referral_events (event_type, referrer_id, order_id, commission_id, data)
+      VALUES ('commission_rejected', v_commission.referrer_id, p_order_id, v_commission.id,
+        jsonb_build_object(
+          'amount', v_commission.amount - v_commission.clawed_back_amount,
+          'currency', v_commission.currency,
+          'reversed_ratio', v_ratio,
+          'source', p_source,
+          'reason', p_reason
+        ));
+
+      v_count := v_count + 1;
+      CONTINUE;
+    END IF;
+
+    v_target := ROUND(v_commission.amount * v_ratio, 2);
+    v_delta := v_target - v_commission.clawed_back_amount;
+    CONTINUE WHEN v_delta <= 0;
+
+    -- Credited: take the share back out of the available balance
+    UPDATE commissions
+    SET clawed_back_amount = v_target
+    WHERE id = v_commission.id;
+
+    PERFORM post_referral_ledger_entry(
+      v_commission.referrer_id, v_commission.currency, v_delta, 'available', 'earnings',
+      'commission_reversal', v_commission.id, NULL, p_reason
+    );
+
+    IF v_commission.currency = 'USD' THEN
+      UPDATE referral_profiles
+      SET total_earnings_usd = GREATEST(0, COALESCE(total_earnings_usd, 0) - v_delta)
+      WHERE id = v_commission.referrer_id
+      RETURNING current_balance_usd INTO v_balance;
+    ELSE
+      UPDATE referral_profiles
+      SET total_earnings_xaf = GREATEST(0, COALESCE(total_earnings_xaf, 0) - v_delta)
+      WHERE id = v_commission.referrer_id
+      RETURNING current_balance_xaf INTO v_balance;
+    END IF;
+
+    -- Fully reversed approved commissions are no longer earned
+    IF v_ratio >= 1 AND v_commission.status = 'approved' THEN
+      UPDATE commissions
+      SET status = 'rejected', rejection_reason = p_reason
+      WHERE id = v_commission.id;
+    END IF;
+
+    INSERT INTO referral_events (event_type, referrer_id, order_id, commission_id, data)
+    VALUES ('commission_clawed_back', v_commission.referrer_id, p_order_id, v_commission.id,
+      jsonb_build_object(
+        'amount', v_delta,
+        'currency', v_commission.currency,
+        'commission_status', v_commission.status,
+        'balance_after', v_balance,
+        'carried_forward', v_balance < 0,
+        'source', p_source,
+        'reason', p_reason
+      ));
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION clawback_order_commissions IS 'Rejects pending commissions and takes back credited ones in proportion to the reversed share of an order (defaults to its refund_amount)';
+
+REVOKE EXECUTE ON FUNCTION clawback_order_commissions(UUID, TEXT, TEXT, DECIMAL) FROM PUBLIC, anon, authenticated;
+
+-- 2.2 Credit only what is left after clawbacks
+CREATE OR REPLACE FUNCTION referral_ledger_commission_status()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_earned DECIMAL := NEW.amount - COALESCE(NEW.clawed_back_amount, 0);
+  v_outstanding DECIMAL;
+  v_lines INT;
+BEGIN
+  IF NEW.status IN ('approved', 'paid')
+     AND v_earned > 0
+     AND COALESCE(OLD.status, '') NOT IN ('approved', 'paid')
+     AND NOT EXISTS (
+       SELECT 1 FROM referral_ledger
+       WHERE commission_id = NEW.id AND entry_type = 'commission_credit'
+     ) THEN
+    PERFORM post_referral_ledger_entry(
+      NEW.referrer_id, NEW.currency, v_earned, 'earnings', 'available',
+      'commission_credit', NEW.id, NULL, 'Commission approved', NEW.approved_by
+    );
+
+    IF NEW.currency = 'USD' THEN
+      UPDATE referral_profiles
+      SET total_earnings_usd = COALESCE(total_earnings_usd, 0) + v_earned
+      WHERE id = NEW.referrer_id;
+    ELSE
+      UPDATE referral_profiles
+      SET total_earnings_xaf = COALESCE(total_earnings_xaf, 0) + v_earned
+      WHERE id = NEW.referrer_id;
+    END IF;
+
+    INSERT INTO referral_events (event_type, referrer_id, commission_id, data)
+    VALUES ('commission_credited', NEW.referrer_id, NEW.id,
+      jsonb_build_object('amount', v_earned, 'currency', NEW.currency, 'level', NEW.level));
+  END IF;
+
+  IF OLD.status IN ('approved', 'paid') AND NEW.status NOT IN ('approved', 'paid') THEN
+    -- Whatever of the credit hasn't already been reversed
+    SELECT COALESCE(SUM(amount), 0), COUNT(*) INTO v_outstanding, v_lines
+    FROM referral_ledger
+    WHERE commission_id = NEW.id AND account = 'available';
+
+    -- Paid before the ledger existed: the credit is part of the opening balance
+    IF v_lines = 0 AND OLD.status = 'paid' THEN
+      v_outstanding := OLD.amount - COALESCE(OLD.clawed_back_amount, 0);
+    END IF;
+
+    IF v_outstanding > 0 THEN
+      PERFORM post_referral_ledger_entry(
+        NEW.referrer_id, NEW.currency, v_outstanding, 'available', 'earnings',
+        'commission_reversal', NEW.id, NULL,
+        COALESCE(NEW.rejection_reason, 'Commission reversed'), NEW.approved_by
+      );
+
+      IF NEW.currency = 'USD' THEN
+        UPDATE referral_profiles
+        SET total_earnings_usd = GREATEST(0, COALESCE(total_earnings_usd, 0) - v_outstanding)
+        WHERE id = NEW.referrer_id;
+      ELSE
+        UPDATE referral_profiles
+        SET total_earnings_xaf = GREATEST(0, COALESCE(total_earnings_xaf, 0) - v_outstanding)
+        WHERE id = NEW.referrer_id;
+      END IF;
+
+      INSERT INTO referral_events (event_type, referrer_id, commission_id, data)
+      VALUES ('commission_reversed', NEW.referrer_id, NEW.id,
+        jsonb_build_object('amount', v_outstanding, 'currency', NEW.currency, 'reason', NEW.rejection_reason));
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
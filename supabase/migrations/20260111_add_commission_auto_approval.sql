@@ -0,0 +1,50 @@
+-- ============================================
+-- COMMISSION AUTO-APPROVAL
+-- Pending commissions are approved by a scheduled job once
+-- the order has been delivered for the program's hold period
+-- (config.commission_hold_days; absent/null = manual only).
+-- Orders now record when they were delivered.
+-- ============================================
+
+-- ============================================
+-- 1. DELIVERY TIMESTAMP
+-- ============================================
+
+CREATE OR REPLACE FUNCTION set_order_delivered_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IN ('delivered', 'completed') AND NEW.delivered_at IS NULL THEN
+    NEW.delivered_at := NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_set_order_delivered_at ON orders;
+CREATE TRIGGER trigger_set_order_delivered_at
+BEFORE UPDATE OF status ON orders
+FOR EACH ROW
+EXECUTE FUNCTION set_order_delivered_at();
+
+-- Best available timestamp for orders delivered before this migration
+UPDATE orders
+SET delivered_at = updated_at
+WHERE status IN ('delivered', 'completed')
+  AND delivered_at IS NULL;
+
+-- ============================================
+-- 2. PROGRAM CONFIG
+-- ============================================
+
+UPDATE referral_programs
+SET config = COALESCE(config, '{}'::jsonb) || jsonb_build_object('commission_hold_days', 14),
+    updated_at = NOW()
+WHERE NOT (COALESCE(config, '{}'::jsonb) ? 'commission_hold_days');
+
+-- ============================================
+-- 3. INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_commissions_pending
+  ON commissions(created_at)
+  WHERE status = 'pending';
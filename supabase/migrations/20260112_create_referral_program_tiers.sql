@@ -0,0 +1,294 @@
+-- ============================================
+-- PERFORMANCE TIERS
+-- Agents move between per-program tiers (e.g. Bronze/Silver/
+-- Gold) by the number of orders they converted last month.
+-- A tier can override the agent's direct (level 1)
+-- commission rate; deeper levels keep the program level rate.
+-- referral_profiles.tier_level holds the agent's current tier.
+-- ============================================
+
+-- ============================================
+-- 1. TABLES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS referral_program_tiers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  program_id UUID REFERENCES referral_programs(id) ON DELETE CASCADE NOT NULL,
+  tier_level INT NOT NULL CHECK (tier_level > 0),
+  name TEXT NOT NULL,
+
+  -- Converted (level 1) orders in the previous calendar month
+  min_monthly_conversions INT NOT NULL DEFAULT 0 CHECK (min_monthly_conversions >= 0),
+
+  -- NULL = use the program's level 1 rate
+  commission_type TEXT CHECK (commission_type IN ('percentage', 'fixed')),
+  commission_value DECIMAL(10, 2) CHECK (commission_value >= 0),
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE (program_id, tier_level),
+  CHECK ((commission_type IS NULL) = (commission_value IS NULL))
+);
+
+COMMENT ON TABLE referral_program_tiers IS 'Performance tiers per program; tier 1 is the starting tier';
+COMMENT ON COLUMN referral_program_tiers.commission_value IS 'Overrides the level 1 commission for agents in this tier';
+
+COMMENT ON COLUMN referral_profiles.tier_level IS 'Current performance tier (referral_program_tiers.tier_level), re-evaluated monthly';
+
+-- ============================================
+-- 2. FUNCTIONS
+-- ============================================
+
+-- 2.1 Commission calculation with tier overrides
+CREATE OR REPLACE FUNCTION calculate_commissions_v2()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_referee_id UUID;
+  v_referrer_id UUID;
+  v_program_id UUID;
+  v_level INT := 1;
+  v_max_levels INT;
+  v_commission_amount DECIMAL;
+  v_order_amount DECIMAL;
+  v_order_currency TEXT;
+  v_program_config JSONB;
+  v_existing_commission UUID;
+  v_has_rate BOOLEAN;
+  v_rate_type TEXT;
+  v_rate_value DECIMAL;
+  v_tier_level INT;
+  v_tier_name TEXT;
+  v_tier_type TEXT;
+  v_tier_value DECIMAL;
+BEGIN
+  -- Only proceed if payment_status changed to 'paid'
+  IF TG_OP = 'UPDATE' THEN
+    IF OLD.payment_status = 'paid' OR NEW.payment_status != 'paid' THEN
+      RETURN NEW;
+    END IF;
+  ELSIF TG_OP = 'INSERT' THEN
+    IF NEW.payment_status != 'paid' THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  v_referee_id := NEW.customer_id;
+  v_order_amount := COALESCE(NEW.amount_paid, NEW.amount_expected, 0);
+  v_order_currency := COALESCE(NEW.currency, 'USD');
+
+  -- Find active, non-expired referral
+  SELECT r.referrer_id, r.program_id INTO v_referrer_id, v_program_id
+  FROM referrals r
+  WHERE r.referee_id = v_referee_id
+    AND r.status = 'active'
+    AND (r.expires_at IS NULL OR r.expires_at > NOW())
+  LIMIT 1;
+
+  IF v_referrer_id IS NULL THEN
+    RETURN NEW; -- No referral found
+  END IF;
+
+  -- Update referral with conversion data (first purchase)
+  UPDATE referrals
+  SET converted_at = COALESCE(converted_at, NOW()),
+      first_order_id = COALESCE(first_order_id, NEW.id)
+  WHERE referee_id = v_referee_id AND first_order_id IS NULL;
+
+  -- Get Program Config
+  SELECT config INTO v_program_config FROM referral_programs WHERE id = v_program_id;
+  v_max_levels := COALESCE((v_program_config->>'max_levels')::INT, 2);
+
+  -- Loop through levels (with idempotency)
+  WHILE v_referrer_id IS NOT NULL AND v_level <= v_max_levels LOOP
+
+    -- Check idempotency (already processed this order+referrer+level?)
+    SELECT id INTO v_existing_commission
+    FROM commissions
+    WHERE order_id = NEW.id AND referrer_id = v_referrer_id AND level = v_level;
+
+    IF v_existing_commission IS NOT NULL THEN
+      -- Already exists, skip to next level
+      SELECT parent_referrer_id INTO v_referrer_id
+      FROM referral_profiles WHERE id = v_referrer_id;
+      v_level := v_level + 1;
+      CONTINUE;
+    END IF;
+
+    -- Get commission rate for this level
+    SELECT commission_type, commission_value INTO v_rate_type, v_rate_value
+    FROM referral_program_levels
+    WHERE program_id = v_program_id AND level = v_level;
+
+    v_has_rate := FOUND;
+
+    -- The agent's performance tier overrides their direct (level 1) rate
+    v_tier_name := NULL;
+    IF v_level = 1 THEN
+      SELECT t.tier_level, t.name, t.commission_type, t.commission_value
+      INTO v_tier_level, v_tier_name, v_tier_type, v_tier_value
+      FROM referral_profiles rp
+      JOIN referral_program_tiers t
+        ON t.program_id = v_program_id AND t.tier_level = COALESCE(rp.tier_level, 1)
+      WHERE rp.id = v_referrer_id;
+
+      IF v_tier_type IS NOT NULL THEN
+        v_has_rate := TRUE;
+        v_rate_type := v_tier_type;
+        v_rate_value := v_tier_value;
+      END IF;
+    END IF;
+
+    IF v_has_rate THEN
+      -- Calculate Amount
+      IF v_rate_type = 'percentage' THEN
+        v_commission_amount := v_order_amount * (v_rate_value / 100);
+      ELSE
+        v_commission_amount := v_rate_value;
+      END IF;
+
+      -- Round to 2 decimal places
+      v_commission_amount := ROUND(v_commission_amount, 2);
+
+      -- Skip if zero commission
+      IF v_commission_amount > 0 THEN
+        -- Insert Commission with currency
+        INSERT INTO commissions (
+          order_id, referrer_id, level, amount, currency, order_amount,
+          rate_snapshot, rate_type_snapshot, status, metadata
+        ) VALUES (
+          NEW.id, v_referrer_id, v_level, v_commission_amount, v_order_currency, v_order_amount,
+          v_rate_value, v_rate_type, 'pending',
+          CASE WHEN v_tier_name IS NOT NULL
+            THEN jsonb_build_object('tier_level', v_tier_level, 'tier_name', v_tier_name)
+          END
+        );
+
+        -- Log event
+        INSERT INTO referral_events (event_type, referrer_id, order_id, data)
+        VALUES ('commission_created', v_referrer_id, NEW.id,
+          jsonb_build_object(
+            'level', v_level,
+            'amount', v_commission_amount,
+            'currency', v_order_currency,
+            'order_amount', v_order_amount,
+            'commission_type', v_rate_type,
+            'commission_rate', v_rate_value,
+            'tier', v_tier_name
+          ));
+      END IF;
+    END IF;
+
+    -- Get parent for next level
+    SELECT parent_referrer_id INTO v_referrer_id
+    FROM referral_profiles WHERE id = v_referrer_id;
+
+    v_level := v_level + 1;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION calculate_commissions_v2() IS 'Calculate multi-level commissions with currency support, idempotency and tier rate overrides';
+
+-- 2.2 Re-tier every active agent from one month of conversions
+-- Idempotent for a given month: agents already on their tier are untouched.
+CREATE OR REPLACE FUNCTION evaluate_referral_tiers(p_period_start DATE)
+RETURNS TABLE (
+  referrer_id UUID,
+  previous_tier INT,
+  new_tier INT,
+  conversions INT
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_period_end DATE := (p_period_start + INTERVAL '1 month')::DATE;
+BEGIN
+  RETURN QUERY
+  WITH monthly AS (
+    SELECT c.referrer_id, COUNT(DISTINCT c.order_id)::INT AS converted
+    FROM commissions c
+    WHERE c.level = 1
+      AND c.status <> 'rejected'
+      AND c.created_at >= p_period_start
+      AND c.created_at < v_period_end
+    GROUP BY c.referrer_id
+  ),
+  qualified AS (
+    SELECT
+      rp.id,
+      COALESCE(rp.tier_level, 1) AS current_tier,
+      COALESCE(m.converted, 0) AS converted,
+      COALESCE((
+        SELECT MAX(t.tier_level)
+        FROM referral_program_tiers t
+        WHERE t.program_id = rp.program_id
+          AND t.min_monthly_conversions <= COALESCE(m.converted, 0)
+      ), 1) AS qualified_tier
+    FROM referral_profiles rp
+    LEFT JOIN monthly m ON m.referrer_id = rp.id
+    WHERE rp.status = 'active'
+      AND EXISTS (SELECT 1 FROM referral_program_tiers t WHERE t.program_id = rp.program_id)
+  ),
+  changed AS (
+    UPDATE referral_profiles rp
+    SET tier_level = q.qualified_tier, updated_at = NOW()
+    FROM qualified q
+    WHERE rp.id = q.id
+      AND q.qualified_tier <> q.current_tier
+    RETURNING rp.id, q.current_tier, q.qualified_tier, q.converted
+  ),
+  logged AS (
+    INSERT INTO referral_events (event_type, referrer_id, data)
+    SELECT
+      CASE WHEN ch.qualified_tier > ch.current_tier THEN 'tier_promoted' ELSE 'tier_demoted' END,
+      ch.id,
+      jsonb_build_object(
+        'from_tier', ch.current_tier,
+        'to_tier', ch.qualified_tier,
+        'conversions', ch.converted,
+        'period', to_char(p_period_start, 'YYYY-MM')
+      )
+    FROM changed ch
+  )
+  SELECT ch.id, ch.current_tier, ch.qualified_tier, ch.converted FROM changed ch;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION evaluate_referral_tiers IS 'Promotes/demotes active agents by converted orders in the month starting p_period_start';
+
+REVOKE EXECUTE ON FUNCTION evaluate_referral_tiers(DATE) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 3. RLS POLICIES
+-- ============================================
+
+ALTER TABLE referral_program_tiers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view program tiers" ON referral_program_tiers
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage program tiers" ON referral_program_tiers
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.admin_role IS NOT NULL
+    )
+  );
+
+-- ============================================
+-- 4. SEED DEFAULT TIERS
+-- ============================================
+
+INSERT INTO referral_program_tiers (program_id, tier_level, name, min_monthly_conversions, commission_type, commission_value)
+SELECT p.id, t.tier_level, t.name, t.min_monthly_conversions, t.commission_type, t.commission_value
+FROM referral_programs p
+CROSS JOIN (VALUES
+  (1, 'Bronze', 0, NULL, NULL),
+  (2, 'Silver', 5, 'percentage', 12.00),
+  (3, 'Gold', 15, 'percentage', 15.00)
+) AS t(tier_level, name, min_monthly_conversions, commission_type, commission_value)
+WHERE p.slug = 'standard'
+ON CONFLICT (program_id, tier_level) DO NOTHING;
@@ -0,0 +1,279 @@
+-- ============================================
+-- COMMISSION CAPS
+-- Enforces the program's per-agent commission cap:
+--   config.commission_cap_usd / commission_cap_xaf, falling
+--   back to config.commission_cap_per_user (null = no cap)
+--   config.cap_period (else the column): monthly / yearly /
+--   lifetime; 'none' with a cap set means lifetime
+-- Periods are calendar months/years in UTC. Earnings count
+-- every non-rejected commission net of clawbacks, at all
+-- levels. The commission that crosses the cap is truncated
+-- and the cut recorded in its metadata.
+-- ============================================
+
+-- ============================================
+-- 1. FUNCTIONS
+-- ============================================
+
+-- 1.1 An agent's cap, earnings and headroom for the current period
+-- No row when the agent's program has no cap for the currency.
+CREATE OR REPLACE FUNCTION get_referral_cap_status(
+  p_referrer_id UUID,
+  p_currency TEXT,
+  p_at TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS TABLE (
+  cap DECIMAL,
+  cap_period TEXT,
+  period_start TIMESTAMPTZ,
+  period_end TIMESTAMPTZ,
+  earned DECIMAL,
+  remaining DECIMAL
+) AS $$
+DECLARE
+  v_config JSONB;
+  v_column_period TEXT;
+  v_cap_value JSONB;
+  v_cap DECIMAL;
+  v_period TEXT;
+  v_start TIMESTAMPTZ;
+  v_end TIMESTAMPTZ;
+  v_earned DECIMAL;
+BEGIN
+  SELECT p.config, p.cap_period INTO v_config, v_column_period
+  FROM referral_profiles rp
+  JOIN referral_programs p ON p.id = rp.program_id
+  WHERE rp.id = p_referrer_id;
+
+  v_cap_value := COALESCE(
+    NULLIF(v_config->('commission_cap_' || lower(p_currency)), 'null'::jsonb),
+    NULLIF(v_config->'commission_cap_per_user', 'null'::jsonb)
+  );
+
+  -- Ignore anything that isn't a number rather than failing the payment
+  IF v_cap_value IS NULL OR v_cap_value #>> '{}' !~ '^[0-9]+(\.[0-9]+)?$' THEN
+    RETURN;
+  END IF;
+  v_cap := (v_cap_value #>> '{}')::DECIMAL;
+
+  v_period := COALESCE(
+    NULLIF(v_config->>'cap_period', 'none'),
+    NULLIF(v_column_period, 'none'),
+    'lifetime'
+  );
+
+  IF v_period = 'monthly' THEN
+    v_start := date_trunc('month', p_at AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+    v_end := v_start + INTERVAL '1 month';
+  ELSIF v_period = 'yearly' THEN
+    v_start := date_trunc('year', p_at AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+    v_end := v_start + INTERVAL '1 year';
+  END IF;
+
+  SELECT COALESCE(SUM(c.amount - COALESCE(c.clawed_back_amount, 0)), 0) INTO v_earned
+  FROM commissions c
+  WHERE c.referrer_id = p_referrer_id
+    AND c.currency = p_currency
+    AND c.status <> 'rejected'
+    AND (v_start IS NULL OR c.created_at >= v_start)
+    AND (v_end IS NULL OR c.created_at < v_end);
+
+  RETURN QUERY SELECT v_cap, v_period, v_start, v_end, v_earned, GREATEST(0, v_cap - v_earned);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+COMMENT ON FUNCTION get_referral_cap_status IS 'Commission cap, earnings and remaining headroom of an agent for the period containing p_at';
+
+REVOKE EXECUTE ON FUNCTION get_referral_cap_status(UUID, TEXT, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+-- 1.2 Commission calculation with tier overrides and caps
+CREATE OR REPLACE FUNCTION calculate_commissions_v2()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_referee_id UUID;
+  v_referrer_id UUID;
+  v_program_id UUID;
+  v_level INT := 1;
+  v_max_levels INT;
+  v_commission_amount DECIMAL;
+  v_order_amount DECIMAL;
+  v_order_currency TEXT;
+  v_program_config JSONB;
+  v_existing_commission UUID;
+  v_has_rate BOOLEAN;
+  v_rate_type TEXT;
+  v_rate_value DECIMAL;
+  v_tier_level INT;
+  v_tier_name TEXT;
+  v_tier_type TEXT;
+  v_tier_value DECIMAL;
+  v_metadata JSONB;
+  v_cap DECIMAL;
+  v_cap_period TEXT;
+  v_cap_remaining DECIMAL;
+  v_capped_amount DECIMAL;
+BEGIN
+  -- Only proceed if payment_status changed to 'paid'
+  IF TG_OP = 'UPDATE' THEN
+    IF OLD.payment_status = 'paid' OR NEW.payment_status != 'paid' THEN
+      RETURN NEW;
+    END IF;
+  ELSIF TG_OP = 'INSERT' THEN
+    IF NEW.payment_status != 'paid' THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  v_referee_id := NEW.customer_id;
+  v_order_amount := COALESCE(NEW.amount_paid, NEW.amount_expected, 0);
+  v_order_currency := COALESCE(NEW.currency, 'USD');
+
+  -- Find active, non-expired referral
+  SELECT r.referrer_id, r.program_id INTO v_referrer_id, v_program_id
+  FROM referrals r
+  WHERE r.referee_id = v_referee_id
+    AND r.status = 'active'
+    AND (r.expires_at IS NULL OR r.expires_at > NOW())
+  LIMIT 1;
+
+  IF v_referrer_id IS NULL THEN
+    RETURN NEW; -- No referral found
+  END IF;
+
+  -- Update referral with conversion data (first purchase)
+  UPDATE referrals
+  SET converted_at = COALESCE(converted_at, NOW()),
+      first_order_id = COALESCE(first_order_id, NEW.id)
+  WHERE referee_id = v_referee_id AND first_order_id IS NULL;
+
+  -- Get Program Config
+  SELECT config INTO v_program_config FROM referral_programs WHERE id = v_program_id;
+  v_max_levels := COALESCE((v_program_config->>'max_levels')::INT, 2);
+
+  -- Loop through levels (with idempotency)
+  WHILE v_referrer_id IS NOT NULL AND v_level <= v_max_levels LOOP
+
+    -- Check idempotency (already processed this order+referrer+level?)
+    SELECT id INTO v_existing_commission
+    FROM commissions
+    WHERE order_id = NEW.id AND referrer_id = v_referrer_id AND level = v_level;
+
+    IF v_existing_commission IS NOT NULL THEN
+      -- Already exists, skip to next level
+      SELECT parent_referrer_id INTO v_referrer_id
+      FROM referral_profiles WHERE id = v_referrer_id;
+      v_level := v_level + 1;
+      CONTINUE;
+    END IF;
+
+    -- Get commission rate for this level
+    SELECT commission_type, commission_value INTO v_rate_type, v_rate_value
+    FROM referral_program_levels
+    WHERE program_id = v_program_id AND level = v_level;
+
+    v_has_rate := FOUND;
+
+    -- The agent's performance tier overrides their direct (level 1) rate
+    v_tier_name := NULL;
+    IF v_level = 1 THEN
+      SELECT t.tier_level, t.name, t.commission_type, t.commission_value
+      INTO v_tier_level, v_tier_name, v_tier_type, v_tier_value
+      FROM referral_profiles rp
+      JOIN referral_program_tiers t
+        ON t.program_id = v_program_id AND t.tier_level = COALESCE(rp.tier_level, 1)
+      WHERE rp.id = v_referrer_id;
+
+      IF v_tier_type IS NOT NULL THEN
+        v_has_rate := TRUE;
+        v_rate_type := v_tier_type;
+        v_rate_value := v_tier_value;
+      END IF;
+    END IF;
+
+    IF v_has_rate THEN
+      -- Calculate Amount
+      IF v_rate_type = 'percentage' THEN
+        v_commission_amount := v_order_amount * (v_rate_value / 100);
+      ELSE
+        v_commission_amount := v_rate_value;
+      END IF;
+
+      -- Round to 2 decimal places
+      v_commission_amount := ROUND(v_commission_amount, 2);
+
+      v_metadata := CASE WHEN v_tier_name IS NOT NULL
+        THEN jsonb_build_object('tier_level', v_tier_level, 'tier_name', v_tier_name)
+        ELSE '{}'::jsonb
+      END;
+      v_capped_amount := 0;
+
+      -- Truncate at the agent's commission cap for the period
+      IF v_commission_amount > 0 THEN
+        -- Concurrent orders for the same agent must see each other's commissions
+        PERFORM 1 FROM referral_profiles WHERE id = v_referrer_id FOR UPDATE;
+
+        SELECT s.cap, s.cap_period, s.remaining INTO v_cap, v_cap_period, v_cap_remaining
+        FROM get_referral_cap_status(v_referrer_id, v_order_currency) s;
+
+        IF v_cap IS NOT NULL AND v_commission_amount > v_cap_remaining THEN
+          v_capped_amount := v_commission_amount - v_cap_remaining;
+          v_commission_amount := v_cap_remaining;
+          v_metadata := v_metadata || jsonb_build_object(
+            'capped_amount', v_capped_amount,
+            'uncapped_amount', v_commission_amount + v_capped_amount,
+            'cap', v_cap,
+            'cap_period', v_cap_period
+          );
+
+          INSERT INTO referral_events (event_type, referrer_id, order_id, data)
+          VALUES ('commission_capped', v_referrer_id, NEW.id,
+            jsonb_build_object(
+              'level', v_level,
+              'amount', v_commission_amount,
+              'capped_amount', v_capped_amount,
+              'currency', v_order_currency,
+              'cap', v_cap,
+              'cap_period', v_cap_period
+            ));
+        END IF;
+      END IF;
+
+      -- Skip if zero commission (or nothing left under the cap)
+      IF v_commission_amount > 0 THEN
+        -- Insert Commission with currency
+        INSERT INTO commissions (
+          order_id, referrer_id, level, amount, currency, order_amount,
+          rate_snapshot, rate_type_snapshot, status, metadata
+        ) VALUES (
+          NEW.id, v_referrer_id, v_level, v_commission_amount, v_order_currency, v_order_amount,
+          v_rate_value, v_rate_type, 'pending', NULLIF(v_metadata, '{}'::jsonb)
+        );
+
+        -- Log event
+        INSERT INTO referral_events (event_type, referrer_id, order_id, data)
+        VALUES ('commission_created', v_referrer_id, NEW.id,
+          jsonb_build_object(
+            'level', v_level,
+            'amount', v_commission_amount,
+            'currency', v_order_currency,
+            'order_amount', v_order_amount,
+            'commission_type', v_rate_type,
+            'commission_rate', v_rate_value,
+            'tier', v_tier_name,
+            'capped_amount', NULLIF(v_capped_amount, 0)
+          ));
+      END IF;
+    END IF;
+
+    -- Get parent for next level
+    SELECT parent_referrer_id INTO v_referrer_id
+    FROM referral_profiles WHERE id = v_referrer_id;
+
+    v_level := v_level + 1;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION calculate_commissions_v2() IS 'Calculate multi-level commissions with currency support, idempotency, tier rate overrides and commission caps';
@@ -0,0 +1,115 @@
+-- ============================================
+-- REFERRAL TRACKING LINKS
+-- Agents create named short links (/r/<slug>) that land on a
+-- specific occasion or package. Each visit through a link is
+-- logged as a click, and signups remember the link they came
+-- from, so every link has its own clicks -> signups -> orders
+-- funnel.
+-- ============================================
+
+-- ============================================
+-- 1. TABLES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS referral_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  referrer_id UUID REFERENCES referral_profiles(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (name ~ '^[a-z0-9][a-z0-9-]{0,39}$'),
+  slug TEXT NOT NULL UNIQUE CHECK (slug ~ '^[a-zA-Z0-9]{4,16}$'),
+  occasion_slug TEXT REFERENCES config_occasions(slug),
+  package_slug TEXT REFERENCES config_packages(slug),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS referral_clicks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  referrer_id UUID REFERENCES referral_profiles(id) ON DELETE CASCADE NOT NULL,
+  link_id UUID REFERENCES referral_links(id) ON DELETE SET NULL,
+  landing_page TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE referrals
+  ADD COLUMN IF NOT EXISTS link_id UUID REFERENCES referral_links(id) ON DELETE SET NULL;
+
+COMMENT ON TABLE referral_links IS 'Named short tracking links created by agents';
+COMMENT ON COLUMN referral_links.name IS 'Agent-chosen label, e.g. instagram-bio';
+COMMENT ON COLUMN referral_links.slug IS 'Short code used in /r/<slug>';
+COMMENT ON COLUMN referral_links.occasion_slug IS 'Occasion the link lands on (null = home page)';
+COMMENT ON COLUMN referral_links.package_slug IS 'Package preselected on the landing page';
+COMMENT ON TABLE referral_clicks IS 'Visits through referral links';
+COMMENT ON COLUMN referrals.link_id IS 'Tracking link the referee signed up through';
+
+-- ============================================
+-- 2. INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_referral_links_referrer ON referral_links(referrer_id);
+
+-- Names are unique among an agent's active links; archived names can be reused
+CREATE UNIQUE INDEX IF NOT EXISTS idx_referral_links_active_name
+  ON referral_links(referrer_id, name) WHERE is_active;
+CREATE INDEX IF NOT EXISTS idx_referral_clicks_link ON referral_clicks(link_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_referral_clicks_referrer ON referral_clicks(referrer_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_referrals_link ON referrals(link_id) WHERE link_id IS NOT NULL;
+
+-- ============================================
+-- 3. VIEWS
+-- ============================================
+
+-- Orders are the referees' paid orders that earned the agent a direct commission
+-- security_invoker: readers only see the links, referrals and commissions
+-- their own RLS policies allow
+CREATE OR REPLACE VIEW referral_link_funnel
+WITH (security_invoker = true) AS
+SELECT
+  l.id AS link_id,
+  l.referrer_id,
+  (SELECT COUNT(*) FROM referral_clicks c WHERE c.link_id = l.id) AS clicks,
+  (SELECT COUNT(*) FROM referrals r WHERE r.link_id = l.id) AS signups,
+  (
+    SELECT COUNT(DISTINCT cm.order_id)
+    FROM referrals r
+    JOIN orders o ON o.customer_id = r.referee_id
+    JOIN commissions cm ON cm.order_id = o.id
+      AND cm.referrer_id = l.referrer_id
+      AND cm.level = 1
+      AND cm.status <> 'rejected'
+    WHERE r.link_id = l.id
+  ) AS orders
+FROM referral_links l;
+
+COMMENT ON VIEW referral_link_funnel IS 'Clicks, signups and commissioned orders per tracking link';
+
+-- ============================================
+-- 4. RLS POLICIES
+-- ============================================
+
+ALTER TABLE referral_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE referral_clicks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Agents can view own links" ON referral_links
+  FOR SELECT USING (auth.uid() = referrer_id);
+
+CREATE POLICY "Admins can manage links" ON referral_links
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.admin_role IS NOT NULL
+    )
+  );
+
+CREATE POLICY "Agents can view own clicks" ON referral_clicks
+  FOR SELECT USING (auth.uid() = referrer_id);
+
+CREATE POLICY "Admins can view clicks" ON referral_clicks
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.admin_role IS NOT NULL
+    )
+  );
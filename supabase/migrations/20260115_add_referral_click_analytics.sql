@@ -0,0 +1,184 @@
+-- ============================================
+-- REFERRAL CLICK ANALYTICS
+-- Every visit that carries an agent's code (?ref= or a
+-- tracking link) is recorded with its landing page, referrer
+-- host, UTM tags and device class. Clicks are deduplicated
+-- per visitor (evt_vid cookie): one per agent, link and UTC day.
+-- Funnel reports join clicks with signups, first orders and
+-- attributed revenue, per agent or per campaign.
+-- ============================================
+
+-- ============================================
+-- 1. COLUMNS
+-- ============================================
+
+ALTER TABLE referral_clicks
+  ADD COLUMN IF NOT EXISTS visitor_id TEXT,
+  ADD COLUMN IF NOT EXISTS click_date DATE,
+  ADD COLUMN IF NOT EXISTS referrer_host TEXT,
+  ADD COLUMN IF NOT EXISTS utm_source TEXT,
+  ADD COLUMN IF NOT EXISTS utm_medium TEXT,
+  ADD COLUMN IF NOT EXISTS utm_campaign TEXT,
+  ADD COLUMN IF NOT EXISTS utm_content TEXT,
+  ADD COLUMN IF NOT EXISTS utm_term TEXT,
+  ADD COLUMN IF NOT EXISTS device_class TEXT CHECK (device_class IN ('desktop', 'mobile', 'tablet'));
+
+-- Clicks logged before visitors were tracked count once each
+UPDATE referral_clicks
+SET visitor_id = COALESCE(visitor_id, id::TEXT),
+    click_date = COALESCE(click_date, (created_at AT TIME ZONE 'UTC')::DATE)
+WHERE visitor_id IS NULL OR click_date IS NULL;
+
+ALTER TABLE referral_clicks
+  ALTER COLUMN visitor_id SET NOT NULL,
+  ALTER COLUMN click_date SET NOT NULL,
+  ALTER COLUMN click_date SET DEFAULT (NOW() AT TIME ZONE 'UTC')::DATE;
+
+COMMENT ON COLUMN referral_clicks.visitor_id IS 'Anonymous visitor id (evt_vid cookie)';
+COMMENT ON COLUMN referral_clicks.click_date IS 'UTC day of the click; clicks are unique per agent, link, visitor and day';
+COMMENT ON COLUMN referral_clicks.referrer_host IS 'Host of the page the visitor came from (null = direct/app)';
+COMMENT ON COLUMN referral_clicks.device_class IS 'desktop, mobile or tablet, from the user agent';
+
+-- ============================================
+-- 2. INDEXES
+-- ============================================
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_referral_clicks_unique_visit
+  ON referral_clicks(referrer_id, link_id, visitor_id, click_date) NULLS NOT DISTINCT;
+
+CREATE INDEX IF NOT EXISTS idx_referral_clicks_campaign ON referral_clicks(utm_campaign, created_at);
+CREATE INDEX IF NOT EXISTS idx_referrals_attributed ON referrals(attributed_at);
+
+-- Codes are issued upper case (EVT-XXXXX) but arrive in any case from links
+CREATE INDEX IF NOT EXISTS idx_referral_profiles_code_lower ON referral_profiles(lower(referral_code));
+
+-- ============================================
+-- 3. FUNCTIONS
+-- ============================================
+
+-- 3.1 Record a click for a referral code
+-- Returns FALSE for unknown/inactive codes and repeat visits.
+CREATE OR REPLACE FUNCTION record_referral_click(
+  p_referral_code TEXT,
+  p_visitor_id TEXT,
+  p_link_id UUID DEFAULT NULL,
+  p_landing_page TEXT DEFAULT NULL,
+  p_referrer_host TEXT DEFAULT NULL,
+  p_utm_source TEXT DEFAULT NULL,
+  p_utm_medium TEXT DEFAULT NULL,
+  p_utm_campaign TEXT DEFAULT NULL,
+  p_utm_content TEXT DEFAULT NULL,
+  p_utm_term TEXT DEFAULT NULL,
+  p_device_class TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_referrer_id UUID;
+  v_inserted INT;
+BEGIN
+  SELECT id INTO v_referrer_id
+  FROM referral_profiles
+  WHERE lower(referral_code) = lower(p_referral_code) AND status = 'active';
+
+  IF v_referrer_id IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  INSERT INTO referral_clicks (
+    referrer_id, link_id, visitor_id, landing_page, referrer_host,
+    utm_source, utm_medium, utm_campaign, utm_content, utm_term, device_class
+  ) VALUES (
+    v_referrer_id, p_link_id, p_visitor_id, p_landing_page, p_referrer_host,
+    p_utm_source, p_utm_medium, p_utm_campaign, p_utm_content, p_utm_term, p_device_class
+  )
+  ON CONFLICT (referrer_id, link_id, visitor_id, click_date) DO NOTHING;
+
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+  RETURN v_inserted > 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION record_referral_click IS 'Logs a deduplicated visit carrying an agent''s referral code';
+
+REVOKE EXECUTE ON FUNCTION record_referral_click(TEXT, TEXT, UUID, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- 3.2 Funnel between p_from and p_to, per agent or per campaign
+-- Clicks, signups and first orders are counted when they happened;
+-- revenue is the order value behind direct (level 1) commissions.
+-- Per campaign, referrer_id is null unless p_referrer_id is given.
+CREATE OR REPLACE FUNCTION get_referral_funnel(
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_group_by TEXT DEFAULT 'agent',
+  p_referrer_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  referrer_id UUID,
+  campaign TEXT,
+  clicks BIGINT,
+  signups BIGINT,
+  first_orders BIGINT,
+  revenue_usd DECIMAL,
+  revenue_xaf DECIMAL
+) AS $$
+#variable_conflict use_column
+BEGIN
+  IF p_group_by NOT IN ('agent', 'campaign') THEN
+    RAISE EXCEPTION 'Unknown funnel grouping: %', p_group_by;
+  END IF;
+
+  RETURN QUERY
+  WITH facts AS (
+    SELECT
+      rc.referrer_id,
+      rc.utm_campaign AS campaign,
+      1 AS clicks, 0 AS signups, 0 AS first_orders,
+      0::DECIMAL AS revenue_usd, 0::DECIMAL AS revenue_xaf
+    FROM referral_clicks rc
+    WHERE rc.created_at >= p_from AND rc.created_at < p_to
+
+    UNION ALL
+
+    SELECT
+      r.referrer_id,
+      r.utm_campaign,
+      0,
+      CASE WHEN r.attributed_at >= p_from AND r.attributed_at < p_to THEN 1 ELSE 0 END,
+      CASE WHEN r.converted_at >= p_from AND r.converted_at < p_to THEN 1 ELSE 0 END,
+      0, 0
+    FROM referrals r
+    WHERE (r.attributed_at >= p_from AND r.attributed_at < p_to)
+       OR (r.converted_at >= p_from AND r.converted_at < p_to)
+
+    UNION ALL
+
+    SELECT
+      cm.referrer_id,
+      r.utm_campaign,
+      0, 0, 0,
+      CASE WHEN cm.currency = 'USD' THEN cm.order_amount ELSE 0 END,
+      CASE WHEN cm.currency = 'XAF' THEN cm.order_amount ELSE 0 END
+    FROM commissions cm
+    JOIN orders o ON o.id = cm.order_id
+    LEFT JOIN referrals r ON r.referee_id = o.customer_id AND r.referrer_id = cm.referrer_id
+    WHERE cm.level = 1
+      AND cm.status <> 'rejected'
+      AND cm.created_at >= p_from AND cm.created_at < p_to
+  )
+  SELECT
+    CASE WHEN p_group_by = 'agent' OR p_referrer_id IS NOT NULL THEN f.referrer_id END,
+    CASE WHEN p_group_by = 'campaign' THEN COALESCE(f.campaign, '(none)') END,
+    SUM(f.clicks)::BIGINT,
+    SUM(f.signups)::BIGINT,
+    SUM(f.first_orders)::BIGINT,
+    SUM(f.revenue_usd),
+    SUM(f.revenue_xaf)
+  FROM facts f
+  WHERE p_referrer_id IS NULL OR f.referrer_id = p_referrer_id
+  GROUP BY 1, 2;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+COMMENT ON FUNCTION get_referral_funnel IS 'Clicks, signups, first orders and attributed revenue per agent or per campaign';
+
+REVOKE EXECUTE ON FUNCTION get_referral_funnel(TIMESTAMPTZ, TIMESTAMPTZ, TEXT, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,215 @@
+-- ============================================
+-- ORDER DISPUTES
+-- Stripe disputes (chargebacks) against order payments.
+-- While a dispute is open the order's payment_status is
+-- 'disputed', delivery and downloads are frozen and the
+-- order's commissions are held:
+--   pending  - flagged; auto-approval skips them
+--   approved - the unspent credit moves available -> held
+-- When the last open dispute closes, the outcome comes from
+-- every dispute closed since the freeze began: if none were
+-- lost the payment status is restored and the commissions
+-- released; otherwise the lost amount is recorded like a
+-- refund and the reversed share is clawed back.
+-- ============================================
+
+-- ============================================
+-- 1. TYPES & COLUMNS
+-- ============================================
+
+ALTER TYPE payment_status ADD VALUE IF NOT EXISTS 'disputed';
+
+ALTER TABLE commissions
+  ADD COLUMN IF NOT EXISTS held_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS hold_reason TEXT,
+  ADD COLUMN IF NOT EXISTS held_amount DECIMAL(10, 2) NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN commissions.held_at IS 'Set while the order has an open payment dispute';
+COMMENT ON COLUMN commissions.held_amount IS 'Credit moved from available to held for the dispute (approved commissions)';
+
+ALTER TABLE referral_ledger DROP CONSTRAINT IF EXISTS referral_ledger_entry_type_check;
+ALTER TABLE referral_ledger ADD CONSTRAINT referral_ledger_entry_type_check CHECK (entry_type IN (
+  'opening_balance',
+  'commission_credit',
+  'commission_reversal',
+  'commission_hold',
+  'commission_release',
+  'payout_hold',
+  'payout_release',
+  'payout_debit'
+));
+
+-- ============================================
+-- 2. TABLES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS order_disputes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID REFERENCES orders(id) ON DELETE CASCADE NOT NULL,
+  provider TEXT NOT NULL DEFAULT 'stripe',
+  provider_dispute_id TEXT NOT NULL,
+  charge_reference TEXT,
+  amount DECIMAL(10, 2) NOT NULL,
+  currency TEXT NOT NULL,
+  reason TEXT,
+  status TEXT NOT NULL,
+  evidence_due_by TIMESTAMPTZ,
+  previous_payment_status TEXT,
+  outcome TEXT CHECK (outcome IN ('won', 'lost')),
+  opened_at TIMESTAMPTZ DEFAULT NOW(),
+  closed_at TIMESTAMPTZ,
+  settled_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE (provider, provider_dispute_id)
+);
+
+COMMENT ON TABLE order_disputes IS 'Payment disputes (chargebacks) opened against orders';
+COMMENT ON COLUMN order_disputes.status IS 'Provider dispute status, e.g. needs_response, under_review, won, lost';
+COMMENT ON COLUMN order_disputes.previous_payment_status IS 'Order payment_status before the dispute, restored when it is won';
+COMMENT ON COLUMN order_disputes.closed_at IS 'NULL while the dispute is open';
+COMMENT ON COLUMN order_disputes.settled_at IS 'When the outcome was applied to the order, once no dispute on it is open';
+
+-- ============================================
+-- 3. INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_order_disputes_order ON order_disputes(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_disputes_open ON order_disputes(order_id) WHERE closed_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_commissions_held ON commissions(order_id) WHERE held_at IS NOT NULL;
+
+-- ============================================
+-- 4. FUNCTIONS
+-- ============================================
+
+-- 4.1 Hold an order's commissions
+-- Only what is still in the agent's available balance can be held.
+CREATE OR REPLACE FUNCTION hold_order_commissions(
+  p_order_id UUID,
+  p_reason TEXT
+)
+RETURNS INT AS $$
+DECLARE
+  v_commission RECORD;
+  v_outstanding DECIMAL;
+  v_available DECIMAL;
+  v_amount DECIMAL;
+  v_count INT := 0;
+BEGIN
+  FOR v_commission IN
+    SELECT * FROM commissions
+    WHERE order_id = p_order_id
+      AND status IN ('pending', 'approved')
+      AND held_at IS NULL
+    ORDER BY level
+    FOR UPDATE
+  LOOP
+    v_amount := 0;
+
+    IF v_commission.status = 'approved' THEN
+      SELECT COALESCE(SUM(amount), 0) INTO v_outstanding
+      FROM referral_ledger
+      WHERE commission_id = v_commission.id AND account = 'available';
+
+      SELECT CASE WHEN v_commission.currency = 'USD' THEN current_balance_usd ELSE current_balance_xaf END
+      INTO v_available
+      FROM referral_profiles
+      WHERE id = v_commission.referrer_id
+      FOR UPDATE;
+
+      v_amount := LEAST(v_outstanding, GREATEST(COALESCE(v_available, 0), 0));
+
+      IF v_amount > 0 THEN
+        PERFORM post_referral_ledger_entry(
+          v_commission.referrer_id, v_commission.currency, v_amount, 'available', 'held',
+          'commission_hold', v_commission.id, NULL, p_reason
+        );
+      ELSE
+        v_amount := 0;
+      END IF;
+    END IF;
+
+    UPDATE commissions
+    SET held_at = NOW(), hold_reason = p_reason, held_amount = v_amount
+    WHERE id = v_commission.id;
+
+    INSERT INTO referral_events (event_type, referrer_id, order_id, commission_id, data)
+    VALUES ('commission_held', v_commission.referrer_id, p_order_id, v_commission.id,
+      jsonb_build_object(
+        'amount', v_amount,
+        'currency', v_commission.currency,
+        'commission_status', v_commission.status,
+        'reason', p_reason
+      ));
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION hold_order_commissions IS 'Holds an order''s pending/approved commissions while its payment is disputed';
+
+REVOKE EXECUTE ON FUNCTION hold_order_commissions(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- 4.2 Release held commissions back to the agent
+CREATE OR REPLACE FUNCTION release_order_commissions(
+  p_order_id UUID,
+  p_reason TEXT
+)
+RETURNS INT AS $$
+DECLARE
+  v_commission RECORD;
+  v_count INT := 0;
+BEGIN
+  FOR v_commission IN
+    SELECT * FROM commissions
+    WHERE order_id = p_order_id AND held_at IS NOT NULL
+    ORDER BY level
+    FOR UPDATE
+  LOOP
+    IF v_commission.held_amount > 0 THEN
+      PERFORM post_referral_ledger_entry(
+        v_commission.referrer_id, v_commission.currency, v_commission.held_amount, 'held', 'available',
+        'commission_release', v_commission.id, NULL, p_reason
+      );
+    END IF;
+
+    UPDATE commissions
+    SET held_at = NULL, hold_reason = NULL, held_amount = 0
+    WHERE id = v_commission.id;
+
+    INSERT INTO referral_events (event_type, referrer_id, order_id, commission_id, data)
+    VALUES ('commission_released', v_commission.referrer_id, p_order_id, v_commission.id,
+      jsonb_build_object(
+        'amount', v_commission.held_amount,
+        'currency', v_commission.currency,
+        'reason', p_reason
+      ));
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION release_order_commissions IS 'Releases commissions held for a payment dispute';
+
+REVOKE EXECUTE ON FUNCTION release_order_commissions(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 5. RLS POLICIES
+-- ============================================
+
+ALTER TABLE order_disputes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view order disputes" ON order_disputes
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.admin_role IS NOT NULL
+    )
+  );
@@ -0,0 +1,101 @@
+-- ============================================
+-- NOTIFICATION QUEUE WORKER
+-- Every outbound email and SMS is written to notification_queue
+-- and delivered by the process-notifications cron worker:
+--   pending    - waiting for its first attempt
+--   processing - claimed by a worker
+--   sent       - delivered to the provider
+--   failed     - last attempt failed, retried at next_attempt_at
+--   dead_letter - max_attempts reached; resent manually by an admin
+-- ============================================
+
+-- ============================================
+-- 1. TYPES & COLUMNS
+-- ============================================
+
+ALTER TYPE notification_status ADD VALUE IF NOT EXISTS 'processing';
+ALTER TYPE notification_status ADD VALUE IF NOT EXISTS 'dead_letter';
+
+-- SMS rows have no email address
+ALTER TABLE notification_queue ALTER COLUMN recipient_email DROP NOT NULL;
+
+ALTER TABLE notification_queue
+  ADD COLUMN IF NOT EXISTS order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS max_attempts INT NOT NULL DEFAULT 8,
+  ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS locked_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_attempt_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS provider_message_id TEXT,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+COMMENT ON COLUMN notification_queue.body IS 'Rendered HTML (email) or text (SMS)';
+COMMENT ON COLUMN notification_queue.template_data IS 'Email extras: plain-text part, tags, reply-to';
+COMMENT ON COLUMN notification_queue.retry_count IS 'Delivery attempts made so far';
+COMMENT ON COLUMN notification_queue.next_attempt_at IS 'Earliest time the worker may (re)try, with exponential backoff';
+COMMENT ON COLUMN notification_queue.locked_at IS 'Set while a worker holds the row';
+
+-- ============================================
+-- 2. INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_notifications_due ON notification_queue(channel, next_attempt_at)
+  WHERE sent_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_notifications_status ON notification_queue(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_order ON notification_queue(order_id);
+
+-- ============================================
+-- 3. FUNCTIONS
+-- ============================================
+
+-- Claim due notifications of one channel for delivery.
+-- Rows stuck in 'processing' longer than p_stale_after_seconds
+-- (worker died mid-send) count the lost send as an attempt and are
+-- claimed again, or dead-lettered once that was their last attempt,
+-- so a message that keeps killing the worker cannot loop forever.
+CREATE OR REPLACE FUNCTION claim_notifications(
+  p_channel notification_channel,
+  p_limit INT,
+  p_stale_after_seconds INT DEFAULT 300
+)
+RETURNS SETOF notification_queue AS $$
+BEGIN
+  UPDATE notification_queue
+  SET status = 'dead_letter',
+      retry_count = retry_count + 1,
+      error_message = 'Worker stopped mid-send on the last attempt',
+      locked_at = NULL,
+      updated_at = NOW()
+  WHERE channel = p_channel
+    AND sent_at IS NULL
+    AND status = 'processing'
+    AND locked_at < NOW() - make_interval(secs => p_stale_after_seconds)
+    AND retry_count + 1 >= max_attempts;
+
+  RETURN QUERY
+  UPDATE notification_queue q
+  SET status = 'processing',
+      retry_count = CASE WHEN q.status = 'processing' THEN q.retry_count + 1 ELSE q.retry_count END,
+      locked_at = NOW(),
+      updated_at = NOW()
+  WHERE q.id IN (
+    SELECT n.id FROM notification_queue n
+    WHERE n.channel = p_channel
+      AND n.sent_at IS NULL
+      AND (
+        (n.status IN ('pending', 'failed') AND n.next_attempt_at <= NOW())
+        OR (
+          n.status = 'processing'
+          AND n.locked_at < NOW() - make_interval(secs => p_stale_after_seconds)
+        )
+      )
+    ORDER BY n.next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING q.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION claim_notifications IS 'Atomically claims due notifications of a channel for the queue worker';
+
+REVOKE EXECUTE ON FUNCTION claim_notifications(notification_channel, INT, INT) FROM PUBLIC, anon, authenticated;
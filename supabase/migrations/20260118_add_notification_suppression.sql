@@ -0,0 +1,22 @@
+-- ============================================
+-- NOTIFICATION SUPPRESSION
+-- Notifications blocked by the recipient's preferences are
+-- still written to notification_queue, as 'suppressed' with
+-- the reason, so every decision can be audited.
+--   category: required | transactional | marketing | internal
+-- ============================================
+
+-- ============================================
+-- 1. TYPES & COLUMNS
+-- ============================================
+
+ALTER TYPE notification_status ADD VALUE IF NOT EXISTS 'suppressed';
+
+ALTER TABLE notification_queue
+  ADD COLUMN IF NOT EXISTS category TEXT NOT NULL DEFAULT 'transactional'
+    CHECK (category IN ('required', 'transactional', 'marketing', 'internal')),
+  ADD COLUMN IF NOT EXISTS suppressed_reason TEXT;
+
+COMMENT ON COLUMN notification_queue.category IS 'required = receipts (always emailed), marketing needs marketing_consent, internal = staff alerts';
+COMMENT ON COLUMN notification_queue.suppressed_reason IS 'Why the notification was not sent: channel_disabled, channel_opt_out, no_marketing_consent, account_deleted';
+COMMENT ON COLUMN profiles.notification_preferences IS 'Per-channel opt-in for non-required notifications, e.g. {"email": true, "sms": false}';
@@ -0,0 +1,23 @@
+-- ============================================
+-- WHATSAPP NOTIFICATIONS
+-- Customers opt in per channel in notification_preferences
+-- ("whatsapp": true). A WhatsApp message that fails is
+-- re-queued as an SMS when the customer accepts SMS; the
+-- WhatsApp row is then marked 'fallback' and points at it.
+-- ============================================
+
+-- ============================================
+-- 1. TYPES & COLUMNS
+-- ============================================
+
+ALTER TYPE notification_status ADD VALUE IF NOT EXISTS 'fallback';
+
+ALTER TABLE notification_queue
+  ADD COLUMN IF NOT EXISTS fallback_id UUID REFERENCES notification_queue(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN notification_queue.fallback_id IS 'SMS queued after this WhatsApp message failed';
+
+ALTER TABLE profiles
+  ALTER COLUMN notification_preferences SET DEFAULT '{"email": true, "sms": false, "whatsapp": false}';
+
+COMMENT ON COLUMN profiles.notification_preferences IS 'Per-channel opt-in for non-required notifications, e.g. {"email": true, "sms": false, "whatsapp": false}';
@@ -0,0 +1,124 @@
+-- ============================================
+-- CONTENT TRANSLATIONS
+-- Config content keeps English in its regular columns and other
+-- locales in a translations column, keyed by locale then field:
+--   {"fr": {"name": "Mariage", "tagline": "..."}}
+-- Missing locales or fields fall back to English. Questionnaire
+-- option labels are translated under "option.<value>" keys.
+-- profiles.preferred_language ('en' | 'fr') picks the language of
+-- customer emails, SMS and WhatsApp messages.
+-- ============================================
+
+-- ============================================
+-- 1. COLUMNS
+-- ============================================
+
+ALTER TABLE config_packages ADD COLUMN IF NOT EXISTS translations JSONB NOT NULL DEFAULT '{}';
+ALTER TABLE config_occasions ADD COLUMN IF NOT EXISTS translations JSONB NOT NULL DEFAULT '{}';
+ALTER TABLE config_samples ADD COLUMN IF NOT EXISTS translations JSONB NOT NULL DEFAULT '{}';
+ALTER TABLE config_testimonials ADD COLUMN IF NOT EXISTS translations JSONB NOT NULL DEFAULT '{}';
+ALTER TABLE config_questionnaire_fields ADD COLUMN IF NOT EXISTS translations JSONB NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN config_packages.translations IS 'Per-locale overrides of name/description, e.g. {"fr": {"name": "..."}}';
+COMMENT ON COLUMN config_occasions.translations IS 'Per-locale overrides of name/description/tagline/meta_title/meta_description';
+COMMENT ON COLUMN config_samples.translations IS 'Per-locale overrides of title/description/genre';
+COMMENT ON COLUMN config_testimonials.translations IS 'Per-locale overrides of quote/customer_location';
+COMMENT ON COLUMN config_questionnaire_fields.translations IS 'Per-locale overrides of field_label/placeholder/help_text, plus option labels as "option.<value>"';
+
+-- Unknown values would silently fall back to English
+UPDATE profiles SET preferred_language = 'en'
+  WHERE preferred_language IS NULL OR preferred_language NOT IN ('en', 'fr');
+
+ALTER TABLE profiles ALTER COLUMN preferred_language SET NOT NULL;
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_preferred_language_check;
+ALTER TABLE profiles ADD CONSTRAINT profiles_preferred_language_check
+  CHECK (preferred_language IN ('en', 'fr'));
+
+COMMENT ON COLUMN profiles.preferred_language IS 'Language of the site and of customer notifications: en | fr';
+
+-- ============================================
+-- 2. FRENCH COPY FOR SEEDED CONTENT
+-- ============================================
+
+UPDATE config_occasions SET translations = jsonb_build_object('fr', t.fr)
+FROM (VALUES
+  ('wedding', '{"name": "Mariage", "description": "Des chansons de mariage personnalisées pour votre grand jour", "tagline": "La première danse qu''ils n''oublieront jamais", "meta_title": "Chansons de mariage personnalisées | Eventune Studios", "meta_description": "Créez une chanson de mariage personnalisée pour votre première danse, votre cérémonie ou votre fête."}'::jsonb),
+  ('birthday', '{"name": "Anniversaire", "description": "Des chansons d''anniversaire personnalisées pour tous les âges", "tagline": "Un cadeau qui chante son histoire", "meta_title": "Chansons d''anniversaire personnalisées | Eventune Studios", "meta_description": "Offrez une chanson d''anniversaire personnalisée qui célèbre son histoire unique."}'::jsonb),
+  ('anniversary', '{"name": "Anniversaire de mariage", "description": "Célébrez votre parcours en chanson", "tagline": "Votre histoire d''amour en chanson", "meta_title": "Chansons d''anniversaire de mariage | Eventune Studios", "meta_description": "Marquez votre anniversaire de mariage avec une chanson qui raconte votre histoire d''amour."}'::jsonb),
+  ('graduation', '{"name": "Remise de diplôme", "description": "Honorez sa réussite en musique", "tagline": "Une étape en musique", "meta_title": "Chansons de remise de diplôme | Eventune Studios", "meta_description": "Célébrez un diplôme avec une chanson personnalisée qui honore sa réussite."}'::jsonb),
+  ('memorial', '{"name": "Hommage", "description": "Honorez vos proches disparus en chanson", "tagline": "Pour toujours en chanson", "meta_title": "Chansons d''hommage personnalisées | Eventune Studios", "meta_description": "Créez une chanson d''hommage pour honorer et vous souvenir d''un être cher."}'::jsonb),
+  ('corporate', '{"name": "Entreprise", "description": "De la musique sur mesure pour vos événements professionnels", "tagline": "Votre marque, votre son", "meta_title": "Chansons d''entreprise personnalisées | Eventune Studios", "meta_description": "Des chansons professionnelles pour vos événements d''entreprise, départs à la retraite et célébrations d''équipe."}'::jsonb),
+  ('other', '{"name": "Autre", "description": "Des chansons personnalisées pour toutes les occasions", "tagline": "Votre histoire, votre chanson", "meta_title": "Chansons personnalisées pour toutes les occasions | Eventune Studios", "meta_description": "Quelle que soit l''occasion, nous créons une chanson rien que pour vous."}'::jsonb)
+) AS t(slug, fr)
+WHERE config_occasions.slug = t.slug
+  AND NOT config_occasions.translations ? 'fr';
+
+UPDATE config_packages SET translations = jsonb_build_object('fr', t.fr)
+FROM (VALUES
+  ('quick-tune', '{"description": "Idéal pour les jingles, intros et clips pour les réseaux sociaux"}'::jsonb),
+  ('single', '{"description": "Notre option la plus populaire : une chanson complète pour toutes les occasions"}'::jsonb),
+  ('extended', '{"name": "Étendue", "description": "Plus de temps pour raconter votre histoire, avec des couplets et des détails en plus"}'::jsonb),
+  ('epic', '{"name": "Épique", "description": "L''expérience ultime de la chanson personnalisée, avec une production complète"}'::jsonb)
+) AS t(slug, fr)
+WHERE config_packages.slug = t.slug
+  AND NOT config_packages.translations ? 'fr';
+
+-- Common fields have no occasion, so match on IS NOT DISTINCT FROM
+UPDATE config_questionnaire_fields SET translations = jsonb_build_object('fr', t.fr)
+FROM (VALUES
+  (NULL::text, 'recipient_name', '{"field_label": "Pour qui est cette chanson ?", "placeholder": "ex. : Sarah, Maman, Jean & Marie", "help_text": "La ou les personnes célébrées par cette chanson"}'::jsonb),
+  (NULL, 'recipient_relationship', '{"field_label": "Votre lien avec cette personne", "placeholder": "Choisissez un lien", "option.spouse": "Conjoint / Partenaire", "option.parent": "Parent", "option.child": "Enfant", "option.sibling": "Frère / Sœur", "option.friend": "Ami(e)", "option.grandparent": "Grand-parent", "option.other_family": "Autre membre de la famille", "option.colleague": "Collègue", "option.other": "Autre"}'::jsonb),
+  (NULL, 'occasion_date', '{"field_label": "Quand a lieu l''événement ?", "help_text": "Cela nous aide à prioriser la livraison"}'::jsonb),
+  (NULL, 'story', '{"field_label": "Racontez-nous votre histoire", "placeholder": "Partagez les souvenirs, les moments et les émotions à capturer dans la chanson. Ajoutez des détails précis, des blagues entre vous, des lieux marquants ou des phrases qui comptent pour vous deux...", "help_text": "C''est le cœur de votre chanson. Plus il y a de détails, mieux c''est !"}'::jsonb),
+  (NULL, 'genre', '{"field_label": "Genre / style préféré", "placeholder": "Laissez nos artistes choisir", "option.acoustic": "Acoustique", "option.classical": "Classique"}'::jsonb),
+  (NULL, 'moods', '{"field_label": "Ambiance / émotion", "help_text": "Sélectionnez tout ce qui s''applique", "option.romantic": "Romantique", "option.upbeat": "Entraînante", "option.emotional": "Émouvante", "option.celebratory": "Festive", "option.nostalgic": "Nostalgique", "option.inspirational": "Inspirante", "option.fun": "Amusante et légère", "option.heartfelt": "Sincère"}'::jsonb),
+  (NULL, 'special_requests', '{"field_label": "Des demandes particulières ?", "placeholder": "Des chansons de référence, des paroles à inclure ou tout autre détail utile..."}'::jsonb),
+  ('wedding', 'how_you_met', '{"field_label": "Comment vous êtes-vous rencontrés ?", "placeholder": "Racontez-nous comment vous avez rencontré votre partenaire...", "help_text": "Nous adorons les détails : où, quand, votre première impression ?"}'::jsonb),
+  ('wedding', 'proposal_story', '{"field_label": "Racontez-nous votre demande en mariage", "placeholder": "Le cas échéant, partagez l''histoire de votre demande..."}'::jsonb),
+  ('wedding', 'wedding_venue', '{"field_label": "Lieu du mariage", "placeholder": "ex. : Cérémonie sur la plage, mariage en plein air, église", "help_text": "Cela peut inspirer les images de la chanson"}'::jsonb),
+  ('wedding', 'first_dance', '{"field_label": "Sera-ce la chanson de votre première danse ?", "option.yes": "Oui, ce sera notre première danse", "option.no": "Non, c''est pour un autre moment du mariage", "option.unsure": "Pas encore sûr"}'::jsonb),
+  ('wedding', 'partner_qualities', '{"field_label": "Qu''aimez-vous le plus chez votre partenaire ?", "placeholder": "Son sourire, son rire, ce que vous ressentez à ses côtés...", "help_text": "Ces détails rendent la chanson personnelle"}'::jsonb),
+  ('birthday', 'birthday_age', '{"field_label": "Quel anniversaire fête-t-on ?", "placeholder": "ex. : 30, 50, 80", "help_text": "Facultatif : cela nous aide à personnaliser la chanson"}'::jsonb),
+  ('birthday', 'milestone_type', '{"field_label": "Est-ce un anniversaire marquant ?", "placeholder": "Choisissez le cas échéant", "option.sweet_16": "16 ans", "option.21st": "21 ans", "option.30th": "30 ans", "option.40th": "40 ans", "option.50th": "50 ans", "option.60th": "60 ans", "option.retirement": "Départ à la retraite", "option.other": "Autre étape marquante", "option.none": "Pas un anniversaire marquant"}'::jsonb),
+  ('birthday', 'birthday_theme', '{"field_label": "Un thème de fête ou une passion à intégrer ?", "placeholder": "ex. : Amoureux des voyages, fan de sport, passionné de musique"}'::jsonb),
+  ('birthday', 'favorite_memories', '{"field_label": "Partagez vos plus beaux souvenirs avec cette personne", "placeholder": "Qu''est-ce qui rend ses anniversaires spéciaux ? Des traditions ?"}'::jsonb),
+  ('birthday', 'their_personality', '{"field_label": "Décrivez sa personnalité", "placeholder": "Drôle, aventurière, attentionnée, sage ?", "help_text": "Cela nous aide à capturer son essence"}'::jsonb),
+  ('anniversary', 'years_together', '{"field_label": "Combien d''années fêtez-vous ?", "placeholder": "ex. : 1, 10, 25, 50"}'::jsonb),
+  ('anniversary', 'anniversary_type', '{"field_label": "Type d''anniversaire", "option.wedding": "Anniversaire de mariage", "option.dating": "Anniversaire de rencontre", "option.engagement": "Anniversaire de fiançailles", "option.other": "Autre"}'::jsonb),
+  ('anniversary', 'how_you_met', '{"field_label": "Comment vous êtes-vous rencontrés ?", "placeholder": "Racontez-nous votre première rencontre...", "help_text": "Nous adorons les détails : où, quand, votre première impression ?"}'::jsonb),
+  ('anniversary', 'favorite_trip', '{"field_label": "Des voyages ou aventures préférés ensemble ?", "placeholder": "ex. : Notre lune de miel à Paris, un road trip à travers le pays", "help_text": "Idéal pour ajouter des images personnelles à la chanson"}'::jsonb),
+  ('anniversary', 'challenges_overcome', '{"field_label": "Des épreuves surmontées ensemble ?", "placeholder": "Facultatif : cela peut donner de la profondeur à la chanson", "help_text": "Ces histoires peuvent rendre la chanson plus touchante"}'::jsonb),
+  ('anniversary', 'what_you_love', '{"field_label": "Qu''aimez-vous le plus chez votre partenaire ?", "placeholder": "Ses qualités, ses habitudes, les petites choses..."}'::jsonb),
+  ('graduation', 'graduation_level', '{"field_label": "Quel niveau de diplôme ?", "option.high_school": "Baccalauréat", "option.college": "Licence / Université", "option.masters": "Master", "option.phd": "Doctorat", "option.medical": "Études de médecine", "option.law": "Études de droit", "option.trade": "Formation professionnelle / Certification", "option.other": "Autre"}'::jsonb),
+  ('graduation', 'school_name', '{"field_label": "Nom de l''école ou de l''établissement", "placeholder": "ex. : Université de Yaoundé I, ESSEC", "help_text": "Peut être mentionné dans la chanson si vous le souhaitez"}'::jsonb),
+  ('graduation', 'field_of_study', '{"field_label": "Domaine d''études ou spécialité", "placeholder": "ex. : Informatique, soins infirmiers, droit"}'::jsonb),
+  ('graduation', 'graduate_achievements', '{"field_label": "Réussites marquantes pendant ses études", "placeholder": "Mentions, exploits sportifs, obstacles surmontés..."}'::jsonb),
+  ('graduation', 'future_plans', '{"field_label": "Et après ?", "placeholder": "Ses projets de carrière, ses rêves, sa prochaine aventure...", "help_text": "Nous pouvons y glisser des vœux pour son avenir"}'::jsonb),
+  ('graduation', 'proud_moments', '{"field_label": "De quoi êtes-vous le plus fier chez cette personne ?", "placeholder": "Son travail, son évolution, sa détermination..."}'::jsonb)
+) AS t(occasion_slug, field_name, fr)
+WHERE config_questionnaire_fields.occasion_slug IS NOT DISTINCT FROM t.occasion_slug
+  AND config_questionnaire_fields.field_name = t.field_name
+  AND NOT config_questionnaire_fields.translations ? 'fr';
+
+-- ============================================
+-- 3. FUNCTIONS
+-- ============================================
+
+-- Keep the language the visitor signed up in
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO profiles (id, email, full_name, preferred_language)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    NEW.raw_user_meta_data->>'full_name',
+    CASE
+      WHEN NEW.raw_user_meta_data->>'preferred_language' IN ('en', 'fr')
+        THEN NEW.raw_user_meta_data->>'preferred_language'
+      ELSE 'en'
+    END
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;